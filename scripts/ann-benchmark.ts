@@ -0,0 +1,159 @@
+#!/usr/bin/env npx ts-node
+/**
+ * ANN Benchmark for Peanut-Core
+ *
+ * Fills a throwaway SQLite vector store with clustered synthetic embeddings,
+ * then compares the HNSW index against the exact cosine scan: recall@k and
+ * query latency across several efSearch settings, plus build and reload time.
+ *
+ * Run with: npx ts-node scripts/ann-benchmark.ts [--vectors=20000] [--dims=256] [--k=10] [--queries=100]
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initDb, closeDb, transaction } from '../src/db/connection';
+import { storeEmbedding, exactSearchVectors } from '../src/search/embeddings';
+import {
+  annSearch,
+  configureVectorIndex,
+  saveVectorIndexes,
+  resetVectorIndexes,
+} from '../src/search/ann';
+
+// ============================================================
+// OPTIONS
+// ============================================================
+
+function argValue(name: string, fallback: number): number {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg ? Number(arg.split('=')[1]) : fallback;
+}
+
+const VECTOR_COUNT = argValue('vectors', 20000);
+const DIMENSIONS = argValue('dims', 256);
+const K = argValue('k', 10);
+const QUERY_COUNT = argValue('queries', 100);
+const CLUSTERS = Math.max(1, Math.round(Math.sqrt(VECTOR_COUNT) / 2));
+const EF_VALUES = [16, 32, 64, 128, 256];
+
+// ============================================================
+// SYNTHETIC DATA
+// ============================================================
+
+/**
+ * Gaussian noise via Box-Muller
+ */
+function gaussian(): number {
+  const u = Math.max(Math.random(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+}
+
+/**
+ * Real embeddings cluster by topic; uniform random vectors would make
+ * every neighbour equally far away and flatter the index.
+ */
+function clusteredVector(centroids: number[][]): number[] {
+  const centroid = centroids[Math.floor(Math.random() * centroids.length)]!;
+  return centroid.map(c => c + gaussian() * 0.35);
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] ?? 0;
+}
+
+// ============================================================
+// MAIN
+// ============================================================
+
+async function main(): Promise<void> {
+  console.log('='.repeat(60));
+  console.log('ANN BENCHMARK');
+  console.log('='.repeat(60));
+  console.log(`   Vectors: ${VECTOR_COUNT}  Dimensions: ${DIMENSIONS}  k: ${K}  Queries: ${QUERY_COUNT}`);
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'peanut-ann-'));
+  const indexDir = path.join(workDir, 'vector-index');
+
+  try {
+    initDb(path.join(workDir, 'bench.db'));
+    configureVectorIndex({ indexDir, exactSearchThreshold: 0 });
+
+    // 1. Fill the store
+    const centroids = Array.from({ length: CLUSTERS }, () =>
+      Array.from({ length: DIMENSIONS }, gaussian)
+    );
+
+    let start = Date.now();
+    transaction(() => {
+      for (let i = 0; i < VECTOR_COUNT; i++) {
+        storeEmbedding(`msg-${i}`, 'message', clusteredVector(centroids), 'bench');
+      }
+    });
+    console.log(`\n   Inserted ${VECTOR_COUNT} vectors in ${Date.now() - start}ms`);
+
+    const queries = Array.from({ length: QUERY_COUNT }, () => clusteredVector(centroids));
+
+    // 2. Ground truth from the exact scan
+    start = Date.now();
+    const exactLatencies: number[] = [];
+    const truth = queries.map(q => {
+      const t = performance.now();
+      const ids = new Set(exactSearchVectors(q, K, 'message').map(r => r.id));
+      exactLatencies.push(performance.now() - t);
+      return ids;
+    });
+    console.log(`   Exact scan: p50 ${percentile(exactLatencies, 0.5).toFixed(2)}ms, p95 ${percentile(exactLatencies, 0.95).toFixed(2)}ms`);
+
+    // 3. Build the index (first query triggers it)
+    start = Date.now();
+    annSearch(queries[0]!, K, 'message');
+    console.log(`   Index build: ${Date.now() - start}ms`);
+
+    start = Date.now();
+    saveVectorIndexes();
+    const indexBytes = fs.readdirSync(indexDir)
+      .reduce((sum, f) => sum + fs.statSync(path.join(indexDir, f)).size, 0);
+    console.log(`   Index save: ${Date.now() - start}ms (${(indexBytes / 1024 / 1024).toFixed(1)} MB)`);
+
+    resetVectorIndexes();
+    start = Date.now();
+    annSearch(queries[0]!, K, 'message');
+    console.log(`   Index reload: ${Date.now() - start}ms`);
+
+    // 4. Recall/latency sweep
+    console.log('\n   efSearch   recall@' + K + '   p50 ms   p95 ms   speedup');
+    for (const ef of EF_VALUES) {
+      const latencies: number[] = [];
+      let hits = 0;
+
+      queries.forEach((q, i) => {
+        const t = performance.now();
+        const results = annSearch(q, K, 'message', ef) ?? [];
+        latencies.push(performance.now() - t);
+
+        const expected = truth[i]!;
+        hits += results.filter(r => expected.has(r.id)).length;
+      });
+
+      const recall = hits / (QUERY_COUNT * K);
+      const p50 = percentile(latencies, 0.5);
+      const speedup = percentile(exactLatencies, 0.5) / Math.max(p50, 1e-6);
+      console.log(
+        `   ${String(ef).padStart(8)}   ${recall.toFixed(3).padStart(9)}   ${p50.toFixed(2).padStart(6)}   ${percentile(latencies, 0.95).toFixed(2).padStart(6)}   ${speedup.toFixed(1).padStart(6)}x`
+      );
+    }
+
+    console.log('\n' + '='.repeat(60));
+  } finally {
+    resetVectorIndexes();
+    closeDb();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+main().catch(err => {
+  console.error('❌ Benchmark failed:', err);
+  process.exit(1);
+});
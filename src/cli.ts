@@ -3,6 +3,7 @@
 // Peanut-1 CLI for testing
 
 import PeanutCore from './index';
+import { QuerySyntaxError } from './search/query';
 import * as path from 'path';
 import * as readline from 'readline';
 
@@ -44,6 +45,7 @@ async function main() {
       if (trimmed === 'help') {
         console.log('Commands:');
         console.log('  search <query>     - Search messages');
+        console.log('  search --explain <query> - Search and show how each result was ranked');
         console.log('  find <name>        - Find entities by name');
         console.log('  entity <id>        - Get entity details');
         console.log('  graph <id>         - Get entity graph');
@@ -78,19 +80,49 @@ async function main() {
       }
 
       if (trimmed.startsWith('search ')) {
-        const query = trimmed.substring(7);
+        let query = trimmed.substring(7).trim();
+        const explain = query.startsWith('--explain ');
+        if (explain) query = query.substring('--explain '.length).trim();
         try {
-          const results = await peanut.search(query, { limit: 5 });
+          const results = await peanut.search(query, { limit: 5, explain });
           if (results.length === 0) {
             console.log('No results found.');
           } else {
+            const explanation = results[0]?.explanation;
+            if (explanation) {
+              const { query: parsed, timings } = explanation;
+              console.log(`Parsed query: ${parsed.text || '(no free text)'}`);
+              if (parsed.ast) console.log(`  AST: ${JSON.stringify(parsed.ast)}`);
+              if (parsed.temporal) {
+                const from = parsed.temporal.dateFrom?.toISOString() ?? '-';
+                const to = parsed.temporal.dateTo?.toISOString() ?? '-';
+                console.log(`  Dates: "${parsed.temporal.phrase}" -> ${from} .. ${to}`);
+              }
+              console.log(`  Timing: ${timings.map(t => `${t.leg} ${t.ms.toFixed(1)}ms (${t.resultCount})`).join(', ')}`);
+            }
+
             console.log(`Found ${results.length} results:`);
             for (const result of results) {
               console.log(`  [${result.type}] ${result.id} (score: ${result.score.toFixed(3)})`);
+              for (const leg of result.explanation?.legs ?? []) {
+                console.log(
+                  `      ${leg.leg.padEnd(16)} rank ${String(leg.rank).padStart(3)}  ` +
+                  `raw ${leg.rawScore.toFixed(3).padStart(8)}  rrf +${leg.contribution.toFixed(4)}`
+                );
+              }
+              for (const boost of result.explanation?.boosts ?? []) {
+                console.log(`      ${`boost:${boost.kind}`.padEnd(16)} x${boost.factor.toFixed(3)}`);
+              }
             }
           }
         } catch (error) {
-          console.log('Search error:', (error as Error).message);
+          if (error instanceof QuerySyntaxError) {
+            console.log(`Query error: ${error.message}`);
+            console.log(`  ${query}`);
+            console.log(`  ${' '.repeat(error.error.position)}${'^'.repeat(Math.max(1, error.error.length))}`);
+          } else {
+            console.log('Search error:', (error as Error).message);
+          }
         }
         prompt();
         return;
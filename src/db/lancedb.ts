@@ -4,6 +4,7 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import { v4 as uuid } from 'uuid';
+import type { EmbeddingChunk, VectorStore } from '../search/types';
 
 // LanceDB types (from vectordb package)
 // Note: Install with `npm install vectordb`
@@ -394,3 +395,41 @@ export async function closeLanceDb(): Promise<void> {
   table = null;
   fallbackStore.clear();
 }
+
+/**
+ * LanceDB-backed implementation of the VectorStore interface
+ * Call initLanceDb() before making this the active store.
+ */
+export const lanceVectorStore: VectorStore = {
+  backend: 'lancedb',
+
+  async add(sourceId, sourceType, embedding, options) {
+    return storeEmbedding(sourceId, sourceType, embedding, {
+      metadata: options?.model || options?.chunk
+        ? { model: options.model, chunk: options.chunk }
+        : undefined,
+    });
+  },
+
+  async search(queryEmbedding, limit, filters) {
+    const results = await searchVectors(queryEmbedding, limit, filters);
+    return results.map(r => ({
+      ...r,
+      chunk: r.metadata?.['chunk'] as EmbeddingChunk | undefined,
+    }));
+  },
+
+  async deleteBySource(sourceId) {
+    // LanceDB rows are keyed by source ID only; source IDs are unique across types
+    await deleteEmbeddingsBySource(sourceId);
+  },
+
+  async stats() {
+    const { count, byType, usingFallback } = await getVectorStoreStats();
+    return { backend: usingFallback ? 'lancedb-fallback' : 'lancedb', count, byType };
+  },
+
+  async clear() {
+    await clearAllEmbeddings();
+  },
+};
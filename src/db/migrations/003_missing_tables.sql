@@ -91,10 +91,8 @@ CREATE INDEX IF NOT EXISTS idx_value_conflicts_count ON value_conflicts(occurren
 
 -- Note: schema_version table may not exist yet, so we use INSERT OR IGNORE
 CREATE TABLE IF NOT EXISTS schema_version (
-    id INTEGER PRIMARY KEY DEFAULT 1,
-    version INTEGER NOT NULL,
+    version INTEGER PRIMARY KEY,
     applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
-INSERT OR REPLACE INTO schema_version (id, version, applied_at)
-VALUES (1, 3, CURRENT_TIMESTAMP);
+INSERT OR IGNORE INTO schema_version (version) VALUES (3);
@@ -0,0 +1,24 @@
+-- Migration 004: Entity Merge Journal
+-- Addresses: merges were irreversible (rows rewritten in place, merged entity deleted)
+--
+-- Every merge and split records the entity row it removed or created and the
+-- exact rows it re-pointed, so unmergeEntities can put them back.
+
+-- ============================================================================
+-- MERGE JOURNAL
+-- Used By: entity/merge.ts
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS entity_merge_journal (
+    id TEXT PRIMARY KEY,
+    operation TEXT NOT NULL,            -- 'merge', 'split'
+    keep_entity_id TEXT NOT NULL,       -- Entity that absorbed (or was split from)
+    merged_entity_id TEXT NOT NULL,     -- Entity that was absorbed (or split off)
+    entity_snapshot JSON NOT NULL,      -- The merged entity row as it was
+    changes JSON NOT NULL,              -- Re-pointed row ids and removed rows
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    reverted_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_merge_journal_keep ON entity_merge_journal(keep_entity_id);
+CREATE INDEX IF NOT EXISTS idx_merge_journal_merged ON entity_merge_journal(merged_entity_id);
@@ -0,0 +1,18 @@
+-- Migration 005: Entity Community Membership
+-- Addresses: entity_communities (migration 002) had no way to say which entities belong to a community
+--
+-- Filled by entity/communities.ts. Each entity belongs to at most one community.
+
+-- ============================================================================
+-- COMMUNITY MEMBERSHIP
+-- Used By: entity/communities.ts, search/fusion.ts, synthesis/context.ts
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS entity_community_members (
+    entity_id TEXT PRIMARY KEY REFERENCES entities(id) ON DELETE CASCADE,
+    community_id TEXT NOT NULL REFERENCES entity_communities(id) ON DELETE CASCADE,
+    centrality REAL,                    -- Weighted degree inside the community, 1 = most central
+    assigned_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_members_community ON entity_community_members(community_id);
@@ -0,0 +1,23 @@
+-- Migration 006: Entity Importance
+-- Addresses: no notion of who matters most to the user (a newsletter sender ranked like a spouse)
+--
+-- Filled by entity/importance.ts. Every component is in [0, 1].
+
+-- ============================================================================
+-- ENTITY IMPORTANCE
+-- Used By: entity/importance.ts, entity/resolver.ts, search/fusion.ts
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS entity_importance (
+    entity_id TEXT PRIMARY KEY REFERENCES entities(id) ON DELETE CASCADE,
+    score REAL NOT NULL,                -- Weighted combination of the components below
+    frequency REAL,                     -- Message volume, log-scaled against the busiest contact
+    recency REAL,                       -- Decays with time since the last message
+    reciprocity REAL,                   -- User replies relative to inbound messages
+    centrality REAL,                    -- Personalised PageRank from the user over graph_edges
+    message_count INTEGER DEFAULT 0,
+    last_interaction_at DATETIME,
+    computed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_entity_importance_score ON entity_importance(score DESC);
@@ -0,0 +1,24 @@
+-- Migration 007: Entity Aliases and Handles
+-- Addresses: aliases only existed as 'alias' attributes added by merges, with no source or way to declare them up front
+--
+-- Filled by entity/aliases.ts. A source of '' means the alias applies to every source.
+
+-- ============================================================================
+-- ENTITY ALIASES
+-- Used By: entity/aliases.ts, entity/resolver.ts, entity/merge.ts
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS entity_aliases (
+    id TEXT PRIMARY KEY,
+    entity_id TEXT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+    alias_type TEXT NOT NULL,           -- 'alias' (a name such as Dad or J. Doe) or 'handle' (such as @jdoe)
+    value TEXT NOT NULL,                -- As given
+    normalized_value TEXT NOT NULL,     -- Lookup key (normalizeName for aliases, lowercased without @ for handles)
+    source TEXT NOT NULL DEFAULT '',    -- gmail, imessage, slack, ... or empty for all sources
+    confidence REAL DEFAULT 1.0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(entity_id, alias_type, source, normalized_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entity_aliases_lookup ON entity_aliases(alias_type, normalized_value);
+CREATE INDEX IF NOT EXISTS idx_entity_aliases_entity ON entity_aliases(entity_id);
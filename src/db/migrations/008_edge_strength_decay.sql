@@ -0,0 +1,13 @@
+-- Migration 008: Relationship Strength Decay
+-- Addresses: graph_edges.strength never decays, so stale relationships rank like current ones
+--
+-- Filled by entity/decay.ts. current_strength is strength decayed by the edge type's half-life
+-- since last_evidence_at, as of strength_computed_at.
+
+-- ============================================================================
+-- GRAPH EDGES
+-- Used By: entity/decay.ts, search/graph.ts, personality/extractor.ts
+-- ============================================================================
+
+ALTER TABLE graph_edges ADD COLUMN current_strength REAL;
+ALTER TABLE graph_edges ADD COLUMN strength_computed_at DATETIME;
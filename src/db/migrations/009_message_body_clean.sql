@@ -0,0 +1,67 @@
+-- Migration 009: Cleaned Message Bodies
+-- Addresses: quoted replies, signatures and disclaimers were indexed, embedded and analysed as if the sender wrote them
+--
+-- Filled by ingestion/cleaning.ts for email sources, and for emails stored before this migration by
+-- backfillCleanedBodies() in ingestion/pipeline.ts, which PeanutCore.initialize() runs.
+-- NULL means the message isn't an email, has no text of its own (a bare forward) or isn't backfilled
+-- yet (body_cleaned = 0, from migration 011).
+-- Full-text search now indexes COALESCE(body_clean, body_text) through the messages_search view,
+-- so snippets are cut from the same text that was indexed.
+
+-- ============================================================================
+-- MESSAGES
+-- Used By: ingestion/pipeline.ts, search/embeddings.ts, personality/extractor.ts, extraction/extractor.ts
+-- ============================================================================
+
+ALTER TABLE messages ADD COLUMN body_clean TEXT;
+
+-- ============================================================================
+-- FULL-TEXT SEARCH
+-- Used By: search/fts.ts
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS messages_ai;
+DROP TRIGGER IF EXISTS messages_ad;
+DROP TRIGGER IF EXISTS messages_au;
+DROP TABLE IF EXISTS messages_fts;
+
+CREATE VIEW IF NOT EXISTS messages_search AS
+    SELECT rowid AS message_rowid, subject, COALESCE(body_clean, body_text) AS body_text
+    FROM messages;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+    subject,
+    body_text,
+    content=messages_search,
+    content_rowid=message_rowid
+);
+
+INSERT INTO messages_fts(messages_fts) VALUES('rebuild');
+
+CREATE TRIGGER IF NOT EXISTS messages_ai AFTER INSERT ON messages BEGIN
+    INSERT INTO messages_fts(rowid, subject, body_text)
+    VALUES (NEW.rowid, NEW.subject, COALESCE(NEW.body_clean, NEW.body_text));
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_ad AFTER DELETE ON messages BEGIN
+    INSERT INTO messages_fts(messages_fts, rowid, subject, body_text)
+    VALUES('delete', OLD.rowid, OLD.subject, COALESCE(OLD.body_clean, OLD.body_text));
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_au AFTER UPDATE OF subject, body_text, body_clean ON messages BEGIN
+    INSERT INTO messages_fts(messages_fts, rowid, subject, body_text)
+    VALUES('delete', OLD.rowid, OLD.subject, COALESCE(OLD.body_clean, OLD.body_text));
+    INSERT INTO messages_fts(rowid, subject, body_text)
+    VALUES (NEW.rowid, NEW.subject, COALESCE(NEW.body_clean, NEW.body_text));
+END;
+
+-- ============================================================================
+-- EMBEDDINGS
+-- Used By: search/embeddings.ts
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS messages_embedding_stale;
+
+CREATE TRIGGER IF NOT EXISTS messages_embedding_stale AFTER UPDATE OF subject, body_text, body_clean ON messages BEGIN
+    DELETE FROM embedded_sources WHERE source_type = 'message' AND source_id = NEW.id;
+END;
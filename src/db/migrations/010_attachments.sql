@@ -0,0 +1,68 @@
+-- Migration 010: Attachments
+-- Addresses: messages had no attachments, so files could not be found by name or content
+--
+-- Filled by ingestion/attachments.ts. text is the extracted text of plain text, CSV, Markdown,
+-- HTML and PDF files. extraction_status says why it is missing otherwise.
+
+-- ============================================================================
+-- ATTACHMENTS
+-- Used By: ingestion/attachments.ts, search/fts.ts, search/embeddings.ts, search/fusion.ts
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY,
+    message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    filename TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size INTEGER,                       -- Bytes
+    content_hash TEXT,                  -- SHA-256 hex of the content
+    text TEXT,
+    extraction_status TEXT NOT NULL,    -- 'extracted', 'unsupported', 'too_large', 'no_content' (metadata only), 'failed'
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_message ON attachments(message_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_hash ON attachments(content_hash);
+
+-- ============================================================================
+-- FULL-TEXT SEARCH
+-- Used By: search/fts.ts
+-- ============================================================================
+
+CREATE VIRTUAL TABLE IF NOT EXISTS attachments_fts USING fts5(
+    filename,
+    text,
+    content=attachments,
+    content_rowid=rowid
+);
+
+CREATE TRIGGER IF NOT EXISTS attachments_ai AFTER INSERT ON attachments BEGIN
+    INSERT INTO attachments_fts(rowid, filename, text)
+    VALUES (NEW.rowid, NEW.filename, NEW.text);
+END;
+
+CREATE TRIGGER IF NOT EXISTS attachments_ad AFTER DELETE ON attachments BEGIN
+    INSERT INTO attachments_fts(attachments_fts, rowid, filename, text)
+    VALUES('delete', OLD.rowid, OLD.filename, OLD.text);
+END;
+
+CREATE TRIGGER IF NOT EXISTS attachments_au AFTER UPDATE OF filename, text ON attachments BEGIN
+    INSERT INTO attachments_fts(attachments_fts, rowid, filename, text)
+    VALUES('delete', OLD.rowid, OLD.filename, OLD.text);
+    INSERT INTO attachments_fts(rowid, filename, text)
+    VALUES (NEW.rowid, NEW.filename, NEW.text);
+END;
+
+-- ============================================================================
+-- EMBEDDINGS
+-- Used By: search/embeddings.ts
+-- ============================================================================
+
+CREATE TRIGGER IF NOT EXISTS attachments_embedding_stale AFTER UPDATE OF filename, text ON attachments BEGIN
+    DELETE FROM embedded_sources WHERE source_type = 'attachment' AND source_id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS attachments_embedding_ad AFTER DELETE ON attachments BEGIN
+    DELETE FROM embeddings WHERE source_type = 'attachment' AND source_id = OLD.id;
+    DELETE FROM embedded_sources WHERE source_type = 'attachment' AND source_id = OLD.id;
+END;
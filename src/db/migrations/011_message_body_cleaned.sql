@@ -0,0 +1,17 @@
+-- Migration 011: Cleaned Body Backfill Flag
+-- Addresses: emails whose cleaning leaves no text of their own (bare forwards) keep a NULL body_clean,
+-- so the backfill could not tell them from emails stored before migration 009 and re-cleaned them on every start
+--
+-- Set by ingestion/pipeline.ts once an email's body has been through cleanMessageBody, at ingestion or
+-- by backfillCleanedBodies(). Emails with body_cleaned = 0 are left for the backfill.
+
+-- ============================================================================
+-- MESSAGES
+-- Used By: ingestion/pipeline.ts
+-- ============================================================================
+
+ALTER TABLE messages ADD COLUMN body_cleaned INTEGER DEFAULT 0;
+
+UPDATE messages SET body_cleaned = 1 WHERE body_clean IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_body_uncleaned ON messages(source_type) WHERE body_cleaned = 0;
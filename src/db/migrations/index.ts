@@ -41,6 +41,35 @@ export function getMigrationFiles(): { version: number; path: string }[] {
   return files;
 }
 
+/**
+ * Split a migration into statements, dropping comment lines so a statement
+ * under a section banner isn't mistaken for a comment. A trigger's body
+ * stays whole: its statements end in ';' too, so it runs up to its END.
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let pending = '';
+
+  for (const piece of sql.split(';')) {
+    pending += piece;
+    const statement = pending
+      .split('\n')
+      .filter(line => !line.trim().startsWith('--'))
+      .join('\n')
+      .trim();
+
+    if (/^CREATE\s+(TEMP\s+|TEMPORARY\s+)?TRIGGER\b/i.test(statement) && !/\bEND$/i.test(statement)) {
+      pending += ';';
+      continue;
+    }
+
+    if (statement.length > 0) statements.push(statement);
+    pending = '';
+  }
+
+  return statements;
+}
+
 /**
  * Apply pending migrations to the database
  */
@@ -60,10 +89,7 @@ export function applyMigrations(db: Database.Database): { applied: number[]; err
 
       // Split by statements and execute each one
       // This handles ALTER TABLE failures gracefully (e.g., column already exists)
-      const statements = sql
-        .split(';')
-        .map(s => s.trim())
-        .filter(s => s.length > 0 && !s.startsWith('--'));
+      const statements = splitStatements(sql);
 
       for (const statement of statements) {
         try {
@@ -79,6 +105,9 @@ export function applyMigrations(db: Database.Database): { applied: number[]; err
         }
       }
 
+      // Record the version ourselves; not every migration file does it
+      db.prepare('INSERT OR IGNORE INTO schema_version (version) VALUES (?)').run(migration.version);
+
       applied.push(migration.version);
       console.log(`Applied migration ${migration.version}`);
     } catch (err) {
@@ -79,7 +79,7 @@ CREATE INDEX IF NOT EXISTS idx_edges_type ON graph_edges(edge_type);
 ------------------------------------------------------------
 CREATE TABLE IF NOT EXISTS messages (
     id TEXT PRIMARY KEY,
-    source_type TEXT NOT NULL,  -- 'gmail', 'imessage', 'slack'
+    source_type TEXT NOT NULL,  -- 'gmail', 'imessage', 'slack', 'email', 'whatsapp', 'telegram', 'signal'
     source_id TEXT NOT NULL,    -- Original ID from source
     thread_id TEXT,
     sender_entity_id TEXT REFERENCES entities(id),
@@ -127,6 +127,84 @@ CREATE TRIGGER IF NOT EXISTS messages_au AFTER UPDATE ON messages BEGIN
     VALUES (NEW.rowid, NEW.subject, NEW.body_text);
 END;
 
+------------------------------------------------------------
+-- EMBEDDINGS: Persistent vector store (SQLite backend)
+------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS embeddings (
+    id TEXT PRIMARY KEY,
+    source_type TEXT NOT NULL,  -- 'message', 'assertion', 'entity'
+    source_id TEXT NOT NULL,
+    model TEXT,                 -- Embedding model that produced the vector
+    dimensions INTEGER NOT NULL,
+    vector BLOB NOT NULL,       -- Float32 array
+    chunk_index INTEGER,        -- NULL when the whole source is one vector
+    chunk_start INTEGER,        -- Character offsets of the chunk in the source text
+    chunk_end INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_source ON embeddings(source_type, source_id);
+CREATE INDEX IF NOT EXISTS idx_embeddings_dims ON embeddings(source_type, dimensions);
+
+-- Tracks which sources are embedded, independent of the vector backend
+CREATE TABLE IF NOT EXISTS embedded_sources (
+    source_type TEXT NOT NULL,
+    source_id TEXT NOT NULL,
+    model TEXT,
+    embedded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (source_type, source_id)
+);
+
+-- Edited messages need re-embedding
+CREATE TRIGGER IF NOT EXISTS messages_embedding_stale AFTER UPDATE OF subject, body_text ON messages BEGIN
+    DELETE FROM embedded_sources WHERE source_type = 'message' AND source_id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_embedding_ad AFTER DELETE ON messages BEGIN
+    DELETE FROM embeddings WHERE source_type = 'message' AND source_id = OLD.id;
+    DELETE FROM embedded_sources WHERE source_type = 'message' AND source_id = OLD.id;
+END;
+
+-- Assertion text and entity summaries go stale with the rows they're built from
+CREATE TRIGGER IF NOT EXISTS assertions_embedding_ai AFTER INSERT ON assertions BEGIN
+    DELETE FROM embedded_sources WHERE source_type = 'entity' AND source_id = NEW.subject_entity_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS assertions_embedding_stale AFTER UPDATE OF subject_entity_id, predicate, object_text, object_entity_id ON assertions BEGIN
+    DELETE FROM embedded_sources WHERE source_type = 'assertion' AND source_id = NEW.id;
+    DELETE FROM embedded_sources WHERE source_type = 'entity' AND source_id IN (OLD.subject_entity_id, NEW.subject_entity_id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS assertions_embedding_ad AFTER DELETE ON assertions BEGIN
+    DELETE FROM embeddings WHERE source_type = 'assertion' AND source_id = OLD.id;
+    DELETE FROM embedded_sources WHERE source_type = 'assertion' AND source_id = OLD.id;
+    DELETE FROM embedded_sources WHERE source_type = 'entity' AND source_id = OLD.subject_entity_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS entities_embedding_stale AFTER UPDATE OF canonical_name, entity_type ON entities BEGIN
+    DELETE FROM embedded_sources WHERE source_type = 'entity' AND source_id = NEW.id;
+    DELETE FROM embedded_sources WHERE source_type = 'assertion' AND source_id IN (
+        SELECT id FROM assertions WHERE subject_entity_id = NEW.id OR object_entity_id = NEW.id
+    );
+END;
+
+CREATE TRIGGER IF NOT EXISTS entities_embedding_ad AFTER DELETE ON entities BEGIN
+    DELETE FROM embeddings WHERE source_type = 'entity' AND source_id = OLD.id;
+    DELETE FROM embedded_sources WHERE source_type = 'entity' AND source_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS entity_attributes_embedding_ai AFTER INSERT ON entity_attributes BEGIN
+    DELETE FROM embedded_sources WHERE source_type = 'entity' AND source_id = NEW.entity_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS entity_attributes_embedding_au AFTER UPDATE ON entity_attributes BEGIN
+    DELETE FROM embedded_sources WHERE source_type = 'entity' AND source_id IN (OLD.entity_id, NEW.entity_id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS entity_attributes_embedding_ad AFTER DELETE ON entity_attributes BEGIN
+    DELETE FROM embedded_sources WHERE source_type = 'entity' AND source_id = OLD.entity_id;
+END;
+
 ------------------------------------------------------------
 -- EVENTS: Behavioral signals
 ------------------------------------------------------------
@@ -0,0 +1,177 @@
+// Entity Aliases and Handles
+//
+// Names and account handles an entity goes by, optionally tied to one
+// source: "@jdoe" on Slack, "Dad" in iMessage, "J. Doe" in Gmail. The
+// exact-match stage of resolveEntity consults them before fuzzy matching.
+
+import { v4 as uuidv4 } from 'uuid';
+import { execute, query, queryOne, transaction } from '../db/connection';
+import { normalizeName } from './matcher';
+import type { AliasType, EntityAlias, EntityType } from '../types';
+
+interface AliasRow {
+  id: string;
+  entity_id: string;
+  alias_type: string;
+  value: string;
+  normalized_value: string;
+  source: string;
+  confidence: number | null;
+  created_at: string;
+}
+
+export interface AliasOptions {
+  type?: AliasType;        // Default 'alias'
+  source?: string;         // Default: applies to every source
+  confidence?: number;     // Default 1.0
+}
+
+function rowToAlias(row: AliasRow): EntityAlias {
+  return {
+    id: row.id,
+    entityId: row.entity_id,
+    aliasType: row.alias_type as AliasType,
+    value: row.value,
+    source: row.source || undefined,
+    confidence: row.confidence ?? 1,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Lookup key for an alias or handle ("@JDoe" -> "jdoe", "J. Doe" -> "j doe")
+ */
+export function normalizeAlias(value: string, type: AliasType): string {
+  return type === 'handle'
+    ? value.trim().toLowerCase().replace(/^@+/, '')
+    : normalizeName(value);
+}
+
+// ============================================================
+// MANAGEMENT
+// ============================================================
+
+/**
+ * Add an alias or handle to an entity. Adding one it already has updates
+ * the confidence. Returns null if the entity doesn't exist or the value
+ * is empty.
+ */
+export function addEntityAlias(entityId: string, value: string, options: AliasOptions = {}): EntityAlias | null {
+  const type = options.type ?? 'alias';
+  const normalized = normalizeAlias(value, type);
+  if (!normalized) return null;
+  if (!queryOne('SELECT 1 FROM entities WHERE id = ?', [entityId])) return null;
+
+  const source = options.source?.toLowerCase() ?? '';
+  execute(`
+    INSERT INTO entity_aliases (id, entity_id, alias_type, value, normalized_value, source, confidence)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(entity_id, alias_type, source, normalized_value) DO UPDATE SET
+      value = excluded.value,
+      confidence = excluded.confidence
+  `, [uuidv4(), entityId, type, value.trim(), normalized, source, options.confidence ?? 1.0]);
+
+  const row = queryOne<AliasRow>(`
+    SELECT * FROM entity_aliases
+    WHERE entity_id = ? AND alias_type = ? AND source = ? AND normalized_value = ?
+  `, [entityId, type, source, normalized]);
+  return row ? rowToAlias(row) : null;
+}
+
+/**
+ * Remove an alias or handle by id
+ */
+export function removeEntityAlias(aliasId: string): boolean {
+  return execute('DELETE FROM entity_aliases WHERE id = ?', [aliasId]).changes > 0;
+}
+
+/**
+ * An entity's aliases and handles, optionally of one type or source
+ */
+export function getEntityAliases(
+  entityId: string,
+  filter: { type?: AliasType; source?: string } = {}
+): EntityAlias[] {
+  const conditions = ['entity_id = ?'];
+  const params: unknown[] = [entityId];
+  if (filter.type) {
+    conditions.push('alias_type = ?');
+    params.push(filter.type);
+  }
+  if (filter.source !== undefined) {
+    conditions.push('source = ?');
+    params.push(filter.source.toLowerCase());
+  }
+
+  return query<AliasRow>(`
+    SELECT * FROM entity_aliases WHERE ${conditions.join(' AND ')}
+    ORDER BY alias_type, source, created_at
+  `, params).map(rowToAlias);
+}
+
+/**
+ * Move names recorded as 'alias' attributes (by merges and ingestion before
+ * entity_aliases existed) into entity_aliases, for every source. Returns how
+ * many were moved; once moved they're gone from entity_attributes, so later
+ * runs find nothing to do.
+ */
+export function migrateLegacyAliases(): number {
+  const legacy = query<{ id: string; entity_id: string; attribute_value: string }>(`
+    SELECT id, entity_id, attribute_value FROM entity_attributes WHERE attribute_type = 'alias'
+  `);
+  if (legacy.length === 0) return 0;
+
+  return transaction(() => {
+    for (const row of legacy) {
+      const normalized = normalizeAlias(row.attribute_value, 'alias');
+      if (normalized) {
+        execute(`
+          INSERT OR IGNORE INTO entity_aliases (id, entity_id, alias_type, value, normalized_value, source)
+          VALUES (?, ?, 'alias', ?, ?, '')
+        `, [uuidv4(), row.entity_id, row.attribute_value.trim(), normalized]);
+      }
+      execute('DELETE FROM entity_attributes WHERE id = ?', [row.id]);
+    }
+    return legacy.length;
+  });
+}
+
+// ============================================================
+// LOOKUP
+// ============================================================
+
+/**
+ * Entities going by an alias or handle, best first. With a source, only
+ * aliases for that source or for every source count, and source-specific
+ * ones rank first. Without one, only aliases for every source count, unless
+ * `anySource` asks for matches from every source ("Dad" in iMessage isn't
+ * the Gmail sender named Dad).
+ */
+export function findEntitiesByAlias(
+  value: string,
+  options: { type?: AliasType; source?: string; anySource?: boolean; entityType?: EntityType } = {}
+): Array<EntityAlias & { canonicalName: string }> {
+  const type = options.type ?? 'alias';
+  const normalized = normalizeAlias(value, type);
+  if (!normalized) return [];
+
+  const conditions = ['a.alias_type = ?', 'a.normalized_value = ?'];
+  const params: unknown[] = [type, normalized];
+  if (options.source) {
+    conditions.push(`a.source IN ('', ?)`);
+    params.push(options.source.toLowerCase());
+  } else if (!options.anySource) {
+    conditions.push(`a.source = ''`);
+  }
+  if (options.entityType) {
+    conditions.push('e.entity_type = ?');
+    params.push(options.entityType);
+  }
+
+  return query<AliasRow & { canonical_name: string }>(`
+    SELECT a.*, e.canonical_name FROM entity_aliases a
+    JOIN entities e ON e.id = a.entity_id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY (a.source != '') DESC, a.confidence DESC, a.created_at
+  `, params).map(row => ({ ...rowToAlias(row), canonicalName: row.canonical_name }));
+}
@@ -0,0 +1,489 @@
+// Entity Community Detection
+// Strategy Reference: Part 12 (graph infrastructure)
+//
+// Clusters the entity graph with Louvain modularity optimisation. Edge
+// weights combine graph_edges strength with how often two entities appear
+// on the same message. Results go to entity_communities and
+// entity_community_members; the processing worker re-runs detection.
+
+import { v4 as uuid } from 'uuid';
+import { execute, query, queryOne, transaction } from '../db/connection';
+import { normalizeName } from './matcher';
+import { findUserEntityId } from './user';
+import type { EntityCommunity, CommunityMember, CommunityDetectionResult } from '../types';
+
+export interface CommunityDetectionOptions {
+  minSize?: number;            // Smaller clusters aren't stored (default 2)
+  includeUser?: boolean;       // The user talks to everyone and would glue communities together (default false)
+  maxParticipants?: number;    // Messages with more participants don't count as co-occurrence (default 20)
+  coOccurrenceWeight?: number; // Weight of log2(1 + shared messages) relative to edge strength (default 0.5)
+}
+
+interface CommunityRow {
+  id: string;
+  community_name: string | null;
+  member_count: number;
+  cohesion_score: number | null;
+  central_entity_id: string | null;
+  detected_at: string;
+  last_updated: string | null;
+}
+
+type WeightedGraph = Map<string, Map<string, number>>;
+
+function addWeight(graph: WeightedGraph, a: string, b: string, weight: number): void {
+  if (a === b || weight <= 0) return;
+  for (const [from, to] of [[a, b], [b, a]] as const) {
+    let neighbours = graph.get(from);
+    if (!neighbours) {
+      neighbours = new Map();
+      graph.set(from, neighbours);
+    }
+    neighbours.set(to, (neighbours.get(to) ?? 0) + weight);
+  }
+}
+
+function rowToCommunity(row: CommunityRow): EntityCommunity {
+  return {
+    id: row.id,
+    name: row.community_name ?? '',
+    memberCount: row.member_count,
+    cohesionScore: row.cohesion_score ?? 0,
+    centralEntityId: row.central_entity_id ?? undefined,
+    detectedAt: new Date(row.detected_at),
+    lastUpdated: row.last_updated ? new Date(row.last_updated) : undefined,
+  };
+}
+
+// ============================================================
+// GRAPH
+// ============================================================
+
+/**
+ * Undirected weighted entity graph from edges and message co-occurrence
+ */
+function buildEntityGraph(options: Required<CommunityDetectionOptions>): WeightedGraph {
+  const graph: WeightedGraph = new Map();
+  const excluded = new Set<string>();
+  if (!options.includeUser) {
+    const userId = findUserEntityId();
+    if (userId) excluded.add(userId);
+  }
+
+  const edges = query<{ from_entity_id: string; to_entity_id: string; strength: number | null }>(`
+    SELECT from_entity_id, to_entity_id, strength FROM graph_edges
+  `);
+  for (const edge of edges) {
+    if (excluded.has(edge.from_entity_id) || excluded.has(edge.to_entity_id)) continue;
+    addWeight(graph, edge.from_entity_id, edge.to_entity_id, edge.strength ?? 0.5);
+  }
+
+  // Pairs of participants on the same message
+  const messages = query<{ sender_entity_id: string | null; recipient_entity_ids: string | null }>(`
+    SELECT sender_entity_id, recipient_entity_ids FROM messages
+  `);
+  const coOccurrence = new Map<string, number>();
+  for (const message of messages) {
+    let participants: string[] = [];
+    try {
+      participants = JSON.parse(message.recipient_entity_ids || '[]');
+    } catch {
+      participants = [];
+    }
+    if (message.sender_entity_id) participants.push(message.sender_entity_id);
+
+    const unique = Array.from(new Set(participants)).filter(id => !excluded.has(id)).sort();
+    if (unique.length < 2 || unique.length > options.maxParticipants) continue;
+
+    for (let i = 0; i < unique.length; i++) {
+      for (let j = i + 1; j < unique.length; j++) {
+        const key = `${unique[i]}|${unique[j]}`;
+        coOccurrence.set(key, (coOccurrence.get(key) ?? 0) + 1);
+      }
+    }
+  }
+  for (const [key, count] of coOccurrence) {
+    const [a, b] = key.split('|') as [string, string];
+    addWeight(graph, a, b, options.coOccurrenceWeight * Math.log2(1 + count));
+  }
+
+  // Edges and messages can point at entities that were since deleted
+  const known = new Set(query<{ id: string }>('SELECT id FROM entities').map(r => r.id));
+  for (const id of Array.from(graph.keys())) {
+    if (!known.has(id)) {
+      for (const neighbour of graph.get(id)!.keys()) graph.get(neighbour)?.delete(id);
+      graph.delete(id);
+    }
+  }
+
+  return graph;
+}
+
+// ============================================================
+// LOUVAIN
+// ============================================================
+
+/**
+ * One level of Louvain: move nodes between communities while modularity
+ * improves. `adjacency[i]` maps neighbour -> weight (self-loops allowed).
+ */
+function louvainLevel(adjacency: Array<Map<number, number>>): { assignment: number[]; moved: boolean } {
+  const n = adjacency.length;
+  const degree = adjacency.map(neighbours => {
+    let total = 0;
+    for (const w of neighbours.values()) total += w;
+    return total;
+  });
+  const totalWeight = degree.reduce((a, b) => a + b, 0);
+  const assignment = adjacency.map((_, i) => i);
+  const communityDegree = [...degree];
+
+  if (totalWeight === 0) return { assignment, moved: false };
+
+  let moved = false;
+  let improved = true;
+  while (improved) {
+    improved = false;
+
+    for (let i = 0; i < n; i++) {
+      const current = assignment[i]!;
+      const k = degree[i]!;
+
+      // Weight from i into each neighbouring community
+      const linkWeights = new Map<number, number>();
+      for (const [j, w] of adjacency[i]!) {
+        if (j === i) continue;
+        const c = assignment[j]!;
+        linkWeights.set(c, (linkWeights.get(c) ?? 0) + w);
+      }
+
+      communityDegree[current]! -= k;
+
+      let best = current;
+      let bestGain = (linkWeights.get(current) ?? 0) - (communityDegree[current]! * k) / totalWeight;
+      for (const [c, w] of linkWeights) {
+        const gain = w - (communityDegree[c]! * k) / totalWeight;
+        if (gain > bestGain + 1e-12) {
+          best = c;
+          bestGain = gain;
+        }
+      }
+
+      communityDegree[best]! += k;
+      if (best !== current) {
+        assignment[i] = best;
+        improved = true;
+        moved = true;
+      }
+    }
+  }
+
+  return { assignment, moved };
+}
+
+/**
+ * Louvain community detection. Returns community index per node.
+ */
+function louvain(adjacency: Array<Map<number, number>>): number[] {
+  // node -> index in the current (aggregated) graph
+  let membership = adjacency.map((_, i) => i);
+  let graph = adjacency;
+
+  for (;;) {
+    const { assignment, moved } = louvainLevel(graph);
+    if (!moved) break;
+
+    // Renumber communities 0..k-1
+    const renumber = new Map<number, number>();
+    for (const c of assignment) {
+      if (!renumber.has(c)) renumber.set(c, renumber.size);
+    }
+    membership = membership.map(m => renumber.get(assignment[m]!)!);
+
+    // Collapse each community into a node; internal weight becomes a self-loop
+    const aggregated: Array<Map<number, number>> = Array.from({ length: renumber.size }, () => new Map());
+    graph.forEach((neighbours, i) => {
+      const ci = renumber.get(assignment[i]!)!;
+      for (const [j, w] of neighbours) {
+        const cj = renumber.get(assignment[j]!)!;
+        aggregated[ci]!.set(cj, (aggregated[ci]!.get(cj) ?? 0) + w);
+      }
+    });
+    graph = aggregated;
+  }
+
+  return membership;
+}
+
+/**
+ * Newman modularity of a partition
+ */
+function modularity(adjacency: Array<Map<number, number>>, assignment: number[]): number {
+  let totalWeight = 0;
+  const degree = adjacency.map(neighbours => {
+    let total = 0;
+    for (const w of neighbours.values()) total += w;
+    totalWeight += total;
+    return total;
+  });
+  if (totalWeight === 0) return 0;
+
+  const internal = new Map<number, number>();
+  const communityDegree = new Map<number, number>();
+  adjacency.forEach((neighbours, i) => {
+    const c = assignment[i]!;
+    communityDegree.set(c, (communityDegree.get(c) ?? 0) + degree[i]!);
+    for (const [j, w] of neighbours) {
+      if (assignment[j] === c) internal.set(c, (internal.get(c) ?? 0) + w);
+    }
+  });
+
+  let q = 0;
+  for (const [c, total] of communityDegree) {
+    q += (internal.get(c) ?? 0) / totalWeight - (total / totalWeight) ** 2;
+  }
+  return q;
+}
+
+// ============================================================
+// NAMING
+// ============================================================
+
+/**
+ * Name a community after its dominant organisation (org members, works_at
+ * targets, company attributes), else its dominant context, else its most
+ * central member
+ */
+function nameCommunity(memberIds: string[], centralName: string): string {
+  const placeholders = memberIds.map(() => '?').join(',');
+  const votes = new Map<string, { name: string; count: number }>();
+  const vote = (name: string, count: number) => {
+    const key = normalizeName(name);
+    if (!key) return;
+    const existing = votes.get(key);
+    if (existing) existing.count += count;
+    else votes.set(key, { name, count });
+  };
+
+  for (const row of query<{ canonical_name: string }>(`
+    SELECT canonical_name FROM entities WHERE entity_type = 'org' AND id IN (${placeholders})
+  `, memberIds)) {
+    vote(row.canonical_name, 2);
+  }
+  for (const row of query<{ canonical_name: string; count: number }>(`
+    SELECT org.canonical_name, COUNT(*) as count
+    FROM graph_edges ge JOIN entities org ON org.id = ge.to_entity_id
+    WHERE ge.edge_type = 'works_at' AND ge.from_entity_id IN (${placeholders})
+    GROUP BY org.id
+  `, memberIds)) {
+    vote(row.canonical_name, row.count);
+  }
+  for (const row of query<{ attribute_value: string; count: number }>(`
+    SELECT attribute_value, COUNT(DISTINCT entity_id) as count FROM entity_attributes
+    WHERE attribute_type = 'company' AND entity_id IN (${placeholders})
+    GROUP BY LOWER(attribute_value)
+  `, memberIds)) {
+    vote(row.attribute_value, row.count);
+  }
+
+  const org = Array.from(votes.values()).sort((a, b) => b.count - a.count)[0];
+  if (org && org.count >= 2) return org.name;
+
+  const context = queryOne<{ context_name: string; count: number }>(`
+    SELECT cb.context_name, COUNT(*) as count
+    FROM entity_context_membership ecm
+    JOIN context_boundaries cb ON cb.id = ecm.context_id
+    WHERE ecm.entity_id IN (${placeholders})
+    GROUP BY cb.id
+    ORDER BY count DESC
+    LIMIT 1
+  `, memberIds);
+  if (context && context.count >= Math.max(2, memberIds.length / 2)) return context.context_name;
+
+  return org?.name ?? `${centralName}'s circle`;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+/**
+ * Recompute communities for the whole entity graph. Existing community ids
+ * are kept for clusters that mostly carry over, so filters saved by id
+ * keep working across runs.
+ */
+export function detectCommunities(options: CommunityDetectionOptions = {}): CommunityDetectionResult {
+  const resolved: Required<CommunityDetectionOptions> = {
+    minSize: options.minSize ?? 2,
+    includeUser: options.includeUser ?? false,
+    maxParticipants: options.maxParticipants ?? 20,
+    coOccurrenceWeight: options.coOccurrenceWeight ?? 0.5,
+  };
+
+  const graph = buildEntityGraph(resolved);
+  const ids = Array.from(graph.keys()).sort();
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const adjacency = ids.map(id => {
+    const neighbours = new Map<number, number>();
+    for (const [other, w] of graph.get(id)!) neighbours.set(index.get(other)!, w);
+    return neighbours;
+  });
+
+  const assignment = louvain(adjacency);
+
+  const clusters = new Map<number, number[]>();
+  assignment.forEach((c, i) => {
+    const members = clusters.get(c);
+    if (members) members.push(i);
+    else clusters.set(c, [i]);
+  });
+
+  const previous = new Map(
+    query<{ entity_id: string; community_id: string }>('SELECT entity_id, community_id FROM entity_community_members')
+      .map(r => [r.entity_id, r.community_id])
+  );
+  const names = new Map(
+    query<{ id: string; canonical_name: string }>('SELECT id, canonical_name FROM entities')
+      .map(r => [r.id, r.canonical_name])
+  );
+
+  const communities: Array<{
+    id: string;
+    name: string;
+    cohesion: number;
+    centralId: string;
+    members: Array<{ entityId: string; centrality: number }>;
+  }> = [];
+  const claimed = new Set<string>();
+
+  for (const memberIndexes of clusters.values()) {
+    if (memberIndexes.length < resolved.minSize) continue;
+
+    const inCluster = new Set(memberIndexes);
+    let internal = 0;
+    let boundary = 0;
+    const internalDegree = memberIndexes.map(i => {
+      let total = 0;
+      for (const [j, w] of adjacency[i]!) {
+        if (inCluster.has(j)) total += w;
+        else boundary += w;
+      }
+      internal += total;
+      return total;
+    });
+    internal /= 2;
+
+    const maxDegree = Math.max(...internalDegree) || 1;
+    const members = memberIndexes
+      .map((i, n) => ({ entityId: ids[i]!, centrality: internalDegree[n]! / maxDegree }))
+      .sort((a, b) => b.centrality - a.centrality || a.entityId.localeCompare(b.entityId));
+    const centralId = members[0]!.entityId;
+
+    // Reuse the id most of these members had last time
+    const priorVotes = new Map<string, number>();
+    for (const m of members) {
+      const prior = previous.get(m.entityId);
+      if (prior) priorVotes.set(prior, (priorVotes.get(prior) ?? 0) + 1);
+    }
+    const prior = Array.from(priorVotes.entries())
+      .filter(([id]) => !claimed.has(id))
+      .sort((a, b) => b[1] - a[1])[0];
+    const id = prior && prior[1] * 2 >= members.length ? prior[0] : uuid();
+    claimed.add(id);
+
+    communities.push({
+      id,
+      name: nameCommunity(members.map(m => m.entityId), names.get(centralId) ?? 'Unknown'),
+      cohesion: internal + boundary > 0 ? internal / (internal + boundary) : 0,
+      centralId,
+      members,
+    });
+  }
+
+  transaction(() => {
+    execute('DELETE FROM entity_community_members');
+    const keep = communities.map(c => c.id);
+    execute(
+      `DELETE FROM entity_communities WHERE id NOT IN (${keep.map(() => '?').join(',') || "''"})`,
+      keep
+    );
+
+    for (const community of communities) {
+      execute(`
+        INSERT INTO entity_communities (id, community_name, member_count, cohesion_score, central_entity_id, last_updated)
+        VALUES (?, ?, ?, ?, ?, datetime('now'))
+        ON CONFLICT(id) DO UPDATE SET
+          community_name = excluded.community_name,
+          member_count = excluded.member_count,
+          cohesion_score = excluded.cohesion_score,
+          central_entity_id = excluded.central_entity_id,
+          last_updated = excluded.last_updated
+      `, [community.id, community.name, community.members.length, community.cohesion, community.centralId]);
+
+      for (const member of community.members) {
+        execute(`
+          INSERT INTO entity_community_members (entity_id, community_id, centrality) VALUES (?, ?, ?)
+        `, [member.entityId, community.id, member.centrality]);
+      }
+    }
+  });
+
+  return {
+    communities: communities.length,
+    entitiesAssigned: communities.reduce((sum, c) => sum + c.members.length, 0),
+    modularity: modularity(adjacency, assignment),
+  };
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * All communities, largest first
+ */
+export function getCommunities(): EntityCommunity[] {
+  return query<CommunityRow>(`
+    SELECT * FROM entity_communities ORDER BY member_count DESC, cohesion_score DESC
+  `).map(rowToCommunity);
+}
+
+/**
+ * The community an entity belongs to, if any
+ */
+export function getEntityCommunity(entityId: string): EntityCommunity | null {
+  const row = queryOne<CommunityRow>(`
+    SELECT c.* FROM entity_communities c
+    JOIN entity_community_members m ON m.community_id = c.id
+    WHERE m.entity_id = ?
+  `, [entityId]);
+  return row ? rowToCommunity(row) : null;
+}
+
+/**
+ * Members of a community, most central first
+ */
+export function getCommunityMembers(communityId: string): CommunityMember[] {
+  return query<{ entity_id: string; canonical_name: string; entity_type: string; centrality: number | null }>(`
+    SELECT m.entity_id, e.canonical_name, e.entity_type, m.centrality
+    FROM entity_community_members m
+    JOIN entities e ON e.id = m.entity_id
+    WHERE m.community_id = ?
+    ORDER BY m.centrality DESC
+  `, [communityId]).map(row => ({
+    entityId: row.entity_id,
+    name: row.canonical_name,
+    entityType: row.entity_type as CommunityMember['entityType'],
+    centrality: row.centrality ?? 0,
+  }));
+}
+
+/**
+ * Member ids of a community, for filtering
+ */
+export function getCommunityMemberIds(communityId: string): Set<string> {
+  return new Set(
+    query<{ entity_id: string }>('SELECT entity_id FROM entity_community_members WHERE community_id = ?', [communityId])
+      .map(r => r.entity_id)
+  );
+}
@@ -0,0 +1,215 @@
+// Relationship Strength Decay
+//
+// graph_edges.strength only grows with evidence, so a colleague from three
+// jobs ago looks as close as today's manager. The current strength of an
+// edge decays from its stored strength with time since the last evidence,
+// halving every half-life for its edge_type (family ties don't decay). The
+// worker stores it in graph_edges.current_strength; reads fall back to
+// computing it when the stored value predates newer evidence.
+
+import { execute, query, queryOne, transaction } from '../db/connection';
+import { findUserEntityId } from './user';
+import type { RelationshipStrengthPoint } from '../types';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export interface EdgeDecayConfig {
+  /** Half-life in days per edge_type; null means the edge never decays */
+  halfLifeDays: Record<string, number | null>;
+  /** Half-life for edge types not listed (default 180 days) */
+  defaultHalfLifeDays: number;
+}
+
+export const DEFAULT_EDGE_HALF_LIVES: Record<string, number | null> = {
+  communicates_with: 90,
+  works_with: 180,
+  works_at: 365,
+  reports_to: 365,
+  knows: 365,
+  friend: 730,
+  family: null,
+  spouse: null,
+};
+
+let config: EdgeDecayConfig = {
+  halfLifeDays: { ...DEFAULT_EDGE_HALF_LIVES },
+  defaultHalfLifeDays: 180,
+};
+
+/**
+ * Tune edge decay. `halfLifeDays` entries are merged over the current ones.
+ */
+export function configureEdgeDecay(overrides: Partial<EdgeDecayConfig>): void {
+  config = {
+    halfLifeDays: { ...config.halfLifeDays, ...overrides.halfLifeDays },
+    defaultHalfLifeDays: overrides.defaultHalfLifeDays ?? config.defaultHalfLifeDays,
+  };
+}
+
+export function getEdgeDecayConfig(): EdgeDecayConfig {
+  return { ...config, halfLifeDays: { ...config.halfLifeDays } };
+}
+
+/**
+ * Half-life for an edge type in days, or null if it doesn't decay
+ */
+export function edgeHalfLifeDays(edgeType: string): number | null {
+  const halfLife = config.halfLifeDays[edgeType];
+  return halfLife === undefined ? config.defaultHalfLifeDays : halfLife;
+}
+
+// ============================================================
+// STRENGTH
+// ============================================================
+
+/**
+ * Strength decayed from the last evidence to `now`
+ */
+export function decayedStrength(
+  strength: number,
+  lastEvidenceAt: Date | string | null,
+  edgeType: string,
+  now: Date = new Date()
+): number {
+  const halfLife = edgeHalfLifeDays(edgeType);
+  if (halfLife === null || !lastEvidenceAt) return strength;
+
+  const ageDays = Math.max(0, now.getTime() - new Date(lastEvidenceAt).getTime()) / 86400000;
+  return strength * Math.pow(0.5, ageDays / halfLife);
+}
+
+/**
+ * Current strength of an edge row: the worker's stored value unless newer
+ * evidence arrived since, in which case it's computed now
+ */
+export function currentEdgeStrength(edge: {
+  edge_type: string;
+  strength: number | null;
+  last_evidence_at: string | null;
+  current_strength?: number | null;
+  strength_computed_at?: string | null;
+}, now: Date = new Date()): number {
+  const stale = !edge.strength_computed_at ||
+    (edge.last_evidence_at !== null && new Date(edge.last_evidence_at) > new Date(edge.strength_computed_at));
+  if (edge.current_strength != null && !stale) return edge.current_strength;
+  return decayedStrength(edge.strength ?? 1, edge.last_evidence_at, edge.edge_type, now);
+}
+
+/**
+ * Recompute current_strength for every edge (the worker runs this)
+ */
+export function recomputeEdgeStrengths(options: { now?: Date } = {}): { edgesUpdated: number } {
+  const now = options.now ?? new Date();
+  const edges = query<{ id: string; edge_type: string; strength: number | null; last_evidence_at: string | null }>(`
+    SELECT id, edge_type, strength, last_evidence_at FROM graph_edges
+  `);
+
+  transaction(() => {
+    for (const edge of edges) {
+      execute(`
+        UPDATE graph_edges SET current_strength = ?, strength_computed_at = ? WHERE id = ?
+      `, [decayedStrength(edge.strength ?? 1, edge.last_evidence_at, edge.edge_type, now), now.toISOString(), edge.id]);
+    }
+  });
+
+  return { edgesUpdated: edges.length };
+}
+
+/**
+ * Current strength of the strongest edge between two entities (either
+ * direction, optionally of some types), or null if they aren't linked
+ */
+export function getRelationshipStrength(entityId: string, otherEntityId: string, edgeTypes?: string[]): number | null {
+  const typeFilter = edgeTypes?.length ? `AND edge_type IN (${edgeTypes.map(() => '?').join(',')})` : '';
+  const edges = query<{
+    edge_type: string;
+    strength: number | null;
+    last_evidence_at: string | null;
+    current_strength: number | null;
+    strength_computed_at: string | null;
+  }>(`
+    SELECT edge_type, strength, last_evidence_at, current_strength, strength_computed_at FROM graph_edges
+    WHERE ((from_entity_id = ? AND to_entity_id = ?) OR (from_entity_id = ? AND to_entity_id = ?)) ${typeFilter}
+  `, [entityId, otherEntityId, otherEntityId, entityId, ...(edgeTypes ?? [])]);
+
+  if (edges.length === 0) return null;
+  return Math.max(...edges.map(edge => currentEdgeStrength(edge)));
+}
+
+// ============================================================
+// TIME SERIES
+// ============================================================
+
+export interface StrengthSeriesOptions {
+  otherEntityId?: string;                 // Default: the user
+  edgeType?: string;                      // Default 'communicates_with'
+  interval?: 'day' | 'week' | 'month';    // Default 'week'
+  from?: Date;                            // Default: first evidence
+  to?: Date;                              // Default: now
+}
+
+const INTERVAL_DAYS = { day: 1, week: 7, month: 30 };
+
+/**
+ * Evidence times for an edge between two entities. communicates_with
+ * evidence is every message between them; other edge types only record
+ * their latest evidence.
+ */
+function evidenceTimes(entityId: string, otherEntityId: string, edgeType: string): number[] {
+  if (edgeType === 'communicates_with') {
+    return query<{ timestamp: string }>(`
+      SELECT m.timestamp FROM messages m
+      WHERE (m.sender_entity_id = ? AND EXISTS (SELECT 1 FROM json_each(m.recipient_entity_ids) WHERE value = ?))
+         OR (m.sender_entity_id = ? AND EXISTS (SELECT 1 FROM json_each(m.recipient_entity_ids) WHERE value = ?))
+      ORDER BY m.timestamp
+    `, [entityId, otherEntityId, otherEntityId, entityId]).map(r => new Date(r.timestamp).getTime());
+  }
+
+  const edge = queryOne<{ last_evidence_at: string | null }>(`
+    SELECT MAX(last_evidence_at) AS last_evidence_at FROM graph_edges
+    WHERE edge_type = ? AND ((from_entity_id = ? AND to_entity_id = ?) OR (from_entity_id = ? AND to_entity_id = ?))
+  `, [edgeType, entityId, otherEntityId, otherEntityId, entityId]);
+  return edge?.last_evidence_at ? [new Date(edge.last_evidence_at).getTime()] : [];
+}
+
+/**
+ * Relationship strength between an entity and the user (or another
+ * entity) sampled at regular intervals, replaying the evidence so each
+ * point decays from the latest evidence before it
+ */
+export function getRelationshipStrengthSeries(
+  entityId: string,
+  options: StrengthSeriesOptions = {}
+): RelationshipStrengthPoint[] {
+  const otherEntityId = options.otherEntityId ?? findUserEntityId();
+  if (!otherEntityId || otherEntityId === entityId) return [];
+
+  const edgeType = options.edgeType ?? 'communicates_with';
+  const times = evidenceTimes(entityId, otherEntityId, edgeType);
+  if (times.length === 0) return [];
+
+  const base = queryOne<{ strength: number | null }>(`
+    SELECT MAX(strength) AS strength FROM graph_edges
+    WHERE edge_type = ? AND ((from_entity_id = ? AND to_entity_id = ?) OR (from_entity_id = ? AND to_entity_id = ?))
+  `, [edgeType, entityId, otherEntityId, otherEntityId, entityId])?.strength ?? 1;
+
+  const step = INTERVAL_DAYS[options.interval ?? 'week'] * 86400000;
+  const start = options.from?.getTime() ?? times[0]!;
+  const end = options.to?.getTime() ?? Date.now();
+
+  const points: RelationshipStrengthPoint[] = [];
+  let next = 0;   // Index of the first evidence after the current point
+  for (let at = start; at <= end; at += step) {
+    while (next < times.length && times[next]! <= at) next++;
+    const last = next > 0 ? times[next - 1]! : null;
+    points.push({
+      at: new Date(at),
+      strength: last === null ? 0 : decayedStrength(base, new Date(last), edgeType, new Date(at)),
+      evidenceCount: next,
+    });
+  }
+
+  return points;
+}
@@ -0,0 +1,264 @@
+// Duplicate Detection
+//
+// Comparing every pair of entities is O(n²), so candidates are generated by
+// blocking: entities only get compared when they share a cheap key (phonetic
+// name, name prefix, email domain, phone suffix). Each candidate is then
+// scored on name similarity plus attribute and graph overlap.
+
+import { getDb, query } from '../db/connection';
+import { nameSimilarity, normalizeName, soundex, canonicalFirstName } from './matcher';
+import { getKeptSeparatePairs, pairKey } from './quarantine';
+import { isPersonalDomain } from '../ingestion/orgs';
+import type { DuplicateCandidate, DuplicateFeatures, EntityType } from '../types';
+
+export interface DuplicateOptions {
+  entityType?: EntityType;   // Default: 'person'
+  maxBlockSize?: number;     // Blocks bigger than this are too unselective to use (default 500)
+  limit?: number;
+}
+
+/**
+ * How much each kind of overlap closes the gap between name similarity and 1
+ */
+const FEATURE_WEIGHTS: Record<Exclude<keyof DuplicateFeatures, 'name'>, number> = {
+  email: 0.8,
+  phone: 0.8,
+  company: 0.2,
+  neighbours: 0.5,
+};
+
+interface EntityProfile {
+  id: string;
+  name: string;
+  emails: Set<string>;
+  domains: Set<string>;
+  phones: Set<string>;       // Last 7 digits
+  companies: Set<string>;    // Normalised company names and works_at targets
+}
+
+function phoneSuffix(phone: string): string | null {
+  const digits = phone.replace(/;ext=.*$/i, '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-7) : null;
+}
+
+function intersects(a: Set<string>, b: Set<string>): boolean {
+  for (const value of a) {
+    if (b.has(value)) return true;
+  }
+  return false;
+}
+
+/**
+ * Load names, contact attributes and employers for every entity of a type
+ */
+function loadProfiles(entityType: EntityType): Map<string, EntityProfile> {
+  const profiles = new Map<string, EntityProfile>();
+
+  for (const row of query<{ id: string; canonical_name: string }>(
+    'SELECT id, canonical_name FROM entities WHERE entity_type = ?', [entityType]
+  )) {
+    profiles.set(row.id, {
+      id: row.id,
+      name: row.canonical_name,
+      emails: new Set(),
+      domains: new Set(),
+      phones: new Set(),
+      companies: new Set(),
+    });
+  }
+
+  const attributes = query<{ entity_id: string; attribute_type: string; attribute_value: string }>(`
+    SELECT ea.entity_id, ea.attribute_type, ea.attribute_value
+    FROM entity_attributes ea
+    JOIN entities e ON e.id = ea.entity_id
+    WHERE e.entity_type = ? AND ea.attribute_type IN ('email', 'phone', 'company')
+  `, [entityType]);
+
+  for (const attr of attributes) {
+    const profile = profiles.get(attr.entity_id);
+    if (!profile) continue;
+
+    if (attr.attribute_type === 'email') {
+      const email = attr.attribute_value.toLowerCase().trim();
+      profile.emails.add(email);
+      const domain = email.split('@')[1];
+      // Sharing a freemail domain says nothing about being the same person
+      if (domain && !isPersonalDomain(domain)) profile.domains.add(domain);
+    } else if (attr.attribute_type === 'phone') {
+      const suffix = phoneSuffix(attr.attribute_value);
+      if (suffix) profile.phones.add(suffix);
+    } else {
+      const company = normalizeName(attr.attribute_value);
+      if (company) profile.companies.add(company);
+    }
+  }
+
+  const employers = query<{ from_entity_id: string; canonical_name: string }>(`
+    SELECT ge.from_entity_id, org.canonical_name
+    FROM graph_edges ge
+    JOIN entities org ON org.id = ge.to_entity_id
+    WHERE ge.edge_type = 'works_at'
+  `);
+
+  for (const row of employers) {
+    profiles.get(row.from_entity_id)?.companies.add(normalizeName(row.canonical_name));
+  }
+
+  return profiles;
+}
+
+/**
+ * Blocking keys for an entity. Two entities are only compared if they share one.
+ */
+export function blockingKeys(
+  name: string,
+  attributes: { emails?: Iterable<string>; domains?: Iterable<string>; phones?: Iterable<string> } = {}
+): string[] {
+  const keys = new Set<string>();
+  const parts = normalizeName(name).split(' ').filter(Boolean);
+
+  if (parts.length === 1) {
+    keys.add(`sx:${soundex(canonicalFirstName(parts[0]!))}`);
+    keys.add(`pre:${parts[0]!.slice(0, 4)}`);
+  } else if (parts.length > 1) {
+    const first = parts[0]!;
+    const last = parts[parts.length - 1]!;
+
+    // "Bob Stone" / "Robert Stone", "Jon Smith" / "John Smyth"
+    keys.add(`sx:${soundex(canonicalFirstName(first))}:${soundex(last)}`);
+    // "J. Miller" / "Jake Miller", typos in the first name
+    keys.add(`pre:${last.slice(0, 4)}:${first[0]}`);
+  }
+
+  for (const email of attributes.emails ?? []) keys.add(`em:${email}`);
+  for (const domain of attributes.domains ?? []) keys.add(`dom:${domain}`);
+  for (const phone of attributes.phones ?? []) keys.add(`tel:${phone}`);
+
+  return Array.from(keys);
+}
+
+/**
+ * Graph neighbours for an entity, cached for the duration of one run
+ */
+function neighbourLookup(): (entityId: string) => Set<string> {
+  const statement = getDb().prepare(`
+    SELECT to_entity_id as id FROM graph_edges WHERE from_entity_id = ?
+    UNION
+    SELECT from_entity_id as id FROM graph_edges WHERE to_entity_id = ?
+  `);
+  const cache = new Map<string, Set<string>>();
+
+  return (entityId: string) => {
+    let neighbours = cache.get(entityId);
+    if (!neighbours) {
+      const rows = statement.all(entityId, entityId) as Array<{ id: string }>;
+      neighbours = new Set(rows.map(r => r.id));
+      cache.set(entityId, neighbours);
+    }
+    return neighbours;
+  };
+}
+
+/**
+ * Per-feature similarity for one pair, each in [0, 1]
+ */
+function scoreFeatures(
+  e1: EntityProfile,
+  e2: EntityProfile,
+  neighbours: (entityId: string) => Set<string>
+): DuplicateFeatures {
+  const n1 = neighbours(e1.id);
+  const n2 = neighbours(e2.id);
+  let shared = 0;
+  let union = 0;
+  for (const id of new Set([...n1, ...n2])) {
+    if (id === e1.id || id === e2.id) continue;
+    union++;
+    if (n1.has(id) && n2.has(id)) shared++;
+  }
+
+  return {
+    name: nameSimilarity(e1.name, e2.name),
+    email: intersects(e1.emails, e2.emails) ? 1 : intersects(e1.domains, e2.domains) ? 0.3 : 0,
+    phone: intersects(e1.phones, e2.phones) ? 1 : 0,
+    company: intersects(e1.companies, e2.companies) ? 1 : 0,
+    neighbours: union > 0 ? shared / union : 0,
+  };
+}
+
+/**
+ * Combine features: name similarity is the base, and each overlap closes
+ * part of the remaining gap. Name-only pairs score exactly their name
+ * similarity, so thresholds tuned on names alone still mean the same.
+ */
+export function combineDuplicateScore(features: DuplicateFeatures): number {
+  let missing = 1;
+  for (const [feature, weight] of Object.entries(FEATURE_WEIGHTS)) {
+    missing *= 1 - weight * features[feature as keyof typeof FEATURE_WEIGHTS];
+  }
+  return features.name + (1 - features.name) * (1 - missing);
+}
+
+/**
+ * Find potential duplicate entities via blocking, most likely first
+ */
+export function findPotentialDuplicates(
+  threshold: number = 0.8,
+  options: DuplicateOptions = {}
+): DuplicateCandidate[] {
+  const { entityType = 'person', maxBlockSize = 500, limit } = options;
+
+  const profiles = loadProfiles(entityType);
+
+  // Group entities by blocking key
+  const blocks = new Map<string, string[]>();
+  for (const profile of profiles.values()) {
+    for (const key of blockingKeys(profile.name, profile)) {
+      const members = blocks.get(key);
+      if (members) members.push(profile.id);
+      else blocks.set(key, [profile.id]);
+    }
+  }
+
+  // Candidate pairs, with the blocks that proposed them
+  const pairs = new Map<string, { id1: string; id2: string; blocks: string[] }>();
+  for (const [key, members] of blocks) {
+    if (members.length < 2 || members.length > maxBlockSize) continue;
+
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const id = pairKey(members[i]!, members[j]!);
+        const pair = pairs.get(id);
+        if (pair) pair.blocks.push(key);
+        else pairs.set(id, { id1: members[i]!, id2: members[j]!, blocks: [key] });
+      }
+    }
+  }
+
+  // Pairs a reviewer already said are different people
+  const keptSeparate = getKeptSeparatePairs();
+  const neighbours = neighbourLookup();
+  const duplicates: DuplicateCandidate[] = [];
+
+  for (const [id, pair] of pairs) {
+    if (keptSeparate.has(id)) continue;
+
+    const e1 = profiles.get(pair.id1)!;
+    const e2 = profiles.get(pair.id2)!;
+    const features = scoreFeatures(e1, e2, neighbours);
+    const score = combineDuplicateScore(features);
+
+    if (score >= threshold) {
+      duplicates.push({
+        entity1: { id: e1.id, name: e1.name },
+        entity2: { id: e2.id, name: e2.name },
+        score,
+        features,
+        blocks: pair.blocks,
+      });
+    }
+  }
+
+  duplicates.sort((a, b) => b.score - a.score);
+  return limit !== undefined ? duplicates.slice(0, limit) : duplicates;
+}
@@ -0,0 +1,628 @@
+// Entity module tests
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initDb, closeDb, getDb } from '../db/connection';
+import { resolveEntity, createEntity } from './resolver';
+import { findPotentialDuplicates, blockingKeys } from './duplicates';
+import { soundex, normalizeName, nameSimilarity, isNameVariant } from './matcher';
+import { romanize } from './transliterate';
+import { registerNicknames, configureNicknames } from './nicknames';
+import { detectCommunities, getCommunities, getEntityCommunity, getCommunityMembers } from './communities';
+import { computeEntityImportance, getEntityImportance, getMostImportantEntities } from './importance';
+import { assembleContext } from '../synthesis/context';
+import { getPendingQuarantine, reviewQuarantine, quarantinePair } from './quarantine';
+import { mergeEntities, unmergeEntities, splitEntity, getMergeJournal } from './merge';
+import { addEntityAlias, removeEntityAlias, getEntityAliases, findEntitiesByAlias, migrateLegacyAliases } from './aliases';
+import { decayedStrength, recomputeEdgeStrengths, getRelationshipStrengthSeries } from './decay';
+import { getConnectedEntities } from '../search/graph';
+
+describe('Entity Quarantine', () => {
+  let johnId: string;
+
+  beforeEach(async () => {
+    initDb(':memory:');
+    johnId = (await resolveEntity({ name: 'John Smith', type: 'person', email: 'john@acme.com' })).entityId;
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  it('should quarantine near-miss matches with evidence for both sides', async () => {
+    const result = await resolveEntity(
+      { name: 'Jane Smith', type: 'person', email: 'jane@other.com' },
+      { sourceMessageId: 'msg-1' }
+    );
+    expect(result.created).toBe(true);
+
+    const [pair] = getPendingQuarantine();
+    expect(pair).toMatchObject({
+      potentialEntityId1: result.entityId,
+      potentialEntityId2: johnId,
+      quarantineReason: 'conflicting_attributes',
+      sourceMessageId: 'msg-1',
+      reviewed: false,
+    });
+    expect(pair!.entity1.attributes).toContainEqual({ type: 'email', value: 'jane@other.com' });
+    expect(pair!.entity2.attributes).toContainEqual({ type: 'email', value: 'john@acme.com' });
+
+    // The same pair isn't queued twice
+    await resolveEntity({ name: 'Jane Smith', type: 'person', email: 'jane@other.com' });
+    expect(getPendingQuarantine()).toHaveLength(1);
+  });
+
+  it('should not quarantine when asked not to', async () => {
+    await resolveEntity({ name: 'Jane Smith', type: 'person' }, { quarantine: false });
+    expect(getPendingQuarantine()).toHaveLength(0);
+  });
+
+  it('should honour keep_separate in resolution and duplicate detection', async () => {
+    const jane = await resolveEntity({ name: 'Jane Smith', type: 'person' });
+    const [pair] = getPendingQuarantine();
+    expect(findPotentialDuplicates(0.8)).toHaveLength(1);
+
+    reviewQuarantine(pair!.id, 'keep_separate');
+    expect(getPendingQuarantine()).toHaveLength(0);
+    expect(findPotentialDuplicates(0.8)).toHaveLength(0);
+
+    // John no longer competes with Jane, so another "Jane Smith" resolves to her
+    const again = await resolveEntity({ name: 'Jane Smith', type: 'person' });
+    expect(again).toEqual({ entityId: jane.entityId, created: false, matchType: 'fuzzy' });
+  });
+
+  it('should keep same-name entities that were kept separate ambiguous', async () => {
+    const first = createEntity({ name: 'Chris Park', type: 'person' });
+    const second = createEntity({ name: 'Chris Park', type: 'person' });
+    quarantinePair(first, second, 1, 'ambiguous');
+    reviewQuarantine(getPendingQuarantine()[0]!.id, 'keep_separate');
+
+    const again = await resolveEntity({ name: 'Chris Park', type: 'person' });
+    expect(again.created).toBe(true);
+    expect(getPendingQuarantine().map(p => p.potentialEntityId2).sort()).toEqual([first, second].sort());
+  });
+
+  it('should keep needs_more_info pairs pending and merge on merge', async () => {
+    const jane = await resolveEntity({ name: 'Jane Smith', type: 'person' });
+    const [pair] = getPendingQuarantine();
+
+    expect(reviewQuarantine(pair!.id, 'needs_more_info')).toMatchObject({ reviewDecision: 'needs_more_info' });
+    expect(getPendingQuarantine()).toHaveLength(1);
+
+    // keepId must be one of the pair
+    const outsider = await resolveEntity({ name: 'Robert Lee', type: 'person' });
+    expect(reviewQuarantine(pair!.id, 'merge', { keepId: outsider.entityId })).toBeNull();
+    expect(getPendingQuarantine()).toHaveLength(1);
+
+    const merged = reviewQuarantine(pair!.id, 'merge');
+    expect(merged).toMatchObject({ reviewed: true, reviewDecision: 'merge' });
+    expect(getDb().prepare('SELECT id FROM entities WHERE id = ?').get(jane.entityId)).toBeUndefined();
+    expect(getPendingQuarantine()).toHaveLength(0);
+  });
+});
+
+describe('Entity Merge Journal', () => {
+  let aliceId: string;
+  let bobId: string;
+  let carolId: string;
+
+  const insertMessage = (id: string, sender: string, recipients: string[]) => {
+    getDb().prepare(`
+      INSERT INTO messages (id, source_type, source_id, sender_entity_id, recipient_entity_ids, body_text, timestamp)
+      VALUES (?, 'gmail', ?, ?, ?, 'hello', '2024-05-01T10:00:00Z')
+    `).run(id, id, sender, JSON.stringify(recipients));
+  };
+
+  const insertEdge = (from: string, to: string, evidence: number) => {
+    getDb().prepare(`
+      INSERT INTO graph_edges (id, from_entity_id, to_entity_id, edge_type, strength, evidence_count)
+      VALUES (?, ?, ?, 'communicates_with', 0.5, ?)
+    `).run(`${from}-${to}`, from, to, evidence);
+  };
+
+  const edgeEvidence = (from: string, to: string) =>
+    (getDb().prepare(`
+      SELECT evidence_count FROM graph_edges WHERE from_entity_id = ? AND to_entity_id = ?
+    `).get(from, to) as { evidence_count: number } | undefined)?.evidence_count;
+
+  beforeEach(async () => {
+    initDb(':memory:');
+    aliceId = (await resolveEntity({ name: 'Alice Wong', type: 'person', email: 'alice@acme.com' }, { quarantine: false })).entityId;
+    bobId = (await resolveEntity({ name: 'Bob Stone', type: 'person', email: 'bob@acme.com' }, { quarantine: false })).entityId;
+    carolId = (await resolveEntity({ name: 'Carol Diaz', type: 'person', email: 'carol@acme.com' }, { quarantine: false })).entityId;
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  it('should restore a merged entity and everything the merge moved', () => {
+    insertMessage('m1', bobId, [carolId]);
+    insertMessage('m2', carolId, [bobId, aliceId]);
+    insertEdge(bobId, carolId, 1);
+    insertEdge(aliceId, carolId, 3);
+    getDb().prepare(`
+      INSERT INTO assertions (id, subject_entity_id, predicate, object_text, source_type, source_id)
+      VALUES ('a1', ?, 'works_at', 'Acme', 'gmail', 'm1')
+    `).run(bobId);
+    getDb().prepare(`
+      INSERT INTO commitments (id, type, description, owner_entity_id, counterparty_entity_id)
+      VALUES ('c1', 'promise', 'Send the deck', ?, ?), ('c2', 'ask', 'Review the budget', ?, ?)
+    `).run(bobId, carolId, carolId, bobId);
+    getDb().prepare(`
+      INSERT INTO engagement_events (id, interaction_type, timestamp, recipient_entity_id)
+      VALUES ('ev1', 'draft_sent', '2024-05-01T10:00:00Z', ?)
+    `).run(bobId);
+    getDb().prepare(`
+      INSERT INTO commitment_participants (id, commitment_id, entity_id, response_status)
+      VALUES ('p1', 'c1', ?, 'accepted'), ('p2', 'c2', ?, 'tentative'), ('p3', 'c2', ?, 'accepted')
+    `).run(bobId, bobId, aliceId);
+    getDb().prepare(`
+      INSERT INTO recipient_styles (recipient_entity_id, formality, message_count) VALUES (?, 0.9, 4), (?, 0.3, 2)
+    `).run(bobId, aliceId);
+    getDb().prepare(`
+      INSERT INTO entity_context_membership (entity_id, context_id, confidence)
+      VALUES (?, 'ctx_work', 0.9), (?, 'ctx_personal', 0.7), (?, 'ctx_work', 0.5)
+    `).run(bobId, bobId, aliceId);
+
+    const attendance = () => getDb().prepare(`
+      SELECT id, entity_id, response_status FROM commitment_participants ORDER BY id
+    `).all();
+    const styles = () => getDb().prepare(`
+      SELECT recipient_entity_id, formality, message_count FROM recipient_styles ORDER BY formality
+    `).all();
+    const contexts = () => getDb().prepare(`
+      SELECT entity_id, context_id, confidence FROM entity_context_membership ORDER BY entity_id, context_id
+    `).all();
+    const before = { attendance: attendance(), styles: styles(), contexts: contexts() };
+
+    expect(mergeEntities(aliceId, bobId)).not.toBeNull();
+    expect(findEntitiesByAlias('Bob Stone')[0]?.entityId).toBe(aliceId);
+    expect(attendance()).toEqual([
+      { id: 'p1', entity_id: aliceId, response_status: 'accepted' },
+      { id: 'p3', entity_id: aliceId, response_status: 'accepted' },
+    ]);
+    expect(styles()).toEqual([{ recipient_entity_id: aliceId, formality: 0.3, message_count: 6 }]);
+    expect(getDb().prepare(`SELECT context_id, confidence FROM entity_context_membership WHERE entity_id = ? ORDER BY context_id`)
+      .all(aliceId)).toEqual([{ context_id: 'ctx_personal', confidence: 0.7 }, { context_id: 'ctx_work', confidence: 0.9 }]);
+    expect(edgeEvidence(aliceId, carolId)).toBe(4);
+    expect(getDb().prepare('SELECT owner_entity_id, counterparty_entity_id FROM commitments ORDER BY id').all()).toEqual([
+      { owner_entity_id: aliceId, counterparty_entity_id: carolId },
+      { owner_entity_id: carolId, counterparty_entity_id: aliceId },
+    ]);
+    expect(getDb().prepare('SELECT recipient_entity_id FROM engagement_events').get()).toEqual({ recipient_entity_id: aliceId });
+    const m2 = getDb().prepare('SELECT recipient_entity_ids FROM messages WHERE id = ?').get('m2') as { recipient_entity_ids: string };
+    expect(JSON.parse(m2.recipient_entity_ids)).toEqual([aliceId]);
+
+    const result = unmergeEntities(aliceId, bobId);
+    expect(result).toMatchObject({ restored: true, counts: { attributes: 1, edges: 1, messages: 2, assertions: 1 } });
+
+    const db = getDb();
+    expect(db.prepare('SELECT canonical_name FROM entities WHERE id = ?').get(bobId)).toEqual({ canonical_name: 'Bob Stone' });
+    expect(db.prepare('SELECT sender_entity_id FROM messages WHERE id = ?').get('m1')).toEqual({ sender_entity_id: bobId });
+    expect(db.prepare('SELECT recipient_entity_ids FROM messages WHERE id = ?').get('m2'))
+      .toEqual({ recipient_entity_ids: JSON.stringify([bobId, aliceId]) });
+    expect(db.prepare('SELECT subject_entity_id FROM assertions WHERE id = ?').get('a1')).toEqual({ subject_entity_id: bobId });
+    expect(db.prepare('SELECT owner_entity_id, counterparty_entity_id FROM commitments ORDER BY id').all()).toEqual([
+      { owner_entity_id: bobId, counterparty_entity_id: carolId },
+      { owner_entity_id: carolId, counterparty_entity_id: bobId },
+    ]);
+    expect(db.prepare('SELECT recipient_entity_id FROM engagement_events').get()).toEqual({ recipient_entity_id: bobId });
+    expect({ attendance: attendance(), styles: styles(), contexts: contexts() }).toEqual(before);
+    expect(db.prepare(`SELECT entity_id FROM entity_attributes WHERE attribute_value = 'bob@acme.com'`).get())
+      .toEqual({ entity_id: bobId });
+    expect(getEntityAliases(aliceId)).toEqual([]);
+    expect(edgeEvidence(bobId, carolId)).toBe(1);
+    expect(edgeEvidence(aliceId, carolId)).toBe(3);
+
+    expect(unmergeEntities(aliceId, bobId).restored).toBe(false);
+    expect(getMergeJournal(bobId)[0]?.revertedAt).toBeInstanceOf(Date);
+  });
+
+  it('should refuse to unmerge without a journaled merge', () => {
+    expect(unmergeEntities(aliceId, bobId)).toEqual({
+      restored: false,
+      reason: 'No merge of these entities in the journal',
+    });
+  });
+
+  it('should split chosen messages off into a new entity', () => {
+    insertMessage('m1', aliceId, [carolId]);
+    insertMessage('m2', aliceId, [carolId]);
+    insertMessage('m3', carolId, [aliceId]);
+    insertEdge(aliceId, carolId, 2);
+    insertEdge(carolId, aliceId, 1);
+    getDb().prepare(`
+      INSERT INTO assertions (id, subject_entity_id, predicate, object_text, source_type, source_id)
+      VALUES ('a1', ?, 'lives_in', 'Boston', 'gmail', 'm2')
+    `).run(aliceId);
+
+    const result = splitEntity(aliceId, ['m2', 'm3'], { name: 'Alice Chen', type: 'person' });
+    const newId = result.entityId!;
+    expect(result.counts).toEqual({ attributes: 0, edges: 0, messages: 2, assertions: 1 });
+
+    const db = getDb();
+    expect(db.prepare('SELECT sender_entity_id FROM messages WHERE id = ?').get('m1')).toEqual({ sender_entity_id: aliceId });
+    expect(db.prepare('SELECT sender_entity_id FROM messages WHERE id = ?').get('m2')).toEqual({ sender_entity_id: newId });
+    expect(db.prepare('SELECT recipient_entity_ids FROM messages WHERE id = ?').get('m3'))
+      .toEqual({ recipient_entity_ids: JSON.stringify([newId]) });
+    expect(db.prepare('SELECT subject_entity_id FROM assertions WHERE id = ?').get('a1')).toEqual({ subject_entity_id: newId });
+
+    expect(edgeEvidence(aliceId, carolId)).toBe(1);
+    expect(edgeEvidence(newId, carolId)).toBe(1);
+    expect(edgeEvidence(carolId, aliceId)).toBeUndefined();
+    expect(edgeEvidence(carolId, newId)).toBe(1);
+
+    expect(getMergeJournal(aliceId)).toMatchObject([{ operation: 'split', keepEntityId: aliceId, mergedEntityId: newId }]);
+  });
+});
+
+describe('Duplicate Detection', () => {
+  beforeEach(() => {
+    initDb(':memory:');
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  it('should compute Soundex codes', () => {
+    expect(soundex('Robert')).toBe('R163');
+    expect(soundex('Rupert')).toBe('R163');
+    expect(soundex('Smith')).toBe(soundex('Smyth'));
+    expect(soundex('Ashcraft')).toBe('A261');
+    expect(soundex('Lee')).toBe('L000');
+  });
+
+  it('should put nickname and initial variants in a shared block', () => {
+    const shared = (a: string, b: string) => blockingKeys(a).filter(k => blockingKeys(b).includes(k));
+    expect(shared('Bob Stone', 'Robert Stone')).toHaveLength(1);
+    expect(shared('J. Miller', 'Jake Miller')).toEqual(['pre:mill:j']);
+    expect(shared('Alice Wong', 'Robert Stone')).toEqual([]);
+  });
+
+  it('should score attribute and neighbour overlap with a breakdown', () => {
+    const bobId = createEntity({ name: 'Bob Stone', type: 'person', email: 'bob@acme.com' });
+    const robertId = createEntity({ name: 'Robert Stone', type: 'person', email: 'rstone@acme.com' });
+    createEntity({ name: 'Alice Wong', type: 'person', email: 'alice@acme.com' });
+
+    const [candidate, ...rest] = findPotentialDuplicates(0.8);
+    expect(rest).toHaveLength(0);
+    expect([candidate!.entity1.id, candidate!.entity2.id].sort()).toEqual([bobId, robertId].sort());
+    expect(candidate!.features).toMatchObject({ email: 0.3, phone: 0, company: 0, neighbours: 0 });
+    expect(candidate!.score).toBeGreaterThan(candidate!.features.name);
+    expect(candidate!.blocks).toContain('dom:acme.com');
+
+    // Name-only pairs keep their name similarity as the score
+    expect(findPotentialDuplicates(0, { limit: 10 }).every(d => d.score >= d.features.name)).toBe(true);
+  });
+
+  it('should find same-number pairs whatever the names', () => {
+    createEntity({ name: 'Mum', type: 'person', phone: '+44 7700 900123' });
+    createEntity({ name: 'Margaret Jones', type: 'person', phone: '07700 900123' });
+
+    const [candidate] = findPotentialDuplicates(0.7);
+    expect(candidate?.features.phone).toBe(1);
+    expect(candidate?.blocks).toEqual(['tel:0900123']);
+  });
+});
+
+describe('Community Detection', () => {
+  const ids: Record<string, string> = {};
+
+  const link = (a: string, b: string, edgeType = 'communicates_with', strength = 0.8) => {
+    getDb().prepare(`
+      INSERT INTO graph_edges (id, from_entity_id, to_entity_id, edge_type, strength) VALUES (?, ?, ?, ?, ?)
+    `).run(`${a}-${b}-${edgeType}`, ids[a], ids[b], edgeType, strength);
+  };
+
+  beforeEach(() => {
+    initDb(':memory:');
+    ids.acme = createEntity({ name: 'Acme Corp', type: 'org' });
+    for (const name of ['Ann', 'Ben', 'Cat', 'Dan', 'Mum', 'Dad', 'Sis']) {
+      ids[name.toLowerCase()] = createEntity({ name, type: 'person' });
+    }
+
+    // Work: a triangle plus a hub, all at Acme
+    link('ann', 'ben'); link('ben', 'cat'); link('cat', 'ann'); link('dan', 'ann'); link('dan', 'ben');
+    for (const person of ['ann', 'ben', 'cat', 'dan']) link(person, 'acme', 'works_at', 1);
+
+    // Family, with one weak tie to work
+    link('mum', 'dad'); link('dad', 'sis'); link('sis', 'mum');
+    link('sis', 'cat', 'communicates_with', 0.1);
+
+    getDb().prepare(`
+      INSERT INTO assertions (id, subject_entity_id, predicate, object_text, source_type, source_id)
+      VALUES ('f1', ?, 'likes', 'gardening', 'gmail', 'm1'), ('f2', ?, 'likes', 'golf', 'gmail', 'm2')
+    `).run(ids.mum, ids.ann);
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  it('should split work and family into named communities', () => {
+    const result = detectCommunities();
+    expect(result.communities).toBe(2);
+    expect(result.entitiesAssigned).toBe(8);
+    expect(result.modularity).toBeGreaterThan(0.2);
+
+    const work = getEntityCommunity(ids.ann!)!;
+    expect(work.name).toBe('Acme Corp');
+    expect(work.memberCount).toBe(5);
+    expect(work.cohesionScore).toBeGreaterThan(0.9);
+    expect(getEntityCommunity(ids.acme!)?.id).toBe(work.id);
+
+    const family = getEntityCommunity(ids.mum!)!;
+    expect(family.id).not.toBe(work.id);
+    expect(family.name).toMatch(/'s circle$/);
+    expect(getCommunityMembers(family.id).map(m => m.name).sort()).toEqual(['Dad', 'Mum', 'Sis']);
+    expect(getCommunityMembers(work.id)[0]).toMatchObject({ centrality: 1 });
+    expect(work.centralEntityId).toBe(getCommunityMembers(work.id)[0]!.entityId);
+  });
+
+  it('should keep community ids stable across runs', () => {
+    detectCommunities();
+    const before = getCommunities().map(c => c.id).sort();
+    detectCommunities();
+    expect(getCommunities().map(c => c.id).sort()).toEqual(before);
+  });
+
+  it('should scope assembled context to a community', () => {
+    detectCommunities();
+    const family = getEntityCommunity(ids.mum!)!;
+
+    const filtered = assembleContext({ entityIds: [ids.mum!, ids.ann!], communityId: family.id });
+    expect(filtered.relevantFacts.map(f => f.assertion.id)).toEqual(['f1']);
+    expect(filtered.relatedEntities).toHaveLength(0);
+    expect(filtered.community).toMatchObject({ id: family.id, memberCount: 3 });
+
+    const boosted = assembleContext({ entityIds: [ids.ann!, ids.mum!], communityId: family.id, communityMode: 'boost' });
+    expect(boosted.relevantFacts.map(f => f.assertion.id)).toEqual(['f1', 'f2']);
+  });
+});
+
+describe('Entity Importance', () => {
+  const now = new Date('2024-06-01T12:00:00Z');
+  let userId: string;
+  let spouseId: string;
+  let newsletterId: string;
+
+  const insertMessage = (id: string, sender: string, recipients: string[], daysAgo: number, fromUser: boolean) => {
+    getDb().prepare(`
+      INSERT INTO messages (id, source_type, source_id, sender_entity_id, recipient_entity_ids, body_text, timestamp, is_from_user)
+      VALUES (?, 'gmail', ?, ?, ?, 'hi', ?, ?)
+    `).run(id, id, sender, JSON.stringify(recipients), new Date(now.getTime() - daysAgo * 86400000).toISOString(), fromUser ? 1 : 0);
+  };
+
+  beforeEach(() => {
+    initDb(':memory:');
+    userId = createEntity({ name: 'Me Myself', type: 'person' });
+    spouseId = createEntity({ name: 'Jamie Lee', type: 'person', email: 'jamie@home.net' });
+    newsletterId = createEntity({ name: 'Jamie Lee', type: 'person', email: 'news@deals.com' });
+
+    for (let i = 0; i < 10; i++) {
+      insertMessage(`s-in-${i}`, spouseId, [userId], i, false);
+      insertMessage(`s-out-${i}`, userId, [spouseId], i, true);
+      insertMessage(`n-${i}`, newsletterId, [userId], 60 + i, false);
+    }
+    getDb().prepare(`
+      INSERT INTO graph_edges (id, from_entity_id, to_entity_id, edge_type, strength)
+      VALUES ('g1', ?, ?, 'communicates_with', 1), ('g2', ?, ?, 'communicates_with', 0.2)
+    `).run(userId, spouseId, newsletterId, userId);
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  it('should rank a two-way recent contact above an unanswered sender', () => {
+    expect(computeEntityImportance({ now }).entitiesScored).toBe(2);
+
+    const spouse = getEntityImportance(spouseId)!;
+    const newsletter = getEntityImportance(newsletterId)!;
+    expect(spouse.reciprocity).toBe(1);
+    expect(newsletter.reciprocity).toBe(0);
+    expect(spouse.recency).toBeGreaterThan(newsletter.recency);
+    expect(spouse.centrality).toBe(1);
+    expect(spouse.messageCount).toBe(20);
+    expect(spouse.score).toBeGreaterThan(newsletter.score + 0.5);
+
+    expect(getEntityImportance(userId)).toBeNull();
+    expect(getMostImportantEntities().map(e => e.entityId)).toEqual([spouseId, newsletterId]);
+  });
+
+  it('should break resolution ties in favour of the more important entity', async () => {
+    // Without importance the two Jamie Lees are ambiguous
+    const before = await resolveEntity({ name: 'Jamie Lee', type: 'person' }, { quarantine: false });
+    expect(before.created).toBe(true);
+
+    computeEntityImportance({ now });
+    const after = await resolveEntity({ name: 'Jamie Lee', type: 'person' }, { quarantine: false });
+    expect(after).toEqual({ entityId: spouseId, created: false, matchType: 'fuzzy' });
+  });
+});
+
+describe('International Name Matching', () => {
+  afterEach(() => {
+    configureNicknames({ locales: null });
+  });
+
+  it('should fold diacritics and transliterate other scripts', () => {
+    expect(normalizeName('José Núñez')).toBe('jose nunez');
+    expect(normalizeName('Zoë Müller-Straße')).toBe('zoe muller strasse');
+    expect(romanize('Александр Пушкин')).toBe('aleksandr pushkin');
+    expect(romanize('Γιώργος Παπαδόπουλος')).toBe('giorgos papadopoulos');
+    expect(romanize('李伟')).toBe('li wei');
+    expect(romanize('欧阳明')).toBe('ouyang ming');
+    expect(romanize('김민준')).toBe('kim minjun');
+    expect(romanize('サトウ・ケンジ')).toBe('satou kenji');
+  });
+
+  it('should match accented, transliterated and family-name-first forms', () => {
+    expect(nameSimilarity('José Núñez', 'Jose Nunez')).toBe(1);
+    expect(nameSimilarity('Zoë Adams', 'Zoe Adams')).toBe(1);
+    expect(nameSimilarity('Александр Иванов', 'Aleksandr Ivanov')).toBe(1);
+    expect(nameSimilarity('李伟', 'Wei Li')).toBeGreaterThanOrEqual(0.9);
+    expect(nameSimilarity('Núñez, José', 'José Núñez')).toBe(1);
+    expect(nameSimilarity('李伟', '王芳')).toBeLessThan(0.7);
+  });
+
+  it('should use nicknames from every registered locale', () => {
+    expect(isNameVariant('Pepe', 'José')).toBe(true);
+    expect(isNameVariant('Саша', 'Aleksandr')).toBe(true);
+    expect(isNameVariant('Sasha', 'Alexander')).toBe(true);
+    expect(nameSimilarity('Sasha Petrova', 'Александра Петрова')).toBeGreaterThanOrEqual(0.95);
+
+    registerNicknames('nl', { Johannes: ['Jan', 'Hans'] });
+    expect(isNameVariant('Jan', 'Johannes')).toBe(true);
+
+    configureNicknames({ locales: ['en'] });
+    expect(isNameVariant('Pepe', 'José')).toBe(false);
+    expect(isNameVariant('Bob', 'Robert')).toBe(true);
+  });
+});
+
+describe('Entity Aliases', () => {
+  let johnId: string;
+
+  beforeEach(() => {
+    initDb(':memory:');
+    johnId = createEntity({ name: 'John Doe', type: 'person', email: 'john@doe.family' });
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  it('should add, list and remove aliases and handles per source', () => {
+    const handle = addEntityAlias(johnId, '@JDoe', { type: 'handle', source: 'slack', confidence: 0.9 });
+    addEntityAlias(johnId, 'Dad', { source: 'imessage' });
+    addEntityAlias(johnId, 'J. Doe');
+
+    expect(handle).toMatchObject({ aliasType: 'handle', value: '@JDoe', source: 'slack', confidence: 0.9 });
+    expect(getEntityAliases(johnId).map(a => [a.aliasType, a.value, a.source])).toEqual([
+      ['alias', 'J. Doe', undefined],
+      ['alias', 'Dad', 'imessage'],
+      ['handle', '@JDoe', 'slack'],
+    ]);
+    expect(getEntityAliases(johnId, { type: 'handle' })).toHaveLength(1);
+
+    // Re-adding updates rather than duplicating
+    addEntityAlias(johnId, 'jdoe', { type: 'handle', source: 'slack', confidence: 1 });
+    expect(getEntityAliases(johnId, { type: 'handle' })).toMatchObject([{ confidence: 1 }]);
+
+    expect(removeEntityAlias(handle!.id)).toBe(true);
+    expect(getEntityAliases(johnId, { type: 'handle' })).toHaveLength(0);
+    expect(addEntityAlias('missing', 'Nobody')).toBeNull();
+  });
+
+  it('should resolve handles and aliases exactly before fuzzy matching', async () => {
+    addEntityAlias(johnId, '@jdoe', { type: 'handle', source: 'slack' });
+    addEntityAlias(johnId, 'Dad', { source: 'imessage' });
+    addEntityAlias(johnId, 'J. Doe', { confidence: 0.9 });
+
+    const byHandle = await resolveEntity({ name: 'jd', type: 'person', handle: 'jdoe', source: 'slack' });
+    expect(byHandle).toMatchObject({ entityId: johnId, created: false, matchType: 'exact' });
+
+    const byAlias = await resolveEntity({ name: 'Dad', type: 'person', source: 'imessage' });
+    expect(byAlias).toMatchObject({ entityId: johnId, matchType: 'exact' });
+
+    expect((await resolveEntity({ name: 'j doe', type: 'person', source: 'gmail' })).entityId).toBe(johnId);
+
+    // Source-specific aliases don't apply elsewhere, or where the source is unknown
+    expect(findEntitiesByAlias('Dad')).toHaveLength(0);
+    expect(findEntitiesByAlias('Dad', { anySource: true })[0]?.entityId).toBe(johnId);
+    const elsewhere = await resolveEntity({ name: 'Dad', type: 'person', source: 'slack' }, { quarantine: false });
+    expect(elsewhere.created).toBe(true);
+  });
+
+  it('should move names recorded as alias attributes into aliases', async () => {
+    getDb().prepare(`
+      INSERT INTO entity_attributes (id, entity_id, attribute_type, attribute_value) VALUES ('legacy', ?, 'alias', 'Johnny D')
+    `).run(johnId);
+
+    expect(migrateLegacyAliases()).toBe(1);
+    expect(getEntityAliases(johnId).map(a => [a.value, a.source])).toEqual([['Johnny D', undefined]]);
+    expect(await resolveEntity({ name: 'Johnny D', type: 'person', source: 'gmail' })).toMatchObject({
+      entityId: johnId,
+      matchType: 'exact',
+    });
+    expect(migrateLegacyAliases()).toBe(0);
+  });
+
+  it('should move aliases with a merge and restore them on unmerge', () => {
+    const otherId = createEntity({ name: 'Johnny', type: 'person' });
+    addEntityAlias(otherId, '@johnny', { type: 'handle', source: 'slack' });
+    addEntityAlias(otherId, 'Dad', { source: 'imessage' });
+    addEntityAlias(johnId, 'Dad', { source: 'imessage' });
+
+    mergeEntities(johnId, otherId);
+    expect(getEntityAliases(johnId).map(a => a.value).sort()).toEqual(['@johnny', 'Dad', 'Johnny']);
+    expect(findEntitiesByAlias('Johnny')[0]?.entityId).toBe(johnId);
+
+    unmergeEntities(johnId, otherId);
+    expect(getEntityAliases(otherId).map(a => a.value).sort()).toEqual(['@johnny', 'Dad']);
+    expect(getEntityAliases(johnId).map(a => a.value)).toEqual(['Dad']);
+  });
+});
+
+describe('Relationship Strength Decay', () => {
+  const now = new Date('2024-06-01T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 86400000).toISOString();
+  let userId: string;
+  let formerId: string;
+  let currentId: string;
+
+  beforeEach(() => {
+    initDb(':memory:');
+    userId = createEntity({ name: 'Me Myself', type: 'person' });
+    formerId = createEntity({ name: 'Old Colleague', type: 'person' });
+    currentId = createEntity({ name: 'New Colleague', type: 'person' });
+    getDb().prepare(`
+      INSERT INTO graph_edges (id, from_entity_id, to_entity_id, edge_type, strength, last_evidence_at)
+      VALUES ('g1', ?, ?, 'communicates_with', 1, ?), ('g2', ?, ?, 'communicates_with', 1, ?)
+    `).run(userId, formerId, daysAgo(360), userId, currentId, daysAgo(2));
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  it('should halve strength every half-life of the edge type', () => {
+    expect(decayedStrength(1, daysAgo(90), 'communicates_with', now)).toBeCloseTo(0.5);
+    expect(decayedStrength(0.8, daysAgo(360), 'works_at', now)).toBeCloseTo(0.4, 1);
+    expect(decayedStrength(1, daysAgo(3650), 'family', now)).toBe(1);
+  });
+
+  it('should store current strength and rank fresher ties first', () => {
+    expect(recomputeEdgeStrengths({ now }).edgesUpdated).toBe(2);
+
+    const stored = getDb().prepare(`SELECT current_strength FROM graph_edges WHERE id = 'g1'`).get() as { current_strength: number };
+    expect(stored.current_strength).toBeCloseTo(1 / 16);
+
+    const connected = getConnectedEntities(userId);
+    expect(connected.map(c => c.id)).toEqual([currentId, formerId]);
+    expect(connected[1]!.strength).toBeCloseTo(1 / 16);
+  });
+
+  it('should replay message evidence into a strength series', () => {
+    const insert = getDb().prepare(`
+      INSERT INTO messages (id, source_type, source_id, sender_entity_id, recipient_entity_ids, body_text, timestamp, is_from_user)
+      VALUES (?, 'gmail', ?, ?, ?, 'hi', ?, 1)
+    `);
+    insert.run('m1', 'm1', userId, JSON.stringify([formerId]), daysAgo(360));
+    insert.run('m2', 'm2', formerId, JSON.stringify([userId]), daysAgo(180));
+
+    const series = getRelationshipStrengthSeries(formerId, {
+      otherEntityId: userId,
+      interval: 'day',
+      from: new Date(daysAgo(361)),
+      to: now,
+    });
+
+    expect(series[0]).toMatchObject({ strength: 0, evidenceCount: 0 });
+    expect(series[91]!.strength).toBeCloseTo(0.5);
+    expect(series[181]).toMatchObject({ strength: 1, evidenceCount: 2 });
+    expect(series[series.length - 1]!.strength).toBeCloseTo(0.25);
+  });
+});
@@ -0,0 +1,267 @@
+// Entity Importance
+//
+// Scores how much each entity matters to the user from message frequency,
+// recency, reciprocity (does the user write back?) and personalised
+// PageRank from the user over graph_edges. Scores are stored in
+// entity_importance and used to break ties in resolution and to boost
+// search results.
+
+import { execute, query, queryOne, transaction } from '../db/connection';
+import { findUserEntityId } from './user';
+import type { EntityImportance, ImportanceWeights } from '../types';
+
+export interface ImportanceOptions {
+  now?: Date;
+  halfLifeDays?: number;       // Recency halves every this many days (default 30)
+  damping?: number;            // PageRank damping factor (default 0.85)
+  weights?: Partial<ImportanceWeights>;
+}
+
+export const DEFAULT_IMPORTANCE_WEIGHTS: ImportanceWeights = {
+  frequency: 0.3,
+  recency: 0.2,
+  reciprocity: 0.25,
+  centrality: 0.25,
+};
+
+interface ImportanceRow {
+  entity_id: string;
+  score: number;
+  frequency: number | null;
+  recency: number | null;
+  reciprocity: number | null;
+  centrality: number | null;
+  message_count: number;
+  last_interaction_at: string | null;
+  computed_at: string;
+}
+
+interface MessageStats {
+  inbound: number;     // Sent by the entity
+  outbound: number;    // Sent by the user to the entity
+  other: number;       // The entity was a co-recipient
+  last: number;        // Latest message time (ms)
+}
+
+function rowToImportance(row: ImportanceRow): EntityImportance {
+  return {
+    entityId: row.entity_id,
+    score: row.score,
+    frequency: row.frequency ?? 0,
+    recency: row.recency ?? 0,
+    reciprocity: row.reciprocity ?? 0,
+    centrality: row.centrality ?? 0,
+    messageCount: row.message_count,
+    lastInteractionAt: row.last_interaction_at ? new Date(row.last_interaction_at) : undefined,
+    computedAt: new Date(row.computed_at),
+  };
+}
+
+// ============================================================
+// COMPONENTS
+// ============================================================
+
+/**
+ * Per-entity message counts and last contact, relative to the user
+ */
+function collectMessageStats(userId: string | null): Map<string, MessageStats> {
+  const stats = new Map<string, MessageStats>();
+  const bump = (entityId: string, field: 'inbound' | 'outbound' | 'other', time: number) => {
+    if (entityId === userId) return;
+    let entry = stats.get(entityId);
+    if (!entry) {
+      entry = { inbound: 0, outbound: 0, other: 0, last: 0 };
+      stats.set(entityId, entry);
+    }
+    entry[field]++;
+    if (time > entry.last) entry.last = time;
+  };
+
+  const messages = query<{
+    sender_entity_id: string | null;
+    recipient_entity_ids: string | null;
+    timestamp: string;
+    is_from_user: number;
+  }>(`
+    SELECT sender_entity_id, recipient_entity_ids, timestamp, is_from_user FROM messages
+  `);
+
+  for (const message of messages) {
+    const time = new Date(message.timestamp).getTime();
+    let recipients: string[] = [];
+    try {
+      recipients = JSON.parse(message.recipient_entity_ids || '[]');
+    } catch {
+      recipients = [];
+    }
+
+    if (message.is_from_user) {
+      for (const id of recipients) bump(id, 'outbound', time);
+    } else {
+      if (message.sender_entity_id) bump(message.sender_entity_id, 'inbound', time);
+      for (const id of recipients) bump(id, 'other', time);
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Personalised PageRank over graph_edges (undirected, weighted by
+ * strength). Teleports to the user when known, otherwise uniformly.
+ */
+function personalisedPageRank(userId: string | null, damping: number): Map<string, number> {
+  const edges = query<{ from_entity_id: string; to_entity_id: string; strength: number | null }>(`
+    SELECT from_entity_id, to_entity_id, strength FROM graph_edges
+  `);
+
+  const neighbours = new Map<string, Map<string, number>>();
+  const link = (a: string, b: string, w: number) => {
+    let map = neighbours.get(a);
+    if (!map) {
+      map = new Map();
+      neighbours.set(a, map);
+    }
+    map.set(b, (map.get(b) ?? 0) + w);
+  };
+  for (const edge of edges) {
+    if (edge.from_entity_id === edge.to_entity_id) continue;
+    const w = edge.strength ?? 0.5;
+    if (w <= 0) continue;
+    link(edge.from_entity_id, edge.to_entity_id, w);
+    link(edge.to_entity_id, edge.from_entity_id, w);
+  }
+
+  const nodes = Array.from(neighbours.keys());
+  if (nodes.length === 0) return new Map();
+
+  const teleport = new Map<string, number>();
+  if (userId && neighbours.has(userId)) {
+    teleport.set(userId, 1);
+  } else {
+    for (const node of nodes) teleport.set(node, 1 / nodes.length);
+  }
+
+  const outWeight = new Map(nodes.map(n => {
+    let total = 0;
+    for (const w of neighbours.get(n)!.values()) total += w;
+    return [n, total] as const;
+  }));
+
+  let rank = new Map(nodes.map(n => [n, teleport.get(n) ?? 0]));
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const next = new Map(nodes.map(n => [n, (1 - damping) * (teleport.get(n) ?? 0)]));
+    for (const node of nodes) {
+      const share = damping * rank.get(node)! / outWeight.get(node)!;
+      for (const [neighbour, w] of neighbours.get(node)!) {
+        next.set(neighbour, next.get(neighbour)! + share * w);
+      }
+    }
+
+    let delta = 0;
+    for (const node of nodes) delta += Math.abs(next.get(node)! - rank.get(node)!);
+    rank = next;
+    if (delta < 1e-9) break;
+  }
+
+  return rank;
+}
+
+// ============================================================
+// SCORING
+// ============================================================
+
+/**
+ * Recompute importance for every entity the user has messages or graph
+ * edges with. The user's own entity isn't scored.
+ */
+export function computeEntityImportance(options: ImportanceOptions = {}): { entitiesScored: number } {
+  const now = (options.now ?? new Date()).getTime();
+  const halfLifeDays = options.halfLifeDays ?? 30;
+  const weights = { ...DEFAULT_IMPORTANCE_WEIGHTS, ...options.weights };
+
+  const userId = findUserEntityId();
+  const stats = collectMessageStats(userId);
+  const pageRank = personalisedPageRank(userId, options.damping ?? 0.85);
+  if (userId) pageRank.delete(userId);
+
+  const known = new Set(query<{ id: string }>('SELECT id FROM entities').map(r => r.id));
+  const ids = Array.from(new Set([...stats.keys(), ...pageRank.keys()])).filter(id => known.has(id));
+
+  let maxMessages = 0;
+  for (const s of stats.values()) maxMessages = Math.max(maxMessages, s.inbound + s.outbound + s.other);
+  const maxRank = Math.max(0, ...pageRank.values());
+
+  transaction(() => {
+    execute('DELETE FROM entity_importance');
+
+    for (const id of ids) {
+      const s = stats.get(id);
+      const total = s ? s.inbound + s.outbound + s.other : 0;
+
+      const frequency = maxMessages > 0 ? Math.log1p(total) / Math.log1p(maxMessages) : 0;
+      const recency = s && s.last > 0
+        ? Math.pow(0.5, Math.max(0, now - s.last) / (halfLifeDays * 86400000))
+        : 0;
+      // Inbound mail the user never answers (newsletters) scores 0; people
+      // the user writes to without hearing back still matter
+      const reciprocity = !s ? 0 : s.inbound === 0 ? (s.outbound > 0 ? 1 : 0) : Math.min(1, s.outbound / s.inbound);
+      const centrality = maxRank > 0 ? (pageRank.get(id) ?? 0) / maxRank : 0;
+
+      const score =
+        weights.frequency * frequency +
+        weights.recency * recency +
+        weights.reciprocity * reciprocity +
+        weights.centrality * centrality;
+
+      execute(`
+        INSERT INTO entity_importance (
+          entity_id, score, frequency, recency, reciprocity, centrality, message_count, last_interaction_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        id, score, frequency, recency, reciprocity, centrality, total,
+        s && s.last > 0 ? new Date(s.last).toISOString() : null,
+      ]);
+    }
+  });
+
+  return { entitiesScored: ids.length };
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * Stored importance for an entity, if it has been scored
+ */
+export function getEntityImportance(entityId: string): EntityImportance | null {
+  const row = queryOne<ImportanceRow>('SELECT * FROM entity_importance WHERE entity_id = ?', [entityId]);
+  return row ? rowToImportance(row) : null;
+}
+
+/**
+ * Importance scores for a set of entities (unscored entities are omitted)
+ */
+export function getImportanceScores(entityIds: string[]): Map<string, number> {
+  if (entityIds.length === 0) return new Map();
+
+  const rows = query<{ entity_id: string; score: number }>(`
+    SELECT entity_id, score FROM entity_importance
+    WHERE entity_id IN (${entityIds.map(() => '?').join(',')})
+  `, entityIds);
+
+  return new Map(rows.map(r => [r.entity_id, r.score]));
+}
+
+/**
+ * The entities that matter most to the user
+ */
+export function getMostImportantEntities(limit: number = 20): Array<EntityImportance & { name: string }> {
+  return query<ImportanceRow & { canonical_name: string }>(`
+    SELECT ei.*, e.canonical_name FROM entity_importance ei
+    JOIN entities e ON e.id = ei.entity_id
+    ORDER BY ei.score DESC
+    LIMIT ?
+  `, [limit]).map(row => ({ ...rowToImportance(row), name: row.canonical_name }));
+}
@@ -1,4 +1,14 @@
 // Entity module exports
 
 export * from './matcher';
+export * from './transliterate';
+export * from './nicknames';
 export * from './resolver';
+export * from './quarantine';
+export * from './merge';
+export * from './aliases';
+export * from './duplicates';
+export * from './communities';
+export * from './importance';
+export * from './decay';
+export * from './user';
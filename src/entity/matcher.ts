@@ -1,5 +1,8 @@
 // Fuzzy matching utilities for entity resolution
 
+import { romanize } from './transliterate';
+import { nicknameGroupsFor } from './nicknames';
+
 /**
  * Jaro-Winkler similarity score between two strings
  * Returns a score between 0 (no similarity) and 1 (exact match)
@@ -80,146 +83,123 @@ function commonPrefixLength(s1: string, s2: string, max: number): number {
 
 /**
  * Normalize a name for comparison
- * - Lowercase
+ * - Fold to lowercase ASCII (diacritics, Cyrillic, Greek, CJK; see romanize)
  * - Remove titles (Dr., Mr., Mrs., etc.)
  * - Remove suffixes (Jr., Sr., III, etc.)
  * - Remove extra whitespace
  */
 export function normalizeName(name: string): string {
-  return name
-    .toLowerCase()
+  return romanize(name)
     .replace(/\b(dr|mr|mrs|ms|prof|sir|dame|rev)\.?\s*/gi, '')
     .replace(/\b(jr|sr|iii|ii|iv|esq|phd|md)\.?\s*$/gi, '')
-    .replace(/[^\w\s]/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
     .replace(/\s+/g, ' ')
     .trim();
 }
 
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
 /**
- * Check if one name could be a nickname/variant of another
+ * American Soundex code for a single name token ("Smith" and "Smyth"
+ * both give S530). Returns '' for tokens with no letters.
  */
-const NICKNAME_MAP: Record<string, string[]> = {
-  'william': ['will', 'bill', 'billy', 'willy', 'liam'],
-  'robert': ['rob', 'bob', 'bobby', 'robbie'],
-  'richard': ['rick', 'dick', 'richie', 'ricky'],
-  'james': ['jim', 'jimmy', 'jamie'],
-  'john': ['jack', 'johnny', 'jon'],
-  'michael': ['mike', 'mikey', 'mick'],
-  'christopher': ['chris', 'kit', 'topher'],
-  'jennifer': ['jen', 'jenny', 'jenn'],
-  'elizabeth': ['liz', 'lizzy', 'beth', 'betty', 'eliza'],
-  'katherine': ['kate', 'kathy', 'katie', 'kat', 'kitty'],
-  'margaret': ['maggie', 'meg', 'peggy', 'marge'],
-  'daniel': ['dan', 'danny'],
-  'joseph': ['joe', 'joey'],
-  'david': ['dave', 'davy'],
-  'anthony': ['tony', 'ant'],
-  'alexander': ['alex', 'sandy', 'xander'],
-  'samuel': ['sam', 'sammy'],
-  'benjamin': ['ben', 'benny', 'benji'],
-  'jacob': ['jake', 'jakey'],
-  'matthew': ['matt', 'matty'],
-  'thomas': ['tom', 'tommy'],
-  'edward': ['ed', 'eddie', 'ted', 'teddy'],
-  'andrew': ['andy', 'drew'],
-  'nicholas': ['nick', 'nicky'],
-  'joshua': ['josh'],
-  'jonathan': ['jon', 'jonny'],
-  'timothy': ['tim', 'timmy'],
-  'stephen': ['steve', 'stevie'],
-  'steven': ['steve', 'stevie'],
-  'peter': ['pete', 'petey'],
-  'patrick': ['pat', 'paddy'],
-  'raymond': ['ray'],
-  'gregory': ['greg', 'gregg'],
-  'george': ['georgie'],
-  'charles': ['charlie', 'chuck', 'chas'],
-  'henry': ['hank', 'harry'],
-  'frank': ['frankie', 'franky'],
-  'walter': ['walt', 'wally'],
-  'albert': ['al', 'bert', 'bertie'],
-  'arthur': ['art', 'artie'],
-  'ralph': ['ralphy'],
-  'lawrence': ['larry'],
-  'gerald': ['gerry', 'jerry'],
-  'eugene': ['gene'],
-  'harold': ['hal', 'harry'],
-  'leonard': ['leo', 'lenny'],
-  'victoria': ['vicky', 'tori'],
-  'stephanie': ['steph', 'stevie'],
-  'samantha': ['sam', 'sammy'],
-  'abigail': ['abby', 'gail'],
-  'alexandra': ['alex', 'lexi', 'sandy'],
-  'allison': ['ally', 'allie'],
-  'amanda': ['mandy'],
-  'barbara': ['barb', 'barbie', 'babs'],
-  'beatrice': ['bea', 'trixie'],
-  'caroline': ['carol', 'carrie'],
-  'catherine': ['cathy', 'kate', 'katie', 'cat'],
-  'christina': ['chris', 'chrissy', 'tina'],
-  'deborah': ['deb', 'debbie'],
-  'dorothy': ['dot', 'dotty'],
-  'eleanor': ['ellie', 'ella', 'nora'],
-  'emily': ['em', 'emmy'],
-  'frances': ['fran', 'frannie'],
-  'gabrielle': ['gabby', 'gabi'],
-  'jacqueline': ['jackie'],
-  'jessica': ['jess', 'jessie'],
-  'joanna': ['jo', 'joanie'],
-  'josephine': ['jo', 'josie'],
-  'judith': ['judy', 'judi'],
-  'lillian': ['lily', 'lil'],
-  'madeleine': ['maddie', 'maddy'],
-  'melissa': ['mel', 'missy', 'lissa'],
-  'natalie': ['nat', 'nattie'],
-  'patricia': ['pat', 'patty', 'trish', 'tricia'],
-  'priscilla': ['prissy', 'cilla'],
-  'rebecca': ['becky', 'becca'],
-  'suzanne': ['sue', 'suzy', 'susie'],
-  'theodore': ['ted', 'teddy', 'theo'],
-  'veronica': ['ronnie', 'vera'],
-  'virginia': ['ginny', 'ginger'],
-};
+export function soundex(token: string): string {
+  const letters = romanize(token).replace(/[^a-z]/g, '');
+  if (!letters) return '';
+
+  let code = letters[0]!.toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]!] ?? '';
+
+  for (const char of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[char] ?? '';
+    if (digit && digit !== previous) {
+      code += digit;
+      if (code.length === 4) break;
+    }
+    // h and w don't separate letters with the same code; vowels do
+    if (char !== 'h' && char !== 'w') previous = digit;
+  }
+
+  return code.padEnd(4, '0');
+}
 
 /**
- * Check if two first names could be variants of each other
+ * Check if two first names could be variants of each other, using the
+ * nickname dictionaries of every active locale (see nicknames.ts)
  */
 export function isNameVariant(name1: string, name2: string): boolean {
-  const n1 = name1.toLowerCase();
-  const n2 = name2.toLowerCase();
+  const n1 = romanize(name1).trim();
+  const n2 = romanize(name2).trim();
 
   if (n1 === n2) return true;
 
-  // Check both directions in nickname map
-  for (const [full, nicks] of Object.entries(NICKNAME_MAP)) {
-    if (
-      (n1 === full && nicks.includes(n2)) ||
-      (n2 === full && nicks.includes(n1)) ||
-      (nicks.includes(n1) && nicks.includes(n2))
-    ) {
-      return true;
-    }
-  }
+  return nicknameGroupsFor(n1).some(group => group.members.has(n2));
+}
+
+/**
+ * Full form of a nickname ("bob" -> "robert"), or the name itself. Where a
+ * nickname has several full forms the first listed wins, which is enough
+ * for grouping but not for deciding two names match (use isNameVariant).
+ */
+export function canonicalFirstName(name: string): string {
+  const n = romanize(name).trim();
+  const groups = nicknameGroupsFor(n);
 
-  return false;
+  if (groups.some(group => group.full === n)) return n;
+  return groups[0]?.full ?? n;
+}
+
+// "Li Wei" vs "Wei Li" is usually the same person written in the other
+// order, but not always
+const FAMILY_ORDER_PENALTY = 0.95;
+
+const NAME_SUFFIX = /^\s*(jr|sr|iii|ii|iv|esq|phd|md)\.?\s*$/i;
+
+/**
+ * Normalized name parts in given-name-first order ("Núñez, José" -> ["jose", "nunez"])
+ */
+function nameParts(name: string): string[] {
+  const [family, given, ...rest] = name.split(',');
+  const reordered = given?.trim() && rest.length === 0 && !NAME_SUFFIX.test(given)
+    ? `${given} ${family}`
+    : name;
+  return normalizeName(reordered).split(' ').filter(Boolean);
 }
 
 /**
  * Calculate overall name similarity considering:
  * - Jaro-Winkler base score
- * - Nickname matching bonus
+ * - Nickname matching bonus (all active locales)
  * - First/last name matching
+ * - Family-name-first ordering ("Li Wei", "李伟" vs "Wei Li")
  */
 export function nameSimilarity(name1: string, name2: string): number {
-  const n1 = normalizeName(name1);
-  const n2 = normalizeName(name2);
+  const parts1 = nameParts(name1);
+  const parts2 = nameParts(name2);
 
-  // Direct Jaro-Winkler
-  let score = jaroWinkler(n1, n2);
+  let score = scoreNameParts(parts1, parts2);
 
-  // Split into parts for more analysis
-  const parts1 = n1.split(' ').filter(Boolean);
-  const parts2 = n2.split(' ').filter(Boolean);
+  if (parts1.length >= 2 && parts2.length >= 2) {
+    const familyFirst = [parts2[parts2.length - 1]!, ...parts2.slice(0, -1)];
+    score = Math.max(score, scoreNameParts(parts1, familyFirst) * FAMILY_ORDER_PENALTY);
+  }
+
+  return score;
+}
+
+/**
+ * Similarity of two names whose parts are in the same order
+ */
+function scoreNameParts(parts1: string[], parts2: string[]): number {
+  // Direct Jaro-Winkler
+  let score = jaroWinkler(parts1.join(' '), parts2.join(' '));
 
   if (parts1.length >= 1 && parts2.length >= 1) {
     // Check first names
@@ -0,0 +1,732 @@
+// Entity Merge Journal
+//
+// Merges and splits rewrite messages, assertions, graph edges, attributes,
+// commitments and engagement events in place; merges also move meeting
+// attendance, per-recipient style and context membership, which deleting the
+// merged entity would otherwise cascade away. Each one is journaled
+// (entity_merge_journal) with the exact rows it touched, so a bad merge can be
+// undone with unmergeEntities.
+
+import { v4 as uuidv4 } from 'uuid';
+import { getDb, query, queryOne, execute, transaction } from '../db/connection';
+import { createEntity, type ResolveCandidate } from './resolver';
+import { addEntityAlias, normalizeAlias } from './aliases';
+import type { MergeCounts, MergeJournalEntry, UnmergeResult, SplitResult } from '../types';
+
+interface EntityRow {
+  id: string;
+  canonical_name: string;
+  entity_type: string;
+  created_at: string;
+  updated_at: string;
+  merge_history: string | null;
+}
+
+interface AttributeRow {
+  id: string;
+  entity_id: string;
+  attribute_type: string;
+  attribute_value: string;
+  confidence: number | null;
+  source_assertion_id: string | null;
+  created_at: string;
+}
+
+interface AliasRow {
+  id: string;
+  entity_id: string;
+  alias_type: string;
+  value: string;
+  normalized_value: string;
+  source: string;
+  confidence: number | null;
+  created_at: string;
+}
+
+interface ParticipantRow {
+  id: string;
+  commitment_id: string;
+  entity_id: string;
+  response_status: string | null;
+  created_at: string;
+}
+
+interface RecipientStyleRow {
+  recipient_entity_id: string;
+  relationship_type: string | null;
+  formality: number | null;
+  warmth: number | null;
+  emoji_usage: number | null;
+  avg_response_time_hours: number | null;
+  example_messages: string | null;
+  message_count: number | null;
+  updated_at: string;
+}
+
+interface EdgeRow {
+  id: string;
+  from_entity_id: string;
+  to_entity_id: string;
+  edge_type: string;
+  strength: number | null;
+  evidence_count: number | null;
+  last_evidence_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Everything a merge changed, enough to reverse it
+ */
+interface MergeChanges {
+  keepMergeHistory: string[];                   // Kept entity's merge_history before
+  aliasAttributeId: string | null;              // 'alias' attribute added by merges before entity_aliases
+  aliasId?: string | null;                      // entity_aliases row the merge added
+  movedAttributeIds: string[];
+  removedAttributes: AttributeRow[];            // Duplicates of the kept entity's, deleted
+  movedAliasIds?: string[];                     // Absent in journals written before entity_aliases
+  removedAliases?: AliasRow[];
+  movedEdges: Array<{ id: string; fromEntityId: string; toEntityId: string }>;  // Original ends
+  foldedEdges: Array<{                          // Would have duplicated a kept edge
+    edge: EdgeRow;
+    intoId: string;
+    intoStrength: number | null;
+    intoLastEvidenceAt: string | null;
+  }>;
+  senderMessageIds: string[];
+  recipientMessages: Array<{ id: string; recipients: string | null }>;  // recipient_entity_ids before
+  subjectAssertionIds: string[];
+  objectAssertionIds: string[];
+  ownerCommitmentIds?: string[];                // Absent in journals written before commitments were moved
+  counterpartyCommitmentIds?: string[];
+  engagementEventIds?: string[];
+  movedParticipantIds?: string[];               // Absent in journals written before attendance was moved
+  removedParticipants?: ParticipantRow[];       // Meetings the kept entity attends too, deleted
+  movedRecipientStyle?: boolean;
+  foldedRecipientStyle?: {                      // The kept entity had a style of its own
+    row: RecipientStyleRow;
+    intoMessageCount: number | null;
+  };
+  movedContextIds?: string[];
+  foldedContexts?: Array<{ contextId: string; confidence: number | null; intoConfidence: number | null }>;
+}
+
+interface JournalRow {
+  id: string;
+  operation: string;
+  keep_entity_id: string;
+  merged_entity_id: string;
+  entity_snapshot: string;
+  changes: string;
+  created_at: string;
+  reverted_at: string | null;
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(',');
+}
+
+function parseIds(json: string | null): string[] {
+  try {
+    const value = JSON.parse(json || '[]');
+    return Array.isArray(value) ? value as string[] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Messages with an entity among their recipients
+ */
+function messagesWithRecipient(entityId: string, messageIds?: string[]): Array<{ id: string; recipient_entity_ids: string | null }> {
+  const filter = messageIds ? `AND m.id IN (${placeholders(messageIds)})` : '';
+  return query(`
+    SELECT m.id, m.recipient_entity_ids FROM messages m
+    WHERE EXISTS (SELECT 1 FROM json_each(m.recipient_entity_ids) WHERE json_each.value = ?)
+    ${filter}
+  `, [entityId, ...(messageIds ?? [])]);
+}
+
+function replaceRecipient(json: string | null, fromId: string, toId: string): string {
+  const ids = parseIds(json).map(id => (id === fromId ? toId : id));
+  return JSON.stringify(Array.from(new Set(ids)));
+}
+
+function countChanges(changes: MergeChanges): MergeCounts {
+  return {
+    attributes: changes.movedAttributeIds.length + changes.removedAttributes.length,
+    edges: changes.movedEdges.length + changes.foldedEdges.length,
+    messages: new Set([...changes.senderMessageIds, ...changes.recipientMessages.map(m => m.id)]).size,
+    assertions: new Set([...changes.subjectAssertionIds, ...changes.objectAssertionIds]).size,
+  };
+}
+
+function rowToJournalEntry(row: JournalRow): MergeJournalEntry {
+  return {
+    id: row.id,
+    operation: row.operation as MergeJournalEntry['operation'],
+    keepEntityId: row.keep_entity_id,
+    mergedEntityId: row.merged_entity_id,
+    createdAt: new Date(row.created_at),
+    revertedAt: row.reverted_at ? new Date(row.reverted_at) : undefined,
+    counts: countChanges(JSON.parse(row.changes) as MergeChanges),
+  };
+}
+
+// ============================================================
+// MERGE
+// ============================================================
+
+/**
+ * Merge two entities (combine all attributes and edges). Returns the
+ * journal entry id, or null if either entity doesn't exist.
+ */
+export function mergeEntities(keepId: string, mergeId: string): string | null {
+  if (keepId === mergeId) return null;
+
+  const db = getDb();
+
+  return transaction(() => {
+    // Get the entity being merged
+    const mergeEntity = queryOne<EntityRow>('SELECT * FROM entities WHERE id = ?', [mergeId]);
+    const keepEntity = queryOne<EntityRow>('SELECT * FROM entities WHERE id = ?', [keepId]);
+    if (!mergeEntity || !keepEntity) return null;
+
+    const movedAliasIds: string[] = [];
+    const removedAliases: AliasRow[] = [];
+    const changes: MergeChanges = {
+      keepMergeHistory: parseIds(keepEntity.merge_history),
+      aliasAttributeId: null,
+      movedAttributeIds: [],
+      removedAttributes: [],
+      movedAliasIds,
+      removedAliases,
+      movedEdges: [],
+      foldedEdges: [],
+      senderMessageIds: [],
+      recipientMessages: [],
+      subjectAssertionIds: [],
+      objectAssertionIds: [],
+      ownerCommitmentIds: [],
+      counterpartyCommitmentIds: [],
+      engagementEventIds: [],
+      movedParticipantIds: [],
+      removedParticipants: [],
+      movedContextIds: [],
+      foldedContexts: [],
+    };
+
+    // Update merge history on kept entity
+    const history = [...changes.keepMergeHistory, mergeId, ...parseIds(mergeEntity.merge_history)];
+    execute(`
+      UPDATE entities SET merge_history = ?, updated_at = datetime('now') WHERE id = ?
+    `, [JSON.stringify(history), keepId]);
+
+    // Add merged entity's name as an alias, unless the kept entity already has it
+    const hasAlias = queryOne(`
+      SELECT 1 FROM entity_aliases WHERE entity_id = ? AND alias_type = 'alias' AND source = '' AND normalized_value = ?
+    `, [keepId, normalizeAlias(mergeEntity.canonical_name, 'alias')]);
+    if (!hasAlias) changes.aliasId = addEntityAlias(keepId, mergeEntity.canonical_name)?.id ?? null;
+
+    // Move attributes; ones the kept entity already has are dropped
+    const keepAttributes = new Set(
+      query<{ attribute_type: string; attribute_value: string }>(
+        'SELECT attribute_type, attribute_value FROM entity_attributes WHERE entity_id = ?', [keepId]
+      ).map(a => `${a.attribute_type}\u0000${a.attribute_value}`)
+    );
+    for (const attr of query<AttributeRow>('SELECT * FROM entity_attributes WHERE entity_id = ?', [mergeId])) {
+      if (keepAttributes.has(`${attr.attribute_type}\u0000${attr.attribute_value}`)) {
+        execute('DELETE FROM entity_attributes WHERE id = ?', [attr.id]);
+        changes.removedAttributes.push(attr);
+      } else {
+        execute('UPDATE entity_attributes SET entity_id = ? WHERE id = ?', [keepId, attr.id]);
+        changes.movedAttributeIds.push(attr.id);
+      }
+    }
+
+    // Move aliases and handles the same way
+    const keepAliases = new Set(
+      query<AliasRow>('SELECT * FROM entity_aliases WHERE entity_id = ?', [keepId])
+        .map(a => `${a.alias_type}\u0000${a.source}\u0000${a.normalized_value}`)
+    );
+    for (const alias of query<AliasRow>('SELECT * FROM entity_aliases WHERE entity_id = ?', [mergeId])) {
+      if (keepAliases.has(`${alias.alias_type}\u0000${alias.source}\u0000${alias.normalized_value}`)) {
+        execute('DELETE FROM entity_aliases WHERE id = ?', [alias.id]);
+        removedAliases.push(alias);
+      } else {
+        execute('UPDATE entity_aliases SET entity_id = ? WHERE id = ?', [keepId, alias.id]);
+        movedAliasIds.push(alias.id);
+      }
+    }
+
+    // Update graph edges; an edge the kept entity already has absorbs the evidence
+    const edges = query<EdgeRow>(`
+      SELECT * FROM graph_edges WHERE from_entity_id = ? OR to_entity_id = ?
+    `, [mergeId, mergeId]);
+    for (const edge of edges) {
+      const fromId = edge.from_entity_id === mergeId ? keepId : edge.from_entity_id;
+      const toId = edge.to_entity_id === mergeId ? keepId : edge.to_entity_id;
+
+      const existing = queryOne<EdgeRow>(`
+        SELECT * FROM graph_edges
+        WHERE from_entity_id = ? AND to_entity_id = ? AND edge_type = ? AND id != ?
+      `, [fromId, toId, edge.edge_type, edge.id]);
+
+      if (existing) {
+        execute('DELETE FROM graph_edges WHERE id = ?', [edge.id]);
+        execute(`
+          UPDATE graph_edges SET
+            evidence_count = COALESCE(evidence_count, 1) + ?,
+            strength = MAX(COALESCE(strength, 0), ?),
+            last_evidence_at = MAX(COALESCE(last_evidence_at, ''), COALESCE(?, ''))
+          WHERE id = ?
+        `, [edge.evidence_count ?? 1, edge.strength ?? 0, edge.last_evidence_at, existing.id]);
+        changes.foldedEdges.push({
+          edge,
+          intoId: existing.id,
+          intoStrength: existing.strength,
+          intoLastEvidenceAt: existing.last_evidence_at,
+        });
+      } else {
+        execute('UPDATE graph_edges SET from_entity_id = ?, to_entity_id = ? WHERE id = ?', [fromId, toId, edge.id]);
+        changes.movedEdges.push({ id: edge.id, fromEntityId: edge.from_entity_id, toEntityId: edge.to_entity_id });
+      }
+    }
+
+    // Update messages (sender and recipient lists)
+    changes.senderMessageIds = query<{ id: string }>(
+      'SELECT id FROM messages WHERE sender_entity_id = ?', [mergeId]
+    ).map(r => r.id);
+    execute('UPDATE messages SET sender_entity_id = ? WHERE sender_entity_id = ?', [keepId, mergeId]);
+
+    const updateRecipients = db.prepare('UPDATE messages SET recipient_entity_ids = ? WHERE id = ?');
+    for (const message of messagesWithRecipient(mergeId)) {
+      changes.recipientMessages.push({ id: message.id, recipients: message.recipient_entity_ids });
+      updateRecipients.run(replaceRecipient(message.recipient_entity_ids, mergeId, keepId), message.id);
+    }
+
+    // Update assertions
+    changes.subjectAssertionIds = query<{ id: string }>(
+      'SELECT id FROM assertions WHERE subject_entity_id = ?', [mergeId]
+    ).map(r => r.id);
+    changes.objectAssertionIds = query<{ id: string }>(
+      'SELECT id FROM assertions WHERE object_entity_id = ?', [mergeId]
+    ).map(r => r.id);
+    execute('UPDATE assertions SET subject_entity_id = ? WHERE subject_entity_id = ?', [keepId, mergeId]);
+    execute('UPDATE assertions SET object_entity_id = ? WHERE object_entity_id = ?', [keepId, mergeId]);
+
+    // Update commitments and engagement events
+    changes.ownerCommitmentIds = query<{ id: string }>(
+      'SELECT id FROM commitments WHERE owner_entity_id = ?', [mergeId]
+    ).map(r => r.id);
+    changes.counterpartyCommitmentIds = query<{ id: string }>(
+      'SELECT id FROM commitments WHERE counterparty_entity_id = ?', [mergeId]
+    ).map(r => r.id);
+    changes.engagementEventIds = query<{ id: string }>(
+      'SELECT id FROM engagement_events WHERE recipient_entity_id = ?', [mergeId]
+    ).map(r => r.id);
+    execute('UPDATE commitments SET owner_entity_id = ? WHERE owner_entity_id = ?', [keepId, mergeId]);
+    execute('UPDATE commitments SET counterparty_entity_id = ? WHERE counterparty_entity_id = ?', [keepId, mergeId]);
+    execute('UPDATE engagement_events SET recipient_entity_id = ? WHERE recipient_entity_id = ?', [keepId, mergeId]);
+
+    // Meeting attendance; where both attended, the kept entity's response stands
+    const keepMeetings = new Set(
+      query<{ commitment_id: string }>('SELECT commitment_id FROM commitment_participants WHERE entity_id = ?', [keepId])
+        .map(p => p.commitment_id)
+    );
+    for (const participant of query<ParticipantRow>('SELECT * FROM commitment_participants WHERE entity_id = ?', [mergeId])) {
+      if (keepMeetings.has(participant.commitment_id)) {
+        execute('DELETE FROM commitment_participants WHERE id = ?', [participant.id]);
+        changes.removedParticipants!.push(participant);
+      } else {
+        execute('UPDATE commitment_participants SET entity_id = ? WHERE id = ?', [keepId, participant.id]);
+        changes.movedParticipantIds!.push(participant.id);
+      }
+    }
+
+    // Per-recipient style; a style the kept entity already has absorbs the message count
+    const style = queryOne<RecipientStyleRow>('SELECT * FROM recipient_styles WHERE recipient_entity_id = ?', [mergeId]);
+    if (style) {
+      const keepStyle = queryOne<{ message_count: number | null }>(
+        'SELECT message_count FROM recipient_styles WHERE recipient_entity_id = ?', [keepId]
+      );
+      if (keepStyle) {
+        execute('DELETE FROM recipient_styles WHERE recipient_entity_id = ?', [mergeId]);
+        execute(`
+          UPDATE recipient_styles SET message_count = COALESCE(message_count, 0) + ? WHERE recipient_entity_id = ?
+        `, [style.message_count ?? 0, keepId]);
+        changes.foldedRecipientStyle = { row: style, intoMessageCount: keepStyle.message_count };
+      } else {
+        execute('UPDATE recipient_styles SET recipient_entity_id = ? WHERE recipient_entity_id = ?', [keepId, mergeId]);
+        changes.movedRecipientStyle = true;
+      }
+    }
+
+    // Context membership; a context both belong to keeps the higher confidence
+    const memberships = query<{ context_id: string; confidence: number | null }>(
+      'SELECT context_id, confidence FROM entity_context_membership WHERE entity_id = ?', [mergeId]
+    );
+    for (const membership of memberships) {
+      const kept = queryOne<{ confidence: number | null }>(
+        'SELECT confidence FROM entity_context_membership WHERE entity_id = ? AND context_id = ?', [keepId, membership.context_id]
+      );
+      if (kept) {
+        execute('DELETE FROM entity_context_membership WHERE entity_id = ? AND context_id = ?', [mergeId, membership.context_id]);
+        execute(`
+          UPDATE entity_context_membership SET confidence = MAX(COALESCE(confidence, 0), ?)
+          WHERE entity_id = ? AND context_id = ?
+        `, [membership.confidence ?? 0, keepId, membership.context_id]);
+        changes.foldedContexts!.push({
+          contextId: membership.context_id,
+          confidence: membership.confidence,
+          intoConfidence: kept.confidence,
+        });
+      } else {
+        execute(`
+          UPDATE entity_context_membership SET entity_id = ? WHERE entity_id = ? AND context_id = ?
+        `, [keepId, mergeId, membership.context_id]);
+        changes.movedContextIds!.push(membership.context_id);
+      }
+    }
+
+    // Journal, then delete the merged entity
+    const journalId = uuidv4();
+    execute(`
+      INSERT INTO entity_merge_journal (id, operation, keep_entity_id, merged_entity_id, entity_snapshot, changes)
+      VALUES (?, 'merge', ?, ?, ?, ?)
+    `, [journalId, keepId, mergeId, JSON.stringify(mergeEntity), JSON.stringify(changes)]);
+
+    // Communities are recomputed by the worker; keep the central entity reference valid until then
+    execute('UPDATE entity_communities SET central_entity_id = ? WHERE central_entity_id = ?', [keepId, mergeId]);
+    execute('DELETE FROM entities WHERE id = ?', [mergeId]);
+
+    return journalId;
+  });
+}
+
+/**
+ * Undo the most recent merge of mergedId into keepId: recreate the merged
+ * entity with its original id and move back exactly the rows the merge
+ * moved. Rows added to the kept entity after the merge stay where they are.
+ */
+export function unmergeEntities(keepId: string, mergedId: string): UnmergeResult {
+  const row = queryOne<JournalRow>(`
+    SELECT * FROM entity_merge_journal
+    WHERE operation = 'merge' AND keep_entity_id = ? AND merged_entity_id = ? AND reverted_at IS NULL
+    ORDER BY created_at DESC, rowid DESC
+    LIMIT 1
+  `, [keepId, mergedId]);
+
+  if (!row) {
+    return { restored: false, reason: 'No merge of these entities in the journal' };
+  }
+  if (queryOne('SELECT 1 FROM entities WHERE id = ?', [mergedId])) {
+    return { restored: false, reason: 'Merged entity already exists' };
+  }
+  if (!queryOne('SELECT 1 FROM entities WHERE id = ?', [keepId])) {
+    return { restored: false, reason: 'Kept entity no longer exists (merged into another entity?)' };
+  }
+
+  const snapshot = JSON.parse(row.entity_snapshot) as EntityRow;
+  const changes = JSON.parse(row.changes) as MergeChanges;
+
+  transaction(() => {
+    execute(`
+      INSERT INTO entities (id, canonical_name, entity_type, created_at, updated_at, merge_history)
+      VALUES (?, ?, ?, ?, datetime('now'), ?)
+    `, [snapshot.id, snapshot.canonical_name, snapshot.entity_type, snapshot.created_at, snapshot.merge_history ?? '[]']);
+
+    // Attributes
+    for (const id of changes.movedAttributeIds) {
+      execute('UPDATE entity_attributes SET entity_id = ? WHERE id = ? AND entity_id = ?', [mergedId, id, keepId]);
+    }
+    for (const attr of changes.removedAttributes) {
+      execute(`
+        INSERT OR IGNORE INTO entity_attributes
+          (id, entity_id, attribute_type, attribute_value, confidence, source_assertion_id, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [attr.id, mergedId, attr.attribute_type, attr.attribute_value, attr.confidence, attr.source_assertion_id, attr.created_at]);
+    }
+    if (changes.aliasAttributeId) {
+      execute('DELETE FROM entity_attributes WHERE id = ?', [changes.aliasAttributeId]);
+    }
+    if (changes.aliasId) {
+      execute('DELETE FROM entity_aliases WHERE id = ?', [changes.aliasId]);
+    }
+
+    // Aliases and handles
+    for (const id of changes.movedAliasIds ?? []) {
+      execute('UPDATE entity_aliases SET entity_id = ? WHERE id = ? AND entity_id = ?', [mergedId, id, keepId]);
+    }
+    for (const alias of changes.removedAliases ?? []) {
+      execute(`
+        INSERT OR IGNORE INTO entity_aliases
+          (id, entity_id, alias_type, value, normalized_value, source, confidence, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [alias.id, mergedId, alias.alias_type, alias.value, alias.normalized_value, alias.source, alias.confidence, alias.created_at]);
+    }
+
+    // Graph edges
+    for (const edge of changes.movedEdges) {
+      execute('UPDATE graph_edges SET from_entity_id = ?, to_entity_id = ? WHERE id = ?', [edge.fromEntityId, edge.toEntityId, edge.id]);
+    }
+    for (const folded of changes.foldedEdges) {
+      const { edge } = folded;
+      execute(`
+        INSERT OR IGNORE INTO graph_edges
+          (id, from_entity_id, to_entity_id, edge_type, strength, evidence_count, last_evidence_at, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [edge.id, edge.from_entity_id, edge.to_entity_id, edge.edge_type, edge.strength, edge.evidence_count, edge.last_evidence_at, edge.created_at]);
+      execute(`
+        UPDATE graph_edges SET
+          evidence_count = MAX(1, COALESCE(evidence_count, 1) - ?),
+          strength = ?,
+          last_evidence_at = ?
+        WHERE id = ?
+      `, [edge.evidence_count ?? 1, folded.intoStrength, folded.intoLastEvidenceAt, folded.intoId]);
+    }
+
+    // Messages
+    if (changes.senderMessageIds.length > 0) {
+      execute(`
+        UPDATE messages SET sender_entity_id = ?
+        WHERE sender_entity_id = ? AND id IN (${placeholders(changes.senderMessageIds)})
+      `, [mergedId, keepId, ...changes.senderMessageIds]);
+    }
+    for (const message of changes.recipientMessages) {
+      execute('UPDATE messages SET recipient_entity_ids = ? WHERE id = ?', [message.recipients, message.id]);
+    }
+
+    // Assertions
+    if (changes.subjectAssertionIds.length > 0) {
+      execute(`
+        UPDATE assertions SET subject_entity_id = ?
+        WHERE subject_entity_id = ? AND id IN (${placeholders(changes.subjectAssertionIds)})
+      `, [mergedId, keepId, ...changes.subjectAssertionIds]);
+    }
+    if (changes.objectAssertionIds.length > 0) {
+      execute(`
+        UPDATE assertions SET object_entity_id = ?
+        WHERE object_entity_id = ? AND id IN (${placeholders(changes.objectAssertionIds)})
+      `, [mergedId, keepId, ...changes.objectAssertionIds]);
+    }
+
+    // Commitments and engagement events
+    const ownerCommitmentIds = changes.ownerCommitmentIds ?? [];
+    if (ownerCommitmentIds.length > 0) {
+      execute(`
+        UPDATE commitments SET owner_entity_id = ?
+        WHERE owner_entity_id = ? AND id IN (${placeholders(ownerCommitmentIds)})
+      `, [mergedId, keepId, ...ownerCommitmentIds]);
+    }
+    const counterpartyCommitmentIds = changes.counterpartyCommitmentIds ?? [];
+    if (counterpartyCommitmentIds.length > 0) {
+      execute(`
+        UPDATE commitments SET counterparty_entity_id = ?
+        WHERE counterparty_entity_id = ? AND id IN (${placeholders(counterpartyCommitmentIds)})
+      `, [mergedId, keepId, ...counterpartyCommitmentIds]);
+    }
+    const engagementEventIds = changes.engagementEventIds ?? [];
+    if (engagementEventIds.length > 0) {
+      execute(`
+        UPDATE engagement_events SET recipient_entity_id = ?
+        WHERE recipient_entity_id = ? AND id IN (${placeholders(engagementEventIds)})
+      `, [mergedId, keepId, ...engagementEventIds]);
+    }
+
+    // Meeting attendance
+    for (const id of changes.movedParticipantIds ?? []) {
+      execute('UPDATE commitment_participants SET entity_id = ? WHERE id = ? AND entity_id = ?', [mergedId, id, keepId]);
+    }
+    for (const participant of changes.removedParticipants ?? []) {
+      execute(`
+        INSERT OR IGNORE INTO commitment_participants (id, commitment_id, entity_id, response_status, created_at)
+        VALUES (?, ?, ?, ?, ?)
+      `, [participant.id, participant.commitment_id, mergedId, participant.response_status, participant.created_at]);
+    }
+
+    // Per-recipient style
+    if (changes.movedRecipientStyle) {
+      execute('UPDATE recipient_styles SET recipient_entity_id = ? WHERE recipient_entity_id = ?', [mergedId, keepId]);
+    }
+    if (changes.foldedRecipientStyle) {
+      const { row: style, intoMessageCount } = changes.foldedRecipientStyle;
+      execute(`
+        INSERT OR IGNORE INTO recipient_styles
+          (recipient_entity_id, relationship_type, formality, warmth, emoji_usage, avg_response_time_hours,
+           example_messages, message_count, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [mergedId, style.relationship_type, style.formality, style.warmth, style.emoji_usage,
+          style.avg_response_time_hours, style.example_messages, style.message_count, style.updated_at]);
+      execute('UPDATE recipient_styles SET message_count = ? WHERE recipient_entity_id = ?', [intoMessageCount, keepId]);
+    }
+
+    // Context membership
+    for (const contextId of changes.movedContextIds ?? []) {
+      execute(`
+        UPDATE entity_context_membership SET entity_id = ? WHERE entity_id = ? AND context_id = ?
+      `, [mergedId, keepId, contextId]);
+    }
+    for (const folded of changes.foldedContexts ?? []) {
+      execute(`
+        INSERT OR IGNORE INTO entity_context_membership (entity_id, context_id, confidence) VALUES (?, ?, ?)
+      `, [mergedId, folded.contextId, folded.confidence]);
+      execute(`
+        UPDATE entity_context_membership SET confidence = ? WHERE entity_id = ? AND context_id = ?
+      `, [folded.intoConfidence, keepId, folded.contextId]);
+    }
+
+    // Drop the merged entity (and what it had absorbed) from the kept entity's history
+    const absorbed = new Set([mergedId, ...parseIds(snapshot.merge_history)]);
+    const current = queryOne<{ merge_history: string | null }>('SELECT merge_history FROM entities WHERE id = ?', [keepId]);
+    execute(`
+      UPDATE entities SET merge_history = ?, updated_at = datetime('now') WHERE id = ?
+    `, [JSON.stringify(parseIds(current?.merge_history ?? null).filter(id => !absorbed.has(id))), keepId]);
+
+    execute(`UPDATE entity_merge_journal SET reverted_at = datetime('now') WHERE id = ?`, [row.id]);
+  });
+
+  return { restored: true, counts: countChanges(changes) };
+}
+
+// ============================================================
+// SPLIT
+// ============================================================
+
+/**
+ * Move evidence for one message from an old communicates_with edge to a new one
+ */
+function shiftMessageEdge(oldFrom: string, oldTo: string, newFrom: string, newTo: string, timestamp: string): void {
+  if (oldFrom === oldTo || newFrom === newTo) return;
+
+  execute(`
+    UPDATE graph_edges SET evidence_count = evidence_count - 1
+    WHERE from_entity_id = ? AND to_entity_id = ? AND edge_type = 'communicates_with'
+  `, [oldFrom, oldTo]);
+  execute(`
+    DELETE FROM graph_edges
+    WHERE from_entity_id = ? AND to_entity_id = ? AND edge_type = 'communicates_with' AND evidence_count <= 0
+  `, [oldFrom, oldTo]);
+
+  execute(`
+    INSERT INTO graph_edges (id, from_entity_id, to_entity_id, edge_type, evidence_count, last_evidence_at)
+    VALUES (?, ?, ?, 'communicates_with', 1, ?)
+    ON CONFLICT(from_entity_id, to_entity_id, edge_type) DO UPDATE SET
+      evidence_count = evidence_count + 1,
+      last_evidence_at = MAX(COALESCE(last_evidence_at, ''), excluded.last_evidence_at)
+  `, [uuidv4(), newFrom, newTo, timestamp]);
+}
+
+/**
+ * Split a chosen subset of an entity's messages off into a new entity
+ * (e.g. when two different "Chris"es were resolved as one). Assertions
+ * extracted from those messages and communicates_with evidence move with
+ * them; `attributeIds` moves selected attributes such as an email address.
+ */
+export function splitEntity(
+  entityId: string,
+  messageIds: string[],
+  newEntity: ResolveCandidate,
+  options: { attributeIds?: string[] } = {}
+): SplitResult {
+  if (!queryOne('SELECT 1 FROM entities WHERE id = ?', [entityId])) {
+    return { entityId: null, reason: 'Entity not found' };
+  }
+  if (messageIds.length === 0 && !options.attributeIds?.length) {
+    return { entityId: null, reason: 'Nothing to split off' };
+  }
+
+  return transaction(() => {
+    const newId = createEntity(newEntity);
+    const changes: MergeChanges = {
+      keepMergeHistory: [],
+      aliasAttributeId: null,
+      movedAttributeIds: [],
+      removedAttributes: [],
+      movedAliasIds: [],
+      removedAliases: [],
+      movedEdges: [],
+      foldedEdges: [],
+      senderMessageIds: [],
+      recipientMessages: [],
+      subjectAssertionIds: [],
+      objectAssertionIds: [],
+    };
+
+    if (messageIds.length > 0) {
+      const messages = query<{ id: string; sender_entity_id: string | null; recipient_entity_ids: string | null; timestamp: string }>(`
+        SELECT id, sender_entity_id, recipient_entity_ids, timestamp FROM messages
+        WHERE id IN (${placeholders(messageIds)})
+      `, messageIds);
+
+      for (const message of messages) {
+        const recipients = parseIds(message.recipient_entity_ids);
+
+        if (message.sender_entity_id === entityId) {
+          execute('UPDATE messages SET sender_entity_id = ? WHERE id = ?', [newId, message.id]);
+          changes.senderMessageIds.push(message.id);
+          for (const recipient of recipients) {
+            shiftMessageEdge(entityId, recipient, newId, recipient, message.timestamp);
+          }
+        }
+
+        if (recipients.includes(entityId)) {
+          execute('UPDATE messages SET recipient_entity_ids = ? WHERE id = ?', [
+            replaceRecipient(message.recipient_entity_ids, entityId, newId),
+            message.id,
+          ]);
+          changes.recipientMessages.push({ id: message.id, recipients: message.recipient_entity_ids });
+          if (message.sender_entity_id && message.sender_entity_id !== entityId) {
+            shiftMessageEdge(message.sender_entity_id, entityId, message.sender_entity_id, newId, message.timestamp);
+          }
+        }
+      }
+
+      // Facts extracted from those messages
+      const sourceFilter = `source_id IN (${placeholders(messageIds)})`;
+      changes.subjectAssertionIds = query<{ id: string }>(
+        `SELECT id FROM assertions WHERE subject_entity_id = ? AND ${sourceFilter}`, [entityId, ...messageIds]
+      ).map(r => r.id);
+      changes.objectAssertionIds = query<{ id: string }>(
+        `SELECT id FROM assertions WHERE object_entity_id = ? AND ${sourceFilter}`, [entityId, ...messageIds]
+      ).map(r => r.id);
+      execute(`UPDATE assertions SET subject_entity_id = ? WHERE subject_entity_id = ? AND ${sourceFilter}`, [newId, entityId, ...messageIds]);
+      execute(`UPDATE assertions SET object_entity_id = ? WHERE object_entity_id = ? AND ${sourceFilter}`, [newId, entityId, ...messageIds]);
+    }
+
+    if (options.attributeIds?.length) {
+      changes.movedAttributeIds = query<{ id: string }>(`
+        SELECT id FROM entity_attributes WHERE entity_id = ? AND id IN (${placeholders(options.attributeIds)})
+      `, [entityId, ...options.attributeIds]).map(r => r.id);
+      for (const id of changes.movedAttributeIds) {
+        execute('UPDATE OR IGNORE entity_attributes SET entity_id = ? WHERE id = ?', [newId, id]);
+      }
+    }
+
+    const snapshot = queryOne<EntityRow>('SELECT * FROM entities WHERE id = ?', [newId]);
+    execute(`
+      INSERT INTO entity_merge_journal (id, operation, keep_entity_id, merged_entity_id, entity_snapshot, changes)
+      VALUES (?, 'split', ?, ?, ?, ?)
+    `, [uuidv4(), entityId, newId, JSON.stringify(snapshot), JSON.stringify(changes)]);
+
+    return { entityId: newId, counts: countChanges(changes) };
+  });
+}
+
+// ============================================================
+// JOURNAL
+// ============================================================
+
+/**
+ * Merge and split history involving an entity, newest first
+ */
+export function getMergeJournal(entityId?: string): MergeJournalEntry[] {
+  const rows = entityId
+    ? query<JournalRow>(`
+        SELECT * FROM entity_merge_journal
+        WHERE keep_entity_id = ? OR merged_entity_id = ?
+        ORDER BY created_at DESC, rowid DESC
+      `, [entityId, entityId])
+    : query<JournalRow>('SELECT * FROM entity_merge_journal ORDER BY created_at DESC, rowid DESC');
+
+  return rows.map(rowToJournalEntry);
+}
@@ -0,0 +1,257 @@
+// Nickname dictionaries for name matching
+//
+// Each locale maps full first names to their nicknames and common
+// equivalents. English ships with the most entries; other locales cover
+// the names we see most. Callers can add locales or extend them with
+// registerNicknames, and restrict matching to some locales with
+// configureNicknames. Names are folded with romanize, so "José" and
+// "Jose" share an entry.
+
+import { romanize } from './transliterate';
+
+export type NicknameTable = Record<string, string[]>;
+
+interface NicknameGroup {
+  locale: string;
+  full: string;
+  members: Set<string>;   // The full name and its nicknames
+}
+
+// ============================================================
+// BUILT-IN LOCALES
+// ============================================================
+
+const EN: NicknameTable = {
+  'william': ['will', 'bill', 'billy', 'willy', 'liam'],
+  'robert': ['rob', 'bob', 'bobby', 'robbie'],
+  'richard': ['rick', 'dick', 'richie', 'ricky'],
+  'james': ['jim', 'jimmy', 'jamie'],
+  'john': ['jack', 'johnny', 'jon'],
+  'michael': ['mike', 'mikey', 'mick'],
+  'christopher': ['chris', 'kit', 'topher'],
+  'jennifer': ['jen', 'jenny', 'jenn'],
+  'elizabeth': ['liz', 'lizzy', 'beth', 'betty', 'eliza'],
+  'katherine': ['kate', 'kathy', 'katie', 'kat', 'kitty'],
+  'margaret': ['maggie', 'meg', 'peggy', 'marge'],
+  'daniel': ['dan', 'danny'],
+  'joseph': ['joe', 'joey'],
+  'david': ['dave', 'davy'],
+  'anthony': ['tony', 'ant'],
+  'alexander': ['alex', 'sandy', 'xander'],
+  'samuel': ['sam', 'sammy'],
+  'benjamin': ['ben', 'benny', 'benji'],
+  'jacob': ['jake', 'jakey'],
+  'matthew': ['matt', 'matty'],
+  'thomas': ['tom', 'tommy'],
+  'edward': ['ed', 'eddie', 'ted', 'teddy'],
+  'andrew': ['andy', 'drew'],
+  'nicholas': ['nick', 'nicky'],
+  'joshua': ['josh'],
+  'jonathan': ['jon', 'jonny'],
+  'timothy': ['tim', 'timmy'],
+  'stephen': ['steve', 'stevie'],
+  'steven': ['steve', 'stevie'],
+  'peter': ['pete', 'petey'],
+  'patrick': ['pat', 'paddy'],
+  'raymond': ['ray'],
+  'gregory': ['greg', 'gregg'],
+  'george': ['georgie'],
+  'charles': ['charlie', 'chuck', 'chas'],
+  'henry': ['hank', 'harry'],
+  'frank': ['frankie', 'franky'],
+  'walter': ['walt', 'wally'],
+  'albert': ['al', 'bert', 'bertie'],
+  'arthur': ['art', 'artie'],
+  'ralph': ['ralphy'],
+  'lawrence': ['larry'],
+  'gerald': ['gerry', 'jerry'],
+  'eugene': ['gene'],
+  'harold': ['hal', 'harry'],
+  'leonard': ['leo', 'lenny'],
+  'victoria': ['vicky', 'tori'],
+  'stephanie': ['steph', 'stevie'],
+  'samantha': ['sam', 'sammy'],
+  'abigail': ['abby', 'gail'],
+  'alexandra': ['alex', 'lexi', 'sandy'],
+  'allison': ['ally', 'allie'],
+  'amanda': ['mandy'],
+  'barbara': ['barb', 'barbie', 'babs'],
+  'beatrice': ['bea', 'trixie'],
+  'caroline': ['carol', 'carrie'],
+  'catherine': ['cathy', 'kate', 'katie', 'cat'],
+  'christina': ['chris', 'chrissy', 'tina'],
+  'deborah': ['deb', 'debbie'],
+  'dorothy': ['dot', 'dotty'],
+  'eleanor': ['ellie', 'ella', 'nora'],
+  'emily': ['em', 'emmy'],
+  'frances': ['fran', 'frannie'],
+  'gabrielle': ['gabby', 'gabi'],
+  'jacqueline': ['jackie'],
+  'jessica': ['jess', 'jessie'],
+  'joanna': ['jo', 'joanie'],
+  'josephine': ['jo', 'josie'],
+  'judith': ['judy', 'judi'],
+  'lillian': ['lily', 'lil'],
+  'madeleine': ['maddie', 'maddy'],
+  'melissa': ['mel', 'missy', 'lissa'],
+  'natalie': ['nat', 'nattie'],
+  'patricia': ['pat', 'patty', 'trish', 'tricia'],
+  'priscilla': ['prissy', 'cilla'],
+  'rebecca': ['becky', 'becca'],
+  'suzanne': ['sue', 'suzy', 'susie'],
+  'theodore': ['ted', 'teddy', 'theo'],
+  'veronica': ['ronnie', 'vera'],
+  'virginia': ['ginny', 'ginger'],
+};
+
+const ES: NicknameTable = {
+  'jose': ['pepe', 'chema', 'joselito'],
+  'francisco': ['paco', 'pancho', 'curro', 'frank'],
+  'ignacio': ['nacho'],
+  'manuel': ['manolo', 'manu'],
+  'enrique': ['quique', 'kike'],
+  'alejandro': ['alex', 'ale', 'alejo'],
+  'roberto': ['beto', 'rober'],
+  'alberto': ['beto'],
+  'guillermo': ['memo', 'guille'],
+  'jesus': ['chucho', 'chuy'],
+  'antonio': ['toni', 'tono'],
+  'fernando': ['nando', 'fer'],
+  'eduardo': ['lalo', 'edu'],
+  'dolores': ['lola'],
+  'guadalupe': ['lupe', 'lupita'],
+  'concepcion': ['concha', 'conchita'],
+  'mercedes': ['merche'],
+  'rosario': ['charo'],
+};
+
+const FR: NicknameTable = {
+  'francois': ['franck', 'fanfan'],
+  'guillaume': ['guigui', 'william'],
+  'nicolas': ['nico'],
+  'mathieu': ['matt', 'matthieu'],
+  'frederic': ['fred'],
+  'christophe': ['chris'],
+  'isabelle': ['isa'],
+  'stephanie': ['steph', 'fanny'],
+  'catherine': ['cathy', 'cath'],
+  'dominique': ['dom'],
+  'genevieve': ['ginette'],
+};
+
+const DE: NicknameTable = {
+  'johannes': ['hans', 'hannes', 'jo'],
+  'johann': ['hans', 'john'],
+  'friedrich': ['fritz', 'frederick'],
+  'wolfgang': ['wolf'],
+  'wilhelm': ['willi', 'willy', 'william'],
+  'heinrich': ['heinz', 'henry'],
+  'matthias': ['matze', 'hias'],
+  'elisabeth': ['lisa', 'liesl', 'elise', 'sabine'],
+  'katharina': ['kathi', 'katja', 'kate'],
+  'margarete': ['grete', 'gretchen', 'margaret'],
+  'susanne': ['susi', 'sanne'],
+};
+
+const IT: NicknameTable = {
+  'giuseppe': ['beppe', 'peppe', 'pino', 'joseph'],
+  'giovanni': ['gianni', 'nanni', 'john'],
+  'francesco': ['franco', 'checco', 'cesco'],
+  'alessandro': ['alex', 'sandro', 'ale'],
+  'salvatore': ['toto', 'turi'],
+  'vincenzo': ['enzo', 'vince'],
+  'domenico': ['mimmo', 'nico'],
+  'antonio': ['tonino', 'toni'],
+  'elisabetta': ['betta', 'lisa'],
+};
+
+// Written in Latin letters, but Cyrillic registrations fold to the same keys
+const RU: NicknameTable = {
+  'aleksandr': ['sasha', 'sanya', 'shura', 'alexander', 'alex'],
+  'aleksandra': ['sasha', 'shura', 'alexandra'],
+  'aleksey': ['alyosha', 'lyosha', 'alexei', 'alexey'],
+  'dmitriy': ['dima', 'dmitri', 'dmitry'],
+  'mikhail': ['misha', 'michael'],
+  'ivan': ['vanya', 'john'],
+  'nikolay': ['kolya', 'nikolai', 'nicholas'],
+  'sergey': ['seryozha', 'serezha', 'sergei'],
+  'vladimir': ['volodya', 'vova'],
+  'evgeniy': ['zhenya', 'yevgeny', 'eugene'],
+  'pavel': ['pasha', 'paul'],
+  'andrey': ['andrei', 'andryusha', 'andrew'],
+  'ekaterina': ['katya', 'katerina', 'katherine'],
+  'elena': ['lena', 'yelena', 'helen'],
+  'mariya': ['masha', 'maria', 'mary'],
+  'natalya': ['natasha', 'natalia', 'natalie'],
+  'tatyana': ['tanya', 'tatiana'],
+  'anastasiya': ['nastya', 'anastasia'],
+  'olga': ['olya'],
+  'svetlana': ['sveta'],
+};
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+const groups: NicknameGroup[] = [];
+let index = new Map<string, NicknameGroup[]>();
+let activeLocales: Set<string> | null = null;
+
+function rebuildIndex(): void {
+  index = new Map();
+  for (const group of groups) {
+    if (activeLocales && !activeLocales.has(group.locale)) continue;
+    for (const name of group.members) {
+      const list = index.get(name);
+      if (list) list.push(group);
+      else index.set(name, [group]);
+    }
+  }
+}
+
+/**
+ * Add nicknames for a locale, extending any entries it already has
+ */
+export function registerNicknames(locale: string, table: NicknameTable): void {
+  for (const [fullName, nicknames] of Object.entries(table)) {
+    const full = romanize(fullName).trim();
+    let group = groups.find(g => g.locale === locale && g.full === full);
+    if (!group) {
+      group = { locale, full, members: new Set([full]) };
+      groups.push(group);
+    }
+    for (const nickname of nicknames) group.members.add(romanize(nickname).trim());
+  }
+  rebuildIndex();
+}
+
+/**
+ * Restrict nickname matching to some locales (null for all registered)
+ */
+export function configureNicknames(options: { locales?: string[] | null }): void {
+  if (options.locales !== undefined) {
+    activeLocales = options.locales ? new Set(options.locales) : null;
+  }
+  rebuildIndex();
+}
+
+export function getNicknameConfig(): { locales: string[] | null; registeredLocales: string[] } {
+  return {
+    locales: activeLocales ? Array.from(activeLocales) : null,
+    registeredLocales: Array.from(new Set(groups.map(g => g.locale))),
+  };
+}
+
+/**
+ * Nickname groups a folded first name belongs to, in registration order
+ */
+export function nicknameGroupsFor(name: string): ReadonlyArray<{ full: string; members: ReadonlySet<string> }> {
+  return index.get(name) ?? [];
+}
+
+registerNicknames('en', EN);
+registerNicknames('es', ES);
+registerNicknames('fr', FR);
+registerNicknames('de', DE);
+registerNicknames('it', IT);
+registerNicknames('ru', RU);
@@ -0,0 +1,271 @@
+// Entity Quarantine
+// Strategy Reference: Part 12
+//
+// Fuzzy matches that aren't confident enough to merge are parked here as
+// pairs for human review. Decisions feed back into resolution: a
+// keep_separate pair is never proposed or merged again.
+
+import { v4 as uuid } from 'uuid';
+import { execute, query, queryOne, transaction } from '../db/connection';
+import { mergeEntities } from './merge';
+import type {
+  EntityType,
+  QuarantinedEntity,
+  QuarantineDecision,
+  QuarantineEvidence,
+  QuarantinePair,
+  QuarantineReason,
+} from '../types';
+
+interface QuarantineRow {
+  id: string;
+  potential_entity_id_1: string;
+  potential_entity_id_2: string;
+  similarity_score: number | null;
+  quarantine_reason: string | null;
+  source_message_id: string | null;
+  created_at: string;
+  reviewed: number;
+  review_decision: string | null;
+  reviewed_at: string | null;
+}
+
+function rowToQuarantined(row: QuarantineRow): QuarantinedEntity {
+  return {
+    id: row.id,
+    potentialEntityId1: row.potential_entity_id_1,
+    potentialEntityId2: row.potential_entity_id_2,
+    similarityScore: row.similarity_score ?? 0,
+    quarantineReason: (row.quarantine_reason ?? 'low_confidence') as QuarantineReason,
+    sourceMessageId: row.source_message_id ?? undefined,
+    createdAt: new Date(row.created_at),
+    reviewed: Boolean(row.reviewed),
+    reviewDecision: (row.review_decision ?? undefined) as QuarantineDecision | undefined,
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+  };
+}
+
+/**
+ * Order-independent key for an entity pair
+ */
+export function pairKey(entityId1: string, entityId2: string): string {
+  return entityId1 < entityId2 ? `${entityId1}|${entityId2}` : `${entityId2}|${entityId1}`;
+}
+
+// ============================================================
+// QUARANTINE
+// ============================================================
+
+/**
+ * Park a possible duplicate for review. Returns the existing record if the
+ * pair is already quarantined (pending or decided).
+ */
+export function quarantinePair(
+  entityId1: string,
+  entityId2: string,
+  similarityScore: number,
+  reason: QuarantineReason,
+  sourceMessageId?: string
+): string | null {
+  if (entityId1 === entityId2) return null;
+
+  const existing = queryOne<{ id: string }>(`
+    SELECT id FROM quarantined_entities
+    WHERE (potential_entity_id_1 = ? AND potential_entity_id_2 = ?)
+       OR (potential_entity_id_1 = ? AND potential_entity_id_2 = ?)
+    LIMIT 1
+  `, [entityId1, entityId2, entityId2, entityId1]);
+
+  if (existing) return existing.id;
+
+  const id = uuid();
+  execute(`
+    INSERT INTO quarantined_entities (
+      id, potential_entity_id_1, potential_entity_id_2, similarity_score,
+      quarantine_reason, source_message_id
+    ) VALUES (?, ?, ?, ?, ?, ?)
+  `, [id, entityId1, entityId2, similarityScore, reason, sourceMessageId ?? null]);
+
+  return id;
+}
+
+/**
+ * Entities a reviewer decided are different from the given one
+ */
+export function getKeptSeparateIds(entityId: string): Set<string> {
+  const rows = query<{ other_id: string }>(`
+    SELECT CASE WHEN potential_entity_id_1 = ? THEN potential_entity_id_2 ELSE potential_entity_id_1 END as other_id
+    FROM quarantined_entities
+    WHERE review_decision = 'keep_separate'
+      AND (potential_entity_id_1 = ? OR potential_entity_id_2 = ?)
+  `, [entityId, entityId, entityId]);
+
+  return new Set(rows.map(r => r.other_id));
+}
+
+/**
+ * All keep_separate pairs, as pairKey() strings
+ */
+export function getKeptSeparatePairs(): Set<string> {
+  const rows = query<{ potential_entity_id_1: string; potential_entity_id_2: string }>(`
+    SELECT potential_entity_id_1, potential_entity_id_2
+    FROM quarantined_entities
+    WHERE review_decision = 'keep_separate'
+  `);
+
+  return new Set(rows.map(r => pairKey(r.potential_entity_id_1, r.potential_entity_id_2)));
+}
+
+// ============================================================
+// REVIEW
+// ============================================================
+
+/**
+ * Gather side-by-side evidence for one entity
+ */
+function getEvidence(entityId: string): QuarantineEvidence | null {
+  const entity = queryOne<{ id: string; canonical_name: string; entity_type: string }>(`
+    SELECT id, canonical_name, entity_type FROM entities WHERE id = ?
+  `, [entityId]);
+
+  if (!entity) return null;
+
+  const attributes = query<{ attribute_type: string; attribute_value: string }>(`
+    SELECT attribute_type, attribute_value FROM entity_attributes
+    WHERE entity_id = ?
+    ORDER BY attribute_type, attribute_value
+  `, [entityId]);
+
+  const involvement = `
+    m.sender_entity_id = ?
+    OR EXISTS (SELECT 1 FROM json_each(m.recipient_entity_ids) WHERE json_each.value = ?)
+  `;
+
+  const counts = queryOne<{ count: number; last_seen: string | null }>(`
+    SELECT COUNT(*) as count, MAX(m.timestamp) as last_seen
+    FROM messages m WHERE ${involvement}
+  `, [entityId, entityId]);
+
+  const messages = query<{ id: string; subject: string | null; body_text: string | null; timestamp: string }>(`
+    SELECT m.id, m.subject, m.body_text, m.timestamp
+    FROM messages m WHERE ${involvement}
+    ORDER BY m.timestamp DESC
+    LIMIT 3
+  `, [entityId, entityId]);
+
+  const connections = query<{ entity_id: string; name: string; edge_type: string }>(`
+    SELECT e.id as entity_id, e.canonical_name as name, ge.edge_type
+    FROM graph_edges ge
+    JOIN entities e ON e.id = CASE WHEN ge.from_entity_id = ? THEN ge.to_entity_id ELSE ge.from_entity_id END
+    WHERE ge.from_entity_id = ? OR ge.to_entity_id = ?
+    ORDER BY ge.evidence_count DESC
+    LIMIT 10
+  `, [entityId, entityId, entityId]);
+
+  const facts = query<{ predicate: string; object_text: string | null; object_name: string | null }>(`
+    SELECT a.predicate, a.object_text, o.canonical_name as object_name
+    FROM assertions a
+    LEFT JOIN entities o ON a.object_entity_id = o.id
+    WHERE a.subject_entity_id = ?
+    ORDER BY a.confidence DESC
+    LIMIT 5
+  `, [entityId]);
+
+  return {
+    entityId: entity.id,
+    canonicalName: entity.canonical_name,
+    entityType: entity.entity_type as EntityType,
+    attributes: attributes.map(a => ({ type: a.attribute_type, value: a.attribute_value })),
+    messageCount: counts?.count ?? 0,
+    lastSeen: counts?.last_seen ? new Date(counts.last_seen) : undefined,
+    recentMessages: messages.map(m => ({
+      id: m.id,
+      subject: m.subject ?? undefined,
+      snippet: (m.body_text ?? '').substring(0, 140),
+      timestamp: new Date(m.timestamp),
+    })),
+    connections: connections.map(c => ({ entityId: c.entity_id, name: c.name, edgeType: c.edge_type })),
+    facts: facts.map(f => `${f.predicate.replace(/_/g, ' ')} ${f.object_name ?? f.object_text ?? ''}`.trim()),
+  };
+}
+
+/**
+ * Pairs waiting for a decision (including ones marked needs_more_info),
+ * most similar first, with evidence for both sides
+ */
+export function getPendingQuarantine(limit: number = 20): QuarantinePair[] {
+  const rows = query<QuarantineRow>(`
+    SELECT * FROM quarantined_entities
+    WHERE reviewed = 0 OR review_decision = 'needs_more_info'
+    ORDER BY reviewed ASC, similarity_score DESC, created_at ASC
+  `);
+
+  const pairs: QuarantinePair[] = [];
+
+  for (const row of rows) {
+    if (pairs.length >= limit) break;
+
+    const entity1 = getEvidence(row.potential_entity_id_1);
+    const entity2 = getEvidence(row.potential_entity_id_2);
+
+    // One side was merged or deleted since; nothing left to review
+    if (!entity1 || !entity2) continue;
+
+    const connected2 = new Set(entity2.connections.map(c => c.entityId));
+    const sharedConnections = entity1.connections
+      .filter(c => connected2.has(c.entityId))
+      .map(c => c.name);
+
+    pairs.push({ ...rowToQuarantined(row), entity1, entity2, sharedConnections });
+  }
+
+  return pairs;
+}
+
+/**
+ * Record a review decision. A merge decision merges the pair right away,
+ * keeping `keepId` (default: the second entity, i.e. the one that already
+ * existed when the pair was quarantined). Returns null if the pair doesn't
+ * exist or `keepId` isn't one of its entities.
+ */
+export function reviewQuarantine(
+  quarantineId: string,
+  decision: QuarantineDecision,
+  options: { keepId?: string } = {}
+): QuarantinedEntity | null {
+  const row = queryOne<QuarantineRow>(`SELECT * FROM quarantined_entities WHERE id = ?`, [quarantineId]);
+  if (!row) return null;
+  if (options.keepId !== undefined &&
+      options.keepId !== row.potential_entity_id_1 && options.keepId !== row.potential_entity_id_2) {
+    return null;
+  }
+
+  transaction(() => {
+    execute(`
+      UPDATE quarantined_entities
+      SET reviewed = 1, review_decision = ?, reviewed_at = datetime('now')
+      WHERE id = ?
+    `, [decision, quarantineId]);
+
+    if (decision === 'merge') {
+      const keepId = options.keepId ?? row.potential_entity_id_2;
+      const mergeId = keepId === row.potential_entity_id_1 ? row.potential_entity_id_2 : row.potential_entity_id_1;
+
+      mergeEntities(keepId, mergeId);
+
+      // Decisions about the merged entity now apply to the one we kept
+      execute(`
+        UPDATE quarantined_entities SET potential_entity_id_1 = ? WHERE potential_entity_id_1 = ? AND id != ?
+      `, [keepId, mergeId, quarantineId]);
+      execute(`
+        UPDATE quarantined_entities SET potential_entity_id_2 = ? WHERE potential_entity_id_2 = ? AND id != ?
+      `, [keepId, mergeId, quarantineId]);
+      execute(`
+        DELETE FROM quarantined_entities WHERE potential_entity_id_1 = potential_entity_id_2 AND id != ?
+      `, [quarantineId]);
+    }
+  });
+
+  const updated = queryOne<QuarantineRow>(`SELECT * FROM quarantined_entities WHERE id = ?`, [quarantineId]);
+  return updated ? rowToQuarantined(updated) : null;
+}
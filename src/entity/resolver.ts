@@ -1,20 +1,27 @@
 // 4-Stage Entity Resolution Pipeline
-// 1. Exact match on unique attributes (email, phone)
+// 1. Exact match on unique attributes (email, phone) and declared aliases/handles
 // 2. Fuzzy match on name
 // 3. Graph proximity scoring
 // 4. LLM tie-breaker for ambiguous cases
+// Matches that stay ambiguous are quarantined for review (see quarantine.ts)
 
 import { v4 as uuidv4 } from 'uuid';
 import { getDb } from '../db/connection';
 import { nameSimilarity, normalizeName } from './matcher';
 import { callLLM, extractJSON, type LLMConfig } from '../extraction/llm';
-import type { Entity, EntityType } from '../types';
+import { quarantinePair, getKeptSeparateIds } from './quarantine';
+import { getImportanceScores } from './importance';
+import { addEntityAlias, findEntitiesByAlias } from './aliases';
+import { normalizePhone, findEntityByPhone } from '../ingestion/phone';
+import type { Entity, EntityType, QuarantineReason } from '../types';
 
 export interface ResolveCandidate {
   name: string;
   type: EntityType;
   email?: string;
   phone?: string;
+  handle?: string;    // Account handle such as "@jdoe" (see aliases.ts)
+  source?: string;    // Where the candidate was seen ('slack', 'imessage', ...); scopes alias matches
   attributes?: Record<string, string>;
 }
 
@@ -26,7 +33,8 @@ export interface ResolveMatch {
 }
 
 /**
- * Stage 1: Exact match on unique attributes
+ * Stage 1: Exact match on unique attributes, then on declared handles and
+ * aliases (scored by the alias's confidence)
  */
 function findExactMatch(candidate: ResolveCandidate): ResolveMatch | null {
   const db = getDb();
@@ -50,33 +58,35 @@ function findExactMatch(candidate: ResolveCandidate): ResolveMatch | null {
     }
   }
 
-  // Try phone
+  // Try phone, compared in E.164 form
   if (candidate.phone) {
-    // Normalize phone for comparison
-    const normalizedPhone = candidate.phone.replace(/\D/g, '');
-    const phoneVariants = [
-      normalizedPhone,
-      `+1${normalizedPhone}`,
-      `+${normalizedPhone}`,
-      normalizedPhone.slice(-10),  // Last 10 digits
-    ];
-
-    for (const variant of phoneVariants) {
-      const match = db.prepare(`
-        SELECT e.id, e.canonical_name
-        FROM entities e
-        JOIN entity_attributes ea ON e.id = ea.entity_id
-        WHERE ea.attribute_type = 'phone' AND REPLACE(REPLACE(REPLACE(ea.attribute_value, '-', ''), ' ', ''), '+', '') LIKE ?
-      `).get(`%${variant.slice(-10)}`) as { id: string; canonical_name: string } | undefined;
-
-      if (match) {
-        return {
-          entityId: match.id,
-          canonicalName: match.canonical_name,
-          score: 1.0,
-          matchType: 'exact',
-        };
-      }
+    const match = findEntityByPhone(candidate.phone);
+
+    if (match) {
+      return {
+        entityId: match.entityId,
+        canonicalName: match.canonicalName,
+        score: 1.0,
+        matchType: 'exact',
+      };
+    }
+  }
+
+  // Try handles, then aliases on the name
+  const aliasLookups: Array<{ value: string | undefined; type: 'handle' | 'alias' }> = [
+    { value: candidate.handle, type: 'handle' },
+    { value: candidate.name, type: 'alias' },
+  ];
+  for (const { value, type } of aliasLookups) {
+    if (!value) continue;
+    const [alias] = findEntitiesByAlias(value, { type, source: candidate.source, entityType: candidate.type });
+    if (alias) {
+      return {
+        entityId: alias.entityId,
+        canonicalName: alias.canonicalName,
+        score: alias.confidence,
+        matchType: 'exact',
+      };
     }
   }
 
@@ -218,7 +228,7 @@ Respond with just the number (0-${matches.length}) and a brief reason:
 /**
  * Create a new entity
  */
-function createEntity(candidate: ResolveCandidate): string {
+export function createEntity(candidate: ResolveCandidate): string {
   const db = getDb();
   const entityId = uuidv4();
 
@@ -240,7 +250,12 @@ function createEntity(candidate: ResolveCandidate): string {
     db.prepare(`
       INSERT INTO entity_attributes (id, entity_id, attribute_type, attribute_value)
       VALUES (?, ?, 'phone', ?)
-    `).run(uuidv4(), entityId, candidate.phone);
+    `).run(uuidv4(), entityId, normalizePhone(candidate.phone) ?? candidate.phone);
+  }
+
+  // Remember the handle it was seen under
+  if (candidate.handle) {
+    addEntityAlias(entityId, candidate.handle, { type: 'handle', source: candidate.source });
   }
 
   // Add other attributes
@@ -265,11 +280,69 @@ function addAttributeToEntity(
   attributeValue: string
 ): void {
   const db = getDb();
+  const value = attributeType === 'phone' ? normalizePhone(attributeValue) ?? attributeValue : attributeValue;
 
   db.prepare(`
     INSERT OR IGNORE INTO entity_attributes (id, entity_id, attribute_type, attribute_value)
     VALUES (?, ?, ?, ?)
-  `).run(uuidv4(), entityId, attributeType, attributeValue);
+  `).run(uuidv4(), entityId, attributeType, value);
+}
+
+const TIE_MARGIN = 0.02;          // Match scores this close count as a tie
+const IMPORTANCE_MARGIN = 0.25;   // Importance lead needed to settle a tie
+
+/**
+ * When the best matches are tied on score, pick the one that clearly
+ * matters more to the user (e.g. a colleague over a one-off sender with
+ * the same name). Returns null if there is no tie or no clear winner.
+ */
+function breakTieByImportance(matches: ResolveMatch[]): ResolveMatch | null {
+  const top = matches[0];
+  if (!top) return null;
+
+  const tied = matches.filter(m => top.score - m.score < TIE_MARGIN);
+  if (tied.length < 2) return null;
+
+  const importance = getImportanceScores(tied.map(m => m.entityId));
+  const [first, second] = tied
+    .map(match => ({ match, importance: importance.get(match.entityId) ?? 0 }))
+    .sort((a, b) => b.importance - a.importance);
+
+  return first!.importance - second!.importance >= IMPORTANCE_MARGIN ? first!.match : null;
+}
+
+/**
+ * Drop matches a reviewer decided are not the same as the top match and
+ * that score clearly below it. Being kept separate says two entities are
+ * different people, not which of them a mention refers to, so a tied one
+ * stays.
+ */
+function withoutKeptSeparate(matches: ResolveMatch[]): ResolveMatch[] {
+  const top = matches[0];
+  if (!top) return matches;
+
+  const keptSeparate = getKeptSeparateIds(top.entityId);
+  return matches.filter(m => m === top || top.score - m.score < TIE_MARGIN || !keptSeparate.has(m.entityId));
+}
+
+/**
+ * Why a near-miss match needs a human
+ */
+function quarantineReason(
+  candidate: ResolveCandidate,
+  match: ResolveMatch,
+  allMatches: ResolveMatch[]
+): QuarantineReason {
+  if (candidate.email) {
+    const emails = getDb().prepare(`
+      SELECT attribute_value FROM entity_attributes WHERE entity_id = ? AND attribute_type = 'email'
+    `).all(match.entityId) as Array<{ attribute_value: string }>;
+
+    if (emails.length > 0 && !emails.some(e => e.attribute_value === candidate.email!.toLowerCase())) {
+      return 'conflicting_attributes';
+    }
+  }
+  return allMatches.length > 1 ? 'ambiguous' : 'low_confidence';
 }
 
 /**
@@ -283,6 +356,8 @@ export async function resolveEntity(
     llmConfig?: LLMConfig;
     fuzzyThreshold?: number;
     highConfidenceThreshold?: number;
+    quarantine?: boolean;        // Queue ambiguous matches for review (default true)
+    sourceMessageId?: string;    // Recorded on quarantined pairs
   } = {}
 ): Promise<{ entityId: string; created: boolean; matchType: string }> {
   const {
@@ -291,6 +366,8 @@ export async function resolveEntity(
     llmConfig,
     fuzzyThreshold = 0.7,
     highConfidenceThreshold = 0.9,
+    quarantine = true,
+    sourceMessageId,
   } = options;
 
   // Stage 1: Exact match
@@ -298,7 +375,7 @@ export async function resolveEntity(
   if (exactMatch) {
     // Still add any new attributes we learned
     if (candidate.email && !candidate.email.includes('@')) {
-      addAttributeToEntity(exactMatch.entityId, 'alias', candidate.name);
+      addEntityAlias(exactMatch.entityId, candidate.name, { source: candidate.source });
     }
     return { entityId: exactMatch.entityId, created: false, matchType: 'exact' };
   }
@@ -306,22 +383,36 @@ export async function resolveEntity(
   // Stage 2: Fuzzy match
   let fuzzyMatches = findFuzzyMatches(candidate, fuzzyThreshold);
 
-  // If we have a single very high confidence match, use it
-  if (fuzzyMatches.length === 1 && fuzzyMatches[0]!.score >= highConfidenceThreshold) {
-    const match = fuzzyMatches[0]!;
+  // If we have a single very high confidence match, use it. Weaker matches a
+  // reviewer kept separate from it are known to be someone else, so they
+  // don't make the match ambiguous; tied ones still do.
+  const competing = withoutKeptSeparate(fuzzyMatches);
+  if (competing.length === 1 && competing[0]!.score >= highConfidenceThreshold) {
+    const match = competing[0]!;
     // Add any new attributes
     if (candidate.email) addAttributeToEntity(match.entityId, 'email', candidate.email.toLowerCase());
     if (candidate.phone) addAttributeToEntity(match.entityId, 'phone', candidate.phone);
     return { entityId: match.entityId, created: false, matchType: 'fuzzy' };
   }
 
+  // Several equally good matches: importance to the user breaks the tie
+  const preferred = competing[0] && competing[0].score >= highConfidenceThreshold
+    ? breakTieByImportance(competing)
+    : null;
+  if (preferred) {
+    if (candidate.email) addAttributeToEntity(preferred.entityId, 'email', candidate.email.toLowerCase());
+    if (candidate.phone) addAttributeToEntity(preferred.entityId, 'phone', candidate.phone);
+    return { entityId: preferred.entityId, created: false, matchType: 'fuzzy' };
+  }
+
   // Stage 3: Graph proximity (if we have context)
   if (fuzzyMatches.length > 0 && contextEntityIds.length > 0) {
     fuzzyMatches = scoreByGraphProximity(candidate, fuzzyMatches, contextEntityIds);
 
-    // If top match is now very high confidence, use it
+    // If top match is now very high confidence, use it (or, on a tie, the
+    // one that matters more to the user)
     if (fuzzyMatches[0] && fuzzyMatches[0].score >= highConfidenceThreshold) {
-      const match = fuzzyMatches[0];
+      const match = breakTieByImportance(fuzzyMatches) ?? fuzzyMatches[0];
       if (candidate.email) addAttributeToEntity(match.entityId, 'email', candidate.email.toLowerCase());
       if (candidate.phone) addAttributeToEntity(match.entityId, 'phone', candidate.phone);
       return { entityId: match.entityId, created: false, matchType: 'graph' };
@@ -340,109 +431,14 @@ export async function resolveEntity(
 
   // No confident match found - create new entity
   const newEntityId = createEntity(candidate);
-  return { entityId: newEntityId, created: true, matchType: 'new' };
-}
-
-/**
- * Merge two entities (combine all attributes and edges)
- */
-export function mergeEntities(keepId: string, mergeId: string): void {
-  const db = getDb();
-
-  // Get the entity being merged
-  const mergeEntity = db.prepare('SELECT * FROM entities WHERE id = ?').get(mergeId) as {
-    canonical_name: string;
-    merge_history: string;
-  } | undefined;
-
-  if (!mergeEntity) return;
-
-  // Update merge history on kept entity
-  const keepEntity = db.prepare('SELECT merge_history FROM entities WHERE id = ?').get(keepId) as {
-    merge_history: string;
-  } | undefined;
-
-  const history = JSON.parse(keepEntity?.merge_history || '[]') as string[];
-  history.push(mergeId);
-  const mergeHistory = JSON.parse(mergeEntity.merge_history || '[]') as string[];
-  history.push(...mergeHistory);
-
-  db.prepare(`
-    UPDATE entities SET merge_history = ?, updated_at = datetime('now') WHERE id = ?
-  `).run(JSON.stringify(history), keepId);
-
-  // Add merged entity's name as an alias
-  db.prepare(`
-    INSERT OR IGNORE INTO entity_attributes (id, entity_id, attribute_type, attribute_value)
-    VALUES (?, ?, 'alias', ?)
-  `).run(uuidv4(), keepId, mergeEntity.canonical_name);
-
-  // Move all attributes to kept entity
-  db.prepare(`
-    UPDATE OR IGNORE entity_attributes SET entity_id = ? WHERE entity_id = ?
-  `).run(keepId, mergeId);
 
-  // Update graph edges
-  db.prepare(`
-    UPDATE graph_edges SET from_entity_id = ? WHERE from_entity_id = ?
-  `).run(keepId, mergeId);
-  db.prepare(`
-    UPDATE graph_edges SET to_entity_id = ? WHERE to_entity_id = ?
-  `).run(keepId, mergeId);
-
-  // Update messages
-  db.prepare(`
-    UPDATE messages SET sender_entity_id = ? WHERE sender_entity_id = ?
-  `).run(keepId, mergeId);
-
-  // Update assertions
-  db.prepare(`
-    UPDATE assertions SET subject_entity_id = ? WHERE subject_entity_id = ?
-  `).run(keepId, mergeId);
-  db.prepare(`
-    UPDATE assertions SET object_entity_id = ? WHERE object_entity_id = ?
-  `).run(keepId, mergeId);
-
-  // Delete the merged entity
-  db.prepare('DELETE FROM entity_attributes WHERE entity_id = ?').run(mergeId);
-  db.prepare('DELETE FROM entities WHERE id = ?').run(mergeId);
-}
-
-/**
- * Find potential duplicate entities
- */
-export function findPotentialDuplicates(threshold: number = 0.8): Array<{
-  entity1: { id: string; name: string };
-  entity2: { id: string; name: string };
-  score: number;
-}> {
-  const db = getDb();
-
-  const entities = db.prepare(`
-    SELECT id, canonical_name FROM entities WHERE entity_type = 'person'
-  `).all() as Array<{ id: string; canonical_name: string }>;
-
-  const duplicates: Array<{
-    entity1: { id: string; name: string };
-    entity2: { id: string; name: string };
-    score: number;
-  }> = [];
-
-  for (let i = 0; i < entities.length; i++) {
-    for (let j = i + 1; j < entities.length; j++) {
-      const e1 = entities[i]!;
-      const e2 = entities[j]!;
-
-      const score = nameSimilarity(e1.canonical_name, e2.canonical_name);
-      if (score >= threshold) {
-        duplicates.push({
-          entity1: { id: e1.id, name: e1.canonical_name },
-          entity2: { id: e2.id, name: e2.canonical_name },
-          score,
-        });
-      }
+  // Park the near misses for review instead of silently splitting
+  if (quarantine) {
+    for (const match of withoutKeptSeparate(fuzzyMatches).slice(0, 5)) {
+      const reason = quarantineReason(candidate, match, fuzzyMatches);
+      quarantinePair(newEntityId, match.entityId, match.score, reason, sourceMessageId);
     }
   }
 
-  return duplicates.sort((a, b) => b.score - a.score);
+  return { entityId: newEntityId, created: true, matchType: 'new' };
 }
@@ -0,0 +1,243 @@
+// Transliteration for name matching
+//
+// Folds names from any script into lowercase ASCII so "José Núñez",
+// "Jose Nunez", "Александр" and "Aleksandr" compare as the same letters.
+// Diacritics are stripped, Cyrillic and Greek are transliterated letter by
+// letter, Hangul and kana are romanised by rule, and Chinese characters
+// use a table of common surname and given-name readings that callers can
+// extend with registerTransliterations.
+
+// ============================================================
+// TABLES
+// ============================================================
+
+const CYRILLIC: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i',
+  й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't',
+  у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '',
+  э: 'e', ю: 'yu', я: 'ya', і: 'i', ї: 'yi', є: 'ye', ґ: 'g', ў: 'u', ј: 'j', љ: 'lj',
+  њ: 'nj', ћ: 'c', ђ: 'dj', џ: 'dz',
+};
+
+const GREEK_DIGRAPHS: Array<[RegExp, string]> = [
+  [/ου/g, 'ou'], [/αυ/g, 'av'], [/ευ/g, 'ev'], [/γγ/g, 'ng'], [/γκ/g, 'gk'],
+];
+
+const GREEK: Record<string, string> = {
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k',
+  λ: 'l', μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't',
+  υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o',
+};
+
+// Latin letters that don't decompose into a base letter plus a mark
+const LATIN_SPECIAL: Record<string, string> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ı: 'i', ħ: 'h',
+};
+
+// Revised Romanisation of Korean, without sound-change rules
+const HANGUL_INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+const HANGUL_VOWELS = ['a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i'];
+const HANGUL_FINALS = ['', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'p', 'l', 'l', 'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't'];
+
+// Korean surnames are conventionally spelled outside the RR system
+const KOREAN_SURNAMES: Record<string, string> = {
+  김: 'kim', 이: 'lee', 박: 'park', 최: 'choi', 정: 'jung', 강: 'kang', 조: 'cho', 윤: 'yoon',
+  장: 'jang', 임: 'lim', 한: 'han', 오: 'oh', 서: 'seo', 신: 'shin', 권: 'kwon', 황: 'hwang',
+  안: 'ahn', 송: 'song', 류: 'ryu', 유: 'yoo', 홍: 'hong', 전: 'jeon', 고: 'ko', 문: 'moon',
+  양: 'yang', 손: 'son', 배: 'bae', 백: 'baek', 허: 'heo', 노: 'noh', 심: 'shim', 하: 'ha',
+  곽: 'kwak', 성: 'sung', 차: 'cha', 주: 'joo', 우: 'woo', 구: 'koo', 민: 'min', 나: 'na',
+  진: 'jin',
+};
+
+const KANA: Record<string, string> = {
+  あ: 'a', い: 'i', う: 'u', え: 'e', お: 'o', か: 'ka', き: 'ki', く: 'ku', け: 'ke', こ: 'ko',
+  さ: 'sa', し: 'shi', す: 'su', せ: 'se', そ: 'so', た: 'ta', ち: 'chi', つ: 'tsu', て: 'te', と: 'to',
+  な: 'na', に: 'ni', ぬ: 'nu', ね: 'ne', の: 'no', は: 'ha', ひ: 'hi', ふ: 'fu', へ: 'he', ほ: 'ho',
+  ま: 'ma', み: 'mi', む: 'mu', め: 'me', も: 'mo', や: 'ya', ゆ: 'yu', よ: 'yo',
+  ら: 'ra', り: 'ri', る: 'ru', れ: 're', ろ: 'ro', わ: 'wa', を: 'wo', ん: 'n',
+  が: 'ga', ぎ: 'gi', ぐ: 'gu', げ: 'ge', ご: 'go', ざ: 'za', じ: 'ji', ず: 'zu', ぜ: 'ze', ぞ: 'zo',
+  だ: 'da', ぢ: 'ji', づ: 'zu', で: 'de', ど: 'do', ば: 'ba', び: 'bi', ぶ: 'bu', べ: 'be', ぼ: 'bo',
+  ぱ: 'pa', ぴ: 'pi', ぷ: 'pu', ぺ: 'pe', ぽ: 'po', ゔ: 'vu',
+  ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o',
+};
+
+const SMALL_Y: Record<string, string> = { ゃ: 'a', ゅ: 'u', ょ: 'o' };
+
+/**
+ * Parse "王wang 李li ..." into a character -> reading map
+ */
+function parseReadings(list: string): Map<string, string> {
+  const readings = new Map<string, string>();
+  for (const entry of list.trim().split(/\s+/)) {
+    const match = entry.match(/^(\P{ASCII}+)([a-z]+)$/u);
+    if (match) readings.set(match[1]!, match[2]!);
+  }
+  return readings;
+}
+
+// Pinyin (without tones) for common Chinese surnames and given-name
+// characters, simplified and traditional
+const HAN_READINGS = parseReadings(`
+  王wang 李li 张zhang 張zhang 刘liu 劉liu 陈chen 陳chen 杨yang 楊yang 黄huang 黃huang 赵zhao 趙zhao
+  吴wu 吳wu 周zhou 徐xu 孙sun 孫sun 马ma 馬ma 朱zhu 胡hu 郭guo 何he 高gao 林lin 罗luo 羅luo
+  郑zheng 鄭zheng 梁liang 谢xie 謝xie 宋song 唐tang 许xu 許xu 韩han 韓han 冯feng 馮feng 邓deng 鄧deng
+  曹cao 彭peng 曾zeng 肖xiao 蕭xiao 田tian 董dong 袁yuan 潘pan 于yu 蒋jiang 蔣jiang 蔡cai 余yu 杜du
+  叶ye 葉ye 程cheng 苏su 蘇su 魏wei 吕lu 呂lu 丁ding 任ren 沈shen 姚yao 卢lu 盧lu 姜jiang 崔cui
+  钟zhong 鍾zhong 谭tan 譚tan 陆lu 陸lu 汪wang 范fan 金jin 石shi 廖liao 贾jia 賈jia 夏xia 韦wei 付fu
+  方fang 白bai 邹zou 鄒zou 孟meng 熊xiong 秦qin 邱qiu 江jiang 尹yin 薛xue 闫yan 段duan 雷lei 侯hou
+  龙long 龍long 史shi 陶tao 黎li 贺he 顾gu 顧gu 毛mao 郝hao 龚gong 龔gong 邵shao 万wan 钱qian 錢qian
+  严yan 嚴yan 武wu 戴dai 莫mo 孔kong 向xiang 汤tang 湯tang 常chang 温wen 康kang 施shi 文wen 牛niu
+  樊fan 葛ge 邢xing 安an 齐qi 易yi 乔qiao 伍wu 庞pang 颜yan 倪ni 庄zhuang 聂nie 章zhang 鲁lu 岳yue
+  翟zhai 殷yin 詹zhan 申shen 欧ou 耿geng 关guan 關guan 兰lan 焦jiao 俞yu 左zuo 柳liu 甘gan 祝zhu
+  包bao 宁ning 尚shang 符fu 舒shu 阮ruan 柯ke 纪ji 梅mei 童tong 凌ling 毕bi 单shan 季ji 裴pei 霍huo
+  涂tu 成cheng 苗miao 谷gu 盛sheng 曲qu 翁weng 冉ran 骆luo 蓝lan 路lu 游you 辛xin 靳jin 管guan
+  柴chai 蒙meng 鲍bao 华hua 華hua 喻yu 祁qi 蒲pu 房fang 滕teng 屈qu 饶rao 艾ai 尤you 阳yang 时shi
+  穆mu 司si 卓zhuo 古gu 吉ji 简jian 车che 项xiang 连lian 麦mai 岑cen 景jing 费fei 卫wei 米mi 宗zong
+  伟wei 偉wei 芳fang 娜na 敏min 静jing 靜jing 丽li 麗li 强qiang 強qiang 磊lei 军jun 軍jun 洋yang
+  勇yong 艳yan 艷yan 杰jie 傑jie 娟juan 涛tao 濤tao 明ming 超chao 秀xiu 霞xia 平ping 刚gang 桂gui
+  英ying 玉yu 萍ping 红hong 紅hong 鹏peng 鵬peng 飞fei 飛fei 斌bin 宇yu 浩hao 凯kai 健jian 俊jun
+  帆fan 帅shuai 旭xu 欣xin 佳jia 婷ting 雪xue 琳lin 晨chen 晶jing 颖ying 穎ying 倩qian 慧hui 莉li
+  燕yan 丹dan 小xiao 晓xiao 曉xiao 志zhi 建jian 国guo 國guo 海hai 东dong 東dong 辉hui 輝hui 力li
+  永yong 峰feng 波bo 毅yi 鑫xin 亮liang 云yun 春chun 雨yu 嘉jia 子zi 梓zi 涵han 轩xuan 博bo 睿rui
+  泽ze 一yi 诗shi 思si 怡yi 欢huan 乐le 天tian 新xin 宏hong 德de 福fu 荣rong 贵gui 长chang 生sheng
+  秋qiu 冬dong 美mei 爱ai 琪qi 瑶yao 璐lu 露lu 蕾lei 薇wei 萱xuan 妍yan 彤tong 悦yue 馨xin 洁jie
+  清qing 然ran 远yuan 航hang 宸chen 辰chen 光guang 山shan 世shi 中zhong 大da 家jia 立li 宝bao
+  振zhen 昊hao 晗han 奕yi 铭ming 哲zhe 钰yu 婉wan 若ruo 依yi 可ke 心xin 语yu 梦meng 晴qing 伊yi
+  雅ya 芬fen 玲ling 淑shu 珍zhen 凤feng 翠cui 岚lan 茜qian 蓉rong 琴qin 震zhen 楠nan
+`);
+
+const COMPOUND_SURNAMES = parseReadings(`
+  欧阳ouyang 歐陽ouyang 司马sima 司馬sima 诸葛zhuge 諸葛zhuge 上官shangguan 东方dongfang 東方dongfang
+  慕容murong 司徒situ 令狐linghu 皇甫huangfu 夏侯xiahou 尉迟yuchi 长孙zhangsun
+`);
+
+/**
+ * Add readings for Chinese characters or compound surnames
+ * ({ "晟": "sheng", "端木": "duanmu" }). Later registrations win.
+ */
+export function registerTransliterations(readings: Record<string, string>): void {
+  for (const [chars, reading] of Object.entries(readings)) {
+    const target = Array.from(chars).length > 1 ? COMPOUND_SURNAMES : HAN_READINGS;
+    target.set(chars, reading.toLowerCase());
+  }
+}
+
+// ============================================================
+// SCRIPTS
+// ============================================================
+
+const HAN = /^\p{Script=Han}+$/u;
+const HANGUL = /^[가-힣]+$/;
+const KANA_TOKEN = /^[ぁ-ゖァ-ヺー]+$/;
+
+function hangulSyllable(char: string): string {
+  const index = char.charCodeAt(0) - 0xac00;
+  const initial = Math.floor(index / 588);
+  const vowel = Math.floor((index % 588) / 28);
+  const final = index % 28;
+  return HANGUL_INITIALS[initial]! + HANGUL_VOWELS[vowel]! + HANGUL_FINALS[final]!;
+}
+
+/**
+ * Korean names are family name first: "김민준" -> "kim minjun"
+ */
+function romanizeHangul(token: string): string {
+  const chars = Array.from(token);
+  if (chars.length === 1) return hangulSyllable(chars[0]!);
+  const family = KOREAN_SURNAMES[chars[0]!] ?? hangulSyllable(chars[0]!);
+  return `${family} ${chars.slice(1).map(hangulSyllable).join('')}`;
+}
+
+/**
+ * Chinese names are family name first: "李伟" -> "li wei". Tokens with a
+ * character we have no reading for are left as they are.
+ */
+function romanizeHan(token: string): string {
+  const chars = Array.from(token);
+  let familyLength = 1;
+  let family = HAN_READINGS.get(chars[0]!);
+  const compound = chars.length > 2 ? COMPOUND_SURNAMES.get(chars[0]! + chars[1]!) : undefined;
+  if (compound) {
+    family = compound;
+    familyLength = 2;
+  }
+
+  const given = chars.slice(familyLength).map(c => HAN_READINGS.get(c));
+  if (!family || given.some(r => r === undefined)) return token;
+  return given.length > 0 ? `${family} ${given.join('')}` : family;
+}
+
+/**
+ * Hepburn-style romaji for hiragana/katakana (long vowel marks dropped)
+ */
+function romanizeKana(token: string): string {
+  // Katakana sits 0x60 above hiragana
+  const chars = Array.from(token).map(c => {
+    const code = c.charCodeAt(0);
+    return code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : c;
+  });
+
+  let result = '';
+  let doubleNext = false;
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i]!;
+    if (char === 'っ' || char === 'ー') {
+      doubleNext = char === 'っ';
+      continue;
+    }
+
+    let romaji = KANA[char] ?? '';
+    const small = SMALL_Y[chars[i + 1] ?? ''];
+    if (small && romaji.endsWith('i')) {
+      const base = romaji.slice(0, -1);
+      romaji = /(sh|ch|j)$/.test(base) ? base + small : `${base}y${small}`;
+      i++;
+    } else if (small) {
+      romaji += `y${small}`;
+      i++;
+    }
+
+    if (doubleNext && romaji) {
+      romaji = (romaji.startsWith('ch') ? 't' : romaji[0]) + romaji;
+      doubleNext = false;
+    }
+    result += romaji;
+  }
+  return result;
+}
+
+function romanizeToken(token: string): string {
+  if (HANGUL.test(token)) return romanizeHangul(token);
+  if (HAN.test(token)) return romanizeHan(token);
+  if (KANA_TOKEN.test(token)) return romanizeKana(token);
+  return token;
+}
+
+// ============================================================
+// ROMANISATION
+// ============================================================
+
+/**
+ * Fold text into lowercase ASCII letters where we know how: "Zoë" -> "zoe",
+ * "Александр" -> "aleksandr", "李伟" -> "li wei". Punctuation and
+ * characters we can't transliterate are kept.
+ */
+export function romanize(text: string): string {
+  let s = text.normalize('NFKC').toLowerCase();
+  if (/^[\x00-\x7f]*$/.test(s)) return s;
+
+  // CJK first: NFD would split Hangul into jamo and kana voicing marks
+  // into combining characters
+  s = s
+    .split(/([\s・]+)/)
+    .map(part => (/[\s・]/.test(part) ? part.replace(/・/g, ' ') : romanizeToken(part)))
+    .join('');
+
+  // Cyrillic before NFD too, so й stays distinct from и
+  s = s.replace(/[Ѐ-ӿ]/g, c => CYRILLIC[c] ?? c);
+
+  s = s.normalize('NFD').replace(/\p{M}/gu, '');
+
+  for (const [pattern, replacement] of GREEK_DIGRAPHS) s = s.replace(pattern, replacement);
+  return s.replace(/[Ͱ-Ͽ]|[ßæœøłđðþıħ]/g, c => GREEK[c] ?? LATIN_SPECIAL[c] ?? c);
+}
@@ -0,0 +1,21 @@
+// The User's Entity
+//
+// The user is an entity like any other; the one that sends the user's own
+// messages. Relationship strength, importance and communities are measured
+// from it.
+
+import { queryOne } from '../db/connection';
+
+/**
+ * The entity that sends the user's own messages
+ */
+export function findUserEntityId(): string | null {
+  const row = queryOne<{ sender_entity_id: string }>(`
+    SELECT sender_entity_id FROM messages
+    WHERE is_from_user = 1 AND sender_entity_id IS NOT NULL
+    GROUP BY sender_entity_id
+    ORDER BY COUNT(*) DESC
+    LIMIT 1
+  `);
+  return row?.sender_entity_id ?? null;
+}
@@ -202,7 +202,7 @@ export async function processUnprocessedMessages(
 
   // Get unprocessed messages
   const messages = db.prepare(`
-    SELECT m.id, m.body_text, m.source_type, m.timestamp,
+    SELECT m.id, COALESCE(m.body_clean, m.body_text) AS body_text, m.source_type, m.timestamp,
            e.canonical_name as sender_name
     FROM messages m
     LEFT JOIN entities e ON m.sender_entity_id = e.id
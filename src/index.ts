@@ -1,26 +1,73 @@
 // Peanut-1: Local-first AI memory system
 // Main entry point and public API
 
+import * as path from 'path';
 import { initDb, closeDb, getDb } from './db/connection';
 import {
   ingestNormalizedMessages,
   ingestGmailMessages,
   ingestIMessages,
+  ingestSlackExport,
+  ingestMailbox,
+  ingestWhatsAppChat,
+  ingestTelegramExport,
+  ingestSignalBackup,
+  backfillCleanedBodies,
+  type MailboxIngestOptions,
 } from './ingestion/pipeline';
+import { readWhatsAppChat, type WhatsAppOptions } from './ingestion/whatsapp';
+import { readTelegramExport, type TelegramOptions } from './ingestion/telegram';
+import { readSignalBackup, type SignalOptions } from './ingestion/signal';
+import { readSlackExport, type SlackIngestOptions } from './ingestion/slack';
 import {
   processUnprocessedMessages,
   extractBasicPatterns,
   extractFromMessage,
 } from './extraction/extractor';
+import { resolveEntity } from './entity/resolver';
+import { findPotentialDuplicates, type DuplicateOptions } from './entity/duplicates';
+import { mergeEntities, unmergeEntities, splitEntity, getMergeJournal } from './entity/merge';
+import { getPendingQuarantine, reviewQuarantine } from './entity/quarantine';
+import { addEntityAlias, removeEntityAlias, getEntityAliases, migrateLegacyAliases } from './entity/aliases';
 import {
-  resolveEntity,
-  mergeEntities,
-  findPotentialDuplicates,
-} from './entity/resolver';
+  detectCommunities,
+  getCommunities,
+  getEntityCommunity,
+  getCommunityMembers,
+  type CommunityDetectionOptions,
+} from './entity/communities';
+import {
+  computeEntityImportance,
+  getEntityImportance,
+  getMostImportantEntities,
+  type ImportanceOptions,
+} from './entity/importance';
+import {
+  recomputeEdgeStrengths,
+  getRelationshipStrengthSeries,
+  configureEdgeDecay,
+  type StrengthSeriesOptions,
+} from './entity/decay';
 import { nameSimilarity } from './entity/matcher';
+import { registerNicknames, configureNicknames } from './entity/nicknames';
+import { registerTransliterations } from './entity/transliterate';
 import { hybridSearch, simpleSearch } from './search/fusion';
 import { graphSearch, findMessagesBetween, getConnectedEntities } from './search/graph';
-import { embedUnprocessedMessages, getVectorStoreStats } from './search/embeddings';
+import { parseSearchQuery, type SearchQuery, type ParseResult } from './search/query';
+import {
+  embedUnprocessedMessages,
+  embedUnprocessedAssertions,
+  embedUnprocessedEntities,
+  embedUnprocessedAttachments,
+  getVectorStore,
+  getVectorStoreStats,
+  setVectorStore,
+} from './search/embeddings';
+import { configureOrgInference } from './ingestion/orgs';
+import { configurePhoneNormalization } from './ingestion/phone';
+import { configureAttachmentExtraction, getMessageAttachments } from './ingestion/attachments';
+import { configureVectorIndex, saveVectorIndexes, resetVectorIndexes } from './search/ann';
+import { initLanceDb, closeLanceDb, lanceVectorStore } from './db/lancedb';
 import {
   analyzeUserStyle,
   analyzeRecipientStyle,
@@ -56,14 +103,28 @@ import {
   detectPersonalityDrift,
   type AdaptationResult,
 } from './engagement/adaptation';
-import type { EmbeddingConfig, SearchResult as SearchResultType } from './search/types';
+import type {
+  EmbeddingConfig,
+  EmbeddingProvider,
+  SearchResult as SearchResultType,
+  VectorStoreStats,
+} from './search/types';
 import type { ResolveCandidate } from './entity/resolver';
 import type { LLMConfig } from './extraction/llm';
 import type { ExtractionResult } from './extraction/types';
-import type { GmailMessage, IMessageMessage, BatchIngestResult } from './ingestion/types';
+import type {
+  GmailMessage,
+  IMessageMessage,
+  SlackExport,
+  TelegramExport,
+  TelegramChat,
+  SignalBackup,
+  BatchIngestResult,
+} from './ingestion/types';
 import type {
   PeanutConfig,
   NormalizedMessage,
+  StoredAttachment,
   IngestResult,
   SearchResult,
   SearchOptions,
@@ -72,6 +133,20 @@ import type {
   GraphNode,
   StyleProfile,
   RecipientStyleProfile,
+  QuarantinedEntity,
+  QuarantineDecision,
+  QuarantinePair,
+  MergeJournalEntry,
+  UnmergeResult,
+  SplitResult,
+  DuplicateCandidate,
+  EntityCommunity,
+  CommunityMember,
+  CommunityDetectionResult,
+  EntityImportance,
+  RelationshipStrengthPoint,
+  EntityAlias,
+  AliasType,
 } from './types';
 
 export * from './types';
@@ -93,6 +168,7 @@ export * as integrations from './integrations';
 export * as cognitive from './cognitive';
 export * as pii from './ingestion/pii';
 export * as lancedb from './db/lancedb';
+export * as search from './search';
 
 // New modules for 100% completion
 export * as workers from './workers';
@@ -117,12 +193,62 @@ export class PeanutCore {
     if (this.initialized) return;
 
     initDb(this.config.dbPath);
+
+    // Emails stored before body cleaning existed
+    backfillCleanedBodies();
+
+    // Names recorded as 'alias' attributes before entity_aliases existed
+    migrateLegacyAliases();
+
+    if (this.config.vectorBackend === 'lancedb') {
+      const vectorDbPath = this.config.vectorDbPath
+        ?? path.join(path.dirname(this.config.dbPath), 'vectors.lance');
+      await initLanceDb(vectorDbPath);
+      setVectorStore(lanceVectorStore);
+    } else {
+      const { dir, ...indexConfig } = this.config.vectorIndex ?? {};
+      configureVectorIndex({
+        ...indexConfig,
+        indexDir: this.config.dbPath === ':memory:'
+          ? undefined
+          : dir ?? path.join(path.dirname(this.config.dbPath), 'vector-index'),
+      });
+    }
+
+    if (this.config.phoneRegion) {
+      configurePhoneNormalization({ defaultRegion: this.config.phoneRegion });
+    }
+
+    if (this.config.orgInference) {
+      configureOrgInference(this.config.orgInference);
+    }
+
+    const { nicknameLocales, nicknames = {}, transliterations } = this.config.nameMatching ?? {};
+    for (const [locale, table] of Object.entries(nicknames)) registerNicknames(locale, table);
+    if (nicknameLocales) configureNicknames({ locales: nicknameLocales });
+    if (transliterations) registerTransliterations(transliterations);
+
+    if (this.config.edgeDecay) {
+      configureEdgeDecay(this.config.edgeDecay);
+    }
+
+    if (this.config.attachments) {
+      configureAttachmentExtraction(this.config.attachments);
+    }
+
     this.initialized = true;
 
     console.log(`[Peanut] Initialized with database at ${this.config.dbPath}`);
   }
 
   async close(): Promise<void> {
+    if (this.config.vectorBackend === 'lancedb') {
+      await closeLanceDb();
+      setVectorStore();
+    } else {
+      saveVectorIndexes();
+      resetVectorIndexes();
+    }
     closeDb();
     this.initialized = false;
   }
@@ -152,6 +278,63 @@ export class PeanutCore {
     return ingestIMessages(messages, this.config.userPhone, this.config.userEmail);
   }
 
+  /**
+   * Ingest a Slack workspace export, given as the unzipped export directory
+   * or already read. The user is found by `userEmail` unless
+   * `options.userSlackId` is given.
+   */
+  async ingestSlack(exportData: string | SlackExport, options: SlackIngestOptions = {}): Promise<BatchIngestResult> {
+    this.ensureInitialized();
+    const data = typeof exportData === 'string' ? readSlackExport(exportData) : exportData;
+    return ingestSlackExport(data, { userEmail: this.config.userEmail, ...options });
+  }
+
+  /**
+   * Ingest an mbox file, a .eml file, or a directory of .eml files,
+   * streaming rather than loading the mailbox into memory
+   */
+  async ingestMailbox(target: string, options: MailboxIngestOptions = {}): Promise<BatchIngestResult> {
+    this.ensureInitialized();
+    return ingestMailbox(target, { userEmail: this.config.userEmail, ...options });
+  }
+
+  /**
+   * Ingest a WhatsApp chat export (_chat.txt). The chat name defaults to
+   * the one in the file or folder name.
+   */
+  async ingestWhatsApp(chatFile: string, options: Partial<WhatsAppOptions> = {}): Promise<BatchIngestResult> {
+    this.ensureInitialized();
+    const { text, chatName } = readWhatsAppChat(chatFile);
+    return ingestWhatsAppChat(text, { chatName, userPhone: this.config.userPhone, ...options });
+  }
+
+  /**
+   * Ingest a Telegram Desktop export, given as the path to result.json or
+   * already read
+   */
+  async ingestTelegram(exportData: string | TelegramExport | TelegramChat, options: TelegramOptions = {}): Promise<BatchIngestResult> {
+    this.ensureInitialized();
+    const data = typeof exportData === 'string' ? readTelegramExport(exportData) : exportData;
+    return ingestTelegramExport(data, options);
+  }
+
+  /**
+   * Ingest a Signal backup, given as the path to its JSON or already read
+   */
+  async ingestSignal(backup: string | SignalBackup, options: SignalOptions = {}): Promise<BatchIngestResult> {
+    this.ensureInitialized();
+    const data = typeof backup === 'string' ? readSignalBackup(backup) : backup;
+    return ingestSignalBackup(data, { userPhone: this.config.userPhone, ...options });
+  }
+
+  /**
+   * Attachments of a message, with their extracted text
+   */
+  getAttachments(messageId: string): StoredAttachment[] {
+    this.ensureInitialized();
+    return getMessageAttachments(messageId);
+  }
+
   // ============================================================
   // EXTRACTION
   // ============================================================
@@ -212,6 +395,8 @@ export class PeanutCore {
       contextEntityIds?: string[];
       contextText?: string;
       llmConfig?: LLMConfig;
+      quarantine?: boolean;
+      sourceMessageId?: string;
     }
   ): Promise<{ entityId: string; created: boolean; matchType: string }> {
     this.ensureInitialized();
@@ -227,15 +412,105 @@ export class PeanutCore {
   }
 
   /**
-   * Find potential duplicate entities based on name similarity
+   * Undo a merge: restore the merged entity and re-point the messages,
+   * assertions, edges and attributes the merge moved
    */
-  findDuplicates(threshold: number = 0.8): Array<{
-    entity1: { id: string; name: string };
-    entity2: { id: string; name: string };
-    score: number;
-  }> {
+  unmergeEntities(keepId: string, mergedId: string): UnmergeResult {
+    this.ensureInitialized();
+    return unmergeEntities(keepId, mergedId);
+  }
+
+  /**
+   * Reassign a subset of an entity's messages (and optionally attributes)
+   * to a new entity
+   */
+  splitEntity(
+    entityId: string,
+    messageIds: string[],
+    newEntity: ResolveCandidate,
+    options?: { attributeIds?: string[] }
+  ): SplitResult {
+    this.ensureInitialized();
+    return splitEntity(entityId, messageIds, newEntity, options);
+  }
+
+  /**
+   * Merge and split history for an entity (or everything), newest first
+   */
+  getMergeJournal(entityId?: string): MergeJournalEntry[] {
+    this.ensureInitialized();
+    return getMergeJournal(entityId);
+  }
+
+  /**
+   * Declare a name an entity goes by ("Dad", "J. Doe"), optionally only in
+   * one source. resolveEntity matches it exactly before fuzzy matching.
+   */
+  addAlias(
+    entityId: string,
+    alias: string,
+    options?: { source?: string; confidence?: number }
+  ): EntityAlias | null {
+    this.ensureInitialized();
+    return addEntityAlias(entityId, alias, { ...options, type: 'alias' });
+  }
+
+  /**
+   * Declare an account handle for an entity ("@jdoe" on Slack)
+   */
+  addHandle(
+    entityId: string,
+    handle: string,
+    options?: { source?: string; confidence?: number }
+  ): EntityAlias | null {
+    this.ensureInitialized();
+    return addEntityAlias(entityId, handle, { ...options, type: 'handle' });
+  }
+
+  /**
+   * Remove an alias or handle by id
+   */
+  removeAlias(aliasId: string): boolean {
+    this.ensureInitialized();
+    return removeEntityAlias(aliasId);
+  }
+
+  /**
+   * List an entity's aliases and handles, optionally of one type or source
+   */
+  getAliases(entityId: string, filter?: { type?: AliasType; source?: string }): EntityAlias[] {
+    this.ensureInitialized();
+    return getEntityAliases(entityId, filter);
+  }
+
+  /**
+   * Find potential duplicate entities, scored on name similarity plus
+   * email, phone, company and shared-neighbour overlap
+   */
+  findDuplicates(threshold: number = 0.8, options?: DuplicateOptions): DuplicateCandidate[] {
+    this.ensureInitialized();
+    return findPotentialDuplicates(threshold, options);
+  }
+
+  /**
+   * Ambiguous matches waiting for review, with evidence for both entities
+   */
+  getQuarantinedEntities(limit?: number): QuarantinePair[] {
+    this.ensureInitialized();
+    return getPendingQuarantine(limit);
+  }
+
+  /**
+   * Record a review decision for a quarantined pair. 'merge' merges the
+   * pair; 'keep_separate' stops them being matched or proposed again.
+   */
+  reviewQuarantinedEntity(
+    quarantineId: string,
+    decision: QuarantineDecision,
+    options?: { keepId?: string }
+  ): QuarantinedEntity | null {
     this.ensureInitialized();
-    return findPotentialDuplicates(threshold);
+    return reviewQuarantine(quarantineId, decision, options);
   }
 
   /**
@@ -251,26 +526,35 @@ export class PeanutCore {
 
   /**
    * Hybrid search combining FTS, vector, and graph search
-   * Uses Reciprocal Rank Fusion to combine results
+   * Uses Reciprocal Rank Fusion to combine results.
+   * Supports from:/to:/source:/thread:/before:/after:, "phrases", -negation and AND/OR;
+   * throws QuerySyntaxError on malformed queries.
    */
-  async search(query: string, options?: SearchOptions): Promise<SearchResultType[]> {
+  async search(query: string | SearchQuery, options?: SearchOptions): Promise<SearchResultType[]> {
     this.ensureInitialized();
     // Use simple search by default (no embeddings required)
     return simpleSearch(query, options);
   }
 
   /**
-   * Hybrid search with vector embeddings (requires embedding config)
+   * Hybrid search with vector embeddings (requires an embedding provider or config)
    */
   async searchWithEmbeddings(
-    query: string,
-    embeddingConfig: EmbeddingConfig,
+    query: string | SearchQuery,
+    embeddingConfig: EmbeddingConfig | EmbeddingProvider,
     options?: SearchOptions
   ): Promise<SearchResultType[]> {
     this.ensureInitialized();
     return hybridSearch(query, options, embeddingConfig);
   }
 
+  /**
+   * Parse a search query without running it (e.g. to validate user input)
+   */
+  parseSearchQuery(query: string): ParseResult {
+    return parseSearchQuery(query);
+  }
+
   /**
    * Graph-based search for relationship queries
    * e.g., "Jake's boss", "Sarah's colleagues"
@@ -295,7 +579,7 @@ export class PeanutCore {
     entityId: string,
     edgeTypes?: string[],
     depth?: number
-  ): Array<{ id: string; name: string; edgeType: string; distance: number }> {
+  ): Array<{ id: string; name: string; edgeType: string; distance: number; strength: number }> {
     this.ensureInitialized();
     return getConnectedEntities(entityId, edgeTypes, depth);
   }
@@ -303,21 +587,70 @@ export class PeanutCore {
   /**
    * Embed unprocessed messages for vector search
    */
-  async embedMessages(embeddingConfig: EmbeddingConfig, batchSize?: number): Promise<{
+  async embedMessages(embeddingConfig: EmbeddingConfig | EmbeddingProvider, batchSize?: number): Promise<{
     processed: number;
     errors: number;
   }> {
     this.ensureInitialized();
-    return embedUnprocessedMessages(embeddingConfig, batchSize);
+    const result = await embedUnprocessedMessages(embeddingConfig, batchSize);
+    saveVectorIndexes();
+    return result;
   }
 
   /**
-   * Get vector store statistics
+   * Embed new or changed assertions for vector search
+   */
+  async embedAssertions(embeddingConfig: EmbeddingConfig | EmbeddingProvider, batchSize?: number): Promise<{
+    processed: number;
+    errors: number;
+  }> {
+    this.ensureInitialized();
+    const result = await embedUnprocessedAssertions(embeddingConfig, batchSize);
+    saveVectorIndexes();
+    return result;
+  }
+
+  /**
+   * Embed entity summaries whose name, attributes, or facts changed
+   */
+  async embedEntities(embeddingConfig: EmbeddingConfig | EmbeddingProvider, batchSize?: number): Promise<{
+    processed: number;
+    errors: number;
+  }> {
+    this.ensureInitialized();
+    const result = await embedUnprocessedEntities(embeddingConfig, batchSize);
+    saveVectorIndexes();
+    return result;
+  }
+
+  /**
+   * Embed the extracted text of new or changed attachments for vector search
+   */
+  async embedAttachments(embeddingConfig: EmbeddingConfig | EmbeddingProvider, batchSize?: number): Promise<{
+    processed: number;
+    errors: number;
+  }> {
+    this.ensureInitialized();
+    const result = await embedUnprocessedAttachments(embeddingConfig, batchSize);
+    saveVectorIndexes();
+    return result;
+  }
+
+  /**
+   * Get vector store statistics (the SQLite store)
    */
   getVectorStats(): { count: number; byType: Record<string, number> } {
     return getVectorStoreStats();
   }
 
+  /**
+   * Get statistics for the active vector store, whichever backend it is
+   */
+  async getVectorStoreStats(): Promise<VectorStoreStats> {
+    this.ensureInitialized();
+    return getVectorStore().stats();
+  }
+
   // ============================================================
   // ENTITY
   // ============================================================
@@ -348,6 +681,7 @@ export class PeanutCore {
         sourceAssertionId: a['source_assertion_id'] as string | undefined,
         createdAt: new Date(a['created_at'] as string),
       })),
+      importance: getEntityImportance(id) ?? undefined,
     };
   }
 
@@ -423,6 +757,74 @@ export class PeanutCore {
     };
   }
 
+  /**
+   * Recompute how much each entity matters to the user (the processing
+   * worker also does this periodically)
+   */
+  computeEntityImportance(options?: ImportanceOptions): { entitiesScored: number } {
+    this.ensureInitialized();
+    return computeEntityImportance(options);
+  }
+
+  /**
+   * The entities that matter most to the user
+   */
+  getMostImportantEntities(limit?: number): Array<EntityImportance & { name: string }> {
+    this.ensureInitialized();
+    return getMostImportantEntities(limit);
+  }
+
+  /**
+   * Recompute the decayed strength of every relationship edge (the
+   * processing worker also does this periodically)
+   */
+  recomputeEdgeStrengths(): { edgesUpdated: number } {
+    this.ensureInitialized();
+    return recomputeEdgeStrengths();
+  }
+
+  /**
+   * Relationship strength between an entity and the user (or
+   * `options.otherEntityId`) over time
+   */
+  getRelationshipStrengthSeries(entityId: string, options?: StrengthSeriesOptions): RelationshipStrengthPoint[] {
+    this.ensureInitialized();
+    return getRelationshipStrengthSeries(entityId, options);
+  }
+
+  /**
+   * Cluster the entity graph into communities (the processing worker also
+   * does this periodically)
+   */
+  detectCommunities(options?: CommunityDetectionOptions): CommunityDetectionResult {
+    this.ensureInitialized();
+    return detectCommunities(options);
+  }
+
+  /**
+   * Detected communities, largest first
+   */
+  getCommunities(): EntityCommunity[] {
+    this.ensureInitialized();
+    return getCommunities();
+  }
+
+  /**
+   * The community an entity belongs to, if any
+   */
+  getEntityCommunity(entityId: string): EntityCommunity | null {
+    this.ensureInitialized();
+    return getEntityCommunity(entityId);
+  }
+
+  /**
+   * Members of a community, most central first
+   */
+  getCommunityMembers(communityId: string): CommunityMember[] {
+    this.ensureInitialized();
+    return getCommunityMembers(communityId);
+  }
+
   // ============================================================
   // PERSONALITY
   // ============================================================
@@ -0,0 +1,263 @@
+// Attachments
+//
+// Stores the files that came with a message (name, type, size and content
+// hash) and extracts the text of plain text, CSV, Markdown, HTML and PDF
+// files, so search can find a file by what it says and point back to the
+// message it came with.
+
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from '../db/connection';
+import { decodeBytes } from './mime';
+import { htmlToText } from './html';
+import { extractPdfText } from './pdf';
+import type { NormalizedAttachment, StoredAttachment } from '../types';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export interface AttachmentExtractionConfig {
+  maxBytes: number;        // Larger files are stored without their text
+  maxTextLength: number;   // Extracted text is cut to this many characters
+}
+
+const DEFAULT_CONFIG: AttachmentExtractionConfig = {
+  maxBytes: 20 * 1024 * 1024,
+  maxTextLength: 200_000,
+};
+
+let config: AttachmentExtractionConfig = { ...DEFAULT_CONFIG };
+
+export function configureAttachmentExtraction(options: Partial<AttachmentExtractionConfig>): void {
+  config = { ...config, ...options };
+}
+
+export function getAttachmentExtractionConfig(): AttachmentExtractionConfig {
+  return { ...config };
+}
+
+// ============================================================
+// TEXT EXTRACTION
+// ============================================================
+
+type DocumentKind = 'text' | 'csv' | 'markdown' | 'html' | 'pdf';
+
+const BY_EXTENSION: Record<string, DocumentKind> = {
+  txt: 'text', text: 'text', log: 'text',
+  csv: 'csv', tsv: 'csv',
+  md: 'markdown', markdown: 'markdown',
+  htm: 'html', html: 'html',
+  pdf: 'pdf',
+};
+
+const BY_MIME_TYPE: Record<string, DocumentKind> = {
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'text/tab-separated-values': 'csv',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'application/pdf': 'pdf',
+};
+
+/**
+ * What kind of document a file is, going by its extension (senders often
+ * label CSV and Markdown as text/plain or octet-stream), then its type
+ */
+function documentKind(mimeType: string, filename: string): DocumentKind | null {
+  const extension = filename.toLowerCase().match(/\.(\w+)$/)?.[1];
+  if (extension && BY_EXTENSION[extension]) return BY_EXTENSION[extension];
+
+  const type = mimeType.toLowerCase().split(';')[0]!.trim();
+  return BY_MIME_TYPE[type] ?? (type.startsWith('text/') ? 'text' : null);
+}
+
+/**
+ * CSV or TSV rows as lines of " | "-separated cells
+ */
+function csvToText(text: string, delimiter: string): string {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]!;
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"' && cell === '') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell.trim()]);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  rows.push([...row, cell.trim()]);
+
+  return rows
+    .filter(cells => cells.some(Boolean))
+    .map(cells => cells.join(' | '))
+    .join('\n');
+}
+
+/**
+ * Markdown without its markup: links keep their target, images their alt text
+ */
+function markdownToText(text: string): string {
+  return text
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, '$1 ($2)')
+    .replace(/^ {0,3}#{1,6}\s+/gm, '')
+    .replace(/^ {0,3}(?:[-*_]\s*){3,}$/gm, '')
+    .replace(/^\s*\|?(?:\s*:?-{3,}:?\s*\|)+\s*:?-*:?\s*$/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+    .replace(/`([^`\n]+)`/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extract the text of a file, or undefined for types we can't read
+ */
+export function extractAttachmentText(content: Buffer, mimeType: string, filename: string): string | undefined {
+  const kind = documentKind(mimeType, filename);
+  if (!kind) return undefined;
+  if (kind === 'pdf') return extractPdfText(content);
+
+  const charset = mimeType.match(/charset="?([\w-]+)/i)?.[1];
+  const text = decodeBytes(content.toString('latin1'), charset).replace(/^\ufeff/, '').replace(/\r\n?/g, '\n');
+
+  switch (kind) {
+    case 'csv':
+      return csvToText(text, /\.tsv$/i.test(filename) || /tab-separated/i.test(mimeType) ? '\t' : ',');
+    case 'markdown':
+      return markdownToText(text);
+    case 'html':
+      return htmlToText(text);
+    default:
+      return text.trim();
+  }
+}
+
+// ============================================================
+// STORAGE
+// ============================================================
+
+interface AttachmentRow {
+  id: string;
+  message_id: string;
+  filename: string;
+  mime_type: string;
+  size: number | null;
+  content_hash: string | null;
+  text: string | null;
+  extraction_status: StoredAttachment['extractionStatus'];
+  created_at: string;
+}
+
+function rowToAttachment(row: AttachmentRow): StoredAttachment {
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    filename: row.filename,
+    mimeType: row.mime_type,
+    size: row.size ?? undefined,
+    contentHash: row.content_hash ?? undefined,
+    text: row.text ?? undefined,
+    extractionStatus: row.extraction_status,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Text of an attachment and how extraction went
+ */
+function extract(attachment: NormalizedAttachment): { text?: string; status: StoredAttachment['extractionStatus'] } {
+  if (attachment.text !== undefined) return { text: attachment.text, status: 'extracted' };
+  if (!attachment.content) return { status: 'no_content' };
+  if (attachment.content.length > config.maxBytes) return { status: 'too_large' };
+
+  try {
+    const text = extractAttachmentText(attachment.content, attachment.mimeType, attachment.filename);
+    return text === undefined ? { status: 'unsupported' } : { text, status: 'extracted' };
+  } catch (error) {
+    console.error(`Failed to extract text from ${attachment.filename}:`, error);
+    return { status: 'failed' };
+  }
+}
+
+/**
+ * Store a message's attachments with their extracted text
+ */
+export function storeAttachments(messageId: string, attachments: NormalizedAttachment[]): StoredAttachment[] {
+  const insert = getDb().prepare(`
+    INSERT INTO attachments (id, message_id, filename, mime_type, size, content_hash, text, extraction_status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  return attachments.map(attachment => {
+    const { text, status } = extract(attachment);
+    const contentHash = attachment.contentHash
+      ?? (attachment.content ? createHash('sha256').update(attachment.content).digest('hex') : undefined);
+    const stored: StoredAttachment = {
+      id: uuidv4(),
+      messageId,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType.toLowerCase(),
+      size: attachment.size ?? attachment.content?.length,
+      contentHash,
+      text: text?.slice(0, config.maxTextLength),
+      extractionStatus: status,
+      createdAt: new Date(),
+    };
+
+    insert.run(
+      stored.id,
+      messageId,
+      stored.filename,
+      stored.mimeType,
+      stored.size ?? null,
+      stored.contentHash ?? null,
+      stored.text ?? null,
+      stored.extractionStatus
+    );
+    return stored;
+  });
+}
+
+/**
+ * Attachments of a message, in the order they were stored
+ */
+export function getMessageAttachments(messageId: string): StoredAttachment[] {
+  const rows = getDb().prepare(`
+    SELECT * FROM attachments WHERE message_id = ? ORDER BY rowid
+  `).all(messageId) as AttachmentRow[];
+  return rows.map(rowToAttachment);
+}
+
+/**
+ * Attachments with the same content, e.g. one file sent in several threads
+ */
+export function findAttachmentsByHash(contentHash: string): StoredAttachment[] {
+  const rows = getDb().prepare(`
+    SELECT * FROM attachments WHERE content_hash = ? ORDER BY created_at
+  `).all(contentHash) as AttachmentRow[];
+  return rows.map(rowToAttachment);
+}
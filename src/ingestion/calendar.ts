@@ -29,6 +29,8 @@ export interface CalendarEventInput {
   attendees: Array<{
     email: string;
     name?: string;
+    /** Phone number, in any format (normalised to E.164 on ingestion) */
+    phone?: string;
     responseStatus?: 'accepted' | 'declined' | 'tentative' | 'needsAction';
   }>;
   /** Event location */
@@ -106,6 +108,7 @@ export function ingestCalendarEvent(event: CalendarEventInput): CalendarIngestRe
   for (const attendee of event.attendees) {
     const entityId = findOrCreateEntity({
       email: attendee.email,
+      phone: attendee.phone,
       name: attendee.name,
     });
     attendeeEntityIds.push(entityId);
@@ -0,0 +1,196 @@
+// Message body cleaning
+//
+// Separates what the author of an email wrote from what came along with it:
+// quoted history ("On ... wrote:", "> " lines, Outlook header blocks), the
+// signature and a trailing legal disclaimer. The author's text is stored as
+// messages.body_clean, and search, embeddings, style analysis and extraction
+// read it instead of the raw body, so a thread's text isn't counted once per
+// reply that quotes it.
+
+import { SIGN_OFF } from './orgs';
+
+export interface CleanedBody {
+  text: string;           // The author's own words, sign-off included
+  quoted?: string;        // Quoted or forwarded history
+  signature?: string;     // From its "-- " delimiter, or the lines after the sign-off
+  disclaimer?: string;
+}
+
+// ============================================================
+// QUOTED HISTORY
+// ============================================================
+
+// "On Tue, Mar 5, 2024 at 10:00 AM Dana Ruiz <dana@example.com> wrote:",
+// and the same in French, German, Spanish, Italian, Dutch and Portuguese
+const ATTRIBUTION = /^(On\s.+\swrote|Le\s.+\sa \u00e9crit|Am\s.+\sschrieb.*|El\s.+\sescribi\u00f3|Il\s.+\sha scritto|Op\s.+\sschreef.*|Em\s.+\sescreveu)\s*:\s*$/i;
+
+// Mail clients wrap long attributions, so the first line is enough to look further
+const ATTRIBUTION_START = /^(On|Le|Am|El|Il|Op|Em)\s/;
+
+// What a mail client writes into one: the sender's address, a date or a time
+const ATTRIBUTION_DETAIL = /\S@\S|\b\d{1,2}:\d{2}\b|\b\d{4}\b|\b\d{1,2}[./-]\d{1,2}[./-]\d{2,4}\b/;
+
+const SEPARATOR = /^(-{2,}\s*(Original Message|Forwarded message|Message d'origine|Urspr\u00fcngliche Nachricht)\s*-{2,}|Begin forwarded message:)$/i;
+
+// Outlook quotes the previous message under a block of its headers
+const HEADER_FROM = /^\*?(From|De|Von|Van|Da)\s*:\*?\s*\S/i;
+const HEADER_OTHER = /^\*?(Sent|Date|To|Cc|Subject|Envoy\u00e9|\u00c0|Objet|Gesendet|An|Betreff|Verzonden|Aan|Onderwerp|Enviado|Para|Asunto|Inviato|Oggetto)\s*:/i;
+
+const QUOTE_LINE = /^\s*>/;
+
+/**
+ * Length, in lines, of an attribution starting at line i (0 if none)
+ */
+function attributionAt(lines: string[], i: number): number {
+  const line = lines[i]!.trim();
+  if (ATTRIBUTION.test(line)) return 1;
+  if (!ATTRIBUTION_START.test(line) || i + 1 >= lines.length) return 0;
+  return ATTRIBUTION.test(`${line} ${lines[i + 1]!.trim()}`) ? 2 : 0;
+}
+
+/**
+ * Does line i start an Outlook header block (From: followed by at least two
+ * of Sent:, To:, Subject:, ... within a few lines)?
+ */
+function headerBlockAt(lines: string[], i: number): boolean {
+  if (!HEADER_FROM.test(lines[i]!.trim())) return false;
+  return lines.slice(i + 1, i + 6).filter(l => HEADER_OTHER.test(l.trim())).length >= 2;
+}
+
+/**
+ * Split lines into the author's and the quoted ones. An attribution over
+ * "> " lines only quotes those lines, so replies written below or between
+ * them are kept; an attribution without them, a separator or a header block
+ * quotes everything after it. Without "> " lines, an attribution needs an
+ * address, date or time, or "On Monday the client wrote:" would cut the reply.
+ */
+function splitQuoted(lines: string[]): { own: string[]; quoted: string[] } {
+  const own: string[] = [];
+  const quoted: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    const attribution = attributionAt(lines, i);
+    if (attribution > 0) {
+      const next = lines.slice(i + attribution).find(l => l.trim() !== '');
+      if (next !== undefined && QUOTE_LINE.test(next)) {
+        quoted.push(...lines.slice(i, i + attribution));
+        i += attribution - 1;
+        continue;
+      }
+      if (ATTRIBUTION_DETAIL.test(lines.slice(i, i + attribution).join(' '))) {
+        quoted.push(...lines.slice(i));
+        break;
+      }
+    }
+
+    const trimmed = line.trim();
+    if (SEPARATOR.test(trimmed) || headerBlockAt(lines, i) ||
+        (/^_{10,}$/.test(trimmed) && i + 1 < lines.length && headerBlockAt(lines, i + 1))) {
+      quoted.push(...lines.slice(i));
+      break;
+    }
+
+    (QUOTE_LINE.test(line) ? quoted : own).push(line);
+  }
+
+  return { own, quoted };
+}
+
+// ============================================================
+// DISCLAIMERS
+// ============================================================
+
+const DISCLAIMER = /\b(confidential|privileged|intended (only |solely )?for the (use of the )?(named )?(addressee|recipient|individual)|not the intended recipient|received this (e-?mail|message|communication) in error|unauthori[sz]ed (use|disclosure|review|distribution)|disclaimer)/i;
+
+// Shorter paragraphs mentioning confidentiality are the author's own
+const MIN_DISCLAIMER_LENGTH = 100;
+
+/**
+ * Split off a trailing disclaimer: the first of the last three paragraphs
+ * that reads like one, and everything after it
+ */
+function splitDisclaimer(lines: string[]): { own: string[]; disclaimer: string[] } {
+  const starts = lines
+    .map((line, i) => (line.trim() !== '' && (i === 0 || lines[i - 1]!.trim() === '') ? i : -1))
+    .filter(i => i >= 0);
+
+  for (const [n, start] of starts.entries()) {
+    if (n === 0 || n < starts.length - 3) continue;
+    const end = starts[n + 1] ?? lines.length;
+    const paragraph = lines.slice(start, end).join(' ').trim();
+    if (paragraph.length >= MIN_DISCLAIMER_LENGTH && DISCLAIMER.test(paragraph)) {
+      return { own: lines.slice(0, start), disclaimer: lines.slice(start) };
+    }
+  }
+  return { own: lines, disclaimer: [] };
+}
+
+// ============================================================
+// SIGNATURES
+// ============================================================
+
+const MOBILE_SIGNATURE = /^(Sent from my .+|Sent from (Outlook|Mail|Yahoo Mail|Gmail).*|Get Outlook for .+|Sent via .+)$/i;
+
+// A sign-off is followed by at most this many short lines of signature
+const MAX_SIGNATURE_LINES = 6;
+const MAX_SIGNATURE_WORDS = 10;
+
+/**
+ * Split off the signature: after a "-- " delimiter, from a "Sent from my
+ * iPhone" line, or the name and contact lines after a sign-off
+ */
+function splitSignature(lines: string[]): { own: string[]; signature: string[] } {
+  const trimmed = lines.map(l => l.trim());
+  const nonBlank = trimmed.map((l, i) => (l ? i : -1)).filter(i => i >= 0);
+  const tail = nonBlank.slice(-(MAX_SIGNATURE_LINES + 4));
+
+  let cut = lines.length;
+
+  // A "--" higher up is punctuation or a divider, not a signature delimiter
+  const delimiter = trimmed.lastIndexOf('--');
+  if (delimiter > 0 && tail.includes(delimiter)) cut = delimiter;
+
+  const mobile = tail.find(i => i < cut && MOBILE_SIGNATURE.test(trimmed[i]!) && nonBlank.indexOf(i) >= nonBlank.length - 3);
+  if (mobile !== undefined && mobile > 0) cut = mobile;
+
+  const signOff = tail.filter(i => i < cut && SIGN_OFF.test(trimmed[i]!)).at(-1);
+  if (signOff !== undefined) {
+    const block = trimmed.slice(signOff + 1, cut).filter(Boolean);
+    if (block.length > 0 && block.length <= MAX_SIGNATURE_LINES &&
+        block.every(l => l.split(/\s+/).length <= MAX_SIGNATURE_WORDS)) {
+      cut = signOff + 1;
+    }
+  }
+
+  return { own: lines.slice(0, cut), signature: lines.slice(cut) };
+}
+
+// ============================================================
+// CLEANING
+// ============================================================
+
+function joined(lines: string[]): string | undefined {
+  const text = lines.join('\n').trim();
+  return text || undefined;
+}
+
+/**
+ * Separate an email body into the author's own text, quoted history,
+ * signature and disclaimer
+ */
+export function cleanMessageBody(body: string): CleanedBody {
+  const lines = body.replace(/\r\n?/g, '\n').split('\n');
+
+  const quotes = splitQuoted(lines);
+  const disclaimer = splitDisclaimer(quotes.own);
+  const signature = splitSignature(disclaimer.own);
+
+  return {
+    text: joined(signature.own) ?? '',
+    quoted: joined(quotes.quoted),
+    signature: joined(signature.signature),
+    disclaimer: joined(disclaimer.disclaimer),
+  };
+}
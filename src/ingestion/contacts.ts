@@ -7,6 +7,7 @@
 import { v4 as uuid } from 'uuid';
 import { getDb } from '../db/connection';
 import { nameSimilarity } from '../entity/matcher';
+import { normalizePhone, findEntityByPhone } from './phone';
 
 // ============================================================
 // TYPES
@@ -94,19 +95,15 @@ export function ingestContact(contact: ContactInput): ContactIngestResult {
 
   // Try to find existing entity by phone
   for (const phone of contact.phones) {
-    const normalized = normalizePhone(phone);
-    const existing = db.prepare(`
-      SELECT entity_id FROM entity_attributes
-      WHERE attribute_type = 'phone' AND REPLACE(REPLACE(REPLACE(attribute_value, '-', ''), ' ', ''), '(', '') LIKE ?
-    `).get(`%${normalized}%`) as { entity_id: string } | undefined;
+    const existing = findEntityByPhone(phone);
 
     if (existing) {
-      updateEntity(existing.entity_id, contact);
+      updateEntity(existing.entityId, contact);
       return {
-        entityId: existing.entity_id,
+        entityId: existing.entityId,
         created: false,
         updated: true,
-        mergedWith: existing.entity_id,
+        mergedWith: existing.entityId,
       };
     }
   }
@@ -213,13 +210,6 @@ function buildCanonicalName(contact: ContactInput): string {
   return 'Unknown';
 }
 
-/**
- * Normalize phone number for comparison
- */
-function normalizePhone(phone: string): string {
-  return phone.replace(/\D/g, '').slice(-10);  // Last 10 digits
-}
-
 /**
  * Update an existing entity with contact info
  */
@@ -263,7 +253,7 @@ function addContactAttributes(entityId: string, contact: ContactInput): void {
     db.prepare(`
       INSERT OR IGNORE INTO entity_attributes (id, entity_id, attribute_type, attribute_value, confidence, created_at)
       VALUES (?, ?, 'phone', ?, 0.95, CURRENT_TIMESTAMP)
-    `).run(uuid(), entityId, phone);
+    `).run(uuid(), entityId, normalizePhone(phone) ?? phone);
   }
 
   // Add company
@@ -1,7 +1,8 @@
 // Gmail message ingestion
 
-import type { GmailMessage } from './types';
-import type { NormalizedMessage } from '../types';
+import { htmlToText } from './html';
+import type { GmailMessage, GmailMessagePart } from './types';
+import type { NormalizedMessage, NormalizedAttachment } from '../types';
 
 /**
  * Parse email address from header value like "John Doe <john@example.com>"
@@ -36,7 +37,7 @@ function parseEmailAddress(headerValue: string): { name?: string; email: string
 /**
  * Parse multiple addresses from To/Cc/Bcc headers
  */
-function parseAddressList(headerValue: string): Array<{ name?: string; email: string }> {
+export function parseAddressList(headerValue: string): Array<{ name?: string; email: string }> {
   if (!headerValue) return [];
 
   // Split on comma, but be careful about commas in quoted names
@@ -100,7 +101,7 @@ function extractBody(payload: GmailMessage['payload']): { text: string; html?: s
   // Check parts
   if (payload.parts) {
     for (const part of payload.parts) {
-      if (part.body?.data) {
+      if (part.body?.data && !part.filename) {
         const decoded = decodeBase64Url(part.body.data);
         if (part.mimeType === 'text/plain' && !textBody) {
           textBody = decoded;
@@ -111,17 +112,34 @@ function extractBody(payload: GmailMessage['payload']): { text: string; html?: s
     }
   }
 
-  // If we only have HTML, strip tags for text version
+  // If we only have HTML, convert it for the text version
   if (!textBody && htmlBody) {
-    textBody = htmlBody
-      .replace(/<[^>]+>/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
+    textBody = htmlToText(htmlBody);
   }
 
   return { text: textBody, html: htmlBody || undefined };
 }
 
+/**
+ * Collect the attachments (parts with a filename) from a payload's part
+ * tree. Their content is included when the caller fetched it into data.
+ */
+function extractAttachments(parts: GmailMessagePart[] | undefined): NormalizedAttachment[] {
+  return (parts ?? []).flatMap(part => {
+    const nested = extractAttachments(part.parts);
+    if (!part.filename) return nested;
+
+    const data = part.body?.data;
+    const content = data ? Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64') : undefined;
+    return [{
+      filename: part.filename,
+      mimeType: part.mimeType || 'application/octet-stream',
+      size: part.body?.size ?? content?.length,
+      content,
+    }, ...nested];
+  });
+}
+
 /**
  * Normalize a Gmail message to our standard format
  */
@@ -146,6 +164,7 @@ export function normalizeGmailMessage(
 
   // Extract body
   const { text, html } = extractBody(raw.payload);
+  const attachments = extractAttachments(raw.payload.parts);
 
   // Determine if from user
   const isFromUser = userEmail
@@ -177,6 +196,7 @@ export function normalizeGmailMessage(
     subject: getHeader(headers, 'Subject'),
     bodyText: text,
     bodyHtml: html,
+    attachments: attachments.length > 0 ? attachments : undefined,
 
     timestamp,
     isFromUser,
@@ -0,0 +1,311 @@
+// HTML to text conversion
+//
+// Turns the HTML body of an email (newsletters and corporate mail are often
+// HTML-only) into readable text: paragraphs and line breaks, list markers,
+// link targets after their text, table cells separated by " | ", and
+// blockquotes as "> " lines so quoted history is recognised by cleaning.ts.
+// Scripts, styles, hidden elements and tracking pixels are dropped.
+
+// ============================================================
+// ENTITIES
+// ============================================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ensp: ' ', emsp: ' ', thinsp: ' ', zwnj: '', zwj: '', shy: '', lrm: '', rlm: '',
+  copy: '\u00a9', reg: '\u00ae', trade: '\u2122', deg: '\u00b0', plusmn: '\u00b1', times: '\u00d7', divide: '\u00f7',
+  hellip: '\u2026', mdash: '\u2014', ndash: '\u2013', bull: '\u2022', middot: '\u00b7', para: '\u00b6', sect: '\u00a7',
+  lsquo: '\u2018', rsquo: '\u2019', sbquo: '\u201a', ldquo: '\u201c', rdquo: '\u201d', bdquo: '\u201e',
+  laquo: '\u00ab', raquo: '\u00bb', lsaquo: '\u2039', rsaquo: '\u203a', larr: '\u2190', rarr: '\u2192',
+  euro: '\u20ac', pound: '\u00a3', yen: '\u00a5', cent: '\u00a2', iexcl: '\u00a1', iquest: '\u00bf',
+  eacute: '\u00e9', egrave: '\u00e8', ecirc: '\u00ea', aacute: '\u00e1', agrave: '\u00e0', acirc: '\u00e2',
+  iacute: '\u00ed', oacute: '\u00f3', ocirc: '\u00f4', uacute: '\u00fa', ntilde: '\u00f1', ccedil: '\u00e7',
+  auml: '\u00e4', ouml: '\u00f6', uuml: '\u00fc', Auml: '\u00c4', Ouml: '\u00d6', Uuml: '\u00dc', szlig: '\u00df',
+};
+
+/**
+ * Decode named and numeric character references
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#\d+|#[xX][0-9a-fA-F]+|[a-zA-Z][a-zA-Z0-9]*);/g, (match, ref: string) => {
+    if (ref.startsWith('#')) {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      if (code === 0xa0) return ' ';
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[ref] ?? NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+  });
+}
+
+// ============================================================
+// TAGS
+// ============================================================
+
+// Elements whose content is never text
+const DROPPED = /<(script|style|head|title|template|svg)\b[\s\S]*?<\/\1\s*>/gi;
+
+const TOKEN = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+
+const VOID = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Blocks separated by a blank line, and by a line break
+const PARAGRAPH = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'table', 'ul', 'ol', 'dl', 'pre', 'figure', 'address']);
+const BLOCK = new Set(['div', 'section', 'article', 'header', 'footer', 'main', 'nav', 'aside', 'center', 'form', 'fieldset', 'tr', 'dt', 'dd', 'li', 'hr', 'tbody', 'thead', 'tfoot', 'caption']);
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s"'=/>]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'>]+))?/g)) {
+    const value = match[2] ?? '';
+    attributes[match[1]!.toLowerCase()] = decodeHtmlEntities(value.replace(/^["']|["']$/g, ''));
+  }
+  return attributes;
+}
+
+function isHidden(attributes: Record<string, string>): boolean {
+  const style = (attributes['style'] ?? '').toLowerCase().replace(/\s+/g, '');
+  return 'hidden' in attributes ||
+    /display:none|visibility:hidden|mso-hide:all/.test(style) ||
+    /(^|;)max-height:0(px)?(;|$)/.test(style);
+}
+
+/**
+ * An image that is only there to report the mail being opened
+ */
+function isTrackingPixel(attributes: Record<string, string>): boolean {
+  const size = (value: string | undefined) => (value === undefined ? undefined : parseInt(value, 10));
+  const style = (attributes['style'] ?? '').toLowerCase().replace(/\s+/g, '');
+  const width = size(attributes['width']) ?? size(style.match(/(?:^|;)width:(\d+)/)?.[1]);
+  const height = size(attributes['height']) ?? size(style.match(/(?:^|;)height:(\d+)/)?.[1]);
+  return (width !== undefined && width <= 2) || (height !== undefined && height <= 2);
+}
+
+/**
+ * Where a link points, if it's worth showing after its text
+ */
+function linkTarget(href: string | undefined): string | undefined {
+  const target = href?.trim();
+  if (!target || target.startsWith('#') || /^javascript:/i.test(target)) return undefined;
+  // mailto: links show the address
+  return /^mailto:/i.test(target) ? target.slice(7).split('?')[0] : target;
+}
+
+/**
+ * A URL or link text without scheme and trailing slash, for comparing them
+ */
+function bareUrl(url: string): string {
+  return url.replace(/^[a-z]+:\/\//i, '').replace(/\/$/, '').toLowerCase();
+}
+
+// ============================================================
+// CONVERSION
+// ============================================================
+
+interface Line {
+  quoteDepth: number;
+  text: string;
+}
+
+/**
+ * Convert an HTML document or fragment to plain text
+ */
+export function htmlToText(html: string): string {
+  const lines: Line[] = [];
+  let current: Line | null = null;
+  let pendingBreaks = 0;
+  let cellSeparator = false;
+
+  let quoteDepth = 0;
+  let preDepth = 0;
+  const open: Array<{ name: string; hidden: boolean }> = [];
+  const lists: Array<{ ordered: boolean; count: number }> = [];
+  const rows: number[] = [];
+  const links: Array<{ target?: string; text: string }> = [];
+  let hidden = 0;
+
+  const breakLines = (count: number) => {
+    pendingBreaks = Math.max(pendingBreaks, count);
+  };
+
+  // Append text to the current line, starting new lines as needed
+  const write = (text: string, raw = false) => {
+    if (hidden > 0 || text === '') return;
+    if (current === null || pendingBreaks > 0) {
+      if (!raw && /^\s*$/.test(text)) return;
+      if (current !== null) {
+        // A blank line between a quote and what's around it isn't part of the quote
+        const blankDepth = Math.min(current.quoteDepth, quoteDepth);
+        for (let i = 1; i < pendingBreaks; i++) lines.push({ quoteDepth: blankDepth, text: '' });
+      }
+      current = { quoteDepth, text: '' };
+      lines.push(current);
+      pendingBreaks = 0;
+      cellSeparator = false;
+    }
+
+    if (!raw) {
+      if (current.text === '' || current.text.endsWith(' ')) text = text.replace(/^ +/, '');
+      if (text === '') return;
+    }
+    if (cellSeparator) {
+      current.text = current.text.replace(/ +$/, '') + ' | ';
+      cellSeparator = false;
+    }
+    current.text += text;
+    for (const link of links) link.text += text;
+  };
+
+  const writeText = (text: string) => {
+    const decoded = decodeHtmlEntities(text);
+    if (preDepth > 0) {
+      decoded.split('\n').forEach((part, i) => {
+        if (i > 0) breakLines(1);
+        write(part, true);
+      });
+    } else {
+      write(decoded.replace(/\s+/g, ' '));
+    }
+  };
+
+  // Lists nested in a list item only start a new line
+  const separate = (name: string) => {
+    const nestedList = (name === 'ul' || name === 'ol') && lists.length > 0;
+    if (PARAGRAPH.has(name) && !nestedList) breakLines(2);
+    else if (BLOCK.has(name) || nestedList) breakLines(1);
+  };
+
+  const openTag = (name: string, attributes: Record<string, string>) => {
+    separate(name);
+
+    switch (name) {
+      case 'br':
+        if (hidden === 0) {
+          if (current === null || pendingBreaks > 0) pendingBreaks++;
+          else breakLines(1);
+        }
+        break;
+      case 'blockquote':
+        quoteDepth++;
+        break;
+      case 'pre':
+        preDepth++;
+        break;
+      case 'ul':
+      case 'ol':
+        lists.push({ ordered: name === 'ol', count: 0 });
+        break;
+      case 'li': {
+        const list = lists.at(-1);
+        const indent = '  '.repeat(Math.max(0, lists.length - 1));
+        if (list) list.count++;
+        write(indent + (list?.ordered ? `${list.count}. ` : '- '), true);
+        break;
+      }
+      case 'tr':
+        rows.push(0);
+        break;
+      case 'td':
+      case 'th':
+        if (rows.length > 0) {
+          if (rows[rows.length - 1]! > 0) cellSeparator = true;
+          rows[rows.length - 1]!++;
+        }
+        break;
+      case 'a':
+        links.push({ target: linkTarget(attributes['href']), text: '' });
+        break;
+      case 'img':
+        if (!isTrackingPixel(attributes) && attributes['alt']?.trim()) writeText(` ${attributes['alt']} `);
+        break;
+    }
+  };
+
+  const closeTag = (name: string) => {
+    switch (name) {
+      case 'blockquote':
+        quoteDepth = Math.max(0, quoteDepth - 1);
+        break;
+      case 'pre':
+        preDepth = Math.max(0, preDepth - 1);
+        break;
+      case 'ul':
+      case 'ol':
+        lists.pop();
+        break;
+      case 'tr':
+        rows.pop();
+        break;
+      case 'a': {
+        const link = links.pop();
+        const text = link?.text.trim();
+        if (link?.target && text && bareUrl(text) !== bareUrl(link.target)) {
+          write(` (${link.target})`);
+        }
+        break;
+      }
+    }
+
+    separate(name);
+  };
+
+  const source = html.replace(DROPPED, '');
+  let position = 0;
+  for (const match of source.matchAll(TOKEN)) {
+    writeText(source.slice(position, match.index));
+    position = match.index! + match[0].length;
+
+    const name = match[2]?.toLowerCase();
+    if (!name) continue;   // Comment, doctype, processing instruction
+
+    if (match[1]) {
+      // Close the element and anything left open inside it
+      const at = open.map(e => e.name).lastIndexOf(name);
+      if (at === -1) continue;
+      for (const element of open.splice(at).reverse()) {
+        if (element.hidden) hidden--;
+        else closeTag(element.name);
+      }
+      continue;
+    }
+
+    const attributes = parseAttributes(match[3] ?? '');
+    const elementHidden = isHidden(attributes);
+    if (VOID.has(name)) {
+      if (!elementHidden) openTag(name, attributes);
+      continue;
+    }
+
+    // An <li> or <p> ends the open one
+    if ((name === 'li' || name === 'p') && open.at(-1)?.name === name) {
+      const element = open.pop()!;
+      if (element.hidden) hidden--;
+      else closeTag(element.name);
+    }
+
+    open.push({ name, hidden: elementHidden });
+    if (elementHidden) hidden++;
+    else openTag(name, attributes);
+  }
+  writeText(source.slice(position));
+
+  // Blank lines between blocks, but never more than one in a row
+  const out: string[] = [];
+  for (const line of lines) {
+    const text = line.text.replace(/[ \t]+$/, '');
+    const prefix = '> '.repeat(line.quoteDepth);
+    const rendered = text === '' ? prefix.trimEnd() : prefix + text;
+    if (rendered.replace(/>/g, '').trim() === '' && out.length > 0 &&
+        out[out.length - 1]!.replace(/>/g, '').trim() === '') continue;
+    out.push(rendered);
+  }
+
+  return out.join('\n').trim();
+}
+
+/**
+ * Is a supposedly plain text body actually HTML?
+ */
+export function looksLikeHtml(text: string): boolean {
+  if (/^\s*<(!DOCTYPE|html|head|body)\b/i.test(text)) return true;
+  const tags = text.match(/<\/?(div|p|br|span|table|tr|td|a|img|font|b|i|strong|em|ul|ol|li|h[1-6])\b[^>]*>/gi);
+  return (tags?.length ?? 0) >= 3;
+}
@@ -1,5 +1,6 @@
 // iMessage ingestion
 
+import { normalizePhone } from './phone';
 import type { IMessageMessage } from './types';
 import type { NormalizedMessage } from '../types';
 
@@ -14,21 +15,10 @@ function coreDataToDate(timestamp: number): Date {
 }
 
 /**
- * Normalize phone number to consistent format
+ * Phone handle in canonical form (E.164), or as given if it isn't a readable number
  */
-function normalizePhone(phone: string): string {
-  // Remove all non-digit characters except leading +
-  const hasPlus = phone.startsWith('+');
-  const digits = phone.replace(/\D/g, '');
-
-  // Add country code if missing (assume US)
-  if (digits.length === 10) {
-    return `+1${digits}`;
-  } else if (digits.length === 11 && digits.startsWith('1')) {
-    return `+${digits}`;
-  }
-
-  return hasPlus ? `+${digits}` : digits;
+function normalizeHandle(phone: string): string {
+  return normalizePhone(phone) ?? phone.trim();
 }
 
 /**
@@ -38,7 +28,7 @@ function parseIdentifier(id: string): { phone?: string; email?: string } {
   if (id.includes('@')) {
     return { email: id.toLowerCase().trim() };
   } else {
-    return { phone: normalizePhone(id) };
+    return { phone: normalizeHandle(id) };
   }
 }
 
@@ -50,17 +40,19 @@ export function normalizeIMessage(
   userPhone?: string,
   userEmail?: string
 ): NormalizedMessage {
+  const userHandle = userPhone ? normalizeHandle(userPhone) : undefined;
+
   // Determine sender
   let sender: { phone?: string; email?: string; name?: string };
 
   if (raw.is_from_me) {
     sender = {
-      phone: userPhone,
+      phone: userHandle,
       email: userEmail,
     };
   } else {
     sender = {
-      phone: raw.sender_phone ? normalizePhone(raw.sender_phone) : undefined,
+      phone: raw.sender_phone ? normalizeHandle(raw.sender_phone) : undefined,
       email: raw.sender_email?.toLowerCase(),
     };
   }
@@ -72,13 +64,13 @@ export function normalizeIMessage(
     // User sent this - recipients are the chat participants
     if (raw.participants) {
       for (const p of raw.participants) {
-        const parsed = p.phone ? { phone: normalizePhone(p.phone) } : { email: p.email?.toLowerCase() };
+        const parsed = p.phone ? { phone: normalizeHandle(p.phone) } : { email: p.email?.toLowerCase() };
         recipients.push({ ...parsed, type: 'to' });
       }
     } else if (raw.sender_phone || raw.sender_email) {
       // Fallback: the "sender" field is actually the other party
       recipients.push({
-        phone: raw.sender_phone ? normalizePhone(raw.sender_phone) : undefined,
+        phone: raw.sender_phone ? normalizeHandle(raw.sender_phone) : undefined,
         email: raw.sender_email?.toLowerCase(),
         type: 'to',
       });
@@ -86,7 +78,7 @@ export function normalizeIMessage(
   } else {
     // Someone else sent this - user is the recipient
     recipients.push({
-      phone: userPhone,
+      phone: userHandle,
       email: userEmail,
       type: 'to',
     });
@@ -3,4 +3,16 @@
 export * from './types';
 export * from './gmail';
 export * from './imessage';
+export * from './slack';
+export * from './mime';
+export * from './mbox';
+export * from './whatsapp';
+export * from './telegram';
+export * from './signal';
 export * from './pipeline';
+export * from './orgs';
+export * from './cleaning';
+export * from './html';
+export * from './pdf';
+export * from './attachments';
+export * from './phone';
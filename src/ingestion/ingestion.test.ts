@@ -0,0 +1,790 @@
+// Ingestion module tests
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { initDb, closeDb, getDb } from '../db/connection';
+import {
+  ingestNormalizedMessages,
+  ingestSlackExport,
+  ingestMailbox,
+  ingestWhatsAppChat,
+  ingestTelegramExport,
+  ingestSignalBackup,
+  backfillCleanedBodies,
+  type MailboxIngestProgress,
+} from './pipeline';
+import { parseWhatsAppChat } from './whatsapp';
+import { parseEmail } from './mime';
+import { readSlackExport, slackToPlainText, indexSlackWorkspace } from './slack';
+import { findEntitiesByAlias } from '../entity/aliases';
+import { parseSignature, emailDomain, configureOrgInference, DEFAULT_PERSONAL_DOMAINS } from './orgs';
+import { normalizePhone, parsePhone, configurePhoneNormalization, findEntityByPhone } from './phone';
+import { cleanMessageBody } from './cleaning';
+import { htmlToText } from './html';
+import { extractAttachmentText, getMessageAttachments, findAttachmentsByHash } from './attachments';
+import { ftsSearchMessages, ftsSearchAttachments } from '../search/fts';
+import { simpleSearch } from '../search/fusion';
+import type { NormalizedMessage } from '../types';
+
+function email(id: string, from: { email: string; name: string }, bodyText: string): NormalizedMessage {
+  return {
+    id,
+    sourceType: 'gmail',
+    sourceId: id,
+    sender: from,
+    recipients: [{ email: 'me@example.org', name: 'Me', type: 'to' }],
+    subject: 'Hello',
+    bodyText,
+    timestamp: new Date('2026-03-01T10:00:00Z'),
+    isFromUser: false,
+  };
+}
+
+describe('Organization Inference', () => {
+  beforeEach(() => {
+    initDb(':memory:');
+    configureOrgInference({ personalDomains: DEFAULT_PERSONAL_DOMAINS, extraPersonalDomains: ['example.org'] });
+  });
+
+  afterEach(() => {
+    closeDb();
+    configureOrgInference({ personalDomains: DEFAULT_PERSONAL_DOMAINS });
+  });
+
+  it('should parse title, company and phone from a signature', () => {
+    expect(parseSignature([
+      'See you Tuesday.',
+      '',
+      'Best regards,',
+      'Dana Ruiz',
+      'Head of Sales, Acme Robotics Inc.',
+      'Mobile: +1 (415) 555-0142',
+    ].join('\n'))).toEqual({
+      name: 'Dana Ruiz',
+      title: 'Head of Sales',
+      company: 'Acme Robotics Inc.',
+      phone: '+1 (415) 555-0142',
+    });
+
+    expect(parseSignature('No sign-off here, just a note.')).toEqual({});
+  });
+
+  it('should reduce subdomains to the registrable domain', () => {
+    expect(emailDomain('a@eu.mail.acme.co.uk')).toBe('acme.co.uk');
+    expect(emailDomain('a@mail.acme.com')).toBe('acme.com');
+  });
+
+  it('should create an org and a works_at edge from a work domain', () => {
+    const signature = '\n\nThanks,\nDana\nVP Engineering\nAcme Robotics Inc.';
+    ingestNormalizedMessages([
+      email('m1', { email: 'dana@acme-robotics.com', name: 'Dana Ruiz' }, 'Draft attached.' + signature),
+      email('m2', { email: 'dana@acme-robotics.com', name: 'Dana Ruiz' }, 'Updated draft.' + signature),
+    ]);
+
+    const db = getDb();
+    const org = db.prepare(`SELECT id, canonical_name FROM entities WHERE entity_type = 'org'`).all() as Array<{ id: string; canonical_name: string }>;
+    expect(org).toHaveLength(1);
+    expect(org[0]!.canonical_name).toBe('Acme Robotics Inc.');
+
+    const edge = db.prepare(`
+      SELECT e.canonical_name, g.evidence_count FROM graph_edges g
+      JOIN entities e ON e.id = g.from_entity_id
+      WHERE g.edge_type = 'works_at' AND g.to_entity_id = ?
+    `).get(org[0]!.id) as { canonical_name: string; evidence_count: number };
+    expect(edge).toEqual({ canonical_name: 'Dana Ruiz', evidence_count: 2 });
+
+    const title = db.prepare(`SELECT attribute_value FROM entity_attributes WHERE attribute_type = 'title'`).get() as { attribute_value: string };
+    expect(title.attribute_value).toBe('VP Engineering');
+  });
+
+  it('should not infer orgs from freemail or configured personal domains', () => {
+    ingestNormalizedMessages([
+      email('m1', { email: 'sam@gmail.com', name: 'Sam Lee' }, 'Lunch?'),
+    ]);
+
+    const orgs = getDb().prepare(`SELECT COUNT(*) AS n FROM entities WHERE entity_type = 'org'`).get() as { n: number };
+    expect(orgs.n).toBe(0);
+  });
+});
+
+describe('Phone Normalization', () => {
+  afterEach(() => {
+    configurePhoneNormalization({ defaultRegion: 'US' });
+  });
+
+  it('should normalise numbers to E.164 in the default region', () => {
+    expect(normalizePhone('(415) 555-0142')).toBe('+14155550142');
+    expect(normalizePhone('1-415-555-0142')).toBe('+14155550142');
+    expect(normalizePhone('+44 20 7946 0958')).toBe('+442079460958');
+    expect(normalizePhone('011 44 20 7946 0958')).toBe('+442079460958');
+
+    configurePhoneNormalization({ defaultRegion: 'GB' });
+    expect(normalizePhone('020 7946 0958')).toBe('+442079460958');
+    expect(normalizePhone('0044 20 7946 0958')).toBe('+442079460958');
+    expect(normalizePhone('06 1234 5678', { region: 'IT' })).toBe('+390612345678');
+  });
+
+  it('should keep extensions and recognise short codes', () => {
+    expect(normalizePhone('+1 415 555 0100 ext. 204')).toBe('+14155550100;ext=204');
+    expect(normalizePhone('415.555.0100 x12')).toBe('+14155550100;ext=12');
+    expect(parsePhone('72345')).toMatchObject({ shortCode: true, e164: null });
+    expect(normalizePhone('72345')).toBe('72345');
+    expect(normalizePhone('06 1234', { region: 'IT' })).toBe('+39061234');
+    expect(parsePhone('22833', { region: 'DE' })).toMatchObject({ shortCode: true, e164: null });
+    expect(normalizePhone('not a number')).toBeNull();
+  });
+
+  it('should store normalised numbers and match other formats on ingestion', () => {
+    initDb(':memory:');
+    configurePhoneNormalization({ defaultRegion: 'GB' });
+    ingestNormalizedMessages([{
+      id: 'imessage:1',
+      sourceType: 'imessage',
+      sourceId: '1',
+      sender: { phone: '07700 900123' },
+      recipients: [{ phone: '+44 7700 900000', type: 'to' }],
+      bodyText: 'On my way',
+      timestamp: new Date('2026-03-01T10:00:00Z'),
+      isFromUser: false,
+    }]);
+
+    const phones = getDb().prepare(`
+      SELECT attribute_value FROM entity_attributes WHERE attribute_type = 'phone' ORDER BY attribute_value
+    `).all() as Array<{ attribute_value: string }>;
+    expect(phones.map(p => p.attribute_value)).toEqual(['+447700900000', '+447700900123']);
+    expect(findEntityByPhone('+44 (0)7700 900123')).not.toBeNull();
+
+    // Rows stored before normalisation still match
+    const entityId = (getDb().prepare(`SELECT entity_id FROM entity_attributes WHERE attribute_value = '+447700900000'`).get() as { entity_id: string }).entity_id;
+    getDb().prepare(`UPDATE entity_attributes SET attribute_value = '07700 900000' WHERE entity_id = ?`).run(entityId);
+    expect(findEntityByPhone('0044 7700 900000')?.entityId).toBe(entityId);
+
+    closeDb();
+  });
+});
+
+describe('Slack Ingestion', () => {
+  const users = [
+    { id: 'U1', name: 'me', profile: { real_name: 'Me Myself', email: 'me@acme.com' } },
+    { id: 'U2', name: 'dana', profile: { real_name: 'Dana Ruiz' } },
+    { id: 'U3', name: 'sam', real_name: 'Sam Lee' },
+    { id: 'B1', name: 'deploybot', is_bot: true },
+  ];
+  let dir: string;
+
+  beforeEach(() => {
+    initDb(':memory:');
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'slack-export-'));
+    const write = (file: string, data: unknown) => {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), JSON.stringify(data));
+    };
+    write('users.json', users);
+    write('channels.json', [{ id: 'C1', name: 'launch', members: ['U1', 'U2', 'U3', 'B1'] }]);
+    write('dms.json', [{ id: 'D1', members: ['U1', 'U2'] }]);
+    write('launch/2024-03-01.json', [
+      { type: 'message', subtype: 'channel_join', user: 'U3', text: '<@U3> has joined the channel', ts: '1709280000.000100' },
+      { type: 'message', user: 'U2', text: '*Launch* is Friday, <@U1> can you check <https://acme.com/plan|the plan>?', ts: '1709283600.000200', thread_ts: '1709283600.000200' },
+      { type: 'message', user: 'U1', text: 'On it &amp; will report back', ts: '1709287200.000300', thread_ts: '1709283600.000200' },
+      { type: 'message', user: 'B1', text: 'Deployed', ts: '1709290800.000400' },
+    ]);
+    write('D1/2024-03-02.json', [
+      { type: 'message', user: 'U2', text: 'thanks!', ts: '1709370000.000100' },
+    ]);
+  });
+
+  afterEach(() => {
+    closeDb();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should convert mrkdwn to plain text', () => {
+    const workspace = indexSlackWorkspace({ users, channels: [{ id: 'C1', name: 'launch', kind: 'channel' }] });
+    expect(slackToPlainText('Ask <@U2> in <#C1>, _not_ ~here~: `npm test`', workspace))
+      .toBe('Ask @Dana Ruiz in #launch, not here: npm test');
+    expect(slackToPlainText('&gt; quoted\n<!here> see <mailto:a@b.com|a@b.com> &lt;3')).toBe('quoted\n@here see a@b.com <3');
+  });
+
+  it('should ingest an export directory with threads, recipients and handles', () => {
+    const result = ingestSlackExport(readSlackExport(dir), { userEmail: 'me@acme.com' });
+    expect(result).toMatchObject({ sourceType: 'slack', totalReceived: 5, successCount: 3, skipCount: 2, errorCount: 0 });
+
+    const messages = getDb().prepare(`
+      SELECT thread_id, subject, body_text, is_from_user, json_array_length(recipient_entity_ids) AS recipients
+      FROM messages ORDER BY timestamp
+    `).all();
+    expect(messages).toEqual([
+      { thread_id: 'C1:1709283600.000200', subject: '#launch', body_text: 'Launch is Friday, @Me Myself can you check the plan (https://acme.com/plan)?', is_from_user: 0, recipients: 2 },
+      { thread_id: 'C1:1709283600.000200', subject: '#launch', body_text: 'On it & will report back', is_from_user: 1, recipients: 2 },
+      { thread_id: 'D1', subject: null, body_text: 'thanks!', is_from_user: 0, recipients: 1 },
+    ]);
+
+    const [dana] = findEntitiesByAlias('@dana', { type: 'handle', source: 'slack' });
+    expect(dana?.canonicalName).toBe('Dana Ruiz');
+    expect(findEntitiesByAlias('U2', { type: 'handle', source: 'slack' })[0]?.entityId).toBe(dana!.entityId);
+    expect(findEntitiesByAlias('deploybot', { type: 'handle', source: 'slack' })).toHaveLength(0);
+  });
+});
+
+describe('Mailbox Ingestion', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    initDb(':memory:');
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mailbox-'));
+  });
+
+  afterEach(() => {
+    closeDb();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should decode MIME parts, transfer encodings and encoded-word headers', () => {
+    const raw = [
+      'From: =?UTF-8?Q?Jos=C3=A9_Garc=C3=ADa?= <jose@acme.com>',
+      'To: "Ruiz, Dana" <dana@acme.com>, sam@acme.com',
+      'Subject: =?UTF-8?B?Q2Fmw6k=?= =?UTF-8?B?IHRvbW9ycm93?=',
+      'Date: Tue, 5 Mar 2024 10:00:00 +0100 (CET)',
+      'Message-ID: <m2@acme.com>',
+      'References: <m0@acme.com> <m1@acme.com>',
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary=inner',
+      '',
+      '--inner',
+      'Content-Type: text/plain; charset=iso-8859-1',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Caf=E9 at ten, a long line that is =',
+      'soft-wrapped.',
+      '--inner',
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('<p>Café at ten</p>').toString('base64'),
+      '--inner--',
+      '--outer',
+      'Content-Type: text/plain',
+      'Content-Disposition: attachment; filename="notes.txt"',
+      '',
+      'not the body',
+      '--outer--',
+    ].join('\r\n');
+
+    const email = parseEmail(raw);
+    expect(email.from).toEqual({ name: 'José García', email: 'jose@acme.com' });
+    expect(email.to.map(a => a.email)).toEqual(['dana@acme.com', 'sam@acme.com']);
+    expect(email.subject).toBe('Café tomorrow');
+    expect(email.date?.toISOString()).toBe('2024-03-05T09:00:00.000Z');
+    expect(email.references).toEqual(['m0@acme.com', 'm1@acme.com']);
+    expect(email.text).toBe('Café at ten, a long line that is soft-wrapped.');
+    expect(email.html).toBe('<p>Café at ten</p>');
+  });
+
+  it('should stream an mbox file with threading and progress', async () => {
+    const file = path.join(dir, 'archive.mbox');
+    fs.writeFileSync(file, [
+      'From dana@acme.com Tue Mar  5 10:00:00 2024',
+      'From: Dana Ruiz <dana@acme.com>',
+      'To: me@acme.com',
+      'Subject: Launch',
+      'Date: Tue, 5 Mar 2024 10:00:00 +0000',
+      'Message-ID: <root@acme.com>',
+      '',
+      'Launch is Friday.',
+      '>From the team',
+      '',
+      'From me@acme.com Tue Mar  5 11:00:00 2024',
+      'From: me@acme.com',
+      'To: dana@acme.com',
+      'Subject: Re: Launch',
+      'In-Reply-To: <root@acme.com>',
+      'Message-ID: <reply@acme.com>',
+      '',
+      'Sounds good.',
+      '',
+      'From dana@acme.com Tue Mar  5 12:00:00 2024',
+      'From: Dana Ruiz <dana@acme.com>',
+      'To: me@acme.com',
+      'Subject: Re: Launch',
+      'Date: Tue, 5 Mar 2024 12:00:00 +0000',
+      'In-Reply-To: <reply@acme.com>',
+      'Message-ID: <reply2@acme.com>',
+      '',
+      'Great.',
+      '',
+    ].join('\n'));
+
+    const progress: MailboxIngestProgress[] = [];
+    const result = await ingestMailbox(file, { userEmail: 'me@acme.com', batchSize: 2, onProgress: p => progress.push(p) });
+    expect(result).toMatchObject({ sourceType: 'email', totalReceived: 3, successCount: 3, errorCount: 0 });
+    expect(progress.map(p => p.messagesIngested)).toEqual([2, 3]);
+    expect(progress[1]!.bytesRead).toBe(progress[1]!.totalBytes);
+
+    const rows = getDb().prepare(`SELECT source_id, thread_id, body_text, timestamp, is_from_user FROM messages ORDER BY timestamp`).all();
+    expect(rows).toEqual([
+      { source_id: 'root@acme.com', thread_id: 'root@acme.com', body_text: 'Launch is Friday.\nFrom the team', timestamp: '2024-03-05T10:00:00.000Z', is_from_user: 0 },
+      // No Date header: the mbox envelope date is used
+      { source_id: 'reply@acme.com', thread_id: 'root@acme.com', body_text: 'Sounds good.', timestamp: '2024-03-05T11:00:00.000Z', is_from_user: 1 },
+      { source_id: 'reply2@acme.com', thread_id: 'root@acme.com', body_text: 'Great.', timestamp: '2024-03-05T12:00:00.000Z', is_from_user: 0 },
+    ]);
+
+    // Re-importing skips what's already stored
+    const again = await ingestMailbox(file);
+    expect(again).toMatchObject({ successCount: 0, skipCount: 3 });
+  });
+});
+
+describe('Chat Export Ingestion', () => {
+  beforeEach(() => {
+    initDb(':memory:');
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  it('should parse WhatsApp exports in either platform format', () => {
+    const android = parseWhatsAppChat([
+      '3/12/24, 9:58 PM - Messages and calls are end-to-end encrypted.',
+      '3/12/24, 10:15 PM - Dana Ruiz: Running late',
+      'be there at 11',
+      '3/13/24, 8:01 AM - +1 415 555 0142: <Media omitted>',
+      '3/13/24, 8:02 AM - Dana Ruiz: This message was deleted',
+    ].join('\n'));
+    expect(android).toEqual([
+      { timestamp: new Date(2024, 2, 12, 22, 15, 0), sender: 'Dana Ruiz', text: 'Running late\nbe there at 11' },
+      { timestamp: new Date(2024, 2, 13, 8, 1, 0), sender: '+1 415 555 0142', text: '[media]' },
+    ]);
+
+    const ios = parseWhatsAppChat([
+      '[13/03/2024, 10:15:32] Family: \u200eMessages and calls are end-to-end encrypted.',
+      '[13/03/2024, 10:16:01] Dana Ruiz: \u200eimage omitted',
+      '\u200e[13/03/2024, 10:16:09] Sam Lee: \u200e<attached: 00000012-PHOTO.jpg>',
+      '[14/03/2024, 07:00:00] Sam Lee: Morning',
+    ].join('\n'));
+    expect(ios.map(m => [m.timestamp.getDate(), m.sender, m.text])).toEqual([
+      [13, 'Dana Ruiz', '[image]'],
+      [13, 'Sam Lee', '[attachment: 00000012-PHOTO.jpg]'],
+      [14, 'Sam Lee', 'Morning'],
+    ]);
+  });
+
+  it('should resolve WhatsApp participants by phone and display name', () => {
+    ingestNormalizedMessages([email('m1', { email: 'dana@acme-robotics.com', name: 'Dana Ruiz' }, 'Hi')]);
+
+    const result = ingestWhatsAppChat([
+      '12/03/2024, 10:15 - Dana Ruiz: Dinner?',
+      '12/03/2024, 10:16 - +44 7700 900123: Yes!',
+      '12/03/2024, 10:17 - Me: Booked',
+    ].join('\n'), { chatName: 'Dinner', userName: 'Me', userPhone: '+1 415 555 0100' });
+    expect(result).toMatchObject({ sourceType: 'whatsapp', successCount: 3, errorCount: 0 });
+
+    const senders = getDb().prepare(`
+      SELECT e.canonical_name, m.is_from_user FROM messages m
+      JOIN entities e ON e.id = m.sender_entity_id
+      WHERE m.source_type = 'whatsapp' ORDER BY m.timestamp
+    `).all();
+    expect(senders).toEqual([
+      { canonical_name: 'Dana Ruiz', is_from_user: 0 },
+      { canonical_name: '+447700900123', is_from_user: 0 },
+      { canonical_name: 'Me', is_from_user: 1 },
+    ]);
+
+    // The existing Dana from email, not a new entity
+    const danas = getDb().prepare(`SELECT COUNT(*) AS n FROM entities WHERE canonical_name = 'Dana Ruiz'`).get() as { n: number };
+    expect(danas.n).toBe(1);
+    expect(findEntityByPhone('+1 415 555 0100')?.canonicalName).toBe('Me');
+  });
+
+  it('should ingest Telegram and Signal exports, linking the user by phone', () => {
+    const telegram = ingestTelegramExport({
+      personal_information: { user_id: 1, first_name: 'Me', phone_number: '+1 415 555 0100' },
+      chats: {
+        list: [{
+          id: 42,
+          name: 'Sam Lee',
+          type: 'personal_chat',
+          messages: [
+            { id: 1, type: 'service', date: '2024-03-12T10:00:00', text: '' },
+            { id: 2, type: 'message', date: '2024-03-12T10:01:00', date_unixtime: '1710237660', from: 'Sam Lee', from_id: 'user2', text: ['See ', { type: 'bold', text: 'you' }, ' soon'] },
+            { id: 3, type: 'message', date: '2024-03-12T10:02:00', date_unixtime: '1710237720', from: 'Me', from_id: 'user1', text: '', photo: 'photos/photo_1.jpg' },
+          ],
+        }],
+      },
+    });
+    expect(telegram).toMatchObject({ sourceType: 'telegram', totalReceived: 3, successCount: 2, skipCount: 1 });
+
+    const signal = ingestSignalBackup({
+      conversations: [
+        { id: 'c1', type: 'private', e164: '+14155550199', name: 'Priya Shah' },
+        { id: 'g1', type: 'group', name: 'Climbing', members: ['c1'] },
+      ],
+      messages: [
+        { id: 's1', conversationId: 'g1', type: 'incoming', sent_at: 1710237800000, source: '+1 (415) 555-0199', body: 'Tuesday?' },
+        { id: 's2', conversationId: 'c1', type: 'outgoing', sent_at: 1710237900000, body: 'Yes' },
+        { id: 's3', conversationId: 'c1', type: 'keychange', sent_at: 1710238000000 },
+      ],
+    }, { userPhone: '+1 415 555 0100' });
+    expect(signal).toMatchObject({ sourceType: 'signal', totalReceived: 3, successCount: 2, skipCount: 1 });
+
+    const rows = getDb().prepare(`
+      SELECT m.source_type, e.canonical_name AS sender, m.body_text, m.is_from_user FROM messages m
+      JOIN entities e ON e.id = m.sender_entity_id ORDER BY m.timestamp
+    `).all();
+    expect(rows).toEqual([
+      { source_type: 'telegram', sender: 'Sam Lee', body_text: 'See you soon', is_from_user: 0 },
+      { source_type: 'telegram', sender: 'Me', body_text: '[photo]', is_from_user: 1 },
+      { source_type: 'signal', sender: 'Priya Shah', body_text: 'Tuesday?', is_from_user: 0 },
+      { source_type: 'signal', sender: 'Me', body_text: 'Yes', is_from_user: 1 },
+    ]);
+
+    // One entity for the user across both apps
+    const me = getDb().prepare(`SELECT DISTINCT sender_entity_id FROM messages WHERE is_from_user = 1`).all();
+    expect(me).toHaveLength(1);
+  });
+
+  it('should scope a chat display name to its source', () => {
+    ingestTelegramExport({
+      personal_information: { user_id: 1, first_name: 'Me' },
+      chats: {
+        list: [{
+          id: 7,
+          name: 'Mom',
+          type: 'personal_chat',
+          messages: [
+            { id: 1, type: 'message', date: '2024-03-12T10:01:00', date_unixtime: '1710237660', from: 'Mom', from_id: 'user7', text: 'Call me' },
+          ],
+        }],
+      },
+    });
+
+    expect(findEntitiesByAlias('Mom')).toEqual([]);
+    expect(findEntitiesByAlias('Mom', { source: 'telegram' })).toHaveLength(1);
+  });
+});
+
+describe('Body Cleaning', () => {
+  beforeEach(() => {
+    initDb(':memory:');
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  it('should separate quoted history, signature and disclaimer', () => {
+    const topPosted = cleanMessageBody([
+      'Friday works, I will book the room.',
+      '',
+      'Thanks,',
+      'Dana Ruiz',
+      'Head of Sales, Acme Corp',
+      '',
+      'CONFIDENTIALITY NOTICE: This email is intended solely for the use of the addressee and may contain privileged information.',
+      '',
+      'On Tue, Mar 5, 2024 at 10:00 AM Sam Lee <',
+      'sam@example.com> wrote:',
+      '> Can we meet on Friday?',
+      '> Sam',
+    ].join('\n'));
+    expect(topPosted).toEqual({
+      text: 'Friday works, I will book the room.\n\nThanks,',
+      quoted: 'On Tue, Mar 5, 2024 at 10:00 AM Sam Lee <\nsam@example.com> wrote:\n> Can we meet on Friday?\n> Sam',
+      signature: 'Dana Ruiz\nHead of Sales, Acme Corp',
+      disclaimer: 'CONFIDENTIALITY NOTICE: This email is intended solely for the use of the addressee and may contain privileged information.',
+    });
+
+    // Replies between quoted lines are kept
+    const inline = cleanMessageBody([
+      'On Tue, Mar 5, 2024, Sam Lee wrote:',
+      '> Friday?',
+      'Yes.',
+      '> Which room?',
+      'The big one.',
+      '',
+      'Sent from my iPhone',
+    ].join('\n'));
+    expect(inline.text).toBe('Yes.\nThe big one.');
+    expect(inline.signature).toBe('Sent from my iPhone');
+
+    // Outlook quotes under a header block, without "> "
+    const outlook = cleanMessageBody([
+      'Approved.',
+      '',
+      '________________________________',
+      'From: Sam Lee <sam@example.com>',
+      'Sent: Tuesday, March 5, 2024 10:00 AM',
+      'To: Dana Ruiz <dana@acme.com>',
+      'Subject: Budget',
+      '',
+      'Please approve the budget.',
+    ].join('\n'));
+    expect(outlook.text).toBe('Approved.');
+    expect(outlook.quoted).toContain('Please approve the budget.');
+    expect(cleanMessageBody('Keep this confidential please.').text).toBe('Keep this confidential please.');
+
+    // An attribution in the author's own prose doesn't quote what follows
+    const prose = cleanMessageBody([
+      'On Monday the client wrote:',
+      'they want the launch moved to May.',
+      '',
+      'On Tue, Mar 5, 2024 at 10:00 AM Sam Lee <sam@example.com> wrote:',
+      'Can we meet on Friday?',
+    ].join('\n'));
+    expect(prose.text).toBe('On Monday the client wrote:\nthey want the launch moved to May.');
+    expect(prose.quoted).toContain('Can we meet on Friday?');
+
+    // Only a "--" near the end starts a signature
+    const divider = cleanMessageBody([
+      'Agenda:', '--', ...Array.from({ length: 12 }, (_, i) => `Item ${i + 1}`),
+    ].join('\n'));
+    expect(divider.text).toContain('Item 12');
+    expect(divider.signature).toBeUndefined();
+    expect(cleanMessageBody('See you then.\n--\nDana Ruiz').text).toBe('See you then.');
+  });
+
+  it('should store the cleaned body and search only the author\'s words', () => {
+    ingestNormalizedMessages([
+      email('reply-1', { email: 'dana@acme.com', name: 'Dana Ruiz' }, [
+        'Friday works for the offsite.',
+        '',
+        'On Tue, Mar 5, 2024 at 10:00 AM Sam Lee <sam@example.com> wrote:',
+        '> Shall we plan the kayaking trip?',
+      ].join('\n')),
+    ]);
+
+    const row = getDb().prepare(`SELECT body_text, body_clean FROM messages WHERE id = 'reply-1'`).get() as {
+      body_text: string;
+      body_clean: string;
+    };
+    expect(row.body_text).toContain('kayaking');
+    expect(row.body_clean).toBe('Friday works for the offsite.');
+
+    expect(ftsSearchMessages('offsite').map(r => r.id)).toEqual(['reply-1']);
+    expect(ftsSearchMessages('kayaking')).toEqual([]);
+    expect(ftsSearchMessages('offsite')[0]!.highlight).toContain('<mark>offsite</mark>');
+  });
+
+  it('should backfill emails stored before bodies were cleaned', () => {
+    ingestNormalizedMessages([
+      email('old-1', { email: 'dana@acme.com', name: 'Dana Ruiz' }, [
+        'Friday works for the offsite.',
+        '',
+        'On Tue, Mar 5, 2024 at 10:00 AM Sam Lee <sam@example.com> wrote:',
+        '> Shall we plan the kayaking trip?',
+      ].join('\n')),
+    ]);
+    ingestNormalizedMessages([
+      email('old-fwd', { email: 'dana@acme.com', name: 'Dana Ruiz' }, '---------- Forwarded message ---------\nAgenda'),
+    ]);
+    getDb().prepare(`UPDATE messages SET body_clean = NULL, body_cleaned = 0`).run();
+    expect(ftsSearchMessages('kayaking').map(r => r.id)).toEqual(['old-1']);
+
+    expect(backfillCleanedBodies()).toBe(2);
+    expect(ftsSearchMessages('kayaking')).toEqual([]);
+    expect(ftsSearchMessages('agenda').map(r => r.id)).toEqual(['old-fwd']);
+
+    // The forward stays NULL, but isn't looked at again
+    expect(backfillCleanedBodies()).toBe(0);
+  });
+
+  it('should keep a forward without a comment searchable', () => {
+    ingestNormalizedMessages([
+      email('fwd-1', { email: 'dana@acme.com', name: 'Dana Ruiz' }, [
+        '---------- Forwarded message ---------',
+        'From: Sam Lee <sam@example.com>',
+        'Date: Tue, Mar 5, 2024 at 10:00 AM',
+        'Subject: Kayaking',
+        '',
+        'Shall we plan the kayaking trip?',
+      ].join('\n')),
+    ]);
+
+    const row = getDb().prepare(`SELECT body_clean FROM messages WHERE id = 'fwd-1'`).get() as { body_clean: string | null };
+    expect(row.body_clean).toBeNull();
+    expect(ftsSearchMessages('kayaking').map(r => r.id)).toEqual(['fwd-1']);
+  });
+});
+
+describe('HTML Conversion', () => {
+  beforeEach(() => {
+    initDb(':memory:');
+  });
+
+  afterEach(() => {
+    closeDb();
+  });
+
+  it('should keep paragraphs, lists, links and table cells', () => {
+    const html = `<!DOCTYPE html><html><head><style>p { color: red; }</style><title>News</title></head><body>
+      <div style="display: none; max-height: 0">Preheader text</div>
+      <h1>Weekly&nbsp;update</h1>
+      <p>Hello Dana,<br>We fixed <a href="https://acme.com/bugs">three bugs</a> &amp; more.</p>
+      <ul><li>Faster search<li>See <a href="https://acme.com/">acme.com</a></ul>
+      <table><tr><th>Plan</th><th>Price</th></tr><tr><td>Pro</td><td>&#36;10</td></tr></table>
+      <p>Write to <a href="mailto:help@acme.com?subject=Hi">support</a></p>
+      <blockquote>Earlier<br>message</blockquote>
+      <img src="https://t.acme.com/open.gif" width="1" height="1"><script>track()</script>
+    </body></html>`;
+
+    expect(htmlToText(html)).toBe([
+      'Weekly update',
+      '',
+      'Hello Dana,',
+      'We fixed three bugs (https://acme.com/bugs) & more.',
+      '',
+      '- Faster search',
+      '- See acme.com',
+      '',
+      'Plan | Price',
+      'Pro | $10',
+      '',
+      'Write to support (help@acme.com)',
+      '',
+      '> Earlier',
+      '> message',
+    ].join('\n'));
+  });
+
+  it('should convert HTML-only and HTML-as-text bodies on ingestion', () => {
+    ingestNormalizedMessages([
+      { ...email('html-1', { email: 'news@acme.com', name: 'Acme' }, ''), bodyHtml: '<p>Spring <b>sale</b></p><p>Ends Friday</p>' },
+      email('html-2', { email: 'news@acme.com', name: 'Acme' }, '<div>Spring <b>sale</b></div><div>Ends Friday</div>'),
+      { ...email('html-3', { email: 'dev@acme.com', name: 'Dev' }, 'wrap it in <div>, <p> or <span>?'), sourceType: 'slack' },
+    ]);
+
+    const bodies = getDb().prepare(`SELECT body_text FROM messages ORDER BY id`).all();
+    expect(bodies).toEqual([
+      { body_text: 'Spring sale\n\nEnds Friday' },
+      { body_text: 'Spring sale\nEnds Friday' },
+      { body_text: 'wrap it in <div>, <p> or <span>?' },
+    ]);
+  });
+});
+
+/**
+ * A one-page PDF showing each line with a standard font, its content stream
+ * deflated, followed by any extra deflated content streams
+ */
+function pdf(lines: string[], extra: Buffer[] = []): Buffer {
+  const content = zlib.deflateSync(Buffer.from(
+    `BT /F1 12 Tf 72 720 Td ${lines.map(l => `(${l}) Tj`).join(' 0 -14 Td ')} ET`,
+    'latin1'
+  ));
+  const parts = [
+    '%PDF-1.4\n',
+    '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n',
+    '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj\n',
+    `3 0 obj << /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents [${[content, ...extra].map((_, i) => `${5 + i} 0 R`).join(' ')}] >> endobj\n`,
+    '4 0 obj << /Type /Font /Subtype /Type1 /BaseFont /Helvetica >> endobj\n',
+  ].map(p => Buffer.from(p, 'latin1'));
+  const streams = [content, ...extra].flatMap((stream, i) => [
+    Buffer.from(`${5 + i} 0 obj << /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    stream,
+    Buffer.from('\nendstream\nendobj\n', 'latin1'),
+  ]);
+  return Buffer.concat([...parts, ...streams, Buffer.from('trailer << /Root 1 0 R >>\n%%EOF\n', 'latin1')]);
+}
+
+describe('Attachments', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    initDb(':memory:');
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+  });
+
+  afterEach(() => {
+    closeDb();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should extract text from CSV, Markdown, HTML and PDF files', () => {
+    const csv = Buffer.from('Item,Amount\r\n"Rent, March",1200\r\nDeposit,"2,400"\r\n');
+    expect(extractAttachmentText(csv, 'application/octet-stream', 'budget.csv')).toBe(
+      'Item | Amount\nRent, March | 1200\nDeposit | 2,400'
+    );
+
+    const markdown = Buffer.from('# Move plan\n\n- Book **movers** by _Friday_\n- See [the lease](https://acme.com/lease)\n');
+    expect(extractAttachmentText(markdown, 'text/plain', 'plan.md')).toBe(
+      'Move plan\n\n- Book movers by Friday\n- See the lease (https://acme.com/lease)'
+    );
+
+    expect(extractAttachmentText(Buffer.from('<p>Hello<br>there</p>'), 'text/html', 'note.html')).toBe('Hello\nthere');
+
+    expect(extractAttachmentText(pdf(['Lease agreement', 'Rent is due \\(monthly\\)']), 'application/pdf', 'lease.pdf')).toBe(
+      'Lease agreement\nRent is due (monthly)'
+    );
+
+    expect(extractAttachmentText(Buffer.from([0x89, 0x50, 0x4e, 0x47]), 'image/png', 'photo.png')).toBeUndefined();
+  });
+
+  it('should not inflate a PDF stream past its size limit', () => {
+    const bomb = zlib.deflateSync(Buffer.alloc(17 * 1024 * 1024, '(x) Tj '));
+    expect(extractAttachmentText(pdf(['Lease agreement'], [bomb]), 'application/pdf', 'lease.pdf')).toBe('Lease agreement');
+  });
+
+  it('should store attachments of ingested mail and find them by their text', async () => {
+    const lease = pdf(['Lease agreement for 12 Harbor Street', 'Monthly rent of 1200 dollars']);
+    const raw = (id: string) => [
+      'From: Dana Ruiz <dana@acme.com>',
+      'To: me@acme.com',
+      'Subject: Paperwork',
+      'Date: Tue, 5 Mar 2024 10:00:00 +0000',
+      `Message-ID: <${id}@acme.com>`,
+      'Content-Type: multipart/mixed; boundary="b"',
+      '',
+      '--b',
+      'Content-Type: text/plain',
+      '',
+      'Here is the signed copy.',
+      '--b',
+      'Content-Type: application/pdf; name="lease.pdf"',
+      'Content-Disposition: attachment; filename="lease.pdf"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      lease.toString('base64').replace(/.{76}/g, '$&\r\n'),
+      '--b',
+      'Content-Type: image/png',
+      "Content-Disposition: attachment; filename*=UTF-8''keys%20photo.png",
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64'),
+      '--b--',
+    ].join('\r\n');
+    fs.writeFileSync(path.join(dir, 'one.eml'), raw('one'));
+    fs.writeFileSync(path.join(dir, 'two.eml'), raw('two'));
+
+    const result = await ingestMailbox(dir);
+    expect(result.successCount).toBe(2);
+
+    const message = getDb().prepare(`SELECT id, body_text FROM messages WHERE source_id = 'one@acme.com'`).get() as { id: string; body_text: string };
+    expect(message.body_text).toBe('Here is the signed copy.');
+
+    const attachments = getMessageAttachments(message.id);
+    expect(attachments.map(a => [a.filename, a.mimeType, a.size, a.extractionStatus])).toEqual([
+      ['lease.pdf', 'application/pdf', lease.length, 'extracted'],
+      ['keys photo.png', 'image/png', 4, 'unsupported'],
+    ]);
+    expect(attachments[0]!.text).toBe('Lease agreement for 12 Harbor Street\nMonthly rent of 1200 dollars');
+    // The same file sent twice has one hash
+    expect(findAttachmentsByHash(attachments[0]!.contentHash!)).toHaveLength(2);
+
+    // Results point at the attachment and the message it came with
+    const hits = ftsSearchAttachments('harbor rent');
+    expect(hits).toHaveLength(2);
+    expect(hits[0]).toMatchObject({ type: 'attachment', data: { filename: 'lease.pdf', subject: 'Paperwork' } });
+    expect(hits[0]!.highlight).toContain('<mark>Harbor</mark>');
+    expect(ftsSearchAttachments('harbor source:slack')).toEqual([]);
+    expect(ftsSearchAttachments('subject:lease').map(h => h.id)).toContain(attachments[0]!.id);
+
+    const fused = simpleSearch('harbor street lease');
+    expect(fused[0]).toMatchObject({ type: 'attachment' });
+    expect(new Set(fused.map(r => (r.data as { messageId: string }).messageId))).toContain(message.id);
+  });
+});
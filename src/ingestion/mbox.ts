@@ -0,0 +1,174 @@
+// Mailbox ingestion (mbox and .eml)
+//
+// Reads mbox files (Thunderbird, Apple Mail, Google Takeout) a line at a
+// time and .eml files one at a time, so a mailbox never has to fit in
+// memory. Each message is parsed by mime.ts and normalised like Gmail's.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { createHash } from 'crypto';
+import { parseEmail, type ParsedEmail } from './mime';
+import type { NormalizedMessage } from '../types';
+
+export interface RawMailboxMessage {
+  raw: string;              // Message bytes as a binary string
+  location: string;         // "file.mbox#12" or the .eml path, for error reports
+  envelopeDate?: Date;      // From the mbox "From " line
+}
+
+// ============================================================
+// READERS
+// ============================================================
+
+/**
+ * Stream the messages of an mbox file. `onBytes` reports how far into the
+ * file reading has got.
+ */
+export async function* readMbox(
+  file: string,
+  onBytes?: (bytesRead: number) => void
+): AsyncGenerator<RawMailboxMessage> {
+  const stream = fs.createReadStream(file, { encoding: 'latin1' });
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+
+  let current: string[] | null = null;
+  let envelope = '';
+  let index = 0;
+  let previousBlank = true;
+
+  // The blank line before the next "From " line separates messages
+  const finish = (): RawMailboxMessage => ({
+    raw: (current!.at(-1) === '' ? current!.slice(0, -1) : current!).join('\n'),
+    location: `${file}#${index}`,
+    envelopeDate: parseEnvelopeDate(envelope),
+  });
+
+  try {
+    for await (const line of lines) {
+      if (line.startsWith('From ') && previousBlank) {
+        if (current) {
+          yield finish();
+          onBytes?.(stream.bytesRead);
+        }
+        current = [];
+        envelope = line;
+        index++;
+      } else if (current) {
+        // mboxrd escapes body lines starting "From " as ">From "
+        current.push(/^>+From /.test(line) ? line.slice(1) : line);
+      }
+      previousBlank = line === '';
+    }
+
+    if (current) {
+      yield finish();
+      onBytes?.(stream.bytesRead);
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
+
+/**
+ * "From sender@example.com Tue Mar  5 10:00:00 2024" -> its date
+ */
+function parseEnvelopeDate(line: string): Date | undefined {
+  const match = line.match(/\w{3} (\w{3})\s+(\d{1,2}) (\d{2}:\d{2}:\d{2}) (\d{4})/);
+  if (!match) return undefined;
+  const date = new Date(`${match[2]} ${match[1]} ${match[4]} ${match[3]} UTC`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * The .eml files at a path: the file itself, or every .eml under a
+ * directory, in name order
+ */
+export function listEmlFiles(target: string): string[] {
+  if (!fs.statSync(target).isDirectory()) return [target];
+
+  return fs.readdirSync(target, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const full = path.join(target, entry.name);
+      if (entry.isDirectory()) return listEmlFiles(full);
+      return entry.name.toLowerCase().endsWith('.eml') ? [full] : [];
+    });
+}
+
+/**
+ * Read .eml files one at a time
+ */
+export async function* readEmlFiles(files: string[]): AsyncGenerator<RawMailboxMessage> {
+  for (const file of files) {
+    const raw = await fs.promises.readFile(file);
+    yield { raw: raw.toString('latin1'), location: file };
+  }
+}
+
+// ============================================================
+// NORMALIZATION
+// ============================================================
+
+export interface EmailNormalizeOptions {
+  userEmail?: string;
+  envelopeDate?: Date;
+  /** Thread of an earlier message by Message-ID, when known */
+  threadOf?: (messageId: string) => string | undefined;
+}
+
+/**
+ * Thread key: the known thread of the message replied to, else the root of
+ * the References chain, else the message itself
+ */
+function threadIdFor(email: ParsedEmail, sourceId: string, threadOf?: (messageId: string) => string | undefined): string {
+  const ancestors = [...email.references, ...(email.inReplyTo ? [email.inReplyTo] : [])];
+  for (const id of ancestors.reverse()) {
+    const known = threadOf?.(id);
+    if (known) return known;
+  }
+  return email.references[0] ?? email.inReplyTo ?? sourceId;
+}
+
+/**
+ * Normalize a parsed email to our standard format. Messages are keyed by
+ * Message-ID, or a hash of their headers and body when they have none.
+ */
+export function normalizeEmail(email: ParsedEmail, options: EmailNormalizeOptions = {}): NormalizedMessage {
+  const sourceId = email.messageId ?? createHash('sha1')
+    .update([email.headers['date'], email.from?.email, email.subject, email.text.slice(0, 1000)].join('\n'))
+    .digest('hex');
+
+  const isFromUser = options.userEmail
+    ? email.from?.email.toLowerCase() === options.userEmail.toLowerCase()
+    : false;
+
+  return {
+    id: `email:${sourceId}`,
+    sourceType: 'email',
+    sourceId,
+    threadId: threadIdFor(email, sourceId, options.threadOf),
+
+    sender: {
+      email: email.from?.email,
+      name: email.from?.name,
+    },
+
+    recipients: [
+      ...email.to.map(a => ({ email: a.email, name: a.name, type: 'to' as const })),
+      ...email.cc.map(a => ({ email: a.email, name: a.name, type: 'cc' as const })),
+      ...email.bcc.map(a => ({ email: a.email, name: a.name, type: 'bcc' as const })),
+    ],
+
+    subject: email.subject,
+    bodyText: email.text,
+    bodyHtml: email.html,
+    attachments: email.attachments.length > 0
+      ? email.attachments.map(a => ({ filename: a.filename, mimeType: a.mimeType, content: a.content }))
+      : undefined,
+
+    timestamp: email.date ?? options.envelopeDate ?? new Date(NaN),
+    isFromUser,
+  };
+}
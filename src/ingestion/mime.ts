@@ -0,0 +1,287 @@
+// RFC 5322 / MIME message parsing
+//
+// Messages are handled as binary strings (one char per byte, as read with
+// 'latin1') until a part's charset is known, so 8-bit bodies in any charset
+// decode correctly.
+
+import { parseAddressList } from './gmail';
+import { htmlToText } from './html';
+
+export interface EmailAddress {
+  name?: string;
+  email: string;
+}
+
+export interface ParsedAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  headers: Record<string, string>;   // Lowercased name -> decoded value (first occurrence)
+  messageId?: string;                // Without angle brackets
+  inReplyTo?: string;
+  references: string[];              // Oldest first
+  from?: EmailAddress;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  bcc: EmailAddress[];
+  subject?: string;
+  date?: Date;
+  text: string;
+  html?: string;
+  attachments: ParsedAttachment[];
+}
+
+// ============================================================
+// DECODING
+// ============================================================
+
+/**
+ * Decode a binary string in a charset, falling back to UTF-8 and then
+ * Latin-1 for unknown charsets or invalid UTF-8
+ */
+export function decodeBytes(binary: string, charset: string = 'utf-8'): string {
+  const bytes = Buffer.from(binary, 'latin1');
+  const label = charset.trim().toLowerCase().replace(/^"|"$/g, '') || 'utf-8';
+
+  try {
+    return new TextDecoder(label, { fatal: label === 'utf-8' || label === 'utf8' }).decode(bytes);
+  } catch {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      return bytes.toString('latin1');
+    }
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words ("=?UTF-8?B?...?=", "=?ISO-8859-1?Q?...?=")
+ * in a header value
+ */
+export function decodeEncodedWords(value: string): string {
+  const word = /=\?([^?\s]+)\?([bBqQ])\?([^?\s]*)\?=/;
+
+  // Whitespace between adjacent encoded words isn't part of the text
+  return value
+    .replace(new RegExp(`(${word.source})\\s+(?==\\?)`, 'g'), '$1')
+    .replace(new RegExp(word.source, 'g'), (_match, charset: string, encoding: string, data: string) => {
+      const binary = encoding.toUpperCase() === 'B'
+        ? Buffer.from(data, 'base64').toString('latin1')
+        : data.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+      return decodeBytes(binary, charset.split('*')[0]!);
+    });
+}
+
+/**
+ * Undo a Content-Transfer-Encoding, returning a binary string
+ */
+function decodeTransfer(body: string, encoding: string | undefined): string {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64').toString('latin1');
+    case 'quoted-printable':
+      return body
+        .replace(/=\r?\n/g, '')
+        .replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    default:
+      return body;
+  }
+}
+
+// ============================================================
+// HEADERS
+// ============================================================
+
+interface RawPart {
+  headers: Record<string, string>;   // Raw (undecoded) values
+  body: string;
+}
+
+/**
+ * Split a message or MIME part into unfolded headers and body
+ */
+function splitPart(raw: string): RawPart {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerText = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : '';
+
+  const headers: Record<string, string> = {};
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Split a structured header such as Content-Type into its value and
+ * parameters ("text/plain; charset=utf-8")
+ */
+export function parseHeaderParams(value: string): { value: string; params: Record<string, string> } {
+  const [first = '', ...rest] = value.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq === -1) continue;
+    params[param.slice(0, eq).trim().toLowerCase()] = param.slice(eq + 1).trim().replace(/^"|"$/g, '');
+  }
+  return { value: first.trim().toLowerCase(), params };
+}
+
+/**
+ * A parameter that may be RFC 2231 encoded or split into sections
+ * (filename*=UTF-8''na%C3%AFve.pdf, filename*0=..., filename*1=...)
+ */
+function decodeParam(params: Record<string, string>, name: string): string | undefined {
+  const sections = Object.entries(params)
+    .map(([key, value]) => ({ match: key.match(new RegExp(`^${name}\\*(\\d+)?(\\*)?$`)), value }))
+    .filter((s): s is { match: RegExpMatchArray; value: string } => s.match !== null)
+    .map(s => ({
+      index: parseInt(s.match[1] ?? '0', 10),
+      encoded: s.match[1] === undefined || s.match[2] !== undefined,
+      value: s.value,
+    }))
+    .sort((a, b) => a.index - b.index);
+
+  if (sections.length === 0) {
+    return params[name] !== undefined ? decodeEncodedWords(decodeBytes(params[name])) : undefined;
+  }
+
+  let charset = 'utf-8';
+  const binary = sections.map((section, i) => {
+    let value = section.value;
+    if (!section.encoded) return value;
+    if (i === 0) {
+      const parts = value.split("'");
+      if (parts.length >= 3) {
+        charset = parts[0] || charset;
+        value = parts.slice(2).join("'");
+      }
+    }
+    return value.replace(/%([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  }).join('');
+
+  return decodeBytes(binary, charset);
+}
+
+/**
+ * Decode a raw header value: 8-bit text as UTF-8, then encoded words
+ */
+function decodeHeader(value: string): string {
+  return decodeEncodedWords(decodeBytes(value)).replace(/\s+/g, ' ').trim();
+}
+
+function messageIds(value: string | undefined): string[] {
+  return Array.from(value?.matchAll(/<([^<>\s]+)>/g) ?? [], m => m[1]!);
+}
+
+function addresses(value: string | undefined): EmailAddress[] {
+  return parseAddressList(decodeBytes(value ?? '')).map(a => ({
+    email: a.email,
+    name: a.name ? decodeEncodedWords(a.name).trim() || undefined : undefined,
+  }));
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value.replace(/\([^)]*\)/g, '').trim());
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// ============================================================
+// BODY
+// ============================================================
+
+interface CollectedParts {
+  text?: string;
+  html?: string;
+  attachments: ParsedAttachment[];
+}
+
+/**
+ * Collect the first text/plain and text/html bodies from a part tree, and
+ * every attachment (a part with a filename, or disposition attachment)
+ */
+function collectBodies(part: RawPart, out: CollectedParts, depth = 0): void {
+  const { value: type, params } = parseHeaderParams(part.headers['content-type'] ?? 'text/plain');
+  const { value: disposition, params: dispositionParams } = parseHeaderParams(part.headers['content-disposition'] ?? '');
+
+  if (type.startsWith('multipart/') && params['boundary'] && depth < 20) {
+    const boundary = params['boundary'];
+    const delimiter = new RegExp(`^--${boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(--)?[ \\t]*\\r?$`, 'm');
+    let rest = part.body;
+    let match = rest.match(delimiter);
+    if (!match) return;
+    rest = rest.slice(match.index! + match[0].length);
+
+    while (!match[1]) {
+      match = rest.match(delimiter);
+      const section = match ? rest.slice(0, match.index) : rest;
+      collectBodies(splitPart(section.replace(/^\r?\n/, '').replace(/\r?\n$/, '')), out, depth + 1);
+      if (!match) break;
+      rest = rest.slice(match.index! + match[0].length);
+    }
+    return;
+  }
+
+  const filename = decodeParam(dispositionParams, 'filename') ?? decodeParam(params, 'name');
+  if (filename || disposition === 'attachment') {
+    out.attachments.push({
+      filename: filename?.trim() || 'attachment',
+      mimeType: type,
+      content: Buffer.from(decodeTransfer(part.body, part.headers['content-transfer-encoding']), 'latin1'),
+    });
+    return;
+  }
+  if (type !== 'text/plain' && type !== 'text/html') return;
+
+  const decoded = decodeBytes(decodeTransfer(part.body, part.headers['content-transfer-encoding']), params['charset']);
+  if (type === 'text/plain' && out.text === undefined) out.text = decoded;
+  if (type === 'text/html' && out.html === undefined) out.html = decoded;
+}
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/**
+ * Parse an RFC 5322 message (MIME multipart, quoted-printable and base64
+ * bodies, encoded-word headers). `raw` is the message bytes, or a binary
+ * string of them.
+ */
+export function parseEmail(raw: string | Buffer): ParsedEmail {
+  const part = splitPart(typeof raw === 'string' ? raw : raw.toString('latin1'));
+  const bodies: CollectedParts = { attachments: [] };
+  collectBodies(part, bodies);
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(part.headers)) headers[name] = decodeHeader(value);
+
+  // If we only have HTML, convert it for the text version
+  let text = bodies.text ?? '';
+  if (!text && bodies.html) {
+    text = htmlToText(bodies.html);
+  }
+
+  return {
+    headers,
+    messageId: messageIds(part.headers['message-id'])[0],
+    inReplyTo: messageIds(part.headers['in-reply-to'])[0],
+    references: messageIds(part.headers['references']),
+    from: addresses(part.headers['from'])[0],
+    to: addresses(part.headers['to']),
+    cc: addresses(part.headers['cc']),
+    bcc: addresses(part.headers['bcc']),
+    subject: headers['subject'] || undefined,
+    date: parseDate(headers['date']),
+    text: text.replace(/\r\n/g, '\n'),
+    html: bodies.html,
+    attachments: bodies.attachments,
+  };
+}
@@ -0,0 +1,289 @@
+// Organization inference from email domains and signatures
+//
+// Every sender's email domain names an employer unless it's a freemail or
+// personal domain, and signature blocks often spell out title, company and
+// phone. Ingestion uses both to create org entities and works_at edges.
+
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from '../db/connection';
+import { normalizeName, jaroWinkler } from '../entity/matcher';
+import { addEntityAlias, normalizeAlias } from '../entity/aliases';
+import { normalizePhone } from './phone';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export interface OrgInferenceConfig {
+  /** Infer orgs during ingestion at all (default true) */
+  enabled: boolean;
+  /** Domains that never identify an employer (freemail, ISPs, personal vanity domains) */
+  personalDomains: string[];
+}
+
+export const DEFAULT_PERSONAL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.uk', 'ymail.com',
+  'hotmail.com', 'hotmail.co.uk', 'outlook.com', 'live.com', 'msn.com',
+  'icloud.com', 'me.com', 'mac.com', 'aol.com', 'proton.me', 'protonmail.com',
+  'gmx.com', 'gmx.de', 'web.de', 'mail.com', 'zoho.com', 'fastmail.com',
+  'hey.com', 'yandex.com', 'qq.com', '163.com', 'comcast.net', 'verizon.net',
+  'att.net', 'btinternet.com', 'privaterelay.appleid.com',
+];
+
+let config: OrgInferenceConfig = {
+  enabled: true,
+  personalDomains: [...DEFAULT_PERSONAL_DOMAINS],
+};
+let personalDomainSet = new Set(config.personalDomains);
+
+/**
+ * Tune org inference. Pass `personalDomains` to replace the default list,
+ * or `extraPersonalDomains` to add to it.
+ */
+export function configureOrgInference(
+  overrides: Partial<OrgInferenceConfig> & { extraPersonalDomains?: string[] }
+): void {
+  const { extraPersonalDomains = [], ...rest } = overrides;
+  config = { ...config, ...rest };
+  config.personalDomains = [
+    ...(rest.personalDomains ?? config.personalDomains),
+    ...extraPersonalDomains,
+  ].map(d => d.toLowerCase());
+  personalDomainSet = new Set(config.personalDomains);
+}
+
+export function getOrgInferenceConfig(): OrgInferenceConfig {
+  return { ...config, personalDomains: [...config.personalDomains] };
+}
+
+/**
+ * True for freemail and other domains that don't identify an employer
+ */
+export function isPersonalDomain(domain: string): boolean {
+  return personalDomainSet.has(domain.toLowerCase());
+}
+
+// ============================================================
+// DOMAINS
+// ============================================================
+
+// Second-level labels used under country codes (acme.co.uk, acme.com.au)
+const SECOND_LEVEL_LABELS = new Set(['co', 'com', 'org', 'net', 'ac', 'gov', 'edu', 'ltd', 'plc']);
+
+/**
+ * The registrable part of an email's domain ("eu.mail.acme.co.uk" -> "acme.co.uk")
+ */
+export function emailDomain(email: string): string | null {
+  const host = email.split('@')[1]?.trim().toLowerCase();
+  if (!host || !host.includes('.')) return null;
+
+  const labels = host.split('.');
+  const keep = labels.length >= 3 && SECOND_LEVEL_LABELS.has(labels[labels.length - 2]!) ? 3 : 2;
+  return labels.slice(-keep).join('.');
+}
+
+/**
+ * Readable org name from a domain ("acme-robotics.com" -> "Acme Robotics")
+ */
+export function orgNameFromDomain(domain: string): string {
+  const label = domain.split('.')[0] ?? domain;
+  return label
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// ============================================================
+// SIGNATURES
+// ============================================================
+
+export interface ParsedSignature {
+  name?: string;
+  title?: string;
+  company?: string;
+  phone?: string;
+}
+
+export const SIGN_OFF = /^(best|best regards|kind regards|warm regards|regards|many thanks|thanks|thank you|cheers|sincerely|all the best|yours|cordially)[,!.]?$/i;
+
+const TITLE_WORDS = /\b(ceo|cto|cfo|coo|cmo|vp|svp|evp|founder|co-founder|president|director|manager|head|lead|engineer|developer|designer|analyst|consultant|partner|associate|officer|specialist|coordinator|architect|scientist|researcher|recruiter|counsel|attorney|accountant|administrator|assistant|executive|chair|principal|owner|product|marketing|sales|intern)\b/i;
+
+const COMPANY_SUFFIX = /\b(inc|llc|ltd|limited|corp|corporation|co|gmbh|ag|sa|bv|plc|pty|llp|group|labs|technologies|systems|partners|holdings)\.?$/i;
+
+const PHONE_LINE = /(?:^|\b)(?:tel|phone|mobile|mob|cell|direct|office|[tmpod])?\s*[:.]?\s*(\+?\(?\d[\d\s().-]{6,}\d)/i;
+
+/**
+ * Pull name, title, company and phone out of a message's signature block.
+ * Looks after a "-- " delimiter or a sign-off line ("Best,", "Regards").
+ */
+export function parseSignature(bodyText: string): ParsedSignature {
+  const lines = bodyText.replace(/\r\n/g, '\n').split('\n').map(l => l.trim());
+
+  // Find where the signature starts: the last delimiter or sign-off
+  let start = -1;
+  for (let i = lines.length - 1; i >= 0 && i >= lines.length - 20; i--) {
+    const line = lines[i]!;
+    if (line === '--' || line === '-- ' || SIGN_OFF.test(line)) {
+      start = i + 1;
+      break;
+    }
+  }
+  if (start === -1) return {};
+
+  const block = lines.slice(start).filter(Boolean).slice(0, 8);
+  const signature: ParsedSignature = {};
+
+  for (const line of block) {
+    // Contact details, links and quoted text aren't name/title/company lines
+    if (/^>|https?:\/\/|www\.|@/.test(line)) continue;
+    // Nor are sentences
+    if (line.split(/\s+/).length > 8) continue;
+
+    const phone = line.match(PHONE_LINE);
+    if (phone && phone[1]!.replace(/\D/g, '').length >= 7) {
+      signature.phone ??= phone[1]!.trim();
+      continue;
+    }
+
+    // "Head of Sales, Acme Corp" / "CTO at Acme" / "Engineer | Acme"
+    const combined = line.match(/^(.+?)\s*(?:,|\||\bat\b|@|–|—)\s*(.+)$/i);
+    if (combined && TITLE_WORDS.test(combined[1]!) && !signature.title) {
+      signature.title = combined[1]!.trim();
+      signature.company ??= combined[2]!.trim();
+      continue;
+    }
+
+    if (TITLE_WORDS.test(line) && !signature.title) {
+      signature.title = line;
+    } else if (COMPANY_SUFFIX.test(line) && !signature.company) {
+      signature.company = line;
+    } else if (!signature.name && !signature.title && /^[\p{L}.'-]+(?:\s+[\p{L}.'-]+){0,3}$/u.test(line)) {
+      signature.name = line;
+    } else if (signature.title && !signature.company && line.split(/\s+/).length <= 5) {
+      // The line after a bare title is usually the company
+      signature.company = line;
+    }
+  }
+
+  return signature;
+}
+
+// ============================================================
+// ORG ENTITIES
+// ============================================================
+
+/**
+ * Does a company name plausibly belong to a domain ("Acme Corp" / acme.com)?
+ */
+function companyMatchesDomain(company: string, domain: string): boolean {
+  const name = normalizeName(company).replace(COMPANY_SUFFIX, '').replace(/\s+/g, '');
+  const label = (domain.split('.')[0] ?? '').replace(/[-_]/g, '');
+  if (!name || !label) return false;
+  return name.startsWith(label) || label.startsWith(name) || jaroWinkler(name, label) >= 0.9;
+}
+
+/**
+ * Find an org by domain or name, creating it if needed. A company name
+ * from a signature replaces a name that was only guessed from the domain.
+ */
+export function findOrCreateOrg(options: { domain?: string; name?: string }): string | null {
+  const db = getDb();
+  const { domain } = options;
+  const name = options.name?.trim();
+  if (!domain && !name) return null;
+
+  let orgId: string | undefined;
+
+  if (domain) {
+    orgId = (db.prepare(`
+      SELECT ea.entity_id FROM entity_attributes ea
+      JOIN entities e ON e.id = ea.entity_id
+      WHERE ea.attribute_type = 'domain' AND ea.attribute_value = ? AND e.entity_type = 'org'
+      LIMIT 1
+    `).get(domain) as { entity_id: string } | undefined)?.entity_id;
+  }
+
+  if (!orgId && name) {
+    orgId = (db.prepare(`
+      SELECT e.id FROM entities e
+      LEFT JOIN entity_aliases a ON a.entity_id = e.id AND a.alias_type = 'alias' AND a.source = ''
+      WHERE e.entity_type = 'org' AND (e.canonical_name = ? COLLATE NOCASE OR a.normalized_value = ?)
+      LIMIT 1
+    `).get(name, normalizeAlias(name, 'alias')) as { id: string } | undefined)?.id;
+  }
+
+  const signatureNameFits = !!name && (!domain || companyMatchesDomain(name, domain));
+
+  if (!orgId) {
+    orgId = uuidv4();
+    db.prepare(`
+      INSERT INTO entities (id, canonical_name, entity_type) VALUES (?, ?, 'org')
+    `).run(orgId, signatureNameFits ? name : orgNameFromDomain(domain!));
+  } else if (signatureNameFits && domain) {
+    const current = db.prepare('SELECT canonical_name FROM entities WHERE id = ?').get(orgId) as { canonical_name: string };
+    if (current.canonical_name === orgNameFromDomain(domain) && current.canonical_name !== name) {
+      db.prepare(`UPDATE entities SET canonical_name = ?, updated_at = datetime('now') WHERE id = ?`).run(name, orgId);
+      addEntityAlias(orgId, current.canonical_name);
+    }
+  }
+
+  if (domain) {
+    db.prepare(`
+      INSERT OR IGNORE INTO entity_attributes (id, entity_id, attribute_type, attribute_value)
+      VALUES (?, ?, 'domain', ?)
+    `).run(uuidv4(), orgId, domain);
+  }
+
+  return orgId;
+}
+
+/**
+ * Record one more piece of evidence that a person works at an org
+ */
+export function addWorksAtEvidence(personId: string, orgId: string, timestamp?: Date): void {
+  getDb().prepare(`
+    INSERT INTO graph_edges (id, from_entity_id, to_entity_id, edge_type, evidence_count, last_evidence_at)
+    VALUES (?, ?, ?, 'works_at', 1, ?)
+    ON CONFLICT(from_entity_id, to_entity_id, edge_type) DO UPDATE SET
+      evidence_count = evidence_count + 1,
+      last_evidence_at = MAX(COALESCE(last_evidence_at, ''), excluded.last_evidence_at),
+      strength = MIN(1.0, strength + 0.1)
+  `).run(uuidv4(), personId, orgId, (timestamp ?? new Date()).toISOString());
+}
+
+/**
+ * Link a person to the org behind their email domain and/or signature,
+ * storing any title, company and phone the signature gives
+ */
+export function inferOrganization(
+  personId: string,
+  options: { email?: string; signature?: ParsedSignature; timestamp?: Date }
+): string | null {
+  if (!config.enabled) return null;
+
+  const db = getDb();
+  const { signature = {} } = options;
+  const domain = options.email ? emailDomain(options.email) : null;
+  const workDomain = domain && !isPersonalDomain(domain) ? domain : undefined;
+
+  const addAttribute = (type: string, value: string) => {
+    db.prepare(`
+      INSERT OR IGNORE INTO entity_attributes (id, entity_id, attribute_type, attribute_value, confidence)
+      VALUES (?, ?, ?, ?, 0.7)
+    `).run(uuidv4(), personId, type, value);
+  };
+  if (signature.title) addAttribute('title', signature.title);
+  if (signature.company) addAttribute('company', signature.company);
+  if (signature.phone) addAttribute('phone', normalizePhone(signature.phone) ?? signature.phone);
+
+  // A signature company that doesn't fit a work domain is a separate org
+  // (e.g. a contractor writing from their own domain): trust the domain
+  const company = signature.company && (!workDomain || companyMatchesDomain(signature.company, workDomain))
+    ? signature.company
+    : undefined;
+
+  const orgId = findOrCreateOrg({ domain: workDomain, name: company });
+  if (orgId && orgId !== personId) addWorksAtEvidence(personId, orgId, options.timestamp);
+  return orgId;
+}
@@ -0,0 +1,539 @@
+// PDF text extraction
+//
+// Enough of PDF to read the text of simple documents (letters, invoices,
+// exports from word processors) without external tools: objects and object
+// streams, Flate-compressed streams, the text-showing operators of page and
+// form content, and ToUnicode maps for fonts with custom encodings. Scanned
+// and encrypted PDFs yield no text.
+
+import { inflateSync, constants as zlibConstants } from 'zlib';
+
+interface PdfObject {
+  body: string;       // Dictionary or value, as a binary string
+  data?: string;      // Raw stream data, decoded by streamOf() when it's read
+  stream?: string;    // Decoded stream data, as a binary string
+}
+
+type Objects = Map<number, PdfObject>;
+
+interface FontDecoder {
+  bytes: 1 | 2;                     // Code width
+  map?: Map<number, string>;        // From the font's ToUnicode CMap
+}
+
+// Windows-1252 characters in 0x80-0x9f, the usual encoding of simple fonts
+const WIN_ANSI: Record<number, string> = {
+  0x80: '\u20ac', 0x82: '\u201a', 0x84: '\u201e', 0x85: '\u2026', 0x86: '\u2020', 0x87: '\u2021',
+  0x89: '\u2030', 0x8b: '\u2039', 0x91: '\u2018', 0x92: '\u2019', 0x93: '\u201c', 0x94: '\u201d',
+  0x95: '\u2022', 0x96: '\u2013', 0x97: '\u2014', 0x99: '\u2122', 0x9b: '\u203a',
+};
+
+// Word gap in a TJ array, in thousandths of a text space unit
+const TJ_SPACE = -200;
+
+const MAX_FORM_DEPTH = 5;
+
+// A stream that inflates past this is a bomb, not a page of text
+const MAX_STREAM_LENGTH = 16 * 1024 * 1024;
+
+// ============================================================
+// OBJECTS
+// ============================================================
+
+function inflate(data: string): string | undefined {
+  const buffer = Buffer.from(data, 'latin1');
+  try {
+    return inflateSync(buffer, { maxOutputLength: MAX_STREAM_LENGTH }).toString('latin1');
+  } catch {
+    // Truncated or missing checksum: take what decompresses
+    try {
+      return inflateSync(buffer, {
+        finishFlush: zlibConstants.Z_SYNC_FLUSH,
+        maxOutputLength: MAX_STREAM_LENGTH,
+      }).toString('latin1');
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Decode stream data by its /Filter. Only Flate is supported, which is
+ * what content streams, object streams and CMaps use.
+ */
+function decodeStream(dict: string, data: string): string | undefined {
+  const filters = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1]?.match(/\/\w+/g) ?? [];
+  let decoded: string | undefined = data;
+  for (const filter of filters) {
+    if (filter !== '/FlateDecode' && filter !== '/Fl') return undefined;
+    decoded = decoded === undefined ? undefined : inflate(decoded);
+  }
+  return decoded;
+}
+
+/**
+ * An object's decoded stream. Streams are decoded on first read, so images
+ * and other streams no text comes from are never inflated.
+ */
+function streamOf(object: PdfObject | undefined): string | undefined {
+  if (object?.data === undefined || /\/Subtype\s*\/Image\b/.test(object.body)) return undefined;
+  object.stream ??= decodeStream(object.body, object.data) ?? '';
+  return object.stream || undefined;
+}
+
+/**
+ * Read every "N G obj ... endobj", including those packed in object streams
+ */
+function parseObjects(src: string): Objects {
+  const objects: Objects = new Map();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(src)) !== null) {
+    const start = match.index + match[0].length;
+    let end = src.indexOf('endobj', start);
+    if (end === -1) break;
+
+    let body = src.slice(start, end);
+    let data: string | undefined;
+    const streamAt = body.search(/\bstream\r?\n/);
+    if (streamAt !== -1) {
+      const dataStart = start + streamAt + body.slice(streamAt).match(/^stream\r?\n/)![0].length;
+      const length = body.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+      let dataEnd = length ? dataStart + parseInt(length[1]!, 10) : -1;
+      if (dataEnd === -1 || !/^\s*endstream/.test(src.slice(dataEnd, dataEnd + 20))) {
+        dataEnd = src.indexOf('endstream', dataStart);
+      }
+      if (dataEnd === -1) break;
+
+      body = body.slice(0, streamAt);
+      data = src.slice(dataStart, dataEnd).replace(/\r?\n$/, '');
+      end = src.indexOf('endobj', dataEnd);
+      if (end === -1) end = src.length;
+    }
+
+    objects.set(parseInt(match[1]!, 10), { body: body.trim(), data });
+    header.lastIndex = end;
+  }
+
+  // Object streams: "num offset" pairs, then the objects from /First
+  for (const object of Array.from(objects.values())) {
+    if (!/\/Type\s*\/ObjStm\b/.test(object.body)) continue;
+    const stream = streamOf(object);
+    if (stream === undefined) continue;
+    const count = parseInt(object.body.match(/\/N\s+(\d+)/)?.[1] ?? '0', 10);
+    const first = parseInt(object.body.match(/\/First\s+(\d+)/)?.[1] ?? '0', 10);
+    const pairs = stream.slice(0, first).trim().split(/\s+/).map(n => parseInt(n, 10));
+
+    for (let i = 0; i < count; i++) {
+      const num = pairs[i * 2];
+      const offset = pairs[i * 2 + 1];
+      if (num === undefined || offset === undefined || objects.has(num)) continue;
+      const next = pairs[i * 2 + 3];
+      objects.set(num, { body: stream.slice(first + offset, next === undefined ? undefined : first + next).trim() });
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * The raw value of a key in a dictionary: a nested dictionary, an array,
+ * a reference or a single token
+ */
+function dictValue(dict: string, key: string): string | undefined {
+  const at = dict.search(new RegExp(`/${key}(?![\\w.#-])`));
+  if (at === -1) return undefined;
+  const rest = dict.slice(at + key.length + 1).trimStart();
+
+  if (rest.startsWith('<<') || rest.startsWith('[')) {
+    const [open, close] = rest.startsWith('<<') ? ['<<', '>>'] : ['[', ']'];
+    let depth = 0;
+    for (let i = 0; i < rest.length; i++) {
+      if (rest.startsWith(open, i)) depth++;
+      else if (rest.startsWith(close, i) && --depth === 0) return rest.slice(0, i + close.length);
+    }
+    return rest;
+  }
+
+  return rest.match(/^(\d+\s+\d+\s+R|\/[^\s/<>[\]()]+|[^\s/<>[\]()]+)/)?.[1];
+}
+
+function refNumber(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d+)\s+\d+\s+R/);
+  return match ? parseInt(match[1]!, 10) : undefined;
+}
+
+/**
+ * Follow a reference to its object's body; direct values stay as they are
+ */
+function resolve(objects: Objects, value: string | undefined): string | undefined {
+  const num = refNumber(value);
+  return num === undefined ? value : objects.get(num)?.body;
+}
+
+/**
+ * Name -> referenced object number, for each entry of a dictionary such as
+ * a resource's /Font or /XObject
+ */
+function namedRefs(dict: string | undefined): Map<string, number> {
+  const refs = new Map<string, number>();
+  for (const match of (dict ?? '').matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+    refs.set(match[1]!, parseInt(match[2]!, 10));
+  }
+  return refs;
+}
+
+// ============================================================
+// FONTS
+// ============================================================
+
+function utf16(hex: string): string {
+  const bytes = Buffer.from(hex.padEnd(Math.ceil(hex.length / 4) * 4, '0'), 'hex');
+  bytes.swap16();
+  return bytes.toString('utf16le');
+}
+
+/**
+ * Parse a ToUnicode CMap: code width and code -> text
+ */
+function parseCMap(cmap: string): FontDecoder {
+  const map = new Map<number, string>();
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  const bytes = codespace && codespace[1]!.length > 2 ? 2 : 1;
+
+  for (const section of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, text] of section[1]!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(code!, 16), utf16(text!));
+    }
+  }
+
+  for (const section of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target] of section[1]!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const from = parseInt(low!, 16);
+      const to = Math.min(parseInt(high!, 16), from + 0xffff);
+      if (target!.startsWith('[')) {
+        const texts = Array.from(target!.matchAll(/<([0-9a-fA-F]*)>/g), m => utf16(m[1]!));
+        for (let i = 0; i < texts.length && from + i <= to; i++) map.set(from + i, texts[i]!);
+      } else {
+        // Consecutive codes map to consecutive characters
+        const base = utf16(target!.slice(1, -1));
+        if (!base) continue;
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = from; code <= to; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(last + code - from));
+        }
+      }
+    }
+  }
+
+  return { bytes, map };
+}
+
+function fontDecoder(objects: Objects, fontNum: number): FontDecoder {
+  const font = objects.get(fontNum)?.body ?? '';
+  const toUnicode = refNumber(dictValue(font, 'ToUnicode'));
+  const cmap = toUnicode === undefined ? undefined : streamOf(objects.get(toUnicode));
+  if (cmap) return parseCMap(cmap);
+
+  // Composite fonts without a map have glyph ids we can't read
+  return { bytes: /\/Subtype\s*\/Type0/.test(font) ? 2 : 1 };
+}
+
+function decodeText(bytes: string, font: FontDecoder | undefined): string {
+  if (font?.bytes === 2) {
+    if (!font.map) return '';
+    let text = '';
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+      text += font.map.get((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1)) ?? '';
+    }
+    return text;
+  }
+
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const code = bytes.charCodeAt(i);
+    text += font?.map?.get(code) ?? WIN_ANSI[code] ?? String.fromCharCode(code);
+  }
+  return text;
+}
+
+// ============================================================
+// CONTENT STREAMS
+// ============================================================
+
+type Operand = { type: 'string'; value: string } | { type: 'number'; value: number } |
+  { type: 'name'; value: string } | { type: 'array'; value: Operand[] };
+
+/**
+ * Read a literal string "(...)" starting at i: returns its bytes and the
+ * index after it
+ */
+function readLiteral(src: string, i: number): [string, number] {
+  let value = '';
+  let depth = 1;
+  i++;
+  while (i < src.length && depth > 0) {
+    const c = src[i]!;
+    if (c === '\\') {
+      const next = src[i + 1] ?? '';
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+      if (next in escapes) {
+        value += escapes[next];
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = src.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        i += 1 + octal.length;
+      } else {
+        // Line continuation, or an escape without meaning
+        i += next === '\r' && src[i + 2] === '\n' ? 3 : 2;
+      }
+      continue;
+    }
+    if (c === '(') depth++;
+    if (c === ')' && --depth === 0) break;
+    value += c;
+    i++;
+  }
+  return [value, i + 1];
+}
+
+/**
+ * Run a content stream, calling `show` for text and `move` for text
+ * positioning, and `form` for XObjects drawn with Do
+ */
+function runContent(
+  src: string,
+  handlers: {
+    font: (name: string) => void;
+    show: (bytes: string) => void;
+    move: (kind: 'line' | 'space') => void;
+    form: (name: string) => void;
+  }
+): void {
+  const stack: Operand[] = [];
+  const arrays: Operand[][] = [];
+  let lastY: number | undefined;
+  let i = 0;
+
+  const push = (operand: Operand) => (arrays.length > 0 ? arrays[arrays.length - 1]! : stack).push(operand);
+  const numberAt = (offset: number) => {
+    const operand = stack[stack.length - offset];
+    return operand?.type === 'number' ? operand.value : 0;
+  };
+
+  while (i < src.length) {
+    const c = src[i]!;
+
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '%') {
+      const eol = src.slice(i).search(/[\r\n]/);
+      i = eol === -1 ? src.length : i + eol;
+    } else if (c === '(') {
+      const [value, next] = readLiteral(src, i);
+      push({ type: 'string', value });
+      i = next;
+    } else if (c === '<' && src[i + 1] === '<') {
+      // Inline dictionaries (marked content properties) carry no text
+      const end = src.indexOf('>>', i);
+      i = end === -1 ? src.length : end + 2;
+    } else if (c === '<') {
+      const end = src.indexOf('>', i);
+      const hex = src.slice(i + 1, end === -1 ? undefined : end).replace(/\s/g, '');
+      push({ type: 'string', value: Buffer.from(hex.length % 2 ? hex + '0' : hex, 'hex').toString('latin1') });
+      i = end === -1 ? src.length : end + 1;
+    } else if (c === '[') {
+      arrays.push([]);
+      i++;
+    } else if (c === ']') {
+      const array = arrays.pop() ?? [];
+      push({ type: 'array', value: array });
+      i++;
+    } else if (c === '/') {
+      const name = src.slice(i + 1).match(/^[^\s/<>[\]()%{}]*/)![0];
+      push({ type: 'name', value: name });
+      i += 1 + name.length;
+    } else if (/[\d.+-]/.test(c)) {
+      const number = src.slice(i).match(/^[+-]?(\d+\.?\d*|\.\d+)/);
+      if (number) {
+        push({ type: 'number', value: parseFloat(number[0]) });
+        i += number[0].length;
+      } else {
+        i++;
+      }
+    } else {
+      const operator = src.slice(i).match(/^[^\s/<>[\]()%{}]+/)?.[0] ?? c;
+      i += operator.length;
+
+      switch (operator) {
+        case 'Tf': {
+          const name = stack[stack.length - 2];
+          if (name?.type === 'name') handlers.font(name.value);
+          break;
+        }
+        case 'Td':
+        case 'TD':
+          handlers.move(numberAt(1) !== 0 ? 'line' : 'space');
+          break;
+        case 'Tm': {
+          const y = numberAt(1);
+          handlers.move(lastY !== undefined && Math.abs(y - lastY) > 1 ? 'line' : 'space');
+          lastY = y;
+          break;
+        }
+        case 'T*':
+          handlers.move('line');
+          break;
+        case 'Tj':
+        case "'":
+        case '"': {
+          // ' and " move to the next line first
+          if (operator !== 'Tj') handlers.move('line');
+          const text = stack[stack.length - 1];
+          if (text?.type === 'string') handlers.show(text.value);
+          break;
+        }
+        case 'TJ': {
+          const array = stack[stack.length - 1];
+          if (array?.type !== 'array') break;
+          for (const part of array.value) {
+            if (part.type === 'string') handlers.show(part.value);
+            else if (part.type === 'number' && part.value < TJ_SPACE) handlers.move('space');
+          }
+          break;
+        }
+        case 'ET':
+          handlers.move('space');
+          break;
+        case 'Do': {
+          const name = stack[stack.length - 1];
+          if (name?.type === 'name') handlers.form(name.value);
+          break;
+        }
+        case 'ID': {
+          // Inline image data runs to EI
+          const end = src.slice(i).search(/\sEI(\s|$)/);
+          i = end === -1 ? src.length : i + end + 3;
+          break;
+        }
+      }
+      stack.length = 0;
+    }
+  }
+}
+
+// ============================================================
+// EXTRACTION
+// ============================================================
+
+interface Page {
+  body: string;
+  resources?: string;   // Its own /Resources, or inherited from the page tree
+}
+
+/**
+ * Pages in document order, by walking the page tree from the catalog, or
+ * every page object when there is no usable tree
+ */
+function pageObjects(objects: Objects): Page[] {
+  const isPage = (body: string) => /\/Type\s*\/Page(?!s)/.test(body);
+  const pages: Page[] = [];
+
+  const visit = (num: number | undefined, inherited: string | undefined, depth: number) => {
+    const node = num === undefined ? undefined : objects.get(num)?.body;
+    if (!node || depth > 32) return;
+    const resources = dictValue(node, 'Resources') ?? inherited;
+    if (isPage(node)) {
+      pages.push({ body: node, resources });
+      return;
+    }
+    for (const kid of (dictValue(node, 'Kids') ?? '').matchAll(/(\d+)\s+\d+\s+R/g)) {
+      visit(parseInt(kid[1]!, 10), resources, depth + 1);
+    }
+  };
+
+  const catalog = Array.from(objects.values()).find(o => /\/Type\s*\/Catalog\b/.test(o.body));
+  if (catalog) visit(refNumber(dictValue(catalog.body, 'Pages')), undefined, 0);
+  if (pages.length > 0) return pages;
+
+  return Array.from(objects.entries())
+    .sort(([a], [b]) => a - b)
+    .filter(([, o]) => isPage(o.body))
+    .map(([, o]) => ({ body: o.body, resources: dictValue(o.body, 'Resources') }));
+}
+
+/**
+ * Extract the text of a PDF, one paragraph per page
+ */
+export function extractPdfText(data: Buffer): string {
+  const src = data.toString('latin1');
+  if (!src.startsWith('%PDF')) return '';
+
+  // The trailer or cross-reference stream names the encryption dictionary
+  if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(src)) return '';
+
+  const objects = parseObjects(src);
+
+  const decoders = new Map<number, FontDecoder>();
+  const pageTexts: string[] = [];
+
+  for (const page of pageObjects(objects)) {
+    let text = '';
+    const move = (kind: 'line' | 'space') => {
+      if (kind === 'line') text = text.replace(/ +$/, '') + '\n';
+      else if (text && !/[\s]$/.test(text)) text += ' ';
+    };
+
+    const run = (content: string, resourcesValue: string | undefined, depth: number) => {
+      const resources = resolve(objects, resourcesValue) ?? '';
+      const fonts = namedRefs(resolve(objects, dictValue(resources, 'Font')));
+      const forms = namedRefs(resolve(objects, dictValue(resources, 'XObject')));
+      let font: FontDecoder | undefined;
+
+      runContent(content, {
+        font: name => {
+          const num = fonts.get(name);
+          if (num === undefined) {
+            font = undefined;
+            return;
+          }
+          if (!decoders.has(num)) decoders.set(num, fontDecoder(objects, num));
+          font = decoders.get(num);
+        },
+        show: bytes => {
+          text += decodeText(bytes, font);
+        },
+        move,
+        form: name => {
+          const num = forms.get(name);
+          const form = num === undefined ? undefined : objects.get(num);
+          if (!form || depth >= MAX_FORM_DEPTH || !/\/Subtype\s*\/Form\b/.test(form.body)) return;
+          const stream = streamOf(form);
+          if (stream) run(stream, dictValue(form.body, 'Resources') ?? resourcesValue, depth + 1);
+        },
+      });
+    };
+
+    const contents = dictValue(page.body, 'Contents');
+    const streams = Array.from((contents ?? '').matchAll(/(\d+)\s+\d+\s+R/g), m => objects.get(parseInt(m[1]!, 10)));
+    // A /Contents array may itself be behind a reference
+    const resolved = streams.length === 1 && streams[0]?.data === undefined
+      ? Array.from((streams[0]?.body ?? '').matchAll(/(\d+)\s+\d+\s+R/g), m => objects.get(parseInt(m[1]!, 10)))
+      : streams;
+    const content = resolved.map(o => streamOf(o) ?? '').join('\n');
+
+    run(content, page.resources, 0);
+    pageTexts.push(text);
+  }
+
+  return pageTexts
+    .map(page => page
+      .split('\n')
+      .map(line => line.replace(/[ \t]+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n'))
+    .filter(Boolean)
+    .join('\n\n');
+}
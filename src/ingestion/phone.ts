@@ -0,0 +1,200 @@
+// Phone number normalisation
+//
+// Every phone number we store or compare goes through normalizePhone, which
+// produces E.164 ("+442079460958"), keeps extensions in RFC 3966 form
+// (";ext=204") so colleagues behind one switchboard stay distinct, and
+// leaves SMS short codes as bare digits. Numbers written without a country
+// code are read in the configured default region.
+
+import { query } from '../db/connection';
+
+// ============================================================
+// REGIONS
+// ============================================================
+
+interface RegionInfo {
+  countryCode: string;
+  trunkPrefix?: string;            // Dropped before the national number ("0" in 020 7946 0958)
+  nationalLength: [number, number]; // Min/max digits after the country code
+}
+
+const REGIONS: Record<string, RegionInfo> = {
+  US: { countryCode: '1', trunkPrefix: '1', nationalLength: [10, 10] },
+  CA: { countryCode: '1', trunkPrefix: '1', nationalLength: [10, 10] },
+  GB: { countryCode: '44', trunkPrefix: '0', nationalLength: [9, 10] },
+  IE: { countryCode: '353', trunkPrefix: '0', nationalLength: [7, 9] },
+  FR: { countryCode: '33', trunkPrefix: '0', nationalLength: [9, 9] },
+  DE: { countryCode: '49', trunkPrefix: '0', nationalLength: [6, 11] },
+  ES: { countryCode: '34', nationalLength: [9, 9] },
+  IT: { countryCode: '39', nationalLength: [6, 11] },   // Leading 0 is part of the number
+  NL: { countryCode: '31', trunkPrefix: '0', nationalLength: [9, 9] },
+  BE: { countryCode: '32', trunkPrefix: '0', nationalLength: [8, 9] },
+  CH: { countryCode: '41', trunkPrefix: '0', nationalLength: [9, 9] },
+  AT: { countryCode: '43', trunkPrefix: '0', nationalLength: [7, 13] },
+  SE: { countryCode: '46', trunkPrefix: '0', nationalLength: [7, 9] },
+  NO: { countryCode: '47', nationalLength: [8, 8] },
+  DK: { countryCode: '45', nationalLength: [8, 8] },
+  FI: { countryCode: '358', trunkPrefix: '0', nationalLength: [6, 11] },
+  PL: { countryCode: '48', nationalLength: [9, 9] },
+  PT: { countryCode: '351', nationalLength: [9, 9] },
+  RU: { countryCode: '7', trunkPrefix: '8', nationalLength: [10, 10] },
+  IL: { countryCode: '972', trunkPrefix: '0', nationalLength: [8, 9] },
+  AE: { countryCode: '971', trunkPrefix: '0', nationalLength: [8, 9] },
+  ZA: { countryCode: '27', trunkPrefix: '0', nationalLength: [9, 9] },
+  IN: { countryCode: '91', trunkPrefix: '0', nationalLength: [10, 10] },
+  CN: { countryCode: '86', trunkPrefix: '0', nationalLength: [10, 11] },
+  HK: { countryCode: '852', nationalLength: [8, 8] },
+  SG: { countryCode: '65', nationalLength: [8, 8] },
+  JP: { countryCode: '81', trunkPrefix: '0', nationalLength: [9, 10] },
+  KR: { countryCode: '82', trunkPrefix: '0', nationalLength: [9, 10] },
+  AU: { countryCode: '61', trunkPrefix: '0', nationalLength: [9, 9] },
+  NZ: { countryCode: '64', trunkPrefix: '0', nationalLength: [8, 10] },
+  BR: { countryCode: '55', trunkPrefix: '0', nationalLength: [10, 11] },
+  MX: { countryCode: '52', nationalLength: [10, 10] },
+};
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export interface PhoneConfig {
+  /** ISO 3166 region for numbers written without a country code (default 'US') */
+  defaultRegion: string;
+}
+
+let config: PhoneConfig = { defaultRegion: 'US' };
+
+export function configurePhoneNormalization(overrides: Partial<PhoneConfig>): void {
+  config = { ...config, ...overrides };
+  config.defaultRegion = config.defaultRegion.toUpperCase();
+}
+
+export function getPhoneConfig(): PhoneConfig {
+  return { ...config };
+}
+
+/**
+ * Regions we can read national numbers for
+ */
+export function getSupportedPhoneRegions(): string[] {
+  return Object.keys(REGIONS);
+}
+
+// ============================================================
+// PARSING
+// ============================================================
+
+export interface ParsedPhone {
+  e164: string | null;      // "+14155550142"; null for short codes and numbers we can't read
+  extension?: string;
+  shortCode: boolean;       // SMS/service short code such as "72345"
+  nationalDigits: string;   // Digits as written, without extension
+}
+
+// "x204", "ext. 204", "extension 204", "#204", ";ext=204", ",,204"
+const EXTENSION = /(?:;ext=|\s*(?:ext(?:ension)?\.?|x|#)\s*|,+)(\d{1,6})\s*$/i;
+
+/**
+ * Read a phone number in the default (or given) region
+ */
+export function parsePhone(raw: string, options: { region?: string } = {}): ParsedPhone {
+  const region = REGIONS[(options.region ?? config.defaultRegion).toUpperCase()];
+
+  // "+44 (0)20 ..." writes the trunk prefix it tells you to drop
+  let text = raw.trim().replace(/^tel:/i, '').replace(/^(\+\d{1,3})\s*\(0\)/, '$1');
+  let extension: string | undefined;
+  const ext = text.match(EXTENSION);
+  if (ext && text.slice(0, ext.index).replace(/\D/g, '').length >= 7) {
+    extension = ext[1];
+    text = text.slice(0, ext.index);
+  }
+
+  let digits = text.replace(/\D/g, '');
+  const result: ParsedPhone = { e164: null, extension, shortCode: false, nationalDigits: digits };
+  if (!digits) return result;
+
+  // International: "+44 ...", "0044 ...", or "011 44 ..." from North America
+  let international = text.startsWith('+');
+  if (!international && digits.startsWith('00')) {
+    digits = digits.slice(2);
+    international = true;
+  } else if (!international && region?.countryCode === '1' && digits.startsWith('011')) {
+    digits = digits.slice(3);
+    international = true;
+  }
+
+  if (international) {
+    if (digits.length >= 8 && digits.length <= 15) result.e164 = `+${digits}`;
+    return result;
+  }
+
+  const [min, max] = region?.nationalLength ?? [0, 0];
+  const fits = (national: string) => national.length >= min && national.length <= max;
+
+  // Short codes are 3-6 digits, but so are some national numbers (Italy,
+  // Germany, Finland, ...); those are numbers as long as the region allows them
+  if (digits.length >= 3 && digits.length <= 6) {
+    const trunked = !!region?.trunkPrefix && digits.startsWith(region.trunkPrefix);
+    const national = !!region && fits(trunked ? digits.slice(region.trunkPrefix!.length) : digits);
+    if (!national) {
+      result.shortCode = true;
+      return result;
+    }
+  }
+  if (!region) return result;
+
+  if (region.trunkPrefix && digits.startsWith(region.trunkPrefix) && fits(digits.slice(region.trunkPrefix.length))) {
+    result.e164 = `+${region.countryCode}${digits.slice(region.trunkPrefix.length)}`;
+  } else if (fits(digits)) {
+    result.e164 = `+${region.countryCode}${digits}`;
+  } else if (digits.startsWith(region.countryCode) && fits(digits.slice(region.countryCode.length))) {
+    // Country code written without the +
+    result.e164 = `+${digits}`;
+  }
+
+  return result;
+}
+
+/**
+ * Canonical form for storing and comparing a phone number: E.164 with an
+ * optional ";ext=" suffix, or the bare digits of a short code. Returns
+ * null when the input isn't a readable number.
+ */
+export function normalizePhone(raw: string, options: { region?: string } = {}): string | null {
+  const parsed = parsePhone(raw, options);
+  if (parsed.shortCode) return parsed.nationalDigits;
+  if (!parsed.e164) return null;
+  return parsed.extension ? `${parsed.e164};ext=${parsed.extension}` : parsed.e164;
+}
+
+// ============================================================
+// LOOKUP
+// ============================================================
+
+/**
+ * The entity with a phone number, compared in normalised form. Numbers
+ * stored before normalisation was added are normalised on the fly.
+ */
+export function findEntityByPhone(phone: string): { entityId: string; canonicalName: string } | null {
+  const normalized = normalizePhone(phone);
+  if (!normalized) return null;
+
+  const [exact] = query<{ entity_id: string; canonical_name: string }>(`
+    SELECT ea.entity_id, e.canonical_name FROM entity_attributes ea
+    JOIN entities e ON e.id = ea.entity_id
+    WHERE ea.attribute_type = 'phone' AND ea.attribute_value = ?
+    LIMIT 1
+  `, [normalized]);
+  if (exact) return { entityId: exact.entity_id, canonicalName: exact.canonical_name };
+
+  // Legacy rows: narrow by the last digits, then compare normalised
+  const tail = normalized.replace(/;ext=.*$/, '').replace(/\D/g, '').slice(-7);
+  const legacy = query<{ entity_id: string; canonical_name: string; attribute_value: string }>(`
+    SELECT ea.entity_id, e.canonical_name, ea.attribute_value FROM entity_attributes ea
+    JOIN entities e ON e.id = ea.entity_id
+    WHERE ea.attribute_type = 'phone' AND ea.attribute_value != ? AND ea.attribute_value LIKE ?
+  `, [normalized, `%${tail.split('').join('%')}%`]);
+
+  const match = legacy.find(row => normalizePhone(row.attribute_value) === normalized);
+  return match ? { entityId: match.entity_id, canonicalName: match.canonical_name } : null;
+}
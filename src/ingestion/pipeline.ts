@@ -1,11 +1,32 @@
 // Ingestion pipeline - orchestrates normalization, entity resolution, and storage
 
+import * as fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import { getDb, transaction } from '../db/connection';
 import type { NormalizedMessage, IngestResult, Entity } from '../types';
-import type { GmailMessage, IMessageMessage, BatchIngestResult } from './types';
+import type {
+  GmailMessage,
+  IMessageMessage,
+  SlackExport,
+  TelegramExport,
+  TelegramChat,
+  SignalBackup,
+  BatchIngestResult,
+} from './types';
 import { normalizeGmailBatch } from './gmail';
 import { normalizeIMessageBatch } from './imessage';
+import { normalizeSlackExport, type SlackIngestOptions } from './slack';
+import { readMbox, readEmlFiles, listEmlFiles, normalizeEmail, type RawMailboxMessage } from './mbox';
+import { parseEmail } from './mime';
+import { normalizeWhatsAppChat, type WhatsAppOptions } from './whatsapp';
+import { normalizeTelegramExport, telegramChats, type TelegramOptions } from './telegram';
+import { normalizeSignalBackup, type SignalOptions } from './signal';
+import { inferOrganization, parseSignature } from './orgs';
+import { cleanMessageBody } from './cleaning';
+import { htmlToText, looksLikeHtml } from './html';
+import { storeAttachments } from './attachments';
+import { normalizePhone, findEntityByPhone } from './phone';
+import { addEntityAlias, findEntitiesByAlias } from '../entity/aliases';
 
 // ============================================================
 // EVENT CREATION
@@ -86,12 +107,50 @@ function detectContextType(subject: string, body: string): 'work' | 'personal' |
 }
 
 /**
- * Find or create an entity from an identifier (email or phone)
+ * Find or create an entity from an identifier (email, phone, or a handle on
+ * `options.source`). People with a work email domain (or a signature naming
+ * a company, for senders) get a works_at edge to the org, created if needed.
  */
 export function findOrCreateEntity(
-  identifier: { email?: string; phone?: string; name?: string }
+  identifier: { email?: string; phone?: string; handle?: string; name?: string },
+  options: { bodyText?: string; timestamp?: Date; source?: string } = {}
+): string {
+  const entityId = findOrCreatePerson(identifier, options.source);
+
+  if (identifier.email || options.bodyText) {
+    inferOrganization(entityId, {
+      email: identifier.email,
+      signature: options.bodyText ? parseSignature(options.bodyText) : undefined,
+      timestamp: options.timestamp,
+    });
+  }
+
+  return entityId;
+}
+
+/**
+ * Find a person by handle, email, phone or (failing those) display name, or
+ * create one. A handle or display name seen for the first time is
+ * remembered on the entity for the source.
+ */
+function findOrCreatePerson(
+  identifier: { email?: string; phone?: string; handle?: string; name?: string },
+  source?: string
 ): string {
   const db = getDb();
+  const phone = identifier.phone ? normalizePhone(identifier.phone) ?? identifier.phone : undefined;
+
+  if (identifier.handle) {
+    const [known] = findEntitiesByAlias(identifier.handle, { type: 'handle', source, entityType: 'person' });
+    if (known) {
+      return known.entityId;
+    }
+
+    const name = identifier.name || (identifier.email || phone ? undefined : identifier.handle);
+    const entityId = findOrCreatePerson({ ...identifier, handle: undefined, name }, source);
+    addEntityAlias(entityId, identifier.handle, { type: 'handle', source });
+    return entityId;
+  }
 
   // Try to find by email first
   if (identifier.email) {
@@ -105,21 +164,44 @@ export function findOrCreateEntity(
     }
   }
 
-  // Try to find by phone
-  if (identifier.phone) {
+  // Try to find by phone (also matches numbers stored in other formats)
+  if (phone) {
     const existing = db.prepare(`
       SELECT entity_id FROM entity_attributes
       WHERE attribute_type = 'phone' AND attribute_value = ?
-    `).get(identifier.phone) as { entity_id: string } | undefined;
+    `).get(phone) as { entity_id: string } | undefined;
 
     if (existing) {
       return existing.entity_id;
     }
+
+    const legacy = findEntityByPhone(phone);
+    if (legacy) {
+      return legacy.entityId;
+    }
+  }
+
+  // Only a display name (chat exports): the person it already maps to on
+  // this source, else the one person going by it
+  const nameOnly = !identifier.email && !phone && identifier.name;
+  if (nameOnly) {
+    const [known] = findEntitiesByAlias(nameOnly, { type: 'alias', source, entityType: 'person' });
+    if (known) {
+      return known.entityId;
+    }
+
+    const named = db.prepare(`
+      SELECT id FROM entities WHERE entity_type = 'person' AND canonical_name = ? COLLATE NOCASE LIMIT 2
+    `).all(nameOnly) as Array<{ id: string }>;
+    if (named.length === 1) {
+      addEntityAlias(named[0]!.id, nameOnly, { source });
+      return named[0]!.id;
+    }
   }
 
   // Create new entity
   const entityId = uuidv4();
-  const canonicalName = identifier.name || identifier.email || identifier.phone || 'Unknown';
+  const canonicalName = identifier.name || identifier.email || phone || 'Unknown';
 
   db.prepare(`
     INSERT INTO entities (id, canonical_name, entity_type)
@@ -135,24 +217,39 @@ export function findOrCreateEntity(
   }
 
   // Add phone attribute
-  if (identifier.phone) {
+  if (phone) {
     db.prepare(`
       INSERT INTO entity_attributes (id, entity_id, attribute_type, attribute_value)
       VALUES (?, ?, 'phone', ?)
-    `).run(uuidv4(), entityId, identifier.phone);
+    `).run(uuidv4(), entityId, phone);
   }
 
   // Add name as alias if we have email or phone as the canonical
-  if (identifier.name && (identifier.email || identifier.phone)) {
-    db.prepare(`
-      INSERT OR IGNORE INTO entity_attributes (id, entity_id, attribute_type, attribute_value)
-      VALUES (?, ?, 'alias', ?)
-    `).run(uuidv4(), entityId, identifier.name);
+  if (identifier.name && (identifier.email || phone)) {
+    addEntityAlias(entityId, identifier.name, { source });
+  }
+
+  if (nameOnly) {
+    addEntityAlias(entityId, nameOnly, { source });
   }
 
   return entityId;
 }
 
+/**
+ * A message whose text body is missing or is really HTML gets its text
+ * converted from the HTML. Only email text bodies are sniffed: a chat
+ * message quoting markup is what its sender typed.
+ */
+function withTextBody(message: NormalizedMessage): NormalizedMessage {
+  const isEmail = message.sourceType === 'gmail' || message.sourceType === 'email';
+  const textIsHtml = isEmail && looksLikeHtml(message.bodyText);
+  if (message.bodyText.trim() && !textIsHtml) return message;
+
+  const html = message.bodyHtml || (textIsHtml ? message.bodyText : undefined);
+  return html ? { ...message, bodyText: htmlToText(html) } : message;
+}
+
 /**
  * Store a normalized message in the database
  */
@@ -164,6 +261,7 @@ export function storeMessage(message: NormalizedMessage): {
   entitiesCreated: number;
 } {
   const db = getDb();
+  message = withTextBody(message);
 
   // Check for duplicate
   const existing = db.prepare(`
@@ -182,17 +280,27 @@ export function storeMessage(message: NormalizedMessage): {
   let entitiesCreated = 0;
   const countBefore = (db.prepare('SELECT COUNT(*) as count FROM entities').get() as { count: number }).count;
 
+  // Only emails quote earlier messages and carry signature blocks
+  const cleaned = message.sourceType === 'gmail' || message.sourceType === 'email'
+    ? cleanMessageBody(message.bodyText)
+    : undefined;
+
   // Resolve sender entity
   let senderEntityId: string | undefined;
-  if (message.sender.email || message.sender.phone) {
-    senderEntityId = findOrCreateEntity(message.sender);
+  if (message.sender.email || message.sender.phone || message.sender.handle || message.sender.name) {
+    // The signature parsed is the sender's, not one from the quoted history
+    senderEntityId = findOrCreateEntity(message.sender, {
+      bodyText: cleaned ? [cleaned.text, cleaned.signature].filter(Boolean).join('\n') : undefined,
+      timestamp: message.timestamp,
+      source: message.sourceType,
+    });
   }
 
   // Resolve recipient entities
   const recipientEntityIds: string[] = [];
   for (const recipient of message.recipients) {
-    if (recipient.email || recipient.phone) {
-      const entityId = findOrCreateEntity(recipient);
+    if (recipient.email || recipient.phone || recipient.handle || recipient.name) {
+      const entityId = findOrCreateEntity(recipient, { timestamp: message.timestamp, source: message.sourceType });
       recipientEntityIds.push(entityId);
     }
   }
@@ -206,9 +314,9 @@ export function storeMessage(message: NormalizedMessage): {
     INSERT INTO messages (
       id, source_type, source_id, thread_id,
       sender_entity_id, recipient_entity_ids,
-      subject, body_text, body_html,
+      subject, body_text, body_clean, body_cleaned, body_html,
       timestamp, is_from_user
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     messageId,
     message.sourceType,
@@ -218,11 +326,18 @@ export function storeMessage(message: NormalizedMessage): {
     JSON.stringify(recipientEntityIds),
     message.subject ?? null,
     message.bodyText,
+    // A forward with no comment has no text of its own, so the forward is indexed
+    cleaned?.text || null,
+    cleaned ? 1 : 0,
     message.bodyHtml ?? null,
     message.timestamp.toISOString(),
     message.isFromUser ? 1 : 0
   );
 
+  if (message.attachments?.length) {
+    storeAttachments(messageId, message.attachments);
+  }
+
   // Create or update graph edges between sender and recipients
   if (senderEntityId) {
     for (const recipientId of recipientEntityIds) {
@@ -293,20 +408,19 @@ export function ingestNormalizedMessages(messages: NormalizedMessage[]): IngestR
 }
 
 /**
- * Ingest Gmail messages
+ * Report a source's ingestion: whatever wasn't stored or failed was a
+ * duplicate or not a conversation message
  */
-export function ingestGmailMessages(
-  messages: GmailMessage[],
-  userEmail?: string
+function toBatchResult(
+  sourceType: BatchIngestResult['sourceType'],
+  totalReceived: number,
+  result: IngestResult
 ): BatchIngestResult {
-  const normalized = normalizeGmailBatch(messages, userEmail);
-  const result = ingestNormalizedMessages(normalized);
-
   return {
-    sourceType: 'gmail',
-    totalReceived: messages.length,
+    sourceType,
+    totalReceived,
     successCount: result.messagesIngested,
-    skipCount: messages.length - result.messagesIngested - result.errors.length,
+    skipCount: totalReceived - result.messagesIngested - result.errors.length,
     errorCount: result.errors.length,
     errors: result.errors,
     entitiesCreated: result.entitiesCreated,
@@ -314,6 +428,18 @@ export function ingestGmailMessages(
   };
 }
 
+/**
+ * Ingest Gmail messages
+ */
+export function ingestGmailMessages(
+  messages: GmailMessage[],
+  userEmail?: string
+): BatchIngestResult {
+  const result = ingestNormalizedMessages(normalizeGmailBatch(messages, userEmail));
+
+  return toBatchResult('gmail', messages.length, result);
+}
+
 /**
  * Ingest iMessage messages
  */
@@ -322,19 +448,186 @@ export function ingestIMessages(
   userPhone?: string,
   userEmail?: string
 ): BatchIngestResult {
-  const normalized = normalizeIMessageBatch(messages, userPhone, userEmail);
-  const result = ingestNormalizedMessages(normalized);
+  const result = ingestNormalizedMessages(normalizeIMessageBatch(messages, userPhone, userEmail));
 
-  return {
-    sourceType: 'imessage',
-    totalReceived: messages.length,
-    successCount: result.messagesIngested,
-    skipCount: messages.length - result.messagesIngested - result.errors.length,
-    errorCount: result.errors.length,
-    errors: result.errors,
-    entitiesCreated: result.entitiesCreated,
-    entitiesMerged: result.entitiesMerged,
+  return toBatchResult('imessage', messages.length, result);
+}
+
+/**
+ * Ingest a Slack workspace export. Everyone who appears also gets their
+ * Slack username as a handle, so "@jdoe" resolves to them.
+ */
+export function ingestSlackExport(
+  data: SlackExport,
+  options: SlackIngestOptions = {}
+): BatchIngestResult {
+  const result = ingestNormalizedMessages(normalizeSlackExport(data, options));
+
+  transaction(() => {
+    for (const user of data.users) {
+      const [entity] = findEntitiesByAlias(user.id, { type: 'handle', source: 'slack', entityType: 'person' });
+      if (entity && user.name) {
+        addEntityAlias(entity.entityId, user.name, { type: 'handle', source: 'slack' });
+      }
+    }
+  });
+
+  return toBatchResult('slack', data.messages.length, result);
+}
+
+/**
+ * Ingest a WhatsApp chat export (the text of _chat.txt)
+ */
+export function ingestWhatsAppChat(text: string, options: WhatsAppOptions): BatchIngestResult {
+  const normalized = normalizeWhatsAppChat(text, options);
+  return toBatchResult('whatsapp', normalized.length, ingestNormalizedMessages(normalized));
+}
+
+/**
+ * Ingest a Telegram Desktop export (result.json)
+ */
+export function ingestTelegramExport(
+  data: TelegramExport | TelegramChat,
+  options: TelegramOptions = {}
+): BatchIngestResult {
+  const total = telegramChats(data).reduce((sum, chat) => sum + chat.messages.length, 0);
+  return toBatchResult('telegram', total, ingestNormalizedMessages(normalizeTelegramExport(data, options)));
+}
+
+/**
+ * Ingest a Signal backup
+ */
+export function ingestSignalBackup(data: SignalBackup, options: SignalOptions = {}): BatchIngestResult {
+  return toBatchResult('signal', data.messages.length, ingestNormalizedMessages(normalizeSignalBackup(data, options)));
+}
+
+export interface MailboxIngestProgress {
+  messagesRead: number;
+  messagesIngested: number;
+  errorCount: number;
+  bytesRead?: number;    // mbox only
+  totalBytes?: number;
+}
+
+export interface MailboxIngestOptions {
+  userEmail?: string;
+  batchSize?: number;    // Messages stored per transaction (default 200)
+  onProgress?: (progress: MailboxIngestProgress) => void;
+}
+
+/**
+ * Ingest an mbox file, a .eml file, or a directory of .eml files, streaming
+ * messages through ingestNormalizedMessages in batches. `onProgress` is
+ * called after each batch.
+ */
+export async function ingestMailbox(
+  target: string,
+  options: MailboxIngestOptions = {}
+): Promise<BatchIngestResult> {
+  const batchSize = options.batchSize ?? 200;
+  const isMbox = fs.statSync(target).isFile() && !target.toLowerCase().endsWith('.eml');
+  const progress: MailboxIngestProgress = {
+    messagesRead: 0,
+    messagesIngested: 0,
+    errorCount: 0,
+    ...(isMbox ? { bytesRead: 0, totalBytes: fs.statSync(target).size } : {}),
+  };
+  const result: BatchIngestResult = {
+    sourceType: 'email',
+    totalReceived: 0,
+    successCount: 0,
+    skipCount: 0,
+    errorCount: 0,
+    errors: [],
+    entitiesCreated: 0,
+    entitiesMerged: 0,
+  };
+
+  // Threads of messages in the pending batch, which aren't in the db yet
+  const pendingThreads = new Map<string, string>();
+  const threadStmt = getDb().prepare(`SELECT thread_id FROM messages WHERE source_type = 'email' AND source_id = ?`);
+  const threadOf = (messageId: string) =>
+    pendingThreads.get(messageId) ??
+    (threadStmt.get(messageId) as { thread_id: string | null } | undefined)?.thread_id ??
+    undefined;
+
+  let batch: NormalizedMessage[] = [];
+  const flush = () => {
+    const batchResult = ingestNormalizedMessages(batch);
+    result.successCount += batchResult.messagesIngested;
+    result.entitiesCreated += batchResult.entitiesCreated;
+    result.errors.push(...batchResult.errors);
+    batch = [];
+    pendingThreads.clear();
+
+    progress.messagesIngested = result.successCount;
+    progress.errorCount = result.errors.length;
+    options.onProgress?.({ ...progress });
   };
+
+  const messages: AsyncIterable<RawMailboxMessage> = isMbox
+    ? readMbox(target, bytes => { progress.bytesRead = bytes; })
+    : readEmlFiles(listEmlFiles(target));
+
+  for await (const message of messages) {
+    result.totalReceived++;
+    progress.messagesRead++;
+
+    try {
+      const normalized = normalizeEmail(parseEmail(message.raw), {
+        userEmail: options.userEmail,
+        envelopeDate: message.envelopeDate,
+        threadOf,
+      });
+      if (isNaN(normalized.timestamp.getTime())) {
+        throw new Error('Message has no readable date');
+      }
+
+      pendingThreads.set(normalized.sourceId, normalized.threadId!);
+      batch.push(normalized);
+    } catch (error) {
+      result.errors.push({ sourceId: message.location, error: (error as Error).message });
+    }
+
+    if (batch.length >= batchSize) flush();
+  }
+  flush();
+
+  result.errorCount = result.errors.length;
+  result.skipCount = result.totalReceived - result.successCount - result.errorCount;
+  return result;
+}
+
+const BACKFILL_BATCH_SIZE = 500;
+
+/**
+ * Clean the bodies of emails stored before messages.body_clean existed,
+ * a batch at a time. Returns how many were looked at; each is flagged
+ * (body_cleaned), so a forward with no comment of its own that stays NULL
+ * isn't looked at again.
+ */
+export function backfillCleanedBodies(): number {
+  const db = getDb();
+
+  const select = db.prepare(`
+    SELECT id, body_text FROM messages
+    WHERE body_cleaned = 0 AND source_type IN ('gmail', 'email')
+    LIMIT ?
+  `);
+  const update = db.prepare('UPDATE messages SET body_clean = ?, body_cleaned = 1 WHERE id = ?');
+
+  let total = 0;
+  for (;;) {
+    const rows = select.all(BACKFILL_BATCH_SIZE) as Array<{ id: string; body_text: string }>;
+    if (rows.length === 0) return total;
+
+    transaction(() => {
+      for (const row of rows) {
+        update.run(cleanMessageBody(row.body_text).text || null, row.id);
+      }
+    });
+    total += rows.length;
+  }
 }
 
 /**
@@ -348,7 +641,7 @@ export function getUnprocessedMessages(limit: number = 100): Array<{
   const db = getDb();
 
   const rows = db.prepare(`
-    SELECT id, body_text, sender_entity_id
+    SELECT id, COALESCE(body_clean, body_text) AS body_text, sender_entity_id
     FROM messages
     WHERE processed = 0
     ORDER BY timestamp DESC
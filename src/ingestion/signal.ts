@@ -0,0 +1,122 @@
+// Signal ingestion
+//
+// Normalises a Signal backup in JSON form: the conversations and messages
+// of Signal Desktop's database. Private conversations carry the contact's
+// phone number and name; group messages name their sender by phone.
+
+import * as fs from 'fs';
+import { normalizePhone } from './phone';
+import type { SignalBackup, SignalConversation, SignalMessage } from './types';
+import type { NormalizedMessage } from '../types';
+
+export interface SignalOptions {
+  userPhone?: string;
+  userName?: string;
+}
+
+type Participant = { phone?: string; handle?: string; name?: string };
+
+/**
+ * Read a backup JSON file
+ */
+export function readSignalBackup(file: string): SignalBackup {
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as SignalBackup;
+}
+
+/**
+ * Identifier for the person behind a private conversation
+ */
+function contact(conversation: SignalConversation): Participant {
+  return {
+    phone: conversation.e164 ? normalizePhone(conversation.e164) ?? conversation.e164 : undefined,
+    handle: conversation.e164 ? undefined : conversation.serviceId,
+    name: conversation.name || conversation.profileName || undefined,
+  };
+}
+
+function messageText(message: SignalMessage): string {
+  const attachments = (message.attachments ?? []).map(a =>
+    a.fileName ? `[attachment: ${a.fileName}]` : `[${a.contentType?.split('/')[0] ?? 'attachment'}]`
+  );
+  return [...attachments, message.body?.trim() ?? ''].filter(Boolean).join('\n');
+}
+
+/**
+ * Normalize a Signal backup. Only incoming and outgoing messages are kept
+ * (not safety number changes, timer updates, ...).
+ */
+export function normalizeSignalBackup(data: SignalBackup, options: SignalOptions = {}): NormalizedMessage[] {
+  const conversations = new Map(data.conversations.map(c => [c.id, c]));
+  const userPhone = options.userPhone ? normalizePhone(options.userPhone) ?? undefined : undefined;
+  const user: Participant | undefined = userPhone || options.userName
+    ? { phone: userPhone, name: options.userName }
+    : undefined;
+
+  // Private conversations double as the contact list for group senders
+  const byPhone = new Map<string, SignalConversation>();
+  const byServiceId = new Map<string, SignalConversation>();
+  for (const conversation of data.conversations) {
+    if (conversation.type !== 'private') continue;
+    const phone = conversation.e164 ? normalizePhone(conversation.e164) : null;
+    if (phone) byPhone.set(phone, conversation);
+    if (conversation.serviceId) byServiceId.set(conversation.serviceId, conversation);
+  }
+
+  const members = (conversation: SignalConversation): Participant[] => conversation.type === 'private'
+    ? [contact(conversation)]
+    : (conversation.members ?? [])
+      .map(id => conversations.get(id))
+      .filter((c): c is SignalConversation => c !== undefined)
+      .map(contact);
+
+  const normalized: NormalizedMessage[] = [];
+  for (const message of data.messages) {
+    if (message.type !== 'incoming' && message.type !== 'outgoing') continue;
+    const conversation = conversations.get(message.conversationId);
+    const bodyText = messageText(message);
+    if (!conversation || !bodyText) continue;
+
+    const isFromUser = message.type === 'outgoing';
+    let sender: Participant;
+    if (isFromUser) {
+      sender = user ?? {};
+    } else if (conversation.type === 'private') {
+      sender = contact(conversation);
+    } else {
+      const phone = message.source ? normalizePhone(message.source) ?? message.source : undefined;
+      const known = (phone && byPhone.get(phone)) || (message.sourceServiceId && byServiceId.get(message.sourceServiceId));
+      sender = known ? contact(known) : { phone, handle: phone ? undefined : message.sourceServiceId };
+    }
+
+    const same = (a: Participant, b: Participant) =>
+      (a.phone !== undefined && a.phone === b.phone) || (a.handle !== undefined && a.handle === b.handle);
+    const recipients: Array<Participant & { type: 'to' }> = [];
+    for (const p of [...members(conversation), ...(user && !isFromUser ? [user] : [])]) {
+      if (!same(p, sender) && !recipients.some(r => same(r, p))) recipients.push({ ...p, type: 'to' });
+    }
+
+    normalized.push({
+      id: `signal:${message.id}`,
+      sourceType: 'signal',
+      sourceId: message.id,
+      threadId: `signal:${conversation.id}`,
+
+      sender,
+      recipients,
+
+      bodyText,
+      // The backup has no file contents, only what the files were
+      attachments: message.attachments?.length
+        ? message.attachments.map(a => ({
+          filename: a.fileName ?? 'attachment',
+          mimeType: a.contentType ?? 'application/octet-stream',
+        }))
+        : undefined,
+
+      timestamp: new Date(message.sent_at),
+      isFromUser,
+    });
+  }
+
+  return normalized;
+}
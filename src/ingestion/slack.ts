@@ -0,0 +1,258 @@
+// Slack ingestion
+//
+// Reads a workspace export (the directory Slack's export zip unpacks to:
+// users.json, channels.json, groups.json, dms.json, mpims.json, and one
+// folder per conversation holding a JSON file per day) and normalises its
+// messages. People are keyed by their Slack user id as a handle, plus their
+// email when the export includes it.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SlackMessage, SlackUser, SlackChannel, SlackExport } from './types';
+import type { NormalizedMessage } from '../types';
+
+export interface SlackIngestOptions {
+  userSlackId?: string;    // The user's own Slack id (default: looked up by userEmail)
+  userEmail?: string;
+  maxRecipients?: number;  // Channels with more members only count @-mentions as recipients (default 50)
+}
+
+/**
+ * Users and channels of an export, indexed by id
+ */
+export interface SlackWorkspace {
+  users: Map<string, SlackUser>;
+  channels: Map<string, SlackChannel>;
+}
+
+// Membership and housekeeping notices, not conversation
+const SKIPPED_SUBTYPES = new Set([
+  'channel_join', 'channel_leave', 'channel_topic', 'channel_purpose', 'channel_name',
+  'channel_archive', 'channel_unarchive', 'group_join', 'group_leave', 'group_topic',
+  'group_purpose', 'group_name', 'group_archive', 'group_unarchive', 'pinned_item',
+  'unpinned_item', 'bot_message', 'bot_add', 'bot_remove', 'tombstone',
+]);
+
+const SLACKBOT_ID = 'USLACKBOT';
+
+// ============================================================
+// EXPORT READING
+// ============================================================
+
+function readJson<T>(file: string): T {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+  } catch (error) {
+    throw new Error(`Invalid Slack export file ${file}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Read an unzipped Slack workspace export
+ */
+export function readSlackExport(dir: string): SlackExport {
+  if (!fs.existsSync(path.join(dir, 'users.json'))) {
+    throw new Error(`Not a Slack export directory (no users.json): ${dir}`);
+  }
+
+  const users = readJson<SlackUser[]>(path.join(dir, 'users.json'));
+  const channels: SlackChannel[] = [];
+  const lists: Array<[string, SlackChannel['kind']]> = [
+    ['channels.json', 'channel'],
+    ['groups.json', 'group'],
+    ['dms.json', 'dm'],
+    ['mpims.json', 'mpim'],
+  ];
+  for (const [file, kind] of lists) {
+    if (!fs.existsSync(path.join(dir, file))) continue;
+    for (const channel of readJson<Array<Omit<SlackChannel, 'kind'>>>(path.join(dir, file))) {
+      channels.push({ id: channel.id, name: channel.name, members: channel.members, kind });
+    }
+  }
+
+  // Conversation folders are named after the channel, or its id for DMs
+  const messages: SlackMessage[] = [];
+  for (const channel of channels) {
+    const folder = path.join(dir, channel.name ?? channel.id);
+    if (!fs.existsSync(folder) || !fs.statSync(folder).isDirectory()) continue;
+
+    const days = fs.readdirSync(folder).filter(f => f.endsWith('.json')).sort();
+    for (const day of days) {
+      for (const message of readJson<Array<Omit<SlackMessage, 'channel'> & { type?: string }>>(path.join(folder, day))) {
+        if (message.type && message.type !== 'message') continue;
+        messages.push({ ...message, channel: channel.id });
+      }
+    }
+  }
+
+  return { users, channels, messages };
+}
+
+/**
+ * Index an export's users and channels by id
+ */
+export function indexSlackWorkspace(data: Pick<SlackExport, 'users' | 'channels'>): SlackWorkspace {
+  return {
+    users: new Map(data.users.map(u => [u.id, u])),
+    channels: new Map(data.channels.map(c => [c.id, c])),
+  };
+}
+
+/**
+ * Name to show for a Slack user
+ */
+export function slackUserName(user: SlackUser): string {
+  return user.profile?.real_name || user.real_name || user.profile?.display_name || user.name;
+}
+
+/**
+ * Convert Slack timestamp ("1700000000.000200", seconds) to JavaScript Date
+ */
+function slackTsToDate(ts: string): Date {
+  return new Date(Math.round(parseFloat(ts) * 1000));
+}
+
+// ============================================================
+// MRKDWN
+// ============================================================
+
+/**
+ * Convert Slack mrkdwn to plain text: mentions become "@Name" and
+ * "#channel", links keep their URL, formatting marks and quote markers are
+ * dropped, and HTML entities are decoded
+ */
+export function slackToPlainText(text: string, workspace?: SlackWorkspace): string {
+  let out = text.replace(/<([^<>]+)>/g, (_match, inner: string) => {
+    const bar = inner.indexOf('|');
+    const target = bar === -1 ? inner : inner.slice(0, bar);
+    const label = bar === -1 ? undefined : inner.slice(bar + 1);
+
+    if (target.startsWith('@')) {
+      const user = workspace?.users.get(target.slice(1));
+      return '@' + (user ? slackUserName(user) : label?.replace(/^@/, '') ?? target.slice(1));
+    }
+    if (target.startsWith('#')) {
+      return '#' + (label ?? workspace?.channels.get(target.slice(1))?.name ?? target.slice(1));
+    }
+    if (target.startsWith('!')) {
+      // <!here>, <!channel>, <!subteam^S123|@team>, <!date^1700000000^{date}|Nov 14>
+      const command = target.slice(1).split('^')[0]!;
+      if (label !== undefined) return label;
+      return command === 'date' ? '' : '@' + command;
+    }
+
+    const url = target.replace(/^mailto:/, '');
+    return label && label !== url ? `${label} (${url})` : url;
+  });
+
+  out = out
+    .replace(/```\n?([\s\S]*?)\n?```/g, '$1')
+    .replace(/`([^`\n]+)`/g, '$1')
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/g, '$1$2')
+    .replace(/(^|[^\w_])_(?=\S)([^_\n]*?\S)_(?![\w_])/g, '$1$2')
+    .replace(/(^|[^\w~])~(?=\S)([^~\n]*?\S)~(?![\w~])/g, '$1$2')
+    .replace(/^&gt;\s?/gm, '');
+
+  return out
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+// ============================================================
+// NORMALIZATION
+// ============================================================
+
+function participant(userId: string, workspace: SlackWorkspace, fallback: { email?: string; name?: string } = {}) {
+  const user = workspace.users.get(userId);
+  return {
+    handle: userId,
+    email: (user?.profile?.email ?? fallback.email)?.toLowerCase(),
+    name: user ? slackUserName(user) : fallback.name,
+  };
+}
+
+function isPerson(userId: string, workspace: SlackWorkspace): boolean {
+  return userId !== SLACKBOT_ID && !workspace.users.get(userId)?.is_bot;
+}
+
+/**
+ * The user's own Slack id, given directly or found by email
+ */
+export function findSlackUserId(workspace: SlackWorkspace, options: SlackIngestOptions): string | undefined {
+  if (options.userSlackId) return options.userSlackId;
+  if (!options.userEmail) return undefined;
+
+  const email = options.userEmail.toLowerCase();
+  for (const user of workspace.users.values()) {
+    if (user.profile?.email?.toLowerCase() === email) return user.id;
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a Slack message to our standard format. Returns null for bot
+ * messages, membership notices and other non-conversation messages.
+ * Recipients are the other members of the conversation (only the
+ * @-mentioned ones in channels larger than `maxRecipients`).
+ */
+export function normalizeSlackMessage(
+  raw: SlackMessage,
+  workspace: SlackWorkspace,
+  options: SlackIngestOptions = {}
+): NormalizedMessage | null {
+  if (!raw.user || !isPerson(raw.user, workspace)) return null;
+  if (raw.subtype && SKIPPED_SUBTYPES.has(raw.subtype)) return null;
+
+  const bodyText = slackToPlainText(raw.text ?? '', workspace);
+  if (!bodyText) return null;
+
+  const channel = workspace.channels.get(raw.channel);
+  const userSlackId = findSlackUserId(workspace, options);
+  const maxRecipients = options.maxRecipients ?? 50;
+
+  const recipientIds = new Set<string>();
+  const members = channel?.members ?? [];
+  if (members.length <= maxRecipients) {
+    for (const member of members) recipientIds.add(member);
+  }
+  for (const mention of raw.text?.matchAll(/<@([A-Z0-9]+)(?:\|[^>]*)?>/g) ?? []) {
+    recipientIds.add(mention[1]!);
+  }
+  recipientIds.delete(raw.user);
+
+  const recipients = Array.from(recipientIds)
+    .filter(id => isPerson(id, workspace))
+    .map(id => ({ ...participant(id, workspace), type: 'to' as const }));
+
+  const isChannel = channel?.kind === 'channel' || channel?.kind === 'group';
+
+  return {
+    id: `slack:${raw.channel}:${raw.ts}`,
+    sourceType: 'slack',
+    sourceId: `${raw.channel}:${raw.ts}`,
+    threadId: raw.thread_ts ? `${raw.channel}:${raw.thread_ts}` : raw.channel,
+
+    sender: participant(raw.user, workspace, { email: raw.user_email, name: raw.user_name }),
+    recipients,
+
+    subject: isChannel && channel?.name ? `#${channel.name}` : undefined,
+    bodyText,
+
+    timestamp: slackTsToDate(raw.ts),
+    isFromUser: userSlackId !== undefined && raw.user === userSlackId,
+  };
+}
+
+/**
+ * Normalize every conversation message in an export
+ */
+export function normalizeSlackExport(data: SlackExport, options: SlackIngestOptions = {}): NormalizedMessage[] {
+  const workspace = indexSlackWorkspace(data);
+  const userSlackId = findSlackUserId(workspace, options);
+
+  return data.messages
+    .map(msg => normalizeSlackMessage(msg, workspace, { ...options, userSlackId }))
+    .filter((msg): msg is NormalizedMessage => msg !== null);
+}
@@ -0,0 +1,108 @@
+// Telegram ingestion
+//
+// Normalises Telegram Desktop's JSON export (result.json), either a single
+// chat or "Export Telegram data" with every chat. People are keyed by their
+// Telegram id ("user123456") as a handle.
+
+import * as fs from 'fs';
+import type { TelegramExport, TelegramChat, TelegramMessage } from './types';
+import type { NormalizedMessage } from '../types';
+
+export interface TelegramOptions {
+  userTelegramId?: string;   // "user123456" (default: personal_information in a full export)
+}
+
+/**
+ * Read a result.json
+ */
+export function readTelegramExport(file: string): TelegramExport | TelegramChat {
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as TelegramExport | TelegramChat;
+}
+
+/**
+ * Chats in a single-chat or full export
+ */
+export function telegramChats(data: TelegramExport | TelegramChat): TelegramChat[] {
+  return 'messages' in data ? [data] : data.chats?.list ?? [];
+}
+
+/**
+ * Message text: formatted text arrives as a list of plain strings and
+ * entities ({ type: 'bold', text }) to join
+ */
+function messageText(message: TelegramMessage): string {
+  const text = typeof message.text === 'string'
+    ? message.text
+    : message.text.map(part => typeof part === 'string' ? part : part.text).join('');
+
+  const media = message.photo ? '[photo]'
+    : message.media_type === 'sticker' ? `[sticker${message.sticker_emoji ? ` ${message.sticker_emoji}` : ''}]`
+    : message.media_type ? `[${message.media_type.replace(/_/g, ' ')}]`
+    : message.file ? `[attachment: ${message.file.split('/').pop()}]`
+    : '';
+
+  return [media, text.trim()].filter(Boolean).join('\n');
+}
+
+function messageDate(message: TelegramMessage): Date {
+  return message.date_unixtime
+    ? new Date(parseInt(message.date_unixtime, 10) * 1000)
+    : new Date(message.date);
+}
+
+/**
+ * Normalize a Telegram export. Recipients of each message are the other
+ * people who wrote in the chat, plus the user.
+ */
+export function normalizeTelegramExport(
+  data: TelegramExport | TelegramChat,
+  options: TelegramOptions = {}
+): NormalizedMessage[] {
+  const self = 'personal_information' in data ? data.personal_information : undefined;
+  const userId = options.userTelegramId ?? (self ? `user${self.user_id}` : undefined);
+  const normalized: NormalizedMessage[] = [];
+
+  // The user's own phone links them to their entity from other sources
+  const participant = (id: string, name: string | undefined) => id === userId && self
+    ? {
+      handle: id,
+      name: name ?? ([self.first_name, self.last_name].filter(Boolean).join(' ') || undefined),
+      phone: self.phone_number,
+    }
+    : { handle: id, name };
+
+  for (const chat of telegramChats(data)) {
+    const messages = chat.messages.filter(m => m.type === 'message' && m.from_id?.startsWith('user'));
+
+    // Participants by id, with the latest name they wrote under
+    const participants = new Map<string, string | undefined>();
+    for (const message of messages) participants.set(message.from_id!, message.from ?? participants.get(message.from_id!));
+    if (userId && !participants.has(userId)) participants.set(userId, undefined);
+
+    for (const message of messages) {
+      const bodyText = messageText(message);
+      if (!bodyText) continue;
+
+      const senderId = message.from_id!;
+      const sourceId = `${chat.id}:${message.id}`;
+      normalized.push({
+        id: `telegram:${sourceId}`,
+        sourceType: 'telegram',
+        sourceId,
+        threadId: `telegram:${chat.id}`,
+
+        sender: participant(senderId, message.from ?? undefined),
+        recipients: Array.from(participants)
+          .filter(([id]) => id !== senderId)
+          .map(([id, name]) => ({ ...participant(id, name), type: 'to' as const })),
+
+        bodyText,
+
+        timestamp: messageDate(message),
+        isFromUser: senderId === userId,
+      });
+    }
+  }
+
+  return normalized;
+}
@@ -16,17 +16,22 @@ export interface GmailMessage {
       data?: string;  // Base64 encoded
       size?: number;
     };
-    parts?: Array<{
-      mimeType?: string;
-      body?: {
-        data?: string;
-        size?: number;
-      };
-    }>;
+    parts?: GmailMessagePart[];
   };
   internalDate?: string;  // Unix timestamp in ms
 }
 
+export interface GmailMessagePart {
+  mimeType?: string;
+  filename?: string;         // Set for attachments
+  body?: {
+    data?: string;
+    size?: number;
+    attachmentId?: string;   // Attachment bodies are fetched separately unless inlined in data
+  };
+  parts?: GmailMessagePart[];
+}
+
 // iMessage format (from SQLite chat.db)
 export interface IMessageMessage {
   guid: string;
@@ -55,15 +60,111 @@ export interface SlackMessage {
   user: string;
   text: string;
   thread_ts?: string;
+  subtype?: string;  // 'channel_join', 'bot_message', ... (absent for ordinary messages)
 
   // Resolved user info
   user_email?: string;
   user_name?: string;
 }
 
+// Slack workspace export (users.json, channels.json, ...)
+export interface SlackUser {
+  id: string;
+  name: string;  // Username ("jdoe")
+  real_name?: string;
+  deleted?: boolean;
+  is_bot?: boolean;
+  profile?: {
+    email?: string;
+    real_name?: string;
+    display_name?: string;
+  };
+}
+
+export interface SlackChannel {
+  id: string;
+  name?: string;  // Absent for DMs
+  members?: string[];
+  kind: 'channel' | 'group' | 'dm' | 'mpim';  // Which export file it came from
+}
+
+export interface SlackExport {
+  users: SlackUser[];
+  channels: SlackChannel[];
+  messages: SlackMessage[];  // channel filled in from the export folder
+}
+
+// WhatsApp chat export (_chat.txt), parsed into lines
+export interface WhatsAppMessage {
+  timestamp: Date;          // Phone's local time
+  sender: string;           // Display name, or phone number if not a contact
+  text: string;             // Multi-line messages joined with newlines
+}
+
+// Telegram Desktop export (result.json), either one chat or a full export
+export interface TelegramMessage {
+  id: number;
+  type: 'message' | 'service';
+  date: string;             // Local time, "2024-03-12T10:15:32"
+  date_unixtime?: string;   // Seconds, in newer exports
+  from?: string;            // Display name
+  from_id?: string;         // "user123456", "channel123"
+  text: string | Array<string | { type: string; text: string }>;
+  reply_to_message_id?: number;
+  media_type?: string;      // 'sticker', 'voice_message', 'video_file', ...
+  photo?: string;
+  file?: string;
+  sticker_emoji?: string;
+}
+
+export interface TelegramChat {
+  id: number;
+  name?: string;
+  type: string;             // 'personal_chat', 'private_group', 'private_supergroup', ...
+  messages: TelegramMessage[];
+}
+
+export interface TelegramExport {
+  personal_information?: {
+    user_id: number;
+    first_name?: string;
+    last_name?: string;
+    phone_number?: string;
+  };
+  chats?: { list: TelegramChat[] };
+}
+
+// Signal backup as JSON: the conversations and messages of Signal
+// Desktop's database, as dumped by backup tools
+export interface SignalConversation {
+  id: string;
+  type: 'private' | 'group';
+  name?: string;            // Contact or group name
+  profileName?: string;
+  e164?: string;            // Phone number of a private conversation
+  serviceId?: string;       // ACI (uuid) of a private conversation
+  members?: string[];       // Group member conversation ids
+}
+
+export interface SignalMessage {
+  id: string;
+  conversationId: string;
+  type: 'incoming' | 'outgoing' | string;  // Others are notices (keychange, timer, ...)
+  sent_at: number;          // Milliseconds
+  source?: string;          // Sender's phone number (incoming)
+  sourceServiceId?: string; // Sender's ACI (incoming)
+  body?: string;
+  attachments?: Array<{ fileName?: string; contentType?: string }>;
+}
+
+export interface SignalBackup {
+  conversations: SignalConversation[];
+  messages: SignalMessage[];
+}
+
 // Ingestion batch result
 export interface BatchIngestResult {
-  sourceType: 'gmail' | 'imessage' | 'slack';
+  sourceType: 'gmail' | 'imessage' | 'slack' | 'email' | 'whatsapp' | 'telegram' | 'signal';
   totalReceived: number;
   successCount: number;
   skipCount: number;  // Duplicates
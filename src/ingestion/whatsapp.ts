@@ -0,0 +1,205 @@
+// WhatsApp ingestion
+//
+// Parses the _chat.txt of WhatsApp's "Export chat". The line format depends
+// on the phone and its locale:
+//   iOS:     [12/03/2024, 10:15:32] Dana Ruiz: See you there
+//   Android: 12/03/2024, 10:15 - Dana Ruiz: See you there
+//            3/12/24, 10:15 PM - +1 415 555 0142: See you there
+// Lines without a timestamp continue the previous message. Participants
+// are display names, or phone numbers for people not in the contacts.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { normalizePhone } from './phone';
+import type { WhatsAppMessage } from './types';
+import type { NormalizedMessage } from '../types';
+
+export interface WhatsAppOptions {
+  chatName: string;                     // Chat title, e.g. from "WhatsApp Chat with Dana Ruiz.txt"
+  userName?: string;                    // The user's own name as it appears in the export
+  userPhone?: string;
+  dateOrder?: 'DMY' | 'MDY' | 'YMD';    // Default: inferred from the dates, else DMY (MDY with AM/PM)
+}
+
+const LINE = /^\[?(\d{1,4})[./-](\d{1,2})[./-](\d{1,4}),?\s+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:[\s\u202f]?([AaPp])\.?\s?[Mm]\.?)?\]?(?:\s+-)?\s+(.*)$/;
+
+const BIDI_MARKS = /[\u200e\u200f\u202a-\u202e]/g;
+
+// Media placeholders, per platform
+const MEDIA: Array<[RegExp, (m: RegExpMatchArray) => string]> = [
+  [/^<Media omitted>$/i, () => '[media]'],
+  [/^(image|video|audio|sticker|GIF|document|Contact card) omitted$/i, m => `[${m[1]!.toLowerCase()}]`],
+  [/^<attached: (.+)>$/, m => `[attachment: ${m[1]}]`],
+  [/^(.+\.\w{2,5}) \(file attached\)$/, m => `[attachment: ${m[1]}]`],
+];
+
+const DELETED = /^(This message was deleted|You deleted this message|Waiting for this message.*)$/i;
+
+// ============================================================
+// PARSING
+// ============================================================
+
+interface RawLine {
+  parts: [number, number, number];
+  hour: number;
+  minute: number;
+  second: number;
+  meridiem?: 'a' | 'p';
+  rest: string;
+  marked: boolean;   // iOS starts system notices and media with a left-to-right mark
+}
+
+/**
+ * Which of the three date fields is the day, month and year. Unambiguous
+ * dates decide; otherwise fall back to the option or the clock style.
+ */
+function inferDateOrder(lines: RawLine[], fallback?: WhatsAppOptions['dateOrder']): 'DMY' | 'MDY' | 'YMD' {
+  if (lines.some(l => l.parts[0] > 31)) return 'YMD';
+  if (lines.some(l => l.parts[0] > 12)) return 'DMY';
+  if (lines.some(l => l.parts[1] > 12)) return 'MDY';
+  if (fallback) return fallback;
+  return lines.some(l => l.meridiem) ? 'MDY' : 'DMY';
+}
+
+function lineDate(line: RawLine, order: 'DMY' | 'MDY' | 'YMD'): Date {
+  const [a, b, c] = line.parts;
+  const [day, month, year] = order === 'DMY' ? [a, b, c] : order === 'MDY' ? [b, a, c] : [c, b, a];
+
+  let hour = line.hour;
+  if (line.meridiem === 'p' && hour < 12) hour += 12;
+  if (line.meridiem === 'a' && hour === 12) hour = 0;
+
+  return new Date(year < 100 ? 2000 + year : year, month - 1, day, hour, line.minute, line.second);
+}
+
+/**
+ * Parse a _chat.txt into messages. System notices (encryption banners,
+ * members joining) and deleted messages are dropped; media placeholders
+ * become "[image]", "[attachment: name]", ...
+ */
+export function parseWhatsAppChat(text: string, options: Pick<WhatsAppOptions, 'dateOrder'> = {}): WhatsAppMessage[] {
+  const lines: RawLine[] = [];
+
+  for (const rawLine of text.replace(/^\ufeff/, '').split(/\r?\n/)) {
+    const line = rawLine.replace(BIDI_MARKS, '');
+    const match = line.match(LINE);
+    if (match) {
+      lines.push({
+        parts: [parseInt(match[1]!, 10), parseInt(match[2]!, 10), parseInt(match[3]!, 10)],
+        hour: parseInt(match[4]!, 10),
+        minute: parseInt(match[5]!, 10),
+        second: match[6] ? parseInt(match[6], 10) : 0,
+        meridiem: match[7]?.toLowerCase() as 'a' | 'p' | undefined,
+        rest: match[8]!,
+        marked: /: \u200e/.test(rawLine),
+      });
+    } else if (lines.length > 0) {
+      lines[lines.length - 1]!.rest += '\n' + line;
+    }
+  }
+
+  const order = inferDateOrder(lines, options.dateOrder);
+  const messages: WhatsAppMessage[] = [];
+
+  for (const line of lines) {
+    const colon = line.rest.indexOf(': ');
+    if (colon <= 0) continue;   // Android system notice: no sender
+
+    const sender = line.rest.slice(0, colon).trim();
+    let body = line.rest.slice(colon + 2).replace(/\s*<This message was edited>$/, '').trim();
+
+    const media = MEDIA.find(([pattern]) => pattern.test(body.split('\n')[0]!));
+    if (media) {
+      const [first, ...caption] = body.split('\n');
+      body = [media[1](first!.match(media[0])!), ...caption].join('\n');
+    } else if (line.marked || DELETED.test(body)) {
+      continue;   // iOS system notice, or deleted
+    }
+
+    if (body) messages.push({ timestamp: lineDate(line, order), sender, text: body });
+  }
+
+  return messages;
+}
+
+/**
+ * Read a chat export file. The chat name comes from the file name
+ * ("WhatsApp Chat with Dana Ruiz.txt") or, for _chat.txt, its folder
+ * ("WhatsApp Chat - Dana Ruiz").
+ */
+export function readWhatsAppChat(file: string): { text: string; chatName: string } {
+  const base = path.basename(file, path.extname(file));
+  const titled = base.toLowerCase() === '_chat' ? path.basename(path.dirname(path.resolve(file))) : base;
+  return {
+    text: fs.readFileSync(file, 'utf-8'),
+    chatName: titled.replace(/^WhatsApp Chat( with| -)\s*/i, '').trim() || base,
+  };
+}
+
+// ============================================================
+// NORMALIZATION
+// ============================================================
+
+/**
+ * Identifier for a participant: phone numbers as phones, anything else as
+ * a display name
+ */
+function participant(sender: string): { phone?: string; name?: string } {
+  if (/^\+?[\d\s().-]{7,}$/.test(sender)) {
+    const phone = normalizePhone(sender);
+    if (phone) return { phone };
+  }
+  return { name: sender };
+}
+
+/**
+ * Normalize a WhatsApp chat export. Recipients of each message are the
+ * other people who appear in the chat, plus the user.
+ */
+export function normalizeWhatsAppChat(text: string, options: WhatsAppOptions): NormalizedMessage[] {
+  const messages = parseWhatsAppChat(text, options);
+  const userPhone = options.userPhone ? normalizePhone(options.userPhone) ?? undefined : undefined;
+  const isUser = (sender: string) =>
+    (options.userName !== undefined && sender.toLowerCase() === options.userName.toLowerCase()) ||
+    (userPhone !== undefined && participant(sender).phone === userPhone);
+
+  const user = userPhone || options.userName
+    ? { phone: userPhone, name: options.userName }
+    : undefined;
+  const others = Array.from(new Set(messages.map(m => m.sender))).filter(s => !isUser(s));
+
+  const seen = new Map<string, number>();
+  return messages.map(message => {
+    const fromUser = isUser(message.sender);
+
+    // Identical lines in the same minute stay distinct but stable across re-imports
+    const key = createHash('sha1')
+      .update([options.chatName, message.timestamp.toISOString(), message.sender, message.text].join('\n'))
+      .digest('hex')
+      .slice(0, 20);
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    const sourceId = occurrence ? `${key}:${occurrence}` : key;
+
+    const recipients = [
+      ...others.filter(s => s !== message.sender).map(s => ({ ...participant(s), type: 'to' as const })),
+      ...(user && !fromUser ? [{ ...user, type: 'to' as const }] : []),
+    ];
+
+    return {
+      id: `whatsapp:${sourceId}`,
+      sourceType: 'whatsapp',
+      sourceId,
+      threadId: `whatsapp:${options.chatName}`,
+
+      sender: fromUser && user ? user : participant(message.sender),
+      recipients,
+
+      bodyText: message.text,
+
+      timestamp: message.timestamp,
+      isFromUser: fromUser,
+    };
+  });
+}
@@ -502,8 +502,10 @@ export function getScreensForEntity(entityId: string, options?: {
   // Get aliases
   const aliases = query<{ attribute_value: string }>(`
     SELECT attribute_value FROM entity_attributes
-    WHERE entity_id = ? AND attribute_type IN ('alias', 'email', 'first_name')
-  `, [entityId]);
+    WHERE entity_id = ? AND attribute_type IN ('email', 'first_name')
+    UNION
+    SELECT value FROM entity_aliases WHERE entity_id = ? AND alias_type = 'alias'
+  `, [entityId, entityId]);
 
   // Build search terms
   const searchTerms = [canonicalName, ...aliases.map(a => a.attribute_value)];
@@ -1,6 +1,8 @@
 // Personality/Style Extraction from messages
 
 import { getDb } from '../db/connection';
+import { getRelationshipStrength } from '../entity/decay';
+import { findUserEntityId } from '../entity/user';
 import type { StyleProfile, RecipientStyleProfile, RelationshipType } from '../types';
 
 /**
@@ -197,7 +199,7 @@ export function analyzeUserStyle(userId?: string): StyleProfile {
 
   // Get user's sent messages
   const messages = db.prepare(`
-    SELECT body_text FROM messages
+    SELECT COALESCE(body_clean, body_text) AS body_text FROM messages
     WHERE is_from_user = 1
     ORDER BY timestamp DESC
     LIMIT 500
@@ -287,7 +289,7 @@ export function analyzeRecipientStyle(recipientEntityId: string): RecipientStyle
 
   // Get messages from user to this recipient
   const messages = db.prepare(`
-    SELECT m.body_text, m.timestamp
+    SELECT COALESCE(m.body_clean, m.body_text) AS body_text, m.timestamp
     FROM messages m
     WHERE m.is_from_user = 1
       AND EXISTS (
@@ -366,8 +368,12 @@ export function analyzeRecipientStyle(recipientEntityId: string): RecipientStyle
   return profile;
 }
 
+/** Below this current edge strength a colleague or friend has drifted to an acquaintance */
+const FADED_STRENGTH = 0.15;
+
 /**
- * Infer relationship type from communication patterns
+ * Infer relationship type from communication patterns, discounting
+ * relationships whose edge to the user has decayed
  */
 export function inferRelationshipType(recipientEntityId: string): RelationshipType | null {
   const db = getDb();
@@ -377,7 +383,7 @@ export function inferRelationshipType(recipientEntityId: string): RelationshipTy
     SELECT
       COUNT(*) as total,
       SUM(CASE WHEN m.is_from_user = 1 THEN 1 ELSE 0 END) as sent,
-      AVG(LENGTH(m.body_text)) as avg_length
+      AVG(LENGTH(COALESCE(m.body_clean, m.body_text))) as avg_length
     FROM messages m
     WHERE m.sender_entity_id = ?
        OR EXISTS (
@@ -399,10 +405,10 @@ export function inferRelationshipType(recipientEntityId: string): RelationshipTy
       SELECT 1 FROM json_each(m.recipient_entity_ids) WHERE json_each.value = ?
     ))
     AND (
-      m.body_text LIKE '%meeting%'
-      OR m.body_text LIKE '%deadline%'
-      OR m.body_text LIKE '%project%'
-      OR m.body_text LIKE '%report%'
+      COALESCE(m.body_clean, m.body_text) LIKE '%meeting%'
+      OR COALESCE(m.body_clean, m.body_text) LIKE '%deadline%'
+      OR COALESCE(m.body_clean, m.body_text) LIKE '%project%'
+      OR COALESCE(m.body_clean, m.body_text) LIKE '%report%'
     )
   `).get(recipientEntityId, recipientEntityId) as { count: number };
 
@@ -413,10 +419,10 @@ export function inferRelationshipType(recipientEntityId: string): RelationshipTy
       SELECT 1 FROM json_each(m.recipient_entity_ids) WHERE json_each.value = ?
     ))
     AND (
-      m.body_text LIKE '%love you%'
-      OR m.body_text LIKE '%miss you%'
-      OR m.body_text LIKE '%dinner%'
-      OR m.body_text LIKE '%family%'
+      COALESCE(m.body_clean, m.body_text) LIKE '%love you%'
+      OR COALESCE(m.body_clean, m.body_text) LIKE '%miss you%'
+      OR COALESCE(m.body_clean, m.body_text) LIKE '%dinner%'
+      OR COALESCE(m.body_clean, m.body_text) LIKE '%family%'
     )
   `).get(recipientEntityId, recipientEntityId) as { count: number };
 
@@ -424,6 +430,11 @@ export function inferRelationshipType(recipientEntityId: string): RelationshipTy
   const personalRatio = personalPatterns.count / stats.total;
 
   if (personalRatio > 0.2) return 'family';
+
+  const userId = findUserEntityId();
+  const strength = userId ? getRelationshipStrength(userId, recipientEntityId) : null;
+  if (strength !== null && strength < FADED_STRENGTH) return 'acquaintance';
+
   if (workRatio > 0.3) return 'colleague';
   if (stats.total > 50) return 'friend';
   return 'acquaintance';
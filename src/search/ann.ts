@@ -0,0 +1,309 @@
+// Approximate nearest-neighbour layer for the SQLite vector store
+//
+// One HNSW index per (source type, dimensionality), built lazily from the
+// embeddings table on first query and kept current by storeEmbedding /
+// deleteEmbeddingsBySource. Rows removed behind our back (e.g. by the
+// messages delete trigger) are reconciled the next time an index loads,
+// and callers already skip ids that no longer resolve.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type Database from 'better-sqlite3';
+import { getDb } from '../db/connection';
+import { HnswIndex, DEFAULT_HNSW_CONFIG, decodeVector, type HnswConfig } from './hnsw';
+import type { EmbeddingChunk, VectorSearchResult } from './types';
+
+// ============================================================
+// CONFIG
+// ============================================================
+
+export interface VectorIndexConfig extends HnswConfig {
+  /** Use the ANN index at all (default true) */
+  enabled: boolean;
+  /** Stores with fewer vectors than this use the exact scan (default 5000) */
+  exactSearchThreshold: number;
+  /** Directory for persisted indexes; unset keeps them in memory only */
+  indexDir?: string;
+  /** Rebuild an index once this fraction of its nodes are tombstones (default 0.3) */
+  compactRatio: number;
+}
+
+const DEFAULT_CONFIG: VectorIndexConfig = {
+  ...DEFAULT_HNSW_CONFIG,
+  enabled: true,
+  exactSearchThreshold: 5000,
+  compactRatio: 0.3,
+};
+
+let config: VectorIndexConfig = { ...DEFAULT_CONFIG };
+
+/**
+ * Tune the ANN index. efSearch takes effect immediately; m and
+ * efConstruction apply to indexes built after the change.
+ */
+export function configureVectorIndex(overrides: Partial<VectorIndexConfig>): void {
+  const structural = (overrides.m !== undefined && overrides.m !== config.m)
+    || (overrides.efConstruction !== undefined && overrides.efConstruction !== config.efConstruction)
+    || ('indexDir' in overrides && overrides.indexDir !== config.indexDir);
+
+  config = { ...config, ...overrides };
+
+  if (structural) {
+    resetVectorIndexes();
+  }
+}
+
+export function getVectorIndexConfig(): VectorIndexConfig {
+  return { ...config };
+}
+
+// ============================================================
+// INDEX REGISTRY
+// ============================================================
+
+interface IndexedSource {
+  sourceId: string;
+  chunk?: EmbeddingChunk;
+}
+
+interface LoadedIndex {
+  index: HnswIndex;
+  sources: Map<string, IndexedSource>;  // embedding id -> source
+  dirty: boolean;
+}
+
+const indexes = new Map<string, LoadedIndex>();
+let indexedDb: Database.Database | null = null;
+
+/**
+ * Chunk columns of an embeddings row, if it holds a chunk vector
+ */
+export function rowToChunk(row: {
+  chunk_index: number | null;
+  chunk_start: number | null;
+  chunk_end: number | null;
+}): EmbeddingChunk | undefined {
+  if (row.chunk_index === null || row.chunk_start === null || row.chunk_end === null) return undefined;
+  return { index: row.chunk_index, start: row.chunk_start, end: row.chunk_end };
+}
+
+function indexKey(sourceType: string, dimensions: number): string {
+  return `${sourceType}-${dimensions}`;
+}
+
+function indexPath(key: string): string | null {
+  return config.indexDir ? path.join(config.indexDir, `${key}.hnsw`) : null;
+}
+
+/**
+ * Drop in-memory indexes if the database connection changed underneath us
+ */
+function checkConnection(): Database.Database {
+  const db = getDb();
+  if (db !== indexedDb) {
+    indexes.clear();
+    indexedDb = db;
+  }
+  return db;
+}
+
+/**
+ * Load an index from disk (or build it) and reconcile it with the embeddings table
+ */
+function loadIndex(sourceType: string, dimensions: number): LoadedIndex {
+  const db = checkConnection();
+  const key = indexKey(sourceType, dimensions);
+  const cached = indexes.get(key);
+  if (cached) return cached;
+
+  let index: HnswIndex | null = null;
+  const filePath = indexPath(key);
+  if (filePath && fs.existsSync(filePath)) {
+    try {
+      index = HnswIndex.load(filePath);
+      if (index.dimensions !== dimensions) index = null;
+    } catch (error) {
+      console.error(`Failed to load vector index ${filePath}, rebuilding:`, error);
+      index = null;
+    }
+  }
+  index ??= new HnswIndex(dimensions, {
+    m: config.m,
+    efConstruction: config.efConstruction,
+    efSearch: config.efSearch,
+  });
+
+  const rows = db.prepare(`
+    SELECT id, source_id, chunk_index, chunk_start, chunk_end
+    FROM embeddings WHERE source_type = ? AND dimensions = ?
+  `).all(sourceType, dimensions) as Array<{
+    id: string;
+    source_id: string;
+    chunk_index: number | null;
+    chunk_start: number | null;
+    chunk_end: number | null;
+  }>;
+
+  const sources = new Map<string, IndexedSource>();
+  for (const row of rows) {
+    sources.set(row.id, { sourceId: row.source_id, chunk: rowToChunk(row) });
+  }
+
+  let dirty = false;
+  for (const id of index.ids()) {
+    if (!sources.has(id)) {
+      index.remove(id);
+      dirty = true;
+    }
+  }
+
+  const getVector = db.prepare('SELECT vector FROM embeddings WHERE id = ?');
+  for (const row of rows) {
+    if (index.has(row.id)) continue;
+    const vectorRow = getVector.get(row.id) as { vector: Buffer } | undefined;
+    if (vectorRow) {
+      index.add(row.id, decodeVector(vectorRow.vector));
+      dirty = true;
+    }
+  }
+
+  const loaded: LoadedIndex = { index, sources, dirty };
+  compactIfNeeded(loaded);
+  indexes.set(key, loaded);
+  return loaded;
+}
+
+function compactIfNeeded(loaded: LoadedIndex): void {
+  if (loaded.index.deletedRatio > config.compactRatio) {
+    loaded.index.compact();
+    loaded.dirty = true;
+  }
+}
+
+// ============================================================
+// STORE HOOKS
+// ============================================================
+
+/**
+ * Add a stored vector to its index, if that index is loaded.
+ * Unloaded indexes pick the row up when they reconcile.
+ */
+export function indexEmbedding(
+  id: string,
+  sourceId: string,
+  sourceType: string,
+  embedding: ArrayLike<number>,
+  chunk?: EmbeddingChunk
+): void {
+  checkConnection();
+  const loaded = indexes.get(indexKey(sourceType, embedding.length));
+  if (!loaded) return;
+
+  loaded.index.add(id, embedding);
+  loaded.sources.set(id, { sourceId, chunk });
+  loaded.dirty = true;
+}
+
+/**
+ * Remove deleted vectors from every loaded index that holds them
+ */
+export function unindexEmbeddings(ids: string[]): void {
+  checkConnection();
+  if (ids.length === 0) return;
+
+  for (const loaded of indexes.values()) {
+    let changed = false;
+    for (const id of ids) {
+      if (loaded.index.remove(id)) {
+        loaded.sources.delete(id);
+        changed = true;
+      }
+    }
+    if (changed) {
+      loaded.dirty = true;
+      compactIfNeeded(loaded);
+    }
+  }
+}
+
+// ============================================================
+// SEARCH
+// ============================================================
+
+/**
+ * Approximate search. Returns null when the exact scan should be used
+ * instead (index disabled, no type filter, or a small store).
+ */
+export function annSearch(
+  queryEmbedding: number[],
+  limit: number,
+  sourceType?: string,
+  efSearch: number = config.efSearch
+): VectorSearchResult[] | null {
+  if (!config.enabled || !sourceType) return null;
+
+  const db = checkConnection();
+  const loaded = indexes.get(indexKey(sourceType, queryEmbedding.length));
+  const size = loaded
+    ? loaded.index.size
+    : (db.prepare(`
+        SELECT COUNT(*) as count FROM embeddings WHERE source_type = ? AND dimensions = ?
+      `).get(sourceType, queryEmbedding.length) as { count: number }).count;
+
+  if (size < config.exactSearchThreshold) return null;
+
+  const { index, sources } = loaded ?? loadIndex(sourceType, queryEmbedding.length);
+
+  return index.search(queryEmbedding, limit, efSearch).flatMap(hit => {
+    const source = sources.get(hit.id);
+    return source ? [{ id: hit.id, sourceType, score: hit.score, ...source }] : [];
+  });
+}
+
+// ============================================================
+// PERSISTENCE
+// ============================================================
+
+/**
+ * Write changed indexes to config.indexDir
+ */
+export function saveVectorIndexes(): number {
+  if (!config.indexDir) return 0;
+
+  let saved = 0;
+  for (const [key, loaded] of indexes) {
+    if (!loaded.dirty) continue;
+    try {
+      loaded.index.save(indexPath(key)!);
+      loaded.dirty = false;
+      saved++;
+    } catch (error) {
+      console.error(`Failed to save vector index ${key}:`, error);
+    }
+  }
+  return saved;
+}
+
+/**
+ * Drop in-memory indexes. With deleteFiles, also remove persisted ones.
+ */
+export function resetVectorIndexes(options: { deleteFiles?: boolean } = {}): void {
+  if (options.deleteFiles && config.indexDir && fs.existsSync(config.indexDir)) {
+    for (const file of fs.readdirSync(config.indexDir)) {
+      if (file.endsWith('.hnsw')) fs.rmSync(path.join(config.indexDir, file), { force: true });
+    }
+  }
+  indexes.clear();
+  indexedDb = null;
+}
+
+/**
+ * Index sizes for stats/debugging
+ */
+export function getVectorIndexStats(): Array<{ key: string; size: number; deletedRatio: number }> {
+  return Array.from(indexes, ([key, loaded]) => ({
+    key,
+    size: loaded.index.size,
+    deletedRatio: loaded.index.deletedRatio,
+  }));
+}
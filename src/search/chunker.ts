@@ -0,0 +1,137 @@
+// Text chunking for embeddings - paragraph/sentence aware with overlap
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  start: number;  // Offset into the source text
+  end: number;    // Exclusive
+}
+
+export interface ChunkOptions {
+  maxChars?: number;      // Target upper bound per chunk (default 1000)
+  overlapChars?: number;  // Trailing context carried into the next chunk (default 150)
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const PARAGRAPH_BREAK = /\n\s*\n/g;
+const SENTENCE_END = /[.!?。！？]+["')\]]*\s+/g;
+
+/**
+ * Split [start, end) at every match of a boundary pattern, keeping the
+ * separator attached to the preceding span
+ */
+function splitAt(text: string, start: number, end: number, pattern: RegExp): Span[] {
+  const spans: Span[] = [];
+  const slice = text.slice(start, end);
+  let cursor = 0;
+
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(slice)) !== null) {
+    const boundary = match.index + match[0].length;
+    if (boundary > cursor) spans.push({ start: start + cursor, end: start + boundary });
+    cursor = boundary;
+  }
+  if (cursor < slice.length) spans.push({ start: start + cursor, end });
+
+  return spans;
+}
+
+/**
+ * Hard-split an over-long span on whitespace
+ */
+function splitOnWords(text: string, span: Span, maxChars: number): Span[] {
+  const spans: Span[] = [];
+  let start = span.start;
+
+  while (span.end - start > maxChars) {
+    let cut = text.lastIndexOf(' ', start + maxChars);
+    if (cut <= start) cut = start + maxChars;
+    spans.push({ start, end: cut });
+    start = cut;
+  }
+  spans.push({ start, end: span.end });
+
+  return spans;
+}
+
+/**
+ * Break text into units no longer than maxChars: paragraphs, then
+ * sentences, then words
+ */
+function splitUnits(text: string, maxChars: number): Span[] {
+  const units: Span[] = [];
+
+  for (const paragraph of splitAt(text, 0, text.length, PARAGRAPH_BREAK)) {
+    if (paragraph.end - paragraph.start <= maxChars) {
+      units.push(paragraph);
+      continue;
+    }
+    for (const sentence of splitAt(text, paragraph.start, paragraph.end, SENTENCE_END)) {
+      if (sentence.end - sentence.start <= maxChars) {
+        units.push(sentence);
+      } else {
+        units.push(...splitOnWords(text, sentence, maxChars));
+      }
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Trim whitespace off a span without losing its offsets
+ */
+function trimSpan(text: string, span: Span): Span {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start]!)) start++;
+  while (end > start && /\s/.test(text[end - 1]!)) end--;
+  return { start, end };
+}
+
+/**
+ * Split text into overlapping chunks on paragraph and sentence boundaries.
+ * Short texts come back as a single chunk; offsets always index into the
+ * original string so callers can highlight the matching passage.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxChars = options.maxChars ?? 1000;
+  const overlapChars = Math.min(options.overlapChars ?? 150, Math.floor(maxChars / 2));
+
+  const whole = trimSpan(text, { start: 0, end: text.length });
+  if (whole.end === whole.start) return [];
+  if (whole.end - whole.start <= maxChars) {
+    return [{ index: 0, text: text.slice(whole.start, whole.end), start: whole.start, end: whole.end }];
+  }
+
+  const units = splitUnits(text, maxChars);
+  const chunks: TextChunk[] = [];
+  let first = 0;
+
+  while (first < units.length) {
+    // Greedily pack units into this chunk
+    let last = first;
+    while (last + 1 < units.length && units[last + 1]!.end - units[first]!.start <= maxChars) {
+      last++;
+    }
+
+    const span = trimSpan(text, { start: units[first]!.start, end: units[last]!.end });
+    if (span.end > span.start) {
+      chunks.push({ index: chunks.length, text: text.slice(span.start, span.end), start: span.start, end: span.end });
+    }
+    if (last + 1 >= units.length) break;
+
+    // Step back over trailing units that fit in the overlap budget
+    let next = last + 1;
+    while (next - 1 > first && units[last]!.end - units[next - 1]!.start <= overlapChars) {
+      next--;
+    }
+    first = next;
+  }
+
+  return chunks;
+}
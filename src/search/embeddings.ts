@@ -2,40 +2,33 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { getDb } from '../db/connection';
-import type { EmbeddingConfig } from './types';
-
-// In-memory vector store for simplicity
-// In production, use LanceDB or similar
-const vectorStore: Map<string, { id: string; embedding: number[]; sourceId: string; sourceType: string }> = new Map();
+import { encodeVector, decodeVector } from './hnsw';
+import { annSearch, indexEmbedding, unindexEmbeddings, resetVectorIndexes, rowToChunk } from './ann';
+import { resolveEmbeddingProvider } from './providers';
+import { chunkText, type ChunkOptions, type TextChunk } from './chunker';
+import type {
+  EmbeddingChunk,
+  EmbeddingConfig,
+  EmbeddingProvider,
+  VectorSearchResult,
+  VectorStore,
+  VectorStoreStats,
+} from './types';
 
 /**
- * Generate embedding using Ollama API
+ * Generate an embedding with a provider, or with the provider an EmbeddingConfig describes
  */
 export async function generateEmbedding(
   text: string,
-  config: EmbeddingConfig
+  config: EmbeddingConfig | EmbeddingProvider
 ): Promise<number[]> {
-  const response = await fetch(config.endpoint, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      model: config.model,
-      prompt: text,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Embedding request failed: ${response.status}`);
-  }
-
-  const data = await response.json() as { embedding: number[] };
-  return data.embedding;
+  return resolveEmbeddingProvider(config).embed(text);
 }
 
 /**
  * Cosine similarity between two vectors
  */
-export function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
   if (a.length !== b.length) {
     throw new Error('Vectors must have same length');
   }
@@ -55,34 +48,87 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
+// ============================================================
+// SQLITE VECTOR STORE
+// ============================================================
+
 /**
- * Store embedding in memory store
+ * Store embedding in the SQLite vector store
  */
 export function storeEmbedding(
   sourceId: string,
   sourceType: string,
-  embedding: number[]
+  embedding: number[],
+  model?: string,
+  chunk?: EmbeddingChunk
 ): string {
   const id = uuidv4();
-  vectorStore.set(id, { id, embedding, sourceId, sourceType });
+
+  getDb().prepare(`
+    INSERT INTO embeddings (id, source_type, source_id, model, dimensions, vector, chunk_index, chunk_start, chunk_end)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, sourceType, sourceId, model ?? null, embedding.length, encodeVector(embedding),
+    chunk?.index ?? null, chunk?.start ?? null, chunk?.end ?? null
+  );
+
+  indexEmbedding(id, sourceId, sourceType, embedding, chunk);
   return id;
 }
 
 /**
  * Search for similar vectors
+ * Uses the HNSW index for large stores and the exact scan otherwise.
  */
 export function searchVectors(
   queryEmbedding: number[],
   limit: number = 20,
   sourceType?: string
-): Array<{ id: string; sourceId: string; score: number }> {
-  const results: Array<{ id: string; sourceId: string; score: number }> = [];
+): VectorSearchResult[] {
+  return annSearch(queryEmbedding, limit, sourceType) ?? exactSearchVectors(queryEmbedding, limit, sourceType);
+}
+
+/**
+ * Search for similar vectors (exact cosine scan)
+ * Only vectors with the same dimensionality as the query are compared.
+ */
+export function exactSearchVectors(
+  queryEmbedding: number[],
+  limit: number = 20,
+  sourceType?: string
+): VectorSearchResult[] {
+  const db = getDb();
+  const results: VectorSearchResult[] = [];
+
+  const conditions = ['dimensions = ?'];
+  const params: unknown[] = [queryEmbedding.length];
+  if (sourceType) {
+    conditions.push('source_type = ?');
+    params.push(sourceType);
+  }
 
-  for (const [id, entry] of vectorStore) {
-    if (sourceType && entry.sourceType !== sourceType) continue;
+  const rows = db.prepare(`
+    SELECT id, source_id, source_type, vector, chunk_index, chunk_start, chunk_end FROM embeddings
+    WHERE ${conditions.join(' AND ')}
+  `).iterate(...params) as IterableIterator<{
+    id: string;
+    source_id: string;
+    source_type: string;
+    vector: Buffer;
+    chunk_index: number | null;
+    chunk_start: number | null;
+    chunk_end: number | null;
+  }>;
 
-    const score = cosineSimilarity(queryEmbedding, entry.embedding);
-    results.push({ id, sourceId: entry.sourceId, score });
+  for (const row of rows) {
+    const score = cosineSimilarity(queryEmbedding, decodeVector(row.vector));
+    results.push({
+      id: row.id,
+      sourceId: row.source_id,
+      sourceType: row.source_type,
+      score,
+      chunk: rowToChunk(row),
+    });
   }
 
   return results
@@ -91,41 +137,157 @@ export function searchVectors(
 }
 
 /**
- * Embed all unembedded messages
+ * Delete stored vectors for a source
  */
-export async function embedUnprocessedMessages(
-  config: EmbeddingConfig,
-  batchSize: number = 50
-): Promise<{ processed: number; errors: number }> {
+export function deleteEmbeddingsBySource(sourceId: string, sourceType?: string): number {
   const db = getDb();
 
-  // Get messages without embeddings (using embedding_id field in assertions as proxy)
-  // For now, just get messages not in our vector store
-  const existingSourceIds = new Set(
-    Array.from(vectorStore.values()).map(v => v.sourceId)
-  );
+  const where = sourceType ? 'source_id = ? AND source_type = ?' : 'source_id = ?';
+  const params = sourceType ? [sourceId, sourceType] : [sourceId];
 
-  const messages = db.prepare(`
-    SELECT id, body_text, subject FROM messages
-    ORDER BY timestamp DESC
-    LIMIT ?
-  `).all(batchSize) as Array<{ id: string; body_text: string; subject: string | null }>;
+  const ids = (db.prepare(`SELECT id FROM embeddings WHERE ${where}`).all(...params) as Array<{ id: string }>)
+    .map(row => row.id);
+  if (ids.length === 0) return 0;
+
+  unindexEmbeddings(ids);
+  return db.prepare(`DELETE FROM embeddings WHERE ${where}`).run(...params).changes;
+}
+
+/**
+ * Get vector store stats
+ */
+export function getVectorStoreStats(): { count: number; byType: Record<string, number> } {
+  const rows = getDb().prepare(`
+    SELECT source_type, COUNT(*) as count FROM embeddings GROUP BY source_type
+  `).all() as Array<{ source_type: string; count: number }>;
 
+  const byType: Record<string, number> = {};
+  let count = 0;
+  for (const row of rows) {
+    byType[row.source_type] = row.count;
+    count += row.count;
+  }
+
+  return { count, byType };
+}
+
+/**
+ * Clear vector store (for testing)
+ */
+export function clearVectorStore(): void {
+  const db = getDb();
+  db.prepare('DELETE FROM embeddings').run();
+  db.prepare('DELETE FROM embedded_sources').run();
+  resetVectorIndexes({ deleteFiles: true });
+}
+
+/**
+ * SQLite-backed implementation of the VectorStore interface
+ */
+export const sqliteVectorStore: VectorStore = {
+  backend: 'sqlite',
+
+  async add(sourceId, sourceType, embedding, options) {
+    return storeEmbedding(sourceId, sourceType, embedding, options?.model, options?.chunk);
+  },
+
+  async search(queryEmbedding, limit, filters) {
+    return searchVectors(queryEmbedding, limit, filters?.sourceType);
+  },
+
+  async deleteBySource(sourceId, sourceType) {
+    deleteEmbeddingsBySource(sourceId, sourceType);
+  },
+
+  async stats(): Promise<VectorStoreStats> {
+    return { backend: 'sqlite', ...getVectorStoreStats() };
+  },
+
+  async clear() {
+    clearVectorStore();
+  },
+};
+
+// ============================================================
+// ACTIVE STORE
+// ============================================================
+
+let activeStore: VectorStore = sqliteVectorStore;
+
+/**
+ * Get the vector store that search and embedding jobs use
+ */
+export function getVectorStore(): VectorStore {
+  return activeStore;
+}
+
+/**
+ * Swap the active vector store (e.g. to LanceDB). Pass nothing to reset to SQLite.
+ */
+export function setVectorStore(store?: VectorStore): void {
+  activeStore = store ?? sqliteVectorStore;
+}
+
+// ============================================================
+// EMBEDDING JOBS
+// ============================================================
+
+/**
+ * Record that a source has been embedded with the given model
+ */
+export function markEmbedded(sourceType: string, sourceId: string, model?: string): void {
+  getDb().prepare(`
+    INSERT INTO embedded_sources (source_type, source_id, model, embedded_at)
+    VALUES (?, ?, ?, datetime('now'))
+    ON CONFLICT(source_type, source_id) DO UPDATE SET
+      model = excluded.model,
+      embedded_at = excluded.embedded_at
+  `).run(sourceType, sourceId, model ?? null);
+}
+
+/**
+ * Embed a batch of documents of one source type, replacing any old vectors.
+ * Documents with chunks get one vector per chunk; `prefix` (e.g. a subject
+ * line) is prepended to every chunk so each vector keeps its context.
+ */
+async function embedDocuments(
+  sourceType: string,
+  documents: Array<{ id: string; text: string; prefix?: string; chunks?: TextChunk[] }>,
+  provider: EmbeddingProvider,
+  minLength: number
+): Promise<{ processed: number; errors: number }> {
+  const store = getVectorStore();
   let processed = 0;
   let errors = 0;
 
-  for (const msg of messages) {
-    if (existingSourceIds.has(msg.id)) continue;
-
+  for (const doc of documents) {
     try {
-      const text = [msg.subject, msg.body_text].filter(Boolean).join('\n');
-      if (text.length < 10) continue;  // Skip very short messages
+      // Very short documents are not worth a vector, but count them as done
+      // so they don't occupy every future batch
+      const fullText = [doc.prefix, doc.text].filter(Boolean).join('\n');
+      if (fullText.length >= minLength) {
+        const inputs = doc.chunks && doc.chunks.length > 1
+          ? doc.chunks.map(c => ({ text: [doc.prefix, c.text].filter(Boolean).join('\n'), chunk: c }))
+          : [{ text: fullText, chunk: undefined }];
 
-      const embedding = await generateEmbedding(text, config);
-      storeEmbedding(msg.id, 'message', embedding);
-      processed++;
+        const vectors = provider.embedBatch
+          ? await provider.embedBatch(inputs.map(i => i.text))
+          : await Promise.all(inputs.map(i => provider.embed(i.text)));
+
+        await store.deleteBySource(doc.id, sourceType);
+        for (let i = 0; i < inputs.length; i++) {
+          const chunk = inputs[i]!.chunk;
+          await store.add(doc.id, sourceType, vectors[i]!, {
+            model: provider.model,
+            chunk: chunk ? { index: chunk.index, start: chunk.start, end: chunk.end } : undefined,
+          });
+        }
+        processed++;
+      }
+
+      markEmbedded(sourceType, doc.id, provider.model);
     } catch (error) {
-      console.error(`Failed to embed message ${msg.id}:`, error);
+      console.error(`Failed to embed ${sourceType} ${doc.id}:`, error);
       errors++;
     }
   }
@@ -134,21 +296,195 @@ export async function embedUnprocessedMessages(
 }
 
 /**
- * Get vector store stats
+ * Embed messages that are new, edited, or were embedded with a different model.
+ * Long bodies are split into overlapping chunks with one vector each. Emails
+ * are embedded without their quoted history, signature and disclaimer.
  */
-export function getVectorStoreStats(): { count: number; byType: Record<string, number> } {
-  const byType: Record<string, number> = {};
+export async function embedUnprocessedMessages(
+  config: EmbeddingConfig | EmbeddingProvider,
+  batchSize: number = 50,
+  chunkOptions?: ChunkOptions
+): Promise<{ processed: number; errors: number }> {
+  const provider = resolveEmbeddingProvider(config);
 
-  for (const entry of vectorStore.values()) {
-    byType[entry.sourceType] = (byType[entry.sourceType] || 0) + 1;
-  }
+  const messages = getDb().prepare(`
+    SELECT m.id, COALESCE(m.body_clean, m.body_text) AS body_text, m.subject FROM messages m
+    LEFT JOIN embedded_sources es
+      ON es.source_type = 'message' AND es.source_id = m.id
+    WHERE es.source_id IS NULL OR es.model IS NOT ?
+    ORDER BY m.timestamp DESC
+    LIMIT ?
+  `).all(provider.model, batchSize) as Array<{ id: string; body_text: string; subject: string | null }>;
 
-  return { count: vectorStore.size, byType };
+  return embedDocuments(
+    'message',
+    messages.map(msg => ({
+      id: msg.id,
+      text: msg.body_text ?? '',
+      prefix: msg.subject ?? undefined,
+      chunks: chunkText(msg.body_text ?? '', chunkOptions),
+    })),
+    provider,
+    10
+  );
 }
 
 /**
- * Clear vector store (for testing)
+ * Embed the extracted text of attachments, chunked like message bodies with
+ * the file name as context. Attachments without text are left out.
  */
-export function clearVectorStore(): void {
-  vectorStore.clear();
+export async function embedUnprocessedAttachments(
+  config: EmbeddingConfig | EmbeddingProvider,
+  batchSize: number = 50,
+  chunkOptions?: ChunkOptions
+): Promise<{ processed: number; errors: number }> {
+  const provider = resolveEmbeddingProvider(config);
+
+  const attachments = getDb().prepare(`
+    SELECT a.id, a.filename, a.text FROM attachments a
+    LEFT JOIN embedded_sources es
+      ON es.source_type = 'attachment' AND es.source_id = a.id
+    WHERE a.text IS NOT NULL AND a.text != ''
+      AND (es.source_id IS NULL OR es.model IS NOT ?)
+    ORDER BY a.created_at DESC
+    LIMIT ?
+  `).all(provider.model, batchSize) as Array<{ id: string; filename: string; text: string }>;
+
+  return embedDocuments(
+    'attachment',
+    attachments.map(attachment => ({
+      id: attachment.id,
+      text: attachment.text,
+      prefix: attachment.filename,
+      chunks: chunkText(attachment.text, chunkOptions),
+    })),
+    provider,
+    10
+  );
+}
+
+/**
+ * Embed assertions as "subject predicate object" sentences
+ */
+export async function embedUnprocessedAssertions(
+  config: EmbeddingConfig | EmbeddingProvider,
+  batchSize: number = 50
+): Promise<{ processed: number; errors: number }> {
+  const db = getDb();
+  const provider = resolveEmbeddingProvider(config);
+
+  const rows = db.prepare(`
+    SELECT a.id FROM assertions a
+    LEFT JOIN embedded_sources es
+      ON es.source_type = 'assertion' AND es.source_id = a.id
+    WHERE es.source_id IS NULL OR es.model IS NOT ?
+    ORDER BY a.extracted_at DESC
+    LIMIT ?
+  `).all(provider.model, batchSize) as Array<{ id: string }>;
+
+  const documents = rows.map(row => ({ id: row.id, text: getAssertionText(row.id) ?? '' }));
+  const result = await embedDocuments('assertion', documents, provider, 3);
+
+  // Keep the legacy pointer column in step with the vector store
+  const setEmbeddingId = db.prepare(`
+    UPDATE assertions SET embedding_id = (
+      SELECT id FROM embeddings WHERE source_type = 'assertion' AND source_id = assertions.id
+    ) WHERE id = ?
+  `);
+  for (const row of rows) setEmbeddingId.run(row.id);
+
+  return result;
+}
+
+/**
+ * Embed synthesized entity summaries (name, attributes, key facts)
+ */
+export async function embedUnprocessedEntities(
+  config: EmbeddingConfig | EmbeddingProvider,
+  batchSize: number = 50
+): Promise<{ processed: number; errors: number }> {
+  const provider = resolveEmbeddingProvider(config);
+
+  const rows = getDb().prepare(`
+    SELECT e.id FROM entities e
+    LEFT JOIN embedded_sources es
+      ON es.source_type = 'entity' AND es.source_id = e.id
+    WHERE es.source_id IS NULL OR es.model IS NOT ?
+    ORDER BY e.updated_at DESC
+    LIMIT ?
+  `).all(provider.model, batchSize) as Array<{ id: string }>;
+
+  return embedDocuments(
+    'entity',
+    rows.map(row => ({ id: row.id, text: buildEntitySummary(row.id) ?? '' })),
+    provider,
+    3
+  );
+}
+
+// ============================================================
+// DOCUMENT TEXT
+// ============================================================
+
+/**
+ * Render an assertion as a sentence, e.g. "Sarah Chen lives in Denver"
+ */
+export function getAssertionText(assertionId: string): string | null {
+  const row = getDb().prepare(`
+    SELECT a.predicate, a.object_text,
+           se.canonical_name as subject_name,
+           oe.canonical_name as object_name
+    FROM assertions a
+    LEFT JOIN entities se ON a.subject_entity_id = se.id
+    LEFT JOIN entities oe ON a.object_entity_id = oe.id
+    WHERE a.id = ?
+  `).get(assertionId) as {
+    predicate: string;
+    object_text: string | null;
+    subject_name: string | null;
+    object_name: string | null;
+  } | undefined;
+
+  if (!row) return null;
+
+  return [row.subject_name, row.predicate.replace(/_/g, ' '), row.object_name ?? row.object_text]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Synthesize a short profile for an entity from its attributes and strongest facts
+ */
+export function buildEntitySummary(entityId: string, maxFacts: number = 10): string | null {
+  const db = getDb();
+
+  const entity = db.prepare(`
+    SELECT canonical_name, entity_type FROM entities WHERE id = ?
+  `).get(entityId) as { canonical_name: string; entity_type: string } | undefined;
+
+  if (!entity) return null;
+
+  const attributes = db.prepare(`
+    SELECT attribute_type, attribute_value FROM entity_attributes
+    WHERE entity_id = ?
+    ORDER BY confidence DESC
+  `).all(entityId) as Array<{ attribute_type: string; attribute_value: string }>;
+
+  const facts = db.prepare(`
+    SELECT id FROM assertions
+    WHERE subject_entity_id = ?
+    ORDER BY confidence DESC, extracted_at DESC
+    LIMIT ?
+  `).all(entityId, maxFacts) as Array<{ id: string }>;
+
+  const lines = [`${entity.canonical_name} (${entity.entity_type})`];
+  if (attributes.length > 0) {
+    lines.push(attributes.map(a => `${a.attribute_type.replace(/_/g, ' ')}: ${a.attribute_value}`).join('; '));
+  }
+  for (const fact of facts) {
+    const text = getAssertionText(fact.id);
+    if (text) lines.push(text);
+  }
+
+  return lines.join('\n');
 }
@@ -1,52 +1,18 @@
 // Full-text search using SQLite FTS5
 
 import { getDb } from '../db/connection';
+import { compileAttachmentQuery, compileMessageQuery, toSearchQuery, type SearchQuery } from './query';
+import { applyTemporalRange } from './temporal';
 import type { SearchResult, SearchOptions } from './types';
 
-/**
- * Sanitize query for FTS5 MATCH syntax
- * Removes/escapes special characters that have meaning in FTS5
- */
-function sanitizeFtsQuery(query: string): string {
-  // Remove FTS5 special characters: " ' ( ) * - : ^
-  // Keep alphanumeric, spaces, and common punctuation
-  let sanitized = query
-    .replace(/['"():\-\^*]/g, ' ')  // Replace special FTS5 chars with space
-    .replace(/[?!.,;]/g, ' ')       // Replace common punctuation
-    .replace(/\s+/g, ' ')           // Collapse multiple spaces
-    .trim();
-
-  // If empty after sanitization, return a dummy query
-  if (!sanitized) {
-    return '""';  // Empty quoted string matches nothing
-  }
-
-  // Split into words and wrap each in quotes for exact matching
-  // This prevents FTS5 from interpreting words as operators
-  const words = sanitized.split(' ').filter(w => w.length > 0);
-  if (words.length === 0) {
-    return '""';
-  }
-
-  // Use OR to match any of the words
-  return words.map(w => `"${w}"`).join(' OR ');
+function parse(query: string | SearchQuery, options: SearchOptions): SearchQuery {
+  return toSearchQuery(query, { resolveDates: options.resolveDates, now: options.referenceDate });
 }
 
 /**
- * Search messages using FTS5
+ * Conditions on `messages m` for the source, date and entity options
  */
-export function ftsSearchMessages(
-  query: string,
-  options: SearchOptions = {}
-): SearchResult[] {
-  const db = getDb();
-  const limit = options.limit ?? 20;
-  const sanitizedQuery = sanitizeFtsQuery(query);
-
-  // Build WHERE clause for filters
-  const conditions: string[] = [];
-  const params: unknown[] = [];
-
+function messageConditions(options: SearchOptions, conditions: string[], params: unknown[]): void {
   if (options.sourceTypes?.length) {
     conditions.push(`m.source_type IN (${options.sourceTypes.map(() => '?').join(',')})`);
     params.push(...options.sourceTypes);
@@ -72,32 +38,69 @@ export function ftsSearchMessages(
     )`);
     params.push(...options.entityIds, ...options.entityIds);
   }
+}
 
-  const whereClause = conditions.length > 0
-    ? `AND ${conditions.join(' AND ')}`
-    : '';
+/**
+ * Search messages using FTS5
+ * Accepts the structured query syntax (see query.ts); field filters become
+ * SQL conditions alongside the MATCH.
+ */
+export function ftsSearchMessages(
+  query: string | SearchQuery,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const db = getDb();
+  const limit = options.limit ?? 20;
+  const searchQuery = parse(query, options);
+  const compiled = compileMessageQuery(searchQuery);
+  options = applyTemporalRange(options, searchQuery.temporal);
 
-  // FTS5 query with BM25 ranking
-  const sql = `
-    SELECT
-      m.id,
-      m.source_type,
-      m.subject,
-      m.body_text,
-      m.timestamp,
-      m.sender_entity_id,
-      bm25(messages_fts, 1.0, 0.75) as score,
-      snippet(messages_fts, 1, '<mark>', '</mark>', '...', 32) as highlight
-    FROM messages_fts
-    JOIN messages m ON messages_fts.rowid = m.rowid
-    WHERE messages_fts MATCH ?
-    ${whereClause}
-    ORDER BY score
-    LIMIT ?
-  `;
+  if (compiled.match === null && compiled.where.length === 0 && !searchQuery.temporal) {
+    return [];
+  }
+
+  // Build WHERE clause for filters
+  const conditions: string[] = [...compiled.where];
+  const params: unknown[] = [...compiled.params];
+  messageConditions(options, conditions, params);
+
+  // FTS5 query with BM25 ranking; filter-only queries list newest first
+  const sql = compiled.match !== null
+    ? `
+      SELECT
+        m.id,
+        m.source_type,
+        m.subject,
+        m.body_text,
+        m.timestamp,
+        m.sender_entity_id,
+        bm25(messages_fts, 1.0, 0.75) as score,
+        snippet(messages_fts, 1, '<mark>', '</mark>', '...', 32) as highlight
+      FROM messages_fts
+      JOIN messages m ON messages_fts.rowid = m.rowid
+      WHERE messages_fts MATCH ?
+      ${conditions.length > 0 ? `AND ${conditions.join(' AND ')}` : ''}
+      ORDER BY score
+      LIMIT ?
+    `
+    : `
+      SELECT
+        m.id,
+        m.source_type,
+        m.subject,
+        m.body_text,
+        m.timestamp,
+        m.sender_entity_id,
+        0 as score,
+        COALESCE(m.subject, substr(COALESCE(m.body_clean, m.body_text), 1, 100)) as highlight
+      FROM messages m
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY m.timestamp DESC
+      LIMIT ?
+    `;
 
   try {
-    const results = db.prepare(sql).all(sanitizedQuery, ...params, limit) as Array<{
+    const results = db.prepare(sql).all(...params, limit) as Array<{
       id: string;
       source_type: string;
       subject: string | null;
@@ -112,6 +115,7 @@ export function ftsSearchMessages(
       id: row.id,
       type: 'message' as const,
       score: 1 / (index + 1),  // Normalize BM25 to rank-based score
+      rawScore: compiled.match !== null ? row.score : undefined,
       source: 'fts' as const,
       highlight: row.highlight,
       data: {
@@ -124,21 +128,105 @@ export function ftsSearchMessages(
       },
     }));
   } catch (error) {
-    // FTS query syntax might be invalid
     console.error('FTS search failed:', error);
     return [];
   }
 }
 
+/**
+ * Search attachments by name and extracted text. Results point at the
+ * attachment and carry the message it came with; filters (from:, source:,
+ * dates, entities) apply to that message.
+ */
+export function ftsSearchAttachments(
+  query: string | SearchQuery,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const db = getDb();
+  const limit = options.limit ?? 20;
+  const searchQuery = parse(query, options);
+  const compiled = compileAttachmentQuery(searchQuery);
+  options = applyTemporalRange(options, searchQuery.temporal);
+
+  // Listing every attachment of some messages isn't a search
+  if (compiled.match === null) return [];
+
+  const conditions: string[] = [...compiled.where];
+  const params: unknown[] = [...compiled.params];
+  messageConditions(options, conditions, params);
+
+  try {
+    const results = db.prepare(`
+      SELECT
+        a.id,
+        a.message_id,
+        a.filename,
+        a.mime_type,
+        a.size,
+        m.source_type,
+        m.subject,
+        m.timestamp,
+        m.sender_entity_id,
+        bm25(attachments_fts, 2.0, 1.0) as score,
+        snippet(attachments_fts, 1, '<mark>', '</mark>', '...', 32) as highlight
+      FROM attachments_fts
+      JOIN attachments a ON attachments_fts.rowid = a.rowid
+      JOIN messages m ON m.id = a.message_id
+      WHERE attachments_fts MATCH ?
+      ${conditions.length > 0 ? `AND ${conditions.join(' AND ')}` : ''}
+      ORDER BY score
+      LIMIT ?
+    `).all(...params, limit) as Array<{
+      id: string;
+      message_id: string;
+      filename: string;
+      mime_type: string;
+      size: number | null;
+      source_type: string;
+      subject: string | null;
+      timestamp: string;
+      sender_entity_id: string | null;
+      score: number;
+      highlight: string | null;
+    }>;
+
+    return results.map((row, index) => ({
+      id: row.id,
+      type: 'attachment' as const,
+      score: 1 / (index + 1),
+      rawScore: row.score,
+      source: 'fts' as const,
+      // Matched on the name only: there's no text to take a snippet from
+      highlight: row.highlight || row.filename,
+      data: {
+        id: row.id,
+        messageId: row.message_id,
+        filename: row.filename,
+        mimeType: row.mime_type,
+        size: row.size,
+        sourceType: row.source_type,
+        subject: row.subject,
+        timestamp: new Date(row.timestamp),
+        senderEntityId: row.sender_entity_id,
+      },
+    }));
+  } catch (error) {
+    console.error('FTS attachment search failed:', error);
+    return [];
+  }
+}
+
 /**
  * Search entities by name or attributes
  */
 export function ftsSearchEntities(
-  query: string,
+  query: string | SearchQuery,
   options: SearchOptions = {}
 ): SearchResult[] {
   const db = getDb();
   const limit = options.limit ?? 20;
+  const text = parse(query, options).text;
+  if (!text) return [];
 
   const results = db.prepare(`
     SELECT DISTINCT
@@ -155,7 +243,7 @@ export function ftsSearchEntities(
       CASE WHEN e.canonical_name LIKE ? THEN 0 ELSE 1 END,
       e.canonical_name
     LIMIT ?
-  `).all(`%${query}%`, `%${query}%`, `${query}%`, limit) as Array<{
+  `).all(`%${text}%`, `%${text}%`, `${text}%`, limit) as Array<{
     id: string;
     canonical_name: string;
     entity_type: string;
@@ -181,11 +269,13 @@ export function ftsSearchEntities(
  * Search assertions
  */
 export function ftsSearchAssertions(
-  query: string,
+  query: string | SearchQuery,
   options: SearchOptions = {}
 ): SearchResult[] {
   const db = getDb();
   const limit = options.limit ?? 20;
+  const text = parse(query, options).text;
+  if (!text) return [];
 
   const results = db.prepare(`
     SELECT
@@ -205,7 +295,7 @@ export function ftsSearchAssertions(
        OR a.predicate LIKE ?
     ORDER BY a.confidence DESC
     LIMIT ?
-  `).all(`%${query}%`, `%${query}%`, `%${query}%`, `%${query}%`, limit) as Array<{
+  `).all(`%${text}%`, `%${text}%`, `%${text}%`, `%${text}%`, limit) as Array<{
     id: string;
     predicate: string;
     object_text: string | null;
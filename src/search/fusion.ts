@@ -1,10 +1,39 @@
 // Reciprocal Rank Fusion - combine results from multiple search methods
 
 import { getDb } from '../db/connection';
-import { ftsSearchMessages, ftsSearchEntities, ftsSearchAssertions } from './fts';
-import { graphSearch, parseQuery } from './graph';
-import { searchVectors, generateEmbedding } from './embeddings';
-import type { SearchResult, SearchOptions, EmbeddingConfig } from './types';
+import { ftsSearchMessages, ftsSearchEntities, ftsSearchAssertions, ftsSearchAttachments } from './fts';
+import { graphSearch, parseQuery, hasGraphPattern } from './graph';
+import { getVectorStore, generateEmbedding } from './embeddings';
+import { toSearchQuery, compileMessageFilters, type SearchQuery, type CompiledQuery } from './query';
+import { applyTemporalRange } from './temporal';
+import { getCommunityMemberIds } from '../entity/communities';
+import { getImportanceScores } from '../entity/importance';
+import type {
+  SearchResult,
+  SearchOptions,
+  EmbeddingConfig,
+  EmbeddingProvider,
+  LegContribution,
+  LegTiming,
+  ScoreBoost,
+} from './types';
+
+/**
+ * A named, ranked result list from one search method
+ */
+export interface SearchLeg {
+  name: string;                        // e.g. 'fts:message'
+  source: LegContribution['source'];
+}
+
+/**
+ * Context for attaching explanations during fusion
+ */
+export interface FusionExplainContext {
+  legs: SearchLeg[];                   // Parallel to the result sets
+  query: SearchQuery;
+  timings: LegTiming[];
+}
 
 /**
  * Reciprocal Rank Fusion (RRF) algorithm
@@ -15,142 +44,398 @@ import type { SearchResult, SearchOptions, EmbeddingConfig } from './types';
  */
 export function reciprocalRankFusion(
   resultSets: SearchResult[][],
-  k: number = 60
+  k: number = 60,
+  explain?: FusionExplainContext
 ): SearchResult[] {
-  const scoreMap = new Map<string, { score: number; result: SearchResult }>();
+  const scoreMap = new Map<string, { score: number; result: SearchResult; legs: LegContribution[] }>();
 
-  for (const results of resultSets) {
-    for (let rank = 0; rank < results.length; rank++) {
-      const result = results[rank]!;
-      const rrf = 1 / (k + rank + 1);
+  for (const [setIndex, results] of resultSets.entries()) {
+    const leg = explain?.legs[setIndex];
 
+    // Several chunks of one message can appear in a list; the parent takes
+    // the rank of its best chunk and later chunks add nothing
+    const seen = new Set<string>();
+    let rank = 0;
+
+    for (const result of results) {
       const key = `${result.type}:${result.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const rrf = 1 / (k + rank + 1);
+      rank++;
+
+      const contribution: LegContribution[] = leg
+        ? [{ leg: leg.name, source: leg.source, rank, rawScore: result.rawScore ?? result.score, contribution: rrf }]
+        : [];
+
       const existing = scoreMap.get(key);
 
       if (existing) {
         existing.score += rrf;
-        // Keep the result with the best highlight
-        if (result.highlight && !existing.result.highlight) {
+        existing.legs.push(...contribution);
+        // Keep the result with the best highlight; a matching chunk beats a snippet
+        if ((result.highlight && !existing.result.highlight) || (result.chunk && !existing.result.chunk)) {
           existing.result = { ...result, source: 'fused' };
         }
       } else {
         scoreMap.set(key, {
           score: rrf,
           result: { ...result, source: 'fused' },
+          legs: contribution,
         });
       }
     }
   }
 
-  // Sort by combined score
+  // Sort by combined score; a leg's raw score means nothing after fusion
   const fused = Array.from(scoreMap.values())
     .sort((a, b) => b.score - a.score)
     .map(entry => ({
       ...entry.result,
       score: entry.score,
+      rawScore: undefined,
+      ...(explain ? {
+        explanation: { query: explain.query, k, legs: entry.legs, boosts: [], timings: explain.timings },
+      } : {}),
     }));
 
   return fused;
 }
 
+/**
+ * A leg's results plus how long it took
+ */
+interface LegRun extends SearchLeg {
+  results: SearchResult[];
+  ms: number;
+}
+
+async function runLeg(
+  name: string,
+  source: SearchLeg['source'],
+  run: () => SearchResult[] | Promise<SearchResult[]>
+): Promise<LegRun> {
+  const started = performance.now();
+  const results = await run();
+  return { name, source, results, ms: performance.now() - started };
+}
+
+/**
+ * Fuse leg results, attaching explanations when asked to
+ */
+function fuseLegs(
+  runs: LegRun[],
+  searchQuery: SearchQuery,
+  options: SearchOptions,
+  extraTimings: LegTiming[] = []
+): SearchResult[] {
+  const explain: FusionExplainContext | undefined = options.explain
+    ? {
+      legs: runs.map(r => ({ name: r.name, source: r.source })),
+      query: searchQuery,
+      timings: [
+        ...extraTimings,
+        ...runs.map(r => ({ leg: r.name, ms: r.ms, resultCount: r.results.length })),
+      ],
+    }
+    : undefined;
+
+  let fused = reciprocalRankFusion(runs.map(r => r.results), 60, explain);
+  if (fused.length === 0) return fused;
+
+  const entitiesOf = resultEntityLookup();
+  fused = boostByImportance(fused, options, entitiesOf);
+  return options.communityId ? scopeToCommunity(fused, options, entitiesOf) : fused;
+}
+
+/**
+ * Entities a result involves: message participants (for an attachment, those
+ * of its message), the entity itself, or an assertion's subject/object
+ */
+function resultEntityLookup(): (result: SearchResult) => string[] {
+  const db = getDb();
+  const getMessage = db.prepare('SELECT sender_entity_id, recipient_entity_ids FROM messages WHERE id = ?');
+  const getAssertion = db.prepare('SELECT subject_entity_id, object_entity_id FROM assertions WHERE id = ?');
+  const getAttachmentMessage = db.prepare(`
+    SELECT m.sender_entity_id, m.recipient_entity_ids
+    FROM attachments a JOIN messages m ON m.id = a.message_id
+    WHERE a.id = ?
+  `);
+  const cache = new Map<string, string[]>();
+
+  return (result: SearchResult) => {
+    const key = `${result.type}:${result.id}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    let ids: Array<string | null> = [];
+    if (result.type === 'entity') {
+      ids = [result.id];
+    } else if (result.type === 'assertion') {
+      const row = getAssertion.get(result.id) as { subject_entity_id: string | null; object_entity_id: string | null } | undefined;
+      if (row) ids = [row.subject_entity_id, row.object_entity_id];
+    } else {
+      const lookup = result.type === 'attachment' ? getAttachmentMessage : getMessage;
+      const row = lookup.get(result.id) as { sender_entity_id: string | null; recipient_entity_ids: string | null } | undefined;
+      if (row) {
+        ids = [row.sender_entity_id];
+        try {
+          ids.push(...(JSON.parse(row.recipient_entity_ids || '[]') as string[]));
+        } catch {
+          // Unparseable recipients; the sender is enough
+        }
+      }
+    }
+
+    const entityIds = ids.filter((id): id is string => !!id);
+    cache.set(key, entityIds);
+    return entityIds;
+  };
+}
+
+/**
+ * Multiply a result's score, recording the factor in its explanation
+ */
+function boosted(result: SearchResult, kind: ScoreBoost['kind'], factor: number): SearchResult {
+  return {
+    ...result,
+    score: result.score * factor,
+    ...(result.explanation ? {
+      explanation: { ...result.explanation, boosts: [...result.explanation.boosts, { kind, factor }] },
+    } : {}),
+  };
+}
+
+/**
+ * Multiply each score by 1 + importanceBoost × the importance of the most
+ * important entity the result involves, so a spouse's message outranks a
+ * newsletter with the same text match
+ */
+function boostByImportance(
+  results: SearchResult[],
+  options: SearchOptions,
+  entitiesOf: (result: SearchResult) => string[]
+): SearchResult[] {
+  const boost = options.importanceBoost ?? 0.3;
+  if (boost <= 0) return results;
+
+  const involved = results.map(entitiesOf);
+  const importance = getImportanceScores(Array.from(new Set(involved.flat())));
+  if (importance.size === 0) return results;
+
+  return results
+    .map((result, i) => {
+      const top = Math.max(0, ...involved[i]!.map(id => importance.get(id) ?? 0));
+      return top > 0 ? boosted(result, 'importance', 1 + boost * top) : result;
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Filter or boost fused results by whether they involve members of
+ * options.communityId
+ */
+function scopeToCommunity(
+  results: SearchResult[],
+  options: SearchOptions,
+  entitiesOf: (result: SearchResult) => string[]
+): SearchResult[] {
+  const members = getCommunityMemberIds(options.communityId!);
+  const involvesMember = (result: SearchResult) => entitiesOf(result).some(id => members.has(id));
+
+  if ((options.communityMode ?? 'filter') === 'filter') {
+    return results.filter(involvesMember);
+  }
+
+  const multiplier = 1 + (options.communityBoost ?? 0.5);
+  return results
+    .map(result => (involvesMember(result) ? boosted(result, 'community', multiplier) : result))
+    .sort((a, b) => b.score - a.score);
+}
+
 /**
  * Hybrid search combining FTS, Vector, and Graph search
+ * Vector search runs when an embedding provider (or config) is given.
+ * Throws QuerySyntaxError if a query string doesn't parse.
  */
 export async function hybridSearch(
-  query: string,
+  query: string | SearchQuery,
   options: SearchOptions = {},
-  embeddingConfig?: EmbeddingConfig
+  embeddingConfig?: EmbeddingConfig | EmbeddingProvider
 ): Promise<SearchResult[]> {
+  const searchQuery = toSearchQuery(query, { resolveDates: options.resolveDates, now: options.referenceDate });
+  // "last week", "since the offsite", ... become date bounds for every leg
+  options = applyTemporalRange(options, searchQuery.temporal);
   const limit = options.limit ?? 20;
   const internalLimit = limit * 3;  // Fetch more for fusion
 
   // Determine what types to search
-  const searchTypes = options.searchTypes ?? ['message', 'entity', 'assertion'];
+  const searchTypes = options.searchTypes ?? ['message', 'entity', 'assertion', 'attachment'];
 
   // Run searches in parallel
-  const searchPromises: Promise<SearchResult[]>[] = [];
+  const legs: Promise<LegRun>[] = [];
+  const timings: LegTiming[] = [];
+
+  const filters = compileMessageFilters(searchQuery);
+  // from:, source:, dates, entities, ... only describe messages, so the
+  // entity and assertion legs, which can't honour them, sit out
+  const messageFiltered = filters.where.length > 0 || !!options.sourceTypes?.length ||
+    !!options.dateFrom || !!options.dateTo || !!options.entityIds?.length;
 
   // 1. FTS Search
   if (searchTypes.includes('message')) {
-    searchPromises.push(
-      Promise.resolve(ftsSearchMessages(query, { ...options, limit: internalLimit }))
-    );
+    legs.push(runLeg('fts:message', 'fts', () =>
+      ftsSearchMessages(searchQuery, { ...options, limit: internalLimit })
+    ));
   }
 
-  if (searchTypes.includes('entity')) {
-    searchPromises.push(
-      Promise.resolve(ftsSearchEntities(query, { ...options, limit: internalLimit }))
-    );
+  if (searchTypes.includes('entity') && !messageFiltered) {
+    legs.push(runLeg('fts:entity', 'fts', () =>
+      ftsSearchEntities(searchQuery, { ...options, limit: internalLimit })
+    ));
   }
 
-  if (searchTypes.includes('assertion')) {
-    searchPromises.push(
-      Promise.resolve(ftsSearchAssertions(query, { ...options, limit: internalLimit }))
-    );
+  if (searchTypes.includes('assertion') && !messageFiltered) {
+    legs.push(runLeg('fts:assertion', 'fts', () =>
+      ftsSearchAssertions(searchQuery, { ...options, limit: internalLimit })
+    ));
+  }
+
+  if (searchTypes.includes('attachment')) {
+    legs.push(runLeg('fts:attachment', 'fts', () =>
+      ftsSearchAttachments(searchQuery, { ...options, limit: internalLimit })
+    ));
   }
 
   // 2. Graph Search (if query has relationship patterns)
-  const parsed = parseQuery(query);
-  if (parsed.entities.length > 0 || parsed.relations.length > 0) {
-    searchPromises.push(
-      Promise.resolve(graphSearch(query, { ...options, limit: internalLimit }))
-    );
+  const parsed = parseQuery(searchQuery.text);
+  if (hasGraphPattern(parsed)) {
+    legs.push(runLeg('graph', 'graph', () =>
+      graphSearch(searchQuery.text, { ...options, limit: internalLimit })
+    ));
   }
 
-  // 3. Vector Search (if embedding config provided)
-  if (embeddingConfig && searchTypes.includes('message')) {
-    searchPromises.push(
-      vectorSearchMessages(query, embeddingConfig, internalLimit)
-    );
+  // 3. Vector Search (if embedding provider/config provided)
+  if (embeddingConfig && searchQuery.text && searchTypes.length > 0) {
+    // One query embedding shared by every vector leg
+    const embeddingStarted = performance.now();
+    const queryEmbedding = generateEmbedding(searchQuery.text, embeddingConfig).then(embedding => {
+      timings.push({ leg: 'embedding', ms: performance.now() - embeddingStarted, resultCount: 0 });
+      return embedding;
+    });
+
+    if (searchTypes.includes('message')) {
+      legs.push(runLeg('vector:message', 'vector', () =>
+        vectorSearchMessages(queryEmbedding, internalLimit, filters, options)
+      ));
+    }
+
+    if (searchTypes.includes('entity') && !messageFiltered) {
+      legs.push(runLeg('vector:entity', 'vector', () => vectorSearchEntities(queryEmbedding, internalLimit)));
+    }
+
+    if (searchTypes.includes('assertion') && !messageFiltered) {
+      legs.push(runLeg('vector:assertion', 'vector', () => vectorSearchAssertions(queryEmbedding, internalLimit)));
+    }
+
+    if (searchTypes.includes('attachment')) {
+      legs.push(runLeg('vector:attachment', 'vector', () =>
+        vectorSearchAttachments(queryEmbedding, internalLimit, filters, options)
+      ));
+    }
   }
 
   // Wait for all searches
-  const resultSets = await Promise.all(searchPromises);
+  const runs = await Promise.all(legs);
 
   // Fuse results
-  const fused = reciprocalRankFusion(resultSets);
+  const fused = fuseLegs(runs, searchQuery, options, timings);
 
   return fused.slice(0, limit);
 }
 
+/**
+ * Conditions on `messages m` for the query's filters and the search options
+ */
+function messageFilterConditions(
+  filters: CompiledQuery,
+  options: SearchOptions
+): { conditions: string[]; params: unknown[] } {
+  const conditions = [...filters.where];
+  const params = [...filters.params];
+  if (options.sourceTypes?.length) {
+    conditions.push(`m.source_type IN (${options.sourceTypes.map(() => '?').join(',')})`);
+    params.push(...options.sourceTypes);
+  }
+  if (options.dateFrom) {
+    conditions.push('m.timestamp >= ?');
+    params.push(options.dateFrom.toISOString());
+  }
+  if (options.dateTo) {
+    conditions.push('m.timestamp <= ?');
+    params.push(options.dateTo.toISOString());
+  }
+  if (options.entityIds?.length) {
+    const ids = options.entityIds.map(() => '?').join(',');
+    conditions.push(`(m.sender_entity_id IN (${ids})
+      OR EXISTS (SELECT 1 FROM json_each(m.recipient_entity_ids) WHERE json_each.value IN (${ids})))`);
+    params.push(...options.entityIds, ...options.entityIds);
+  }
+  return { conditions, params };
+}
+
 /**
  * Vector search for messages
+ * Returns one result per matching chunk, best first; the chunk text becomes
+ * the highlight and RRF rolls chunks up to their message.
  */
 async function vectorSearchMessages(
-  query: string,
-  embeddingConfig: EmbeddingConfig,
-  limit: number
+  queryEmbedding: Promise<number[]>,
+  limit: number,
+  filters: CompiledQuery,
+  options: SearchOptions
 ): Promise<SearchResult[]> {
   try {
-    // Generate query embedding
-    const queryEmbedding = await generateEmbedding(query, embeddingConfig);
+    // Over-fetch since several chunks may belong to the same message
+    const vectorResults = await getVectorStore().search(await queryEmbedding, limit * 3, { sourceType: 'message' });
 
-    // Search vectors
-    const vectorResults = searchVectors(queryEmbedding, limit, 'message');
+    // Fetch message details, applying query filters and search options
+    const { conditions, params } = messageFilterConditions(filters, options);
 
-    // Fetch message details
-    const db = getDb();
+    const getMessage = getDb().prepare(`
+      SELECT m.id, m.subject, m.body_text, COALESCE(m.body_clean, m.body_text) AS embedded_text,
+             m.timestamp, m.sender_entity_id
+      FROM messages m
+      WHERE m.id = ? ${conditions.map(c => `AND ${c}`).join(' ')}
+    `);
     const results: SearchResult[] = [];
+    const messageIds = new Set<string>();
 
     for (const vr of vectorResults) {
-      const msg = db.prepare(`
-        SELECT id, subject, body_text, timestamp, sender_entity_id
-        FROM messages WHERE id = ?
-      `).get(vr.sourceId) as {
+      if (!messageIds.has(vr.sourceId) && messageIds.size >= limit) continue;
+
+      const msg = getMessage.get(vr.sourceId, ...params) as {
         id: string;
         subject: string | null;
         body_text: string;
+        embedded_text: string;
         timestamp: string;
         sender_entity_id: string | null;
       } | undefined;
 
       if (msg) {
+        messageIds.add(msg.id);
         results.push({
           id: msg.id,
           type: 'message',
           score: vr.score,
           source: 'vector',
-          highlight: msg.subject || msg.body_text.substring(0, 100),
+          // Chunk offsets are into the text that was embedded
+          highlight: vr.chunk
+            ? msg.embedded_text.slice(vr.chunk.start, vr.chunk.end)
+            : msg.subject || msg.embedded_text.substring(0, 100),
+          chunk: vr.chunk,
           data: {
             id: msg.id,
             subject: msg.subject,
@@ -169,38 +454,239 @@ async function vectorSearchMessages(
   }
 }
 
+/**
+ * Vector search over attachment text, one result per matching chunk like
+ * messages; query filters and search options apply to the attachment's message
+ */
+async function vectorSearchAttachments(
+  queryEmbedding: Promise<number[]>,
+  limit: number,
+  filters: CompiledQuery,
+  options: SearchOptions
+): Promise<SearchResult[]> {
+  try {
+    const vectorResults = await getVectorStore().search(await queryEmbedding, limit * 3, { sourceType: 'attachment' });
+
+    const { conditions, params } = messageFilterConditions(filters, options);
+    const getAttachment = getDb().prepare(`
+      SELECT a.id, a.message_id, a.filename, a.mime_type, a.size, a.text,
+             m.source_type, m.subject, m.timestamp, m.sender_entity_id
+      FROM attachments a
+      JOIN messages m ON m.id = a.message_id
+      WHERE a.id = ? ${conditions.map(c => `AND ${c}`).join(' ')}
+    `);
+    const results: SearchResult[] = [];
+    const attachmentIds = new Set<string>();
+
+    for (const vr of vectorResults) {
+      if (!attachmentIds.has(vr.sourceId) && attachmentIds.size >= limit) continue;
+
+      const attachment = getAttachment.get(vr.sourceId, ...params) as {
+        id: string;
+        message_id: string;
+        filename: string;
+        mime_type: string;
+        size: number | null;
+        text: string | null;
+        source_type: string;
+        subject: string | null;
+        timestamp: string;
+        sender_entity_id: string | null;
+      } | undefined;
+
+      if (attachment) {
+        attachmentIds.add(attachment.id);
+        const text = attachment.text ?? '';
+        results.push({
+          id: attachment.id,
+          type: 'attachment',
+          score: vr.score,
+          source: 'vector',
+          highlight: vr.chunk ? text.slice(vr.chunk.start, vr.chunk.end) : attachment.filename,
+          chunk: vr.chunk,
+          data: {
+            id: attachment.id,
+            messageId: attachment.message_id,
+            filename: attachment.filename,
+            mimeType: attachment.mime_type,
+            size: attachment.size,
+            sourceType: attachment.source_type,
+            subject: attachment.subject,
+            timestamp: new Date(attachment.timestamp),
+            senderEntityId: attachment.sender_entity_id,
+          },
+        });
+      }
+    }
+
+    return results;
+  } catch (error) {
+    console.error('Attachment vector search failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Vector search over entity summaries
+ */
+async function vectorSearchEntities(
+  queryEmbedding: Promise<number[]>,
+  limit: number
+): Promise<SearchResult[]> {
+  try {
+    const vectorResults = await getVectorStore().search(await queryEmbedding, limit, { sourceType: 'entity' });
+
+    const getEntity = getDb().prepare(`
+      SELECT
+        e.id,
+        e.canonical_name,
+        e.entity_type,
+        GROUP_CONCAT(ea.attribute_type || ': ' || ea.attribute_value, ', ') as attributes
+      FROM entities e
+      LEFT JOIN entity_attributes ea ON e.id = ea.entity_id
+      WHERE e.id = ?
+      GROUP BY e.id
+    `);
+    const results: SearchResult[] = [];
+
+    for (const vr of vectorResults) {
+      const entity = getEntity.get(vr.sourceId) as {
+        id: string;
+        canonical_name: string;
+        entity_type: string;
+        attributes: string | null;
+      } | undefined;
+
+      if (entity) {
+        results.push({
+          id: entity.id,
+          type: 'entity',
+          score: vr.score,
+          source: 'vector',
+          highlight: entity.attributes || undefined,
+          data: {
+            id: entity.id,
+            canonicalName: entity.canonical_name,
+            entityType: entity.entity_type,
+            attributes: entity.attributes,
+          },
+        });
+      }
+    }
+
+    return results;
+  } catch (error) {
+    console.error('Entity vector search failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Vector search over assertion sentences
+ */
+async function vectorSearchAssertions(
+  queryEmbedding: Promise<number[]>,
+  limit: number
+): Promise<SearchResult[]> {
+  try {
+    const vectorResults = await getVectorStore().search(await queryEmbedding, limit, { sourceType: 'assertion' });
+
+    const getAssertion = getDb().prepare(`
+      SELECT
+        a.id,
+        a.predicate,
+        a.object_text,
+        a.confidence,
+        se.canonical_name as subject_name,
+        oe.canonical_name as object_name
+      FROM assertions a
+      LEFT JOIN entities se ON a.subject_entity_id = se.id
+      LEFT JOIN entities oe ON a.object_entity_id = oe.id
+      WHERE a.id = ?
+    `);
+    const results: SearchResult[] = [];
+
+    for (const vr of vectorResults) {
+      const assertion = getAssertion.get(vr.sourceId) as {
+        id: string;
+        predicate: string;
+        object_text: string | null;
+        confidence: number;
+        subject_name: string | null;
+        object_name: string | null;
+      } | undefined;
+
+      if (assertion) {
+        results.push({
+          id: assertion.id,
+          type: 'assertion',
+          score: vr.score,
+          source: 'vector',
+          highlight: `${assertion.subject_name || '?'} ${assertion.predicate} ${assertion.object_name || assertion.object_text || '?'}`,
+          data: {
+            id: assertion.id,
+            predicate: assertion.predicate,
+            objectText: assertion.object_text,
+            confidence: assertion.confidence,
+            subjectName: assertion.subject_name,
+            objectName: assertion.object_name,
+          },
+        });
+      }
+    }
+
+    return results;
+  } catch (error) {
+    console.error('Assertion vector search failed:', error);
+    return [];
+  }
+}
+
 /**
  * Simple search without vector (for when no embedding config)
  */
 export function simpleSearch(
-  query: string,
+  query: string | SearchQuery,
   options: SearchOptions = {}
 ): SearchResult[] {
+  const searchQuery = toSearchQuery(query, { resolveDates: options.resolveDates, now: options.referenceDate });
+  // "last week", "since the offsite", ... become date bounds for every leg
+  options = applyTemporalRange(options, searchQuery.temporal);
   const limit = options.limit ?? 20;
   const internalLimit = limit * 2;
 
-  const searchTypes = options.searchTypes ?? ['message', 'entity', 'assertion'];
-  const resultSets: SearchResult[][] = [];
+  const searchTypes = options.searchTypes ?? ['message', 'entity', 'assertion', 'attachment'];
+  const runs: LegRun[] = [];
+
+  const run = (name: string, source: SearchLeg['source'], search: () => SearchResult[]) => {
+    const started = performance.now();
+    const results = search();
+    runs.push({ name, source, results, ms: performance.now() - started });
+  };
 
   // FTS searches
   if (searchTypes.includes('message')) {
-    resultSets.push(ftsSearchMessages(query, { ...options, limit: internalLimit }));
+    run('fts:message', 'fts', () => ftsSearchMessages(searchQuery, { ...options, limit: internalLimit }));
   }
 
   if (searchTypes.includes('entity')) {
-    resultSets.push(ftsSearchEntities(query, { ...options, limit: internalLimit }));
+    run('fts:entity', 'fts', () => ftsSearchEntities(searchQuery, { ...options, limit: internalLimit }));
   }
 
   if (searchTypes.includes('assertion')) {
-    resultSets.push(ftsSearchAssertions(query, { ...options, limit: internalLimit }));
+    run('fts:assertion', 'fts', () => ftsSearchAssertions(searchQuery, { ...options, limit: internalLimit }));
+  }
+
+  if (searchTypes.includes('attachment')) {
+    run('fts:attachment', 'fts', () => ftsSearchAttachments(searchQuery, { ...options, limit: internalLimit }));
   }
 
   // Graph search
-  const parsed = parseQuery(query);
-  if (parsed.entities.length > 0) {
-    resultSets.push(graphSearch(query, { ...options, limit: internalLimit }));
+  const parsed = parseQuery(searchQuery.text);
+  if (hasGraphPattern(parsed)) {
+    run('graph', 'graph', () => graphSearch(searchQuery.text, { ...options, limit: internalLimit }));
   }
 
   // Fuse and return
-  return reciprocalRankFusion(resultSets).slice(0, limit);
+  return fuseLegs(runs, searchQuery, options).slice(0, limit);
 }
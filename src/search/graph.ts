@@ -2,7 +2,10 @@
 
 import { getDb } from '../db/connection';
 import { nameSimilarity } from '../entity/matcher';
-import type { SearchResult, SearchOptions } from './types';
+import { currentEdgeStrength } from '../entity/decay';
+import { findUserEntityId } from '../entity/user';
+import { extractTemporalExpression, stripTemporalExpression, applyTemporalRange, type TemporalRange } from './temporal';
+import type { SearchResult, SearchOptions, GraphPath, PathEdge } from './types';
 
 /**
  * Parse a query to identify entity references
@@ -11,26 +14,74 @@ import type { SearchResult, SearchOptions } from './types';
 interface QueryParse {
   entities: string[];
   relations: string[];
+  chains: Array<{ entity: string; relations: string[] }>;  // "Jake's boss's assistant"
+  common: { entities: string[]; relation?: string } | null;  // "who works with both Sarah and Tom"
+  path: { from: string; to: string } | null;  // "how do I know Priya?" (from = 'me')
   keywords: string[];
+  temporal: TemporalRange | null;  // "last week" etc., removed from keywords
 }
 
-export function parseQuery(query: string): QueryParse {
-  const possessivePattern = /(\w+)'s\s+(\w+)/gi;
+const COMMON_PATTERN = /\b(?:people\s+)?(?:who|that)\s+(\w+)(?:\s+(?:with|to))?\s+both\s+(.+?)\s+and\s+(.+?)\s*(?:[?.!]|$)/i;
+const PATH_PATTERNS = [
+  /\bhow\s+(?:do|does|did)\s+(.+?)\s+know\s+(.+?)\s*(?:[?.!]|$)/i,
+  /\bhow\s+(?:am|is|are)\s+(.+?)\s+(?:connected|related|linked)\s+to\s+(.+?)\s*(?:[?.!]|$)/i,
+];
+
+function normalizePathEnd(name: string): string {
+  return /^(i|me|my|myself)$/i.test(name.trim()) ? 'me' : name.trim();
+}
+
+export function parseQuery(query: string, now?: Date): QueryParse {
+  const temporal = extractTemporalExpression(query, { now });
+  if (temporal) {
+    query = stripTemporalExpression(query, temporal);
+  }
+
+  const possessivePattern = /(\w+)((?:'s\s+\w+)+)/gi;
   const entities: string[] = [];
   const relations: string[] = [];
+  const chains: QueryParse['chains'] = [];
 
-  // Find possessive patterns like "Jake's boss"
+  // Find possessive chains like "Jake's boss" or "Jake's boss's assistant"
   let match;
   while ((match = possessivePattern.exec(query)) !== null) {
+    const chain = match[2]!.split(/'s\s+/).filter(Boolean);
     entities.push(match[1]!);
-    relations.push(match[2]!);
+    relations.push(chain[0]!);
+    chains.push({ entity: match[1]!, relations: chain });
+  }
+  let processedQuery = query.replace(possessivePattern, '');
+
+  // "people who work with both Sarah and Tom"
+  let common: QueryParse['common'] = null;
+  const commonMatch = COMMON_PATTERN.exec(processedQuery);
+  if (commonMatch) {
+    common = { entities: [commonMatch[2]!.trim(), commonMatch[3]!.trim()], relation: commonMatch[1]!.toLowerCase() };
+    processedQuery = processedQuery.replace(commonMatch[0], ' ');
+  }
+
+  // "how do I know Priya?", "how is Sarah connected to Tom"
+  let path: QueryParse['path'] = null;
+  for (const pattern of PATH_PATTERNS) {
+    const pathMatch = pattern.exec(processedQuery);
+    if (pathMatch) {
+      path = { from: normalizePathEnd(pathMatch[1]!), to: normalizePathEnd(pathMatch[2]!) };
+      processedQuery = processedQuery.replace(pathMatch[0], ' ');
+      break;
+    }
   }
 
   // Remaining words are keywords
-  const processedQuery = query.replace(possessivePattern, '').trim();
-  const keywords = processedQuery.split(/\s+/).filter(w => w.length > 2);
+  const keywords = processedQuery.trim().split(/\s+/).filter(w => w.length > 2);
 
-  return { entities, relations, keywords };
+  return { entities, relations, chains, common, path, keywords, temporal };
+}
+
+/**
+ * Whether graphSearch has anything to traverse for this query
+ */
+export function hasGraphPattern(parsed: QueryParse): boolean {
+  return parsed.chains.length > 0 || parsed.common !== null || parsed.path !== null;
 }
 
 /**
@@ -44,10 +95,12 @@ export function findMatchingEntities(name: string, threshold: number = 0.7): Arr
   const db = getDb();
 
   const allEntities = db.prepare(`
-    SELECT id, canonical_name FROM entities
-  `).all() as Array<{ id: string; canonical_name: string }>;
+    SELECT e.id, e.canonical_name, ei.score as importance
+    FROM entities e
+    LEFT JOIN entity_importance ei ON ei.entity_id = e.id
+  `).all() as Array<{ id: string; canonical_name: string; importance: number | null }>;
 
-  const matches: Array<{ id: string; name: string; score: number }> = [];
+  const matches: Array<{ id: string; name: string; score: number; importance: number }> = [];
 
   for (const entity of allEntities) {
     const score = nameSimilarity(name, entity.canonical_name);
@@ -56,24 +109,39 @@ export function findMatchingEntities(name: string, threshold: number = 0.7): Arr
         id: entity.id,
         name: entity.canonical_name,
         score,
+        importance: entity.importance ?? 0,
       });
     }
   }
 
-  return matches.sort((a, b) => b.score - a.score);
+  // Equally good name matches: the one that matters more to the user first
+  return matches
+    .sort((a, b) => b.score - a.score || b.importance - a.importance)
+    .map(({ importance: _importance, ...match }) => match);
+}
+
+interface ConnectedEdgeRow {
+  entity_id: string;
+  edge_type: string;
+  canonical_name: string;
+  strength: number | null;
+  last_evidence_at: string | null;
+  current_strength: number | null;
+  strength_computed_at: string | null;
 }
 
 /**
- * Traverse graph to find related entities
+ * Traverse graph to find related entities. `strength` is the edge's
+ * current (decayed) strength.
  */
 export function getConnectedEntities(
   entityId: string,
   edgeTypes?: string[],
   depth: number = 1
-): Array<{ id: string; name: string; edgeType: string; distance: number }> {
+): Array<{ id: string; name: string; edgeType: string; distance: number; strength: number }> {
   const db = getDb();
   const visited = new Set<string>();
-  const results: Array<{ id: string; name: string; edgeType: string; distance: number }> = [];
+  const results: Array<{ id: string; name: string; edgeType: string; distance: number; strength: number }> = [];
 
   function traverse(currentId: string, currentDepth: number) {
     if (currentDepth > depth || visited.has(currentId)) return;
@@ -89,19 +157,21 @@ export function getConnectedEntities(
     }
 
     const outgoing = db.prepare(`
-      SELECT ge.to_entity_id as entity_id, ge.edge_type, e.canonical_name
+      SELECT ge.to_entity_id as entity_id, ge.edge_type, e.canonical_name,
+             ge.strength, ge.last_evidence_at, ge.current_strength, ge.strength_computed_at
       FROM graph_edges ge
       JOIN entities e ON ge.to_entity_id = e.id
       WHERE ge.from_entity_id = ? ${edgeCondition}
-    `).all(...params) as Array<{ entity_id: string; edge_type: string; canonical_name: string }>;
+    `).all(...params) as ConnectedEdgeRow[];
 
     // Get incoming edges
     const incoming = db.prepare(`
-      SELECT ge.from_entity_id as entity_id, ge.edge_type, e.canonical_name
+      SELECT ge.from_entity_id as entity_id, ge.edge_type, e.canonical_name,
+             ge.strength, ge.last_evidence_at, ge.current_strength, ge.strength_computed_at
       FROM graph_edges ge
       JOIN entities e ON ge.from_entity_id = e.id
       WHERE ge.to_entity_id = ? ${edgeCondition}
-    `).all(...params) as Array<{ entity_id: string; edge_type: string; canonical_name: string }>;
+    `).all(...params) as ConnectedEdgeRow[];
 
     for (const edge of [...outgoing, ...incoming]) {
       if (!visited.has(edge.entity_id)) {
@@ -110,6 +180,7 @@ export function getConnectedEntities(
           name: edge.canonical_name,
           edgeType: edge.edge_type,
           distance: currentDepth,
+          strength: currentEdgeStrength(edge),
         });
 
         if (currentDepth < depth) {
@@ -120,7 +191,17 @@ export function getConnectedEntities(
   }
 
   traverse(entityId, 1);
-  return results;
+
+  // Closest first, then strongest current tie, then by importance to the user
+  const ids = Array.from(new Set(results.map(r => r.id)));
+  const importance = new Map(ids.length === 0 ? [] : (db.prepare(`
+    SELECT entity_id, score FROM entity_importance WHERE entity_id IN (${ids.map(() => '?').join(',')})
+  `).all(...ids) as Array<{ entity_id: string; score: number }>).map(r => [r.entity_id, r.score]));
+  return results.sort((a, b) =>
+    a.distance - b.distance ||
+    b.strength - a.strength ||
+    (importance.get(b.id) ?? 0) - (importance.get(a.id) ?? 0)
+  );
 }
 
 /**
@@ -150,47 +231,375 @@ const RELATION_TO_EDGE: Record<string, string[]> = {
   'family': ['family'],
 };
 
+/**
+ * Which way a relation points along stored edges: "Jake's boss" follows
+ * Jake -[reports_to]-> boss, "Jake's report" follows it backwards
+ */
+const RELATION_DIRECTION: Record<string, 'out' | 'in'> = {
+  'boss': 'out',
+  'manager': 'out',
+  'employee': 'in',
+  'report': 'in',
+};
+
+/**
+ * Verbs in "who <verb> with both X and Y"
+ */
+const VERB_TO_EDGE: Record<string, string[]> = {
+  'work': ['works_with', 'communicates_with'],
+  'works': ['works_with', 'communicates_with'],
+  'worked': ['works_with', 'communicates_with'],
+  'talk': ['communicates_with'],
+  'talks': ['communicates_with'],
+  'email': ['communicates_with'],
+  'emails': ['communicates_with'],
+  'message': ['communicates_with'],
+  'messages': ['communicates_with'],
+  'report': ['reports_to'],
+  'reports': ['reports_to'],
+};
+
+interface RelationStep {
+  edgeTypes?: string[];     // Exact edge types
+  edgePattern?: string;     // LIKE pattern for relation words we have no mapping for
+  direction: 'out' | 'in' | 'both';
+}
+
+/**
+ * Map a relation word ("boss", "colleagues", "assistant") to edge constraints
+ */
+function relationStep(word: string): RelationStep {
+  const relation = word.toLowerCase();
+  const key = [relation, relation.replace(/s$/, ''), relation.replace(/es$/, '')]
+    .find(candidate => RELATION_TO_EDGE[candidate]);
+
+  if (key) {
+    return { edgeTypes: RELATION_TO_EDGE[key], direction: RELATION_DIRECTION[key] ?? 'both' };
+  }
+  return { edgePattern: `%${relation.replace(/s$/, '')}%`, direction: 'both' };
+}
+
+/**
+ * Edges touching an entity that satisfy a step, strongest evidence first
+ */
+function getStepEdges(
+  entityId: string,
+  step: RelationStep
+): Array<{ neighbor: { id: string; name: string }; edge: PathEdge }> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (step.direction === 'out') {
+    conditions.push('ge.from_entity_id = ?');
+    params.push(entityId);
+  } else if (step.direction === 'in') {
+    conditions.push('ge.to_entity_id = ?');
+    params.push(entityId);
+  } else {
+    conditions.push('(ge.from_entity_id = ? OR ge.to_entity_id = ?)');
+    params.push(entityId, entityId);
+  }
+
+  if (step.edgeTypes?.length) {
+    conditions.push(`ge.edge_type IN (${step.edgeTypes.map(() => '?').join(',')})`);
+    params.push(...step.edgeTypes);
+  } else if (step.edgePattern) {
+    conditions.push('ge.edge_type LIKE ?');
+    params.push(step.edgePattern);
+  }
+
+  const rows = getDb().prepare(`
+    SELECT ge.from_entity_id, ge.to_entity_id, ge.edge_type, ge.evidence_count, ge.strength,
+           ef.canonical_name as from_name, et.canonical_name as to_name
+    FROM graph_edges ge
+    JOIN entities ef ON ge.from_entity_id = ef.id
+    JOIN entities et ON ge.to_entity_id = et.id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY ge.evidence_count DESC, ge.strength DESC
+  `).all(...params) as Array<{
+    from_entity_id: string;
+    to_entity_id: string;
+    edge_type: string;
+    evidence_count: number | null;
+    strength: number | null;
+    from_name: string;
+    to_name: string;
+  }>;
+
+  return rows
+    .filter(row => row.from_entity_id !== row.to_entity_id)
+    .map(row => {
+      const outgoing = row.from_entity_id === entityId;
+      return {
+        neighbor: outgoing
+          ? { id: row.to_entity_id, name: row.to_name }
+          : { id: row.from_entity_id, name: row.from_name },
+        edge: {
+          fromId: row.from_entity_id,
+          toId: row.to_entity_id,
+          edgeType: row.edge_type,
+          evidenceCount: row.evidence_count ?? 1,
+          strength: row.strength ?? 1,
+        },
+      };
+    });
+}
+
+function getEntityName(entityId: string): string | null {
+  const row = getDb().prepare(`SELECT canonical_name FROM entities WHERE id = ?`)
+    .get(entityId) as { canonical_name: string } | undefined;
+  return row?.canonical_name ?? null;
+}
+
+/**
+ * Render a path as "Jake -[reports_to]-> Ann <-[assistant_to]- Bob"
+ */
+export function describePath(path: GraphPath): string {
+  let text = path.nodes[0]?.name ?? '';
+  path.edges.forEach((edge, i) => {
+    const node = path.nodes[i + 1]!;
+    text += edge.toId === node.id
+      ? ` -[${edge.edgeType}]-> ${node.name}`
+      : ` <-[${edge.edgeType}]- ${node.name}`;
+  });
+  return text;
+}
+
+/**
+ * Follow a chain of relation words from an entity, e.g. ['boss', 'assistant']
+ * for "Jake's boss's assistant". Each hop is constrained by the edge types
+ * (and direction) of its relation; paths never revisit an entity.
+ */
+export function traverseRelationChain(
+  startId: string,
+  relations: string[],
+  options: { maxResults?: number; anyEdgeFallback?: boolean } = {}
+): Array<{ id: string; name: string; path: GraphPath }> {
+  const startName = getEntityName(startId);
+  if (startName === null || relations.length === 0) return [];
+
+  const maxResults = options.maxResults ?? 50;
+  let frontier: GraphPath[] = [{ nodes: [{ id: startId, name: startName }], edges: [] }];
+
+  for (const relation of relations) {
+    let step = relationStep(relation);
+    const next = new Map<string, GraphPath>();
+
+    const expand = () => {
+      for (const path of frontier) {
+        const current = path.nodes[path.nodes.length - 1]!;
+        for (const { neighbor, edge } of getStepEdges(current.id, step)) {
+          if (next.has(neighbor.id) || path.nodes.some(n => n.id === neighbor.id)) continue;
+          next.set(neighbor.id, { nodes: [...path.nodes, neighbor], edges: [...path.edges, edge] });
+        }
+      }
+    };
+
+    expand();
+    // Unknown single relation words ("Sarah's people") fall back to any edge
+    if (next.size === 0 && options.anyEdgeFallback && step.edgePattern) {
+      step = { direction: 'both' };
+      expand();
+    }
+
+    frontier = Array.from(next.values()).slice(0, maxResults);
+    if (frontier.length === 0) break;
+  }
+
+  return frontier.map(path => {
+    const end = path.nodes[path.nodes.length - 1]!;
+    return { id: end.id, name: end.name, path };
+  });
+}
+
+/**
+ * Entities directly connected to every one of the given entities
+ * ("people who work with both Sarah and Tom"), with the connecting edges
+ */
+export function findCommonNeighbors(
+  entityIds: string[],
+  edgeTypes?: string[]
+): Array<{ id: string; name: string; edges: PathEdge[]; evidenceCount: number }> {
+  if (entityIds.length === 0) return [];
+
+  const step: RelationStep = { edgeTypes, direction: 'both' };
+  const neighborMaps = entityIds.map(id => {
+    const neighbors = new Map<string, { name: string; edge: PathEdge }>();
+    for (const { neighbor, edge } of getStepEdges(id, step)) {
+      if (!neighbors.has(neighbor.id)) neighbors.set(neighbor.id, { name: neighbor.name, edge });
+    }
+    return neighbors;
+  });
+
+  const results: Array<{ id: string; name: string; edges: PathEdge[]; evidenceCount: number }> = [];
+  for (const [id, first] of neighborMaps[0]!) {
+    if (entityIds.includes(id)) continue;
+    if (!neighborMaps.every(neighbors => neighbors.has(id))) continue;
+
+    const edges = neighborMaps.map(neighbors => neighbors.get(id)!.edge);
+    results.push({
+      id,
+      name: first.name,
+      edges,
+      evidenceCount: edges.reduce((sum, e) => sum + e.evidenceCount, 0),
+    });
+  }
+
+  return results.sort((a, b) => b.evidenceCount - a.evidenceCount);
+}
+
+/**
+ * Shortest path between two entities over graph_edges in either direction
+ * (breadth-first, so fewest hops; better-evidenced edges are tried first)
+ */
+export function findShortestPath(
+  fromId: string,
+  toId: string,
+  options: { maxDepth?: number; edgeTypes?: string[] } = {}
+): GraphPath | null {
+  const fromName = getEntityName(fromId);
+  if (fromName === null) return null;
+  if (fromId === toId) return { nodes: [{ id: fromId, name: fromName }], edges: [] };
+
+  const maxDepth = options.maxDepth ?? 4;
+  const step: RelationStep = { edgeTypes: options.edgeTypes, direction: 'both' };
+  const visited = new Set<string>([fromId]);
+  let frontier: GraphPath[] = [{ nodes: [{ id: fromId, name: fromName }], edges: [] }];
+
+  for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+    const next: GraphPath[] = [];
+
+    for (const path of frontier) {
+      const current = path.nodes[path.nodes.length - 1]!;
+      for (const { neighbor, edge } of getStepEdges(current.id, step)) {
+        if (visited.has(neighbor.id)) continue;
+        visited.add(neighbor.id);
+
+        const extended = { nodes: [...path.nodes, neighbor], edges: [...path.edges, edge] };
+        if (neighbor.id === toId) return extended;
+        next.push(extended);
+      }
+    }
+
+    frontier = next;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a name from a query to an entity ('me' is the user)
+ */
+function resolveQueryEntity(name: string): { id: string; name: string; score: number } | null {
+  if (name === 'me') {
+    const userId = findUserEntityId();
+    const userName = userId ? getEntityName(userId) : null;
+    return userId && userName ? { id: userId, name: userName, score: 1 } : null;
+  }
+  return findMatchingEntities(name, 0.6)[0] ?? null;
+}
+
 /**
  * Graph-based search for relationship queries
  * e.g., "Jake's boss" -> Find Jake, then traverse reports_to edge
+ * Also handles chains ("Jake's boss's assistant"), common connections
+ * ("who works with both Sarah and Tom") and paths ("how do I know Priya?").
+ * Entity results carry the GraphPath(s) that produced them in `data`.
  */
 export function graphSearch(
   query: string,
   options: SearchOptions = {}
 ): SearchResult[] {
-  const parsed = parseQuery(query);
+  const parsed = parseQuery(query, options.referenceDate);
+  if (options.resolveDates !== false) {
+    options = applyTemporalRange(options, parsed.temporal);
+  }
   const limit = options.limit ?? 20;
   const results: SearchResult[] = [];
 
   // Handle relationship queries
-  for (let i = 0; i < parsed.entities.length; i++) {
-    const entityName = parsed.entities[i]!;
-    const relation = parsed.relations[i]?.toLowerCase();
-
+  for (const chain of parsed.chains) {
     // Find the base entity
-    const entityMatches = findMatchingEntities(entityName, 0.6);
-    if (entityMatches.length === 0) continue;
+    const baseEntity = resolveQueryEntity(chain.entity);
+    if (!baseEntity) continue;
 
-    const baseEntity = entityMatches[0]!;
+    // Traverse graph along the typed chain
+    const reached = traverseRelationChain(baseEntity.id, chain.relations, {
+      maxResults: limit,
+      anyEdgeFallback: chain.relations.length === 1,
+    });
 
-    // Map relation to edge types
-    const edgeTypes = relation ? RELATION_TO_EDGE[relation] : undefined;
-
-    // Traverse graph
-    const connected = getConnectedEntities(baseEntity.id, edgeTypes, 1);
-
-    for (const conn of connected) {
+    for (const conn of reached) {
+      const lastEdge = conn.path.edges[conn.path.edges.length - 1]!;
       results.push({
         id: conn.id,
         type: 'entity',
-        score: baseEntity.score * (1 / (conn.distance + 1)),
+        score: baseEntity.score * (1 / (conn.path.edges.length + 1)),
         source: 'graph',
-        highlight: `${baseEntity.name}'s ${conn.edgeType.replace('_', ' ')}`,
+        highlight: describePath(conn.path),
         data: {
           id: conn.id,
           canonicalName: conn.name,
-          relationship: conn.edgeType,
+          relationship: lastEdge.edgeType,
           via: baseEntity.name,
+          path: conn.path,
+        },
+      });
+    }
+  }
+
+  // "who works with both Sarah and Tom"
+  if (parsed.common) {
+    const anchors = parsed.common.entities.map(resolveQueryEntity);
+    if (anchors.every(a => a !== null)) {
+      const edgeTypes = parsed.common.relation ? VERB_TO_EDGE[parsed.common.relation] : undefined;
+      const anchorIds = anchors.map(a => a!.id);
+      const common = findCommonNeighbors(anchorIds, edgeTypes);
+      const topEvidence = common[0]?.evidenceCount ?? 1;
+
+      for (const conn of common.slice(0, limit)) {
+        const paths: GraphPath[] = anchors.map((anchor, i) => ({
+          nodes: [{ id: anchor!.id, name: anchor!.name }, { id: conn.id, name: conn.name }],
+          edges: [conn.edges[i]!],
+        }));
+
+        results.push({
+          id: conn.id,
+          type: 'entity',
+          score: conn.evidenceCount / topEvidence,
+          source: 'graph',
+          highlight: paths.map(describePath).join('; '),
+          data: {
+            id: conn.id,
+            canonicalName: conn.name,
+            relationship: conn.edges.map(e => e.edgeType),
+            via: anchors.map(a => a!.name),
+            paths,
+          },
+        });
+      }
+    }
+  }
+
+  // "how do I know Priya?"
+  if (parsed.path) {
+    const from = resolveQueryEntity(parsed.path.from);
+    const to = resolveQueryEntity(parsed.path.to);
+    const path = from && to ? findShortestPath(from.id, to.id) : null;
+
+    if (to && path && path.edges.length > 0) {
+      results.push({
+        id: to.id,
+        type: 'entity',
+        score: 1 / path.edges.length,
+        source: 'graph',
+        highlight: describePath(path),
+        data: {
+          id: to.id,
+          canonicalName: to.name,
+          relationship: path.edges[path.edges.length - 1]!.edgeType,
+          via: from!.name,
+          path,
         },
       });
     }
@@ -204,14 +613,26 @@ export function graphSearch(
   if (entityIds.length > 0) {
     const db = getDb();
 
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (options.dateFrom) {
+      conditions.push('m.timestamp >= ?');
+      params.push(options.dateFrom.toISOString());
+    }
+    if (options.dateTo) {
+      conditions.push('m.timestamp <= ?');
+      params.push(options.dateTo.toISOString());
+    }
+
     const messages = db.prepare(`
       SELECT m.id, m.subject, m.body_text, m.timestamp, e.canonical_name as sender_name
       FROM messages m
       LEFT JOIN entities e ON m.sender_entity_id = e.id
       WHERE m.sender_entity_id IN (${entityIds.map(() => '?').join(',')})
+      ${conditions.map(c => `AND ${c}`).join(' ')}
       ORDER BY m.timestamp DESC
       LIMIT ?
-    `).all(...entityIds, limit) as Array<{
+    `).all(...entityIds, ...params, limit) as Array<{
       id: string;
       subject: string | null;
       body_text: string;
@@ -0,0 +1,471 @@
+// HNSW (Hierarchical Navigable Small World) approximate nearest-neighbour index
+// Reference: Malkov & Yashunin, "Efficient and robust approximate nearest
+// neighbor search using Hierarchical Navigable Small World graphs" (2016)
+//
+// Vectors are L2-normalised on insert, so inner product == cosine similarity.
+// Deletes are tombstones: the node keeps routing searches but is never
+// returned. compact() rebuilds the graph once tombstones pile up.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface HnswConfig {
+  /** Max neighbours per node on upper layers (layer 0 keeps 2*m). Default 16 */
+  m: number;
+  /** Candidate list size while inserting. Higher = better graph, slower inserts. Default 100 */
+  efConstruction: number;
+  /** Candidate list size while searching. Higher = better recall, slower queries. Default 64 */
+  efSearch: number;
+}
+
+export const DEFAULT_HNSW_CONFIG: HnswConfig = {
+  m: 16,
+  efConstruction: 100,
+  efSearch: 64,
+};
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][];  // Node indices, one list per layer
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  score: number;
+}
+
+const FILE_MAGIC = 'HNSW';
+const FILE_VERSION = 1;
+
+// ============================================================
+// VECTOR HELPERS
+// ============================================================
+
+/**
+ * Encode a vector as a Float32 blob
+ */
+export function encodeVector(embedding: ArrayLike<number>): Buffer {
+  return Buffer.from(Float32Array.from(embedding).buffer);
+}
+
+/**
+ * Decode a Float32 blob back into a vector
+ */
+export function decodeVector(blob: Buffer): Float32Array {
+  // Copy out of the source buffer so the Float32Array is correctly aligned
+  const bytes = blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength);
+  return new Float32Array(bytes);
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const out = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < out.length; i++) norm += out[i]! * out[i]!;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < out.length; i++) out[i] = out[i]! / norm;
+  }
+  return out;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i]! * b[i]!;
+  return sum;
+}
+
+/**
+ * Insert into an array kept sorted by score (descending, or ascending so
+ * the best item can be popped off the end)
+ */
+function insertSorted(list: Candidate[], item: Candidate, ascending: boolean = false): void {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    const before = ascending ? list[mid]!.score <= item.score : list[mid]!.score >= item.score;
+    if (before) lo = mid + 1;
+    else hi = mid;
+  }
+  list.splice(lo, 0, item);
+}
+
+// ============================================================
+// INDEX
+// ============================================================
+
+export class HnswIndex {
+  readonly dimensions: number;
+  readonly config: HnswConfig;
+
+  private nodes: HnswNode[] = [];
+  private idToNode = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private readonly levelMultiplier: number;
+  private readonly random: () => number;
+
+  // Visited marks for searchLayer, stamped per search to avoid reallocating
+  private visitMarks = new Uint32Array(0);
+  private visitStamp = 0;
+
+  /**
+   * @param random Source of the uniform [0, 1) numbers that pick node levels,
+   *   e.g. a seeded generator for reproducible graphs
+   */
+  constructor(dimensions: number, config: Partial<HnswConfig> = {}, random: () => number = Math.random) {
+    this.dimensions = dimensions;
+    this.config = { ...DEFAULT_HNSW_CONFIG, ...config };
+    this.levelMultiplier = 1 / Math.log(Math.max(2, this.config.m));
+    this.random = random;
+  }
+
+  /** Number of live (non-deleted) vectors */
+  get size(): number {
+    return this.idToNode.size;
+  }
+
+  /** Fraction of graph nodes that are tombstones */
+  get deletedRatio(): number {
+    return this.nodes.length === 0 ? 0 : this.deletedCount / this.nodes.length;
+  }
+
+  has(id: string): boolean {
+    return this.idToNode.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.idToNode.keys());
+  }
+
+  /**
+   * Insert a vector. Re-adding an existing id replaces its vector.
+   */
+  add(id: string, vector: ArrayLike<number>): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, index expects ${this.dimensions}`);
+    }
+    if (this.idToNode.has(id)) {
+      this.remove(id);
+    }
+
+    const level = this.randomLevel();
+    const nodeIndex = this.nodes.length;
+    const node: HnswNode = {
+      id,
+      vector: normalize(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+    this.nodes.push(node);
+    this.idToNode.set(id, nodeIndex);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = nodeIndex;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through layers above the new node's level
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.searchLayer(node.vector, [entry], 1, layer)[0]?.node ?? entry;
+    }
+
+    // Connect on each layer the node lives in
+    let entries = [entry];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entries, this.config.efConstruction, layer);
+      const selected = this.selectNeighbors(node.vector, candidates, this.config.m);
+      node.neighbors[layer] = selected;
+
+      const maxConnections = layer === 0 ? this.config.m * 2 : this.config.m;
+      for (const neighborIndex of selected) {
+        const neighbor = this.nodes[neighborIndex]!;
+        const links = neighbor.neighbors[layer]!;
+        links.push(nodeIndex);
+
+        if (links.length > maxConnections) {
+          const scored = links.map(n => ({ node: n, score: dot(neighbor.vector, this.nodes[n]!.vector) }))
+            .sort((a, b) => b.score - a.score);
+          neighbor.neighbors[layer] = this.selectNeighbors(neighbor.vector, scored, maxConnections);
+        }
+      }
+
+      entries = candidates.map(c => c.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = nodeIndex;
+    }
+  }
+
+  /**
+   * Remove a vector (tombstone). Returns false if the id was not indexed.
+   */
+  remove(id: string): boolean {
+    const nodeIndex = this.idToNode.get(id);
+    if (nodeIndex === undefined) return false;
+
+    this.nodes[nodeIndex]!.deleted = true;
+    this.idToNode.delete(id);
+    this.deletedCount++;
+    return true;
+  }
+
+  /**
+   * Find the k most similar vectors. ef trades latency for recall.
+   */
+  search(
+    query: ArrayLike<number>,
+    k: number,
+    ef: number = this.config.efSearch
+  ): Array<{ id: string; score: number }> {
+    if (this.entryPoint === -1 || this.idToNode.size === 0) return [];
+    if (query.length !== this.dimensions) {
+      throw new Error(`Query has ${query.length} dimensions, index expects ${this.dimensions}`);
+    }
+
+    const q = normalize(query);
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.searchLayer(q, [entry], 1, layer)[0]?.node ?? entry;
+    }
+
+    // Widen the beam by the tombstone ratio so deletes don't starve results
+    const beam = Math.ceil(Math.max(ef, k) / Math.max(0.1, 1 - this.deletedRatio));
+    const candidates = this.searchLayer(q, [entry], beam, 0);
+
+    const results: Array<{ id: string; score: number }> = [];
+    for (const candidate of candidates) {
+      const node = this.nodes[candidate.node]!;
+      if (node.deleted) continue;
+      results.push({ id: node.id, score: candidate.score });
+      if (results.length >= k) break;
+    }
+    return results;
+  }
+
+  /**
+   * Rebuild the graph without tombstones
+   */
+  compact(): void {
+    const live = this.nodes.filter(n => !n.deleted);
+    this.nodes = [];
+    this.idToNode.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+
+    for (const node of live) {
+      this.add(node.id, node.vector);
+    }
+  }
+
+  // ============================================================
+  // PERSISTENCE
+  // ============================================================
+
+  /**
+   * Serialize to a binary buffer:
+   * magic | version | header length | JSON header | float32 vectors | uint32 neighbour lists
+   */
+  serialize(): Buffer {
+    const header = Buffer.from(JSON.stringify({
+      dimensions: this.dimensions,
+      config: this.config,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      ids: this.nodes.map(n => n.id),
+      levels: this.nodes.map(n => n.level),
+      deleted: this.nodes.flatMap((n, i) => (n.deleted ? [i] : [])),
+    }), 'utf-8');
+
+    const vectors = new Float32Array(this.nodes.length * this.dimensions);
+    this.nodes.forEach((n, i) => vectors.set(n.vector, i * this.dimensions));
+
+    const links: number[] = [];
+    for (const node of this.nodes) {
+      for (const layer of node.neighbors) {
+        links.push(layer.length, ...layer);
+      }
+    }
+
+    const prefix = Buffer.alloc(12);
+    prefix.write(FILE_MAGIC, 0, 'ascii');
+    prefix.writeUInt32LE(FILE_VERSION, 4);
+    prefix.writeUInt32LE(header.length, 8);
+
+    return Buffer.concat([
+      prefix,
+      header,
+      Buffer.from(vectors.buffer),
+      Buffer.from(Uint32Array.from(links).buffer),
+    ]);
+  }
+
+  static deserialize(buffer: Buffer): HnswIndex {
+    if (buffer.toString('ascii', 0, 4) !== FILE_MAGIC) {
+      throw new Error('Not an HNSW index file');
+    }
+    const version = buffer.readUInt32LE(4);
+    if (version !== FILE_VERSION) {
+      throw new Error(`Unsupported HNSW index version ${version}`);
+    }
+
+    const headerLength = buffer.readUInt32LE(8);
+    let offset = 12;
+    const header = JSON.parse(buffer.toString('utf-8', offset, offset + headerLength)) as {
+      dimensions: number;
+      config: HnswConfig;
+      entryPoint: number;
+      maxLevel: number;
+      ids: string[];
+      levels: number[];
+      deleted: number[];
+    };
+    offset += headerLength;
+
+    const index = new HnswIndex(header.dimensions, header.config);
+    const vectorBytes = header.ids.length * header.dimensions * 4;
+    const vectors = decodeVector(buffer.subarray(offset, offset + vectorBytes));
+    offset += vectorBytes;
+
+    const linkBytes = buffer.subarray(offset);
+    const links = new Uint32Array(linkBytes.buffer.slice(linkBytes.byteOffset, linkBytes.byteOffset + linkBytes.byteLength));
+    let cursor = 0;
+
+    const deleted = new Set(header.deleted);
+    header.ids.forEach((id, i) => {
+      const level = header.levels[i]!;
+      const neighbors: number[][] = [];
+      for (let layer = 0; layer <= level; layer++) {
+        const count = links[cursor++]!;
+        neighbors.push(Array.from(links.subarray(cursor, cursor + count)));
+        cursor += count;
+      }
+
+      index.nodes.push({
+        id,
+        vector: vectors.slice(i * header.dimensions, (i + 1) * header.dimensions),
+        level,
+        neighbors,
+        deleted: deleted.has(i),
+      });
+      if (!deleted.has(i)) index.idToNode.set(id, i);
+    });
+
+    index.entryPoint = header.entryPoint;
+    index.maxLevel = header.maxLevel;
+    index.deletedCount = deleted.size;
+    return index;
+  }
+
+  save(filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    // Write-then-rename so a crash never leaves a half-written index
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, this.serialize());
+    fs.renameSync(tmpPath, filePath);
+  }
+
+  static load(filePath: string): HnswIndex {
+    return HnswIndex.deserialize(fs.readFileSync(filePath));
+  }
+
+  // ============================================================
+  // GRAPH INTERNALS
+  // ============================================================
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(Math.max(this.random(), 1e-12)) * this.levelMultiplier);
+  }
+
+  private beginVisit(): Uint32Array {
+    if (this.visitMarks.length < this.nodes.length) {
+      this.visitMarks = new Uint32Array(Math.max(1024, this.nodes.length * 2));
+      this.visitStamp = 0;
+    }
+    this.visitStamp++;
+    if (this.visitStamp === 0xffffffff) {
+      this.visitMarks.fill(0);
+      this.visitStamp = 1;
+    }
+    return this.visitMarks;
+  }
+
+  /**
+   * Best-first beam search on one layer. Returns up to ef nodes, best first.
+   */
+  private searchLayer(query: Float32Array, entries: number[], ef: number, layer: number): Candidate[] {
+    const visited = this.beginVisit();
+    const stamp = this.visitStamp;
+    const candidates: Candidate[] = [];  // Ascending, best popped from the end
+    const results: Candidate[] = [];     // Descending, worst at the end
+
+    for (const entry of entries) {
+      visited[entry] = stamp;
+      const candidate = { node: entry, score: dot(query, this.nodes[entry]!.vector) };
+      insertSorted(candidates, candidate, true);
+      insertSorted(results, candidate);
+    }
+    results.splice(ef);
+
+    while (candidates.length > 0) {
+      const current = candidates.pop()!;
+      const worst = results[results.length - 1];
+      if (worst && current.score < worst.score && results.length >= ef) break;
+
+      for (const neighbor of this.nodes[current.node]!.neighbors[layer] ?? []) {
+        if (visited[neighbor] === stamp) continue;
+        visited[neighbor] = stamp;
+
+        const score = dot(query, this.nodes[neighbor]!.vector);
+        const worstResult = results[results.length - 1];
+        if (results.length < ef || (worstResult && score > worstResult.score)) {
+          const candidate = { node: neighbor, score };
+          insertSorted(candidates, candidate, true);
+          insertSorted(results, candidate);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Neighbour selection heuristic: prefer candidates that are closer to the
+   * base vector than to any already-selected neighbour, which keeps links
+   * spread across clusters. Remaining slots are filled by plain similarity.
+   */
+  private selectNeighbors(base: Float32Array, candidates: Candidate[], count: number): number[] {
+    const selected: number[] = [];
+    const skipped: number[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) break;
+      const vector = this.nodes[candidate.node]!.vector;
+      const dominated = selected.some(s => dot(vector, this.nodes[s]!.vector) > candidate.score);
+      if (dominated) skipped.push(candidate.node);
+      else selected.push(candidate.node);
+    }
+
+    for (const node of skipped) {
+      if (selected.length >= count) break;
+      selected.push(node);
+    }
+
+    return selected;
+  }
+}
@@ -2,6 +2,12 @@
 
 export * from './types';
 export * from './embeddings';
+export * from './providers';
+export * from './hnsw';
+export * from './ann';
 export * from './fts';
+export * from './query';
+export * from './temporal';
+export * from './chunker';
 export * from './graph';
 export * from './fusion';
@@ -0,0 +1,220 @@
+// Embedding providers - Ollama, OpenAI-compatible, and an offline local model
+
+import type { EmbeddingConfig, EmbeddingProvider } from './types';
+
+// ============================================================
+// OLLAMA
+// ============================================================
+
+/**
+ * Ollama /api/embeddings provider
+ */
+export function createOllamaProvider(config: { endpoint: string; model: string }): EmbeddingProvider {
+  return {
+    name: 'ollama',
+    model: config.model,
+
+    async embed(text) {
+      const response = await fetch(config.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: config.model,
+          prompt: text,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed: ${response.status}`);
+      }
+
+      const data = await response.json() as { embedding: number[] };
+      return data.embedding;
+    },
+  };
+}
+
+// ============================================================
+// OPENAI-COMPATIBLE
+// ============================================================
+
+/**
+ * OpenAI-style /v1/embeddings provider (OpenAI, LM Studio, vLLM, llama.cpp server, ...)
+ */
+export function createOpenAIProvider(config: {
+  endpoint: string;
+  model: string;
+  apiKey?: string;
+  dimensions?: number;
+}): EmbeddingProvider {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  const request = async (input: string[]): Promise<number[][]> => {
+    const response = await fetch(config.endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        input,
+        ...(config.dimensions ? { dimensions: config.dimensions } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+    return [...data.data]
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding);
+  };
+
+  return {
+    name: 'openai',
+    model: config.model,
+    dimensions: config.dimensions,
+
+    async embed(text) {
+      const [embedding] = await request([text]);
+      if (!embedding) throw new Error('Embedding response was empty');
+      return embedding;
+    },
+
+    embedBatch: request,
+  };
+}
+
+// ============================================================
+// LOCAL (OFFLINE)
+// ============================================================
+
+export interface LocalProviderOptions {
+  dimensions?: number;         // Default 384
+  ngramSizes?: number[];       // Character n-gram sizes, default [3, 4, 5]
+}
+
+/**
+ * FNV-1a 32-bit hash
+ */
+function fnv1a(text: string, seed: number = 0x811c9dc5): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Word and character n-gram features with sublinear term frequency
+ */
+function extractFeatures(text: string, ngramSizes: number[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (feature: string, weight: number) => {
+    counts.set(feature, (counts.get(feature) ?? 0) + weight);
+  };
+
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  for (const word of words) {
+    // Whole words carry more signal than any single n-gram
+    add(`w:${word}`, 2);
+
+    const padded = `<${word}>`;
+    for (const n of ngramSizes) {
+      for (let i = 0; i + n <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + n)}`, 1);
+      }
+    }
+  }
+
+  for (const [feature, count] of counts) {
+    counts.set(feature, 1 + Math.log(count));
+  }
+  return counts;
+}
+
+/**
+ * Deterministic offline provider: hashed word + character n-gram features
+ * projected into a fixed-size vector (the "hashing trick"). No network, no
+ * model download, and the same text always yields the same vector, which
+ * makes it suitable for CI and air-gapped machines. Quality is lexical
+ * (typos and morphology match, synonyms don't).
+ */
+export function createLocalProvider(options: LocalProviderOptions = {}): EmbeddingProvider {
+  const dimensions = options.dimensions ?? 384;
+  const ngramSizes = options.ngramSizes ?? [3, 4, 5];
+
+  const embedSync = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+
+    for (const [feature, weight] of extractFeatures(text, ngramSizes)) {
+      const hash = fnv1a(feature);
+      // Second hash picks the sign so collisions cancel out on average
+      const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+      vector[hash % dimensions]! += sign * weight;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  };
+
+  return {
+    name: 'local',
+    model: `local-ngram-${ngramSizes.join('')}-${dimensions}`,
+    dimensions,
+
+    async embed(text) {
+      return embedSync(text);
+    },
+
+    async embedBatch(texts) {
+      return texts.map(embedSync);
+    },
+  };
+}
+
+// ============================================================
+// RESOLUTION
+// ============================================================
+
+export function isEmbeddingProvider(value: unknown): value is EmbeddingProvider {
+  return typeof value === 'object'
+    && value !== null
+    && typeof (value as EmbeddingProvider).embed === 'function';
+}
+
+/**
+ * Turn an EmbeddingConfig (or an existing provider) into a provider.
+ * Without an explicit `provider`, '/v1/' endpoints are treated as
+ * OpenAI-compatible and everything else as Ollama.
+ */
+export function resolveEmbeddingProvider(source: EmbeddingConfig | EmbeddingProvider): EmbeddingProvider {
+  if (isEmbeddingProvider(source)) return source;
+
+  const kind = source.provider
+    ?? (source.endpoint === 'local' ? 'local'
+      : source.endpoint.includes('/v1/') ? 'openai'
+      : 'ollama');
+
+  switch (kind) {
+    case 'local':
+      return createLocalProvider({ dimensions: source.dimensions });
+    case 'openai':
+      return createOpenAIProvider(source);
+    case 'ollama':
+      return createOllamaProvider(source);
+  }
+}
@@ -0,0 +1,615 @@
+// Search query language - parser and compiler to FTS5 MATCH + SQL WHERE
+//
+// Syntax:
+//   budget report            any of the words (ranked by BM25)
+//   "exact phrase"           phrase match
+//   -newsletter, NOT promo   negation
+//   a AND b, a OR b, (a b)   explicit boolean logic and grouping
+//   from:sarah to:me         sender / recipient (name, email, phone; "me" = the user)
+//   source:gmail thread:ID   message source / thread
+//   before:2024-06 after:2024-01-01
+//   subject:invoice body:"wire transfer"
+//   yesterday, last Tuesday, Q3 2024, since the offsite   (see temporal.ts)
+//
+// Bare words next to each other are ORed (so natural-language questions keep
+// working); everything else - phrases, fields, filters, negations, groups -
+// must match.
+
+import { extractTemporalExpression, type TemporalRange } from './temporal';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type TextField = 'subject' | 'body';
+export type FilterField = 'from' | 'to' | 'source' | 'thread' | 'before' | 'after';
+
+export type QueryNode =
+  | { type: 'term'; value: string; field?: TextField }
+  | { type: 'phrase'; value: string; field?: TextField }
+  | { type: 'filter'; field: FilterField; value: string }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'and'; children: QueryNode[]; implicit?: boolean }
+  | { type: 'or'; children: QueryNode[] };
+
+export interface SearchQuery {
+  raw: string;
+  ast: QueryNode | null;  // null when the query has no searchable content
+  text: string;           // Positive free text, for legs that don't understand syntax
+  temporal?: TemporalRange;  // Natural-language date phrase, removed from ast/text
+}
+
+export interface ParseOptions {
+  resolveDates?: boolean;  // Resolve phrases like "last week" into date bounds (default true)
+  now?: Date;              // Reference point for relative dates
+}
+
+export interface QueryError {
+  code:
+    | 'unclosed_quote'
+    | 'unbalanced_paren'
+    | 'empty_group'
+    | 'missing_operand'
+    | 'missing_value'
+    | 'invalid_date';
+  message: string;
+  position: number;  // Character offset into the raw query
+  length: number;
+}
+
+export type ParseResult =
+  | { ok: true; query: SearchQuery }
+  | { ok: false; error: QueryError };
+
+/**
+ * Thrown by search entry points when given a query string that doesn't parse
+ */
+export class QuerySyntaxError extends Error {
+  readonly error: QueryError;
+
+  constructor(error: QueryError) {
+    super(error.message);
+    this.name = 'QuerySyntaxError';
+    this.error = error;
+  }
+}
+
+export interface CompiledQuery {
+  match: string | null;  // FTS5 MATCH expression (null = no text constraint)
+  where: string[];       // Conditions on `messages m` (and `attachments a`), ANDed
+  params: unknown[];     // Bound in order: match (if any), then where params
+}
+
+const TEXT_FIELDS: Record<string, TextField> = { subject: 'subject', body: 'body' };
+const FILTER_FIELDS = new Set<string>(['from', 'to', 'source', 'thread', 'before', 'after']);
+
+// ============================================================
+// TOKENIZER
+// ============================================================
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; pos: number; len: number }
+  | { kind: 'word' | 'phrase'; value: string; pos: number; len: number }
+  | { kind: 'field'; name: string; value: string; quoted: boolean; pos: number; len: number };
+
+class ParseFailure {
+  constructor(readonly error: QueryError) {}
+}
+
+function fail(code: QueryError['code'], message: string, position: number, length: number = 1): never {
+  throw new ParseFailure({ code, message, position, length });
+}
+
+function readQuoted(raw: string, start: number): { value: string; end: number } {
+  const close = raw.indexOf('"', start + 1);
+  if (close === -1) {
+    fail('unclosed_quote', 'Missing closing quote', start, raw.length - start);
+  }
+  return { value: raw.slice(start + 1, close), end: close + 1 };
+}
+
+function tokenize(raw: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < raw.length) {
+    const ch = raw[i]!;
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'lparen' : 'rparen', pos: i, len: 1 });
+      i++;
+    } else if (ch === '"') {
+      const { value, end } = readQuoted(raw, i);
+      tokens.push({ kind: 'phrase', value, pos: i, len: end - i });
+      i = end;
+    } else if (ch === '-' && i + 1 < raw.length && !/[\s)]/.test(raw[i + 1]!)) {
+      tokens.push({ kind: 'not', pos: i, len: 1 });
+      i++;
+    } else {
+      let end = i;
+      while (end < raw.length && !/[\s()"]/.test(raw[end]!)) end++;
+      const word = raw.slice(i, end);
+
+      const field = /^([a-z]+):/i.exec(word);
+      const name = field?.[1]!.toLowerCase();
+      if (name && (FILTER_FIELDS.has(name) || TEXT_FIELDS[name])) {
+        const valueStart = i + field![0].length;
+        if (valueStart === end && raw[end] === '"') {
+          const { value, end: quoteEnd } = readQuoted(raw, end);
+          tokens.push({ kind: 'field', name, value, quoted: true, pos: i, len: quoteEnd - i });
+          i = quoteEnd;
+          continue;
+        }
+        if (valueStart === end) {
+          fail('missing_value', `Missing value for ${name}:`, i, end - i);
+        }
+        tokens.push({ kind: 'field', name, value: raw.slice(valueStart, end), quoted: false, pos: i, len: end - i });
+      } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not', pos: i, len: word.length });
+      } else {
+        tokens.push({ kind: 'word', value: word, pos: i, len: word.length });
+      }
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+// ============================================================
+// PARSER
+// ============================================================
+
+/**
+ * Parse a YYYY, YYYY-MM or YYYY-MM-DD date (also with '/') to its start instant
+ */
+function parseQueryDate(value: string): Date | null {
+  const match = /^(\d{4})(?:[-/](\d{1,2})(?:[-/](\d{1,2}))?)?$/.exec(value);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : 1;
+  const day = match[3] ? Number(match[3]) : 1;
+  const date = new Date(year, month - 1, day);
+
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+function hasSearchableText(value: string): boolean {
+  return /[\p{L}\p{N}]/u.test(value);
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly raw: string) {}
+
+  parse(): QueryNode | null {
+    if (this.tokens.length === 0) return null;
+    const node = this.parseOr();
+
+    const extra = this.peek();
+    if (extra) {
+      fail('unbalanced_paren', "Unexpected ')'", extra.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): QueryNode | null {
+    const children: QueryNode[] = [];
+    const first = this.parseAnd();
+    if (first) children.push(first);
+
+    while (this.peek()?.kind === 'or') {
+      const op = this.tokens[this.index++]!;
+      if (children.length === 0) {
+        fail('missing_operand', 'Expected a search term before OR', op.pos, op.len);
+      }
+      const next = this.parseAnd();
+      if (!next) {
+        fail('missing_operand', 'Expected a search term after OR', op.pos, op.len);
+      }
+      children.push(next);
+    }
+
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0]! : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode | null {
+    const children: QueryNode[] = [];
+    let explicit = false;
+
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.kind === 'or' || token.kind === 'rparen') break;
+
+      if (token.kind === 'and') {
+        this.index++;
+        explicit = true;
+        const next = this.peek();
+        if (children.length === 0 || !next || next.kind === 'or' || next.kind === 'rparen' || next.kind === 'and') {
+          fail('missing_operand', 'Expected search terms on both sides of AND', token.pos, token.len);
+        }
+        continue;
+      }
+
+      const node = this.parseUnary();
+      if (node) children.push(node);
+    }
+
+    if (children.length === 0) return null;
+    if (children.length === 1) return children[0]!;
+    return explicit ? { type: 'and', children } : { type: 'and', children, implicit: true };
+  }
+
+  private parseUnary(): QueryNode | null {
+    const token = this.peek()!;
+
+    if (token.kind === 'not') {
+      this.index++;
+      const next = this.peek();
+      if (!next || next.kind === 'rparen' || next.kind === 'or' || next.kind === 'and') {
+        fail('missing_operand', 'Nothing to negate', token.pos, token.len);
+      }
+      const child = this.parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode | null {
+    const token = this.tokens[this.index++]!;
+
+    switch (token.kind) {
+      case 'lparen': {
+        const node = this.parseOr();
+        const close = this.tokens[this.index++];
+        if (!close || close.kind !== 'rparen') {
+          fail('unbalanced_paren', "Missing closing ')'", token.pos, this.raw.length - token.pos);
+        }
+        if (!node) {
+          fail('empty_group', 'Empty group', token.pos, close.pos - token.pos + 1);
+        }
+        return node;
+      }
+
+      case 'rparen':
+        return fail('unbalanced_paren', "Unexpected ')'", token.pos);
+
+      case 'word':
+        return hasSearchableText(token.value) ? { type: 'term', value: token.value } : null;
+
+      case 'phrase':
+        return hasSearchableText(token.value) ? { type: 'phrase', value: token.value } : null;
+
+      case 'field': {
+        const textField = TEXT_FIELDS[token.name];
+        if (textField) {
+          if (!hasSearchableText(token.value)) return null;
+          return { type: token.quoted ? 'phrase' : 'term', value: token.value, field: textField };
+        }
+
+        const field = token.name as FilterField;
+        if ((field === 'before' || field === 'after') && !parseQueryDate(token.value)) {
+          fail('invalid_date', `Invalid date '${token.value}' for ${field}: (use YYYY-MM-DD)`, token.pos, token.len);
+        }
+        return { type: 'filter', field, value: token.value };
+      }
+
+      default:
+        // Operators are consumed by parseOr/parseAnd/parseUnary
+        return fail('missing_operand', `Unexpected ${token.kind.toUpperCase()}`, token.pos, token.len);
+    }
+  }
+}
+
+/**
+ * Collect positive free text (terms and phrases) in query order
+ */
+function collectText(node: QueryNode | null, out: string[] = []): string[] {
+  if (!node) return out;
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      out.push(node.value);
+      break;
+    case 'and':
+    case 'or':
+      for (const child of node.children) collectText(child, out);
+      break;
+    default:
+      break;
+  }
+  return out;
+}
+
+/**
+ * Parse a search query. Never throws; syntax problems come back as a
+ * QueryError with the offending position.
+ */
+export function parseSearchQuery(raw: string, options: ParseOptions = {}): ParseResult {
+  const temporal = options.resolveDates === false
+    ? null
+    : extractTemporalExpression(raw, { now: options.now });
+
+  // Blank the date phrase out rather than cutting it, so error positions
+  // still point into the raw string
+  const source = temporal
+    ? raw.slice(0, temporal.start) + ' '.repeat(temporal.end - temporal.start) + raw.slice(temporal.end)
+    : raw;
+
+  try {
+    const ast = new Parser(tokenize(source), raw).parse();
+    return {
+      ok: true,
+      query: {
+        raw,
+        ast,
+        text: collectText(ast).join(' '),
+        ...(temporal ? { temporal } : {}),
+      },
+    };
+  } catch (error) {
+    if (error instanceof ParseFailure) {
+      return { ok: false, error: error.error };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse a query string (or pass through an already parsed query),
+ * throwing QuerySyntaxError on bad syntax
+ */
+export function toSearchQuery(query: string | SearchQuery, options: ParseOptions = {}): SearchQuery {
+  if (typeof query !== 'string') return query;
+
+  const result = parseSearchQuery(query, options);
+  if (!result.ok) throw new QuerySyntaxError(result.error);
+  return result.query;
+}
+
+// ============================================================
+// COMPILER
+// ============================================================
+
+function quoteFts(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Group bare terms of an implicit AND into one OR clause
+ */
+function normalize(node: QueryNode): QueryNode {
+  switch (node.type) {
+    case 'not':
+      return { type: 'not', child: normalize(node.child) };
+    case 'or':
+      return { type: 'or', children: node.children.map(normalize) };
+    case 'and': {
+      const children = node.children.map(normalize);
+      if (!node.implicit) return { type: 'and', children };
+
+      const bare = children.filter(c => c.type === 'term' && !c.field);
+      const rest = children.filter(c => !(c.type === 'term' && !c.field));
+      const grouped = bare.length > 1 ? [{ type: 'or' as const, children: bare }, ...rest] : [...bare, ...rest];
+      return grouped.length === 1 ? grouped[0]! : { type: 'and', children: grouped };
+    }
+    default:
+      return node;
+  }
+}
+
+/**
+ * An FTS5 table searched by compiled queries, and its columns for each text field
+ */
+interface FtsTarget {
+  table: string;
+  rowid: string;   // Row of the searched table in the SQL conditions
+  columns: Record<TextField, string>;
+}
+
+const MESSAGE_FTS: FtsTarget = {
+  table: 'messages_fts',
+  rowid: 'm.rowid',
+  columns: { subject: 'subject', body: 'body_text' },
+};
+
+// An attachment's name stands in for its subject, its text for its body
+const ATTACHMENT_FTS: FtsTarget = {
+  table: 'attachments_fts',
+  rowid: 'a.rowid',
+  columns: { subject: 'filename', body: 'text' },
+};
+
+/**
+ * FTS5 expression for a text-only subtree, or null if FTS5 can't express it
+ * (filters inside, or negation without a positive term to subtract from)
+ */
+function toFts(node: QueryNode, target: FtsTarget = MESSAGE_FTS): string | null {
+  switch (node.type) {
+    case 'term':
+    case 'phrase': {
+      const column = node.field ? `${target.columns[node.field]} : ` : '';
+      return column + quoteFts(node.value);
+    }
+    case 'filter':
+    case 'not':
+      return null;
+    case 'or': {
+      const parts = node.children.map(c => toFts(c, target));
+      return parts.every(p => p !== null) ? `(${parts.join(' OR ')})` : null;
+    }
+    case 'and': {
+      const positive = node.children.filter(c => c.type !== 'not').map(c => toFts(c, target));
+      const negative = node.children
+        .filter((c): c is Extract<QueryNode, { type: 'not' }> => c.type === 'not')
+        .map(c => toFts(c.child, target));
+      if (positive.length === 0 || positive.includes(null) || negative.includes(null)) return null;
+      return `(${positive.join(' AND ')}${negative.map(n => ` NOT ${n}`).join('')})`;
+    }
+  }
+}
+
+const PARTICIPANT_IDS = `
+  SELECT e.id FROM entities e WHERE e.canonical_name LIKE ?
+  UNION
+  SELECT ea.entity_id FROM entity_attributes ea
+  WHERE ea.attribute_type IN ('email', 'phone') AND ea.attribute_value LIKE ?
+  UNION
+  SELECT a.entity_id FROM entity_aliases a WHERE a.alias_type = 'alias' AND a.value LIKE ?
+`;
+
+/**
+ * SQL condition on `messages m` for any subtree
+ */
+function toSql(node: QueryNode, params: unknown[]): string {
+  const fts = toFts(node);
+  if (fts !== null) {
+    params.push(fts);
+    return 'm.rowid IN (SELECT rowid FROM messages_fts WHERE messages_fts MATCH ?)';
+  }
+
+  switch (node.type) {
+    case 'filter':
+      return filterToSql(node.field, node.value, params);
+    case 'not':
+      return `NOT (${toSql(node.child, params)})`;
+    case 'and':
+      return `(${node.children.map(c => toSql(c, params)).join(' AND ')})`;
+    case 'or':
+      return `(${node.children.map(c => toSql(c, params)).join(' OR ')})`;
+    default:
+      // Terms and phrases always have an FTS form
+      return '1';
+  }
+}
+
+function filterToSql(field: FilterField, value: string, params: unknown[]): string {
+  const pattern = `%${value}%`;
+
+  switch (field) {
+    case 'from':
+      if (value.toLowerCase() === 'me') return 'm.is_from_user = 1';
+      params.push(pattern, pattern, pattern);
+      return `m.sender_entity_id IN (${PARTICIPANT_IDS})`;
+
+    case 'to':
+      if (value.toLowerCase() === 'me') return 'm.is_from_user = 0';
+      params.push(pattern, pattern, pattern);
+      return `EXISTS (
+        SELECT 1 FROM json_each(m.recipient_entity_ids)
+        WHERE json_each.value IN (${PARTICIPANT_IDS})
+      )`;
+
+    case 'source':
+      params.push(value.toLowerCase());
+      return 'm.source_type = ?';
+
+    case 'thread':
+      params.push(value);
+      return 'm.thread_id = ?';
+
+    case 'before':
+      params.push(parseQueryDate(value)!.toISOString());
+      return 'm.timestamp < ?';
+
+    case 'after':
+      params.push(parseQueryDate(value)!.toISOString());
+      return 'm.timestamp >= ?';
+  }
+}
+
+function topLevelClauses(query: SearchQuery): QueryNode[] {
+  if (!query.ast) return [];
+  const root = normalize(query.ast);
+  return root.type === 'and' ? root.children : [root];
+}
+
+function hasText(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return true;
+    case 'filter':
+      return false;
+    case 'not':
+      return hasText(node.child);
+    default:
+      return node.children.some(hasText);
+  }
+}
+
+/**
+ * Top-level text clauses become the FTS5 MATCH on the target (so BM25 and
+ * snippets work); everything else becomes WHERE conditions on `messages m`.
+ */
+function compileQuery(query: SearchQuery, target: FtsTarget): CompiledQuery {
+  const matchParts: string[] = [];
+  const negativeParts: string[] = [];
+  const sqlClauses: QueryNode[] = [];
+
+  for (const clause of topLevelClauses(query)) {
+    const fts = clause.type === 'not' ? toFts(clause.child, target) : toFts(clause, target);
+    if (fts === null) sqlClauses.push(clause);
+    else if (clause.type === 'not') negativeParts.push(fts);
+    else matchParts.push(fts);
+  }
+
+  const params: unknown[] = [];
+  let match: string | null = null;
+
+  // FTS5 NOT needs a left-hand side; without one, negations go to SQL
+  if (matchParts.length > 0) {
+    match = matchParts.join(' AND ') + negativeParts.map(n => ` NOT ${n}`).join('');
+    params.push(match);
+  }
+
+  const where = sqlClauses.map(c => toSql(c, params));
+  if (match === null) {
+    for (const negative of negativeParts) {
+      params.push(negative);
+      where.push(`${target.rowid} NOT IN (SELECT rowid FROM ${target.table} WHERE ${target.table} MATCH ?)`);
+    }
+  }
+
+  return { match, where, params };
+}
+
+/**
+ * Compile a parsed query against `messages m` / `messages_fts`
+ */
+export function compileMessageQuery(query: SearchQuery): CompiledQuery {
+  return compileQuery(query, MESSAGE_FTS);
+}
+
+/**
+ * Compile a parsed query against `attachments a` / `attachments_fts`, joined
+ * to their message as `messages m`. Filters apply to the message; text mixed
+ * with filters in one clause (`invoice OR from:sarah`) is matched against it.
+ */
+export function compileAttachmentQuery(query: SearchQuery): CompiledQuery {
+  return compileQuery(query, ATTACHMENT_FTS);
+}
+
+/**
+ * Compile only the clauses that don't involve text (from:, before:, ...),
+ * for legs that rank by something other than FTS but should still honour them
+ */
+export function compileMessageFilters(query: SearchQuery): CompiledQuery {
+  const params: unknown[] = [];
+  const where = topLevelClauses(query)
+    .filter(clause => !hasText(clause))
+    .map(clause => toSql(clause, params));
+
+  return { match: null, where, params };
+}
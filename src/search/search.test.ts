@@ -0,0 +1,724 @@
+// Search module tests
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initDb, closeDb, getDb } from '../db/connection';
+import {
+  storeEmbedding,
+  searchVectors,
+  getVectorStoreStats,
+  getVectorStore,
+  markEmbedded,
+  deleteEmbeddingsBySource,
+  embedUnprocessedMessages,
+  embedUnprocessedAssertions,
+  embedUnprocessedEntities,
+  buildEntitySummary,
+  cosineSimilarity,
+} from './embeddings';
+import { createLocalProvider, resolveEmbeddingProvider } from './providers';
+import { hybridSearch, reciprocalRankFusion, simpleSearch } from './fusion';
+import { parseSearchQuery, compileMessageQuery, QuerySyntaxError } from './query';
+import { chunkText } from './chunker';
+import { extractTemporalExpression } from './temporal';
+import { parseQuery, graphSearch, findShortestPath } from './graph';
+import type { SearchResult, SearchOptions, GraphPath } from './types';
+import { decodeVector, encodeVector, HnswIndex } from './hnsw';
+import {
+  configureVectorIndex,
+  getVectorIndexConfig,
+  annSearch,
+  saveVectorIndexes,
+  resetVectorIndexes,
+} from './ann';
+
+/**
+ * Seeded uniform [0, 1) generator (mulberry32), so fixtures are the same every run
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const random = seededRandom(42);
+
+function randomVector(dimensions: number): number[] {
+  return Array.from({ length: dimensions }, () => random() * 2 - 1);
+}
+
+function exactTopK(vectors: Map<string, number[]>, query: number[], k: number): string[] {
+  const norm = (v: number[]) => Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+  return Array.from(vectors)
+    .map(([id, v]) => ({ id, score: v.reduce((s, x, i) => s + x * query[i]!, 0) / (norm(v) * norm(query)) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(r => r.id);
+}
+
+describe('SQLite Vector Store', () => {
+  let dbPath: string;
+
+  beforeAll(() => {
+    dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'peanut-search-')), 'test.db');
+    initDb(dbPath);
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+  });
+
+  it('should round-trip vectors through blob encoding', () => {
+    const vector = decodeVector(encodeVector([0.5, -1, 2]));
+    expect(Array.from(vector)).toEqual([0.5, -1, 2]);
+  });
+
+  it('should rank stored vectors by cosine similarity', () => {
+    storeEmbedding('msg-a', 'message', [1, 0, 0], 'test-model');
+    storeEmbedding('msg-b', 'message', [0, 1, 0], 'test-model');
+    storeEmbedding('fact-a', 'assertion', [1, 0.1, 0], 'test-model');
+
+    const results = searchVectors([1, 0.05, 0], 10, 'message');
+    expect(results.map(r => r.sourceId)).toEqual(['msg-a', 'msg-b']);
+    expect(results[0]!.score).toBeGreaterThan(0.99);
+  });
+
+  it('should ignore vectors with a different dimensionality', () => {
+    storeEmbedding('msg-c', 'message', [1, 0, 0, 0], 'other-model');
+
+    const results = searchVectors([1, 0, 0], 10, 'message');
+    expect(results.find(r => r.sourceId === 'msg-c')).toBeUndefined();
+  });
+
+  it('should survive a restart', async () => {
+    closeDb();
+    initDb(dbPath);
+
+    expect(getVectorStoreStats().byType).toEqual({ message: 3, assertion: 1 });
+
+    const stats = await getVectorStore().stats();
+    expect(stats.backend).toBe('sqlite');
+    expect(stats.count).toBe(4);
+  });
+
+  it('should mark edited messages as needing re-embedding', () => {
+    const db = getDb();
+    db.prepare(`
+      INSERT INTO messages (id, source_type, source_id, body_text, timestamp)
+      VALUES ('msg-edit', 'gmail', 'edit-1', 'original body', datetime('now'))
+    `).run();
+    markEmbedded('message', 'msg-edit', 'test-model');
+
+    db.prepare(`UPDATE messages SET body_text = 'edited body' WHERE id = 'msg-edit'`).run();
+
+    const row = db.prepare(`
+      SELECT 1 FROM embedded_sources WHERE source_type = 'message' AND source_id = 'msg-edit'
+    `).get();
+    expect(row).toBeUndefined();
+  });
+});
+
+describe('HNSW Index', () => {
+  const dimensions = 32;
+  const vectors = new Map<string, number[]>();
+  let index: HnswIndex;
+
+  beforeAll(() => {
+    index = new HnswIndex(dimensions, { m: 8, efConstruction: 64 }, seededRandom(7));
+    for (let i = 0; i < 1000; i++) {
+      const vector = randomVector(dimensions);
+      vectors.set(`v${i}`, vector);
+      index.add(`v${i}`, vector);
+    }
+  });
+
+  it('should find most true nearest neighbours', () => {
+    let hits = 0;
+    for (let q = 0; q < 20; q++) {
+      const query = randomVector(dimensions);
+      const expected = new Set(exactTopK(vectors, query, 10));
+      hits += index.search(query, 10, 64).filter(r => expected.has(r.id)).length;
+    }
+    expect(hits / 200).toBeGreaterThan(0.9);
+  });
+
+  it('should never return removed vectors', () => {
+    const target = vectors.get('v42')!;
+    expect(index.search(target, 1)[0]!.id).toBe('v42');
+
+    index.remove('v42');
+    expect(index.has('v42')).toBe(false);
+    expect(index.search(target, 10).map(r => r.id)).not.toContain('v42');
+  });
+
+  it('should round-trip through serialization', () => {
+    const restored = HnswIndex.deserialize(index.serialize());
+    const query = randomVector(dimensions);
+
+    expect(restored.size).toBe(index.size);
+    expect(restored.search(query, 5)).toEqual(index.search(query, 5));
+  });
+
+  it('should drop tombstones on compact', () => {
+    const copy = HnswIndex.deserialize(index.serialize());
+    for (let i = 0; i < 500; i++) copy.remove(`v${i}`);
+    expect(copy.deletedRatio).toBeGreaterThan(0.4);
+
+    copy.compact();
+    expect(copy.deletedRatio).toBe(0);
+    expect(copy.size).toBe(500);
+  });
+});
+
+describe('ANN Vector Search', () => {
+  let workDir: string;
+  const defaults = getVectorIndexConfig();
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'peanut-ann-'));
+    initDb(path.join(workDir, 'test.db'));
+    configureVectorIndex({ indexDir: path.join(workDir, 'vector-index'), exactSearchThreshold: 50 });
+  });
+
+  afterAll(() => {
+    configureVectorIndex(defaults);
+    closeDb();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should use the exact scan for small stores', () => {
+    storeEmbedding('small-1', 'message', [1, 0, 0, 0]);
+    expect(annSearch([1, 0, 0, 0], 5, 'message')).toBeNull();
+  });
+
+  it('should track inserts and deletes once the index is built', () => {
+    for (let i = 0; i < 100; i++) {
+      storeEmbedding(`msg-${i}`, 'message', randomVector(4));
+    }
+    expect(annSearch([1, 0, 0, 0], 5, 'message')).not.toBeNull();
+
+    storeEmbedding('needle', 'message', [0, 0, 0, 1]);
+    expect(searchVectors([0, 0, 0, 1], 1, 'message')[0]!.sourceId).toBe('needle');
+
+    deleteEmbeddingsBySource('needle', 'message');
+    expect(searchVectors([0, 0, 0, 1], 10, 'message').map(r => r.sourceId)).not.toContain('needle');
+  });
+
+  it('should reload a persisted index and reconcile it with the store', () => {
+    saveVectorIndexes();
+    resetVectorIndexes();
+
+    getDb().prepare(`DELETE FROM embeddings WHERE source_id = 'msg-0'`).run();
+    const results = annSearch([1, 0, 0, 0], 200, 'message')!;
+
+    expect(results.map(r => r.sourceId)).not.toContain('msg-0');
+    expect(results).toHaveLength(100);
+  });
+});
+
+describe('Local Embedding Provider', () => {
+  const provider = createLocalProvider({ dimensions: 256 });
+
+  beforeAll(() => {
+    initDb(':memory:');
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  it('should produce stable, normalised vectors', async () => {
+    const a = await provider.embed('Dinner reservation on Friday');
+    const b = await createLocalProvider({ dimensions: 256 }).embed('Dinner reservation on Friday');
+
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 5);
+  });
+
+  it('should score related text above unrelated text', async () => {
+    const query = await provider.embed('restaurant reservations');
+    const related = await provider.embed('I made a reservation at the restaurant');
+    const unrelated = await provider.embed('quarterly tax filing deadline');
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('should resolve configs to the matching provider', () => {
+    expect(resolveEmbeddingProvider({ endpoint: 'local', model: 'x' }).name).toBe('local');
+    expect(resolveEmbeddingProvider({ endpoint: 'http://localhost:11434/api/embeddings', model: 'x' }).name).toBe('ollama');
+    expect(resolveEmbeddingProvider({ endpoint: 'https://api.openai.com/v1/embeddings', model: 'x' }).name).toBe('openai');
+    expect(resolveEmbeddingProvider(provider)).toBe(provider);
+  });
+
+  it('should power hybrid search without a network', async () => {
+    const db = getDb();
+    const insert = db.prepare(`
+      INSERT INTO messages (id, source_type, source_id, body_text, timestamp)
+      VALUES (?, 'gmail', ?, ?, datetime('now'))
+    `);
+    insert.run('m-dinner', 'd1', 'Booked a table at the Italian restaurant for Friday');
+    insert.run('m-taxes', 't1', 'The accountant needs the receipts before the filing deadline');
+
+    const result = await embedUnprocessedMessages(provider);
+    expect(result).toEqual({ processed: 2, errors: 0 });
+
+    const results = await hybridSearch('restaurants', { searchTypes: ['message'] }, provider);
+    expect(results[0]?.id).toBe('m-dinner');
+
+    // The FTS leg reports BM25 (negative, lower is better), not its rank score
+    const explained = await hybridSearch('restaurant', { searchTypes: ['message'], explain: true }, provider);
+    const fts = explained[0]!.explanation!.legs.find(l => l.leg === 'fts:message')!;
+    expect(fts.rawScore).toBeLessThan(0);
+    expect(explained[0]!.rawScore).toBeUndefined();
+  });
+});
+
+describe('Assertion and Entity Embeddings', () => {
+  const provider = createLocalProvider({ dimensions: 256 });
+
+  beforeAll(() => {
+    initDb(':memory:');
+    const db = getDb();
+    db.prepare(`INSERT INTO entities (id, canonical_name, entity_type) VALUES ('e-sarah', 'Sarah Chen', 'person')`).run();
+    db.prepare(`INSERT INTO entities (id, canonical_name, entity_type) VALUES ('e-tom', 'Tom Baker', 'person')`).run();
+    db.prepare(`
+      INSERT INTO entity_attributes (id, entity_id, attribute_type, attribute_value)
+      VALUES ('attr-1', 'e-sarah', 'email', 'sarah@acme.com')
+    `).run();
+    db.prepare(`
+      INSERT INTO assertions (id, subject_entity_id, predicate, object_text, source_type, source_id)
+      VALUES ('a-denver', 'e-sarah', 'moved_to', 'Denver', 'gmail', 'm1'),
+             ('a-tennis', 'e-tom', 'plays', 'tennis on weekends', 'gmail', 'm2')
+    `).run();
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  it('should synthesize entity summaries from attributes and facts', () => {
+    const summary = buildEntitySummary('e-sarah')!;
+    expect(summary).toContain('Sarah Chen (person)');
+    expect(summary).toContain('email: sarah@acme.com');
+    expect(summary).toContain('Sarah Chen moved to Denver');
+  });
+
+  it('should surface facts and entities through vector legs', async () => {
+    expect(await embedUnprocessedAssertions(provider)).toEqual({ processed: 2, errors: 0 });
+    expect(await embedUnprocessedEntities(provider)).toEqual({ processed: 2, errors: 0 });
+
+    const results = await hybridSearch('relocated to Denver', { searchTypes: ['assertion', 'entity'] }, provider);
+    const vectorHits = results.map(r => `${r.type}:${r.id}`);
+    expect(vectorHits).toContain('assertion:a-denver');
+    expect(vectorHits).toContain('entity:e-sarah');
+    expect(vectorHits.indexOf('assertion:a-denver')).toBeLessThan(vectorHits.indexOf('assertion:a-tennis'));
+
+    // Message filters can't apply to entities and assertions, so those legs sit out
+    expect(await hybridSearch('Denver source:slack', { searchTypes: ['assertion', 'entity'] }, provider)).toEqual([]);
+    expect(await hybridSearch('Denver', { searchTypes: ['assertion', 'entity'], entityIds: ['e-tom'] }, provider)).toEqual([]);
+  });
+
+  it('should explain per-leg ranks, contributions and timings', async () => {
+    const results = await hybridSearch('Denver', { searchTypes: ['assertion'], explain: true }, provider);
+    const denver = results.find(r => r.id === 'a-denver')!;
+    const explanation = denver.explanation!;
+
+    expect(explanation.query.text).toBe('Denver');
+    expect(explanation.legs.map(l => l.leg).sort()).toEqual(['fts:assertion', 'vector:assertion']);
+    for (const leg of explanation.legs) {
+      expect(leg.contribution).toBeCloseTo(1 / (explanation.k + leg.rank));
+    }
+    expect(denver.score).toBeCloseTo(explanation.legs.reduce((sum, l) => sum + l.contribution, 0));
+    expect(explanation.timings.map(t => t.leg)).toEqual(
+      expect.arrayContaining(['embedding', 'fts:assertion', 'vector:assertion'])
+    );
+
+    const plain = await hybridSearch('Denver', { searchTypes: ['assertion'] }, provider);
+    expect(plain[0]?.explanation).toBeUndefined();
+  });
+
+  it('should re-embed entities when their facts change', async () => {
+    getDb().prepare(`
+      INSERT INTO assertions (id, subject_entity_id, predicate, object_text, source_type, source_id)
+      VALUES ('a-job', 'e-sarah', 'works_at', 'Acme', 'gmail', 'm3')
+    `).run();
+
+    expect(await embedUnprocessedEntities(provider)).toEqual({ processed: 1, errors: 0 });
+    expect(await embedUnprocessedAssertions(provider)).toEqual({ processed: 1, errors: 0 });
+  });
+});
+
+describe('Chunking', () => {
+  const paragraphs = [
+    'The quarterly planning meeting moved to Thursday afternoon.',
+    'Budget numbers are attached. Finance wants comments by Friday. Please check the travel line.',
+    'Separately, the office WiFi password changed to BlueElephant2024 last week.',
+    'Let me know if anything else comes up before the offsite.',
+  ];
+  const body = paragraphs.join('\n\n');
+
+  it('should keep short text as a single chunk', () => {
+    expect(chunkText('  hello world  ')).toEqual([{ index: 0, text: 'hello world', start: 2, end: 13 }]);
+    expect(chunkText('   ')).toEqual([]);
+  });
+
+  it('should split on boundaries with offsets into the original text', () => {
+    const chunks = chunkText(body, { maxChars: 120, overlapChars: 40 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(chunk.text).toBe(body.slice(chunk.start, chunk.end));
+      expect(chunk.text.length).toBeLessThanOrEqual(120);
+      expect(chunk.text).toMatch(/[.!?]$/);
+    }
+    expect(chunks[chunks.length - 1]!.end).toBe(body.length);
+  });
+
+  it('should overlap consecutive chunks', () => {
+    const sentences = Array.from({ length: 12 }, (_, i) => `Sentence number ${i} is short.`).join(' ');
+    const chunks = chunkText(sentences, { maxChars: 120, overlapChars: 60 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    chunks.slice(1).forEach((chunk, i) => {
+      expect(chunk.start).toBeLessThan(chunks[i]!.end);
+      expect(chunk.start).toBeGreaterThan(chunks[i]!.start);
+    });
+  });
+
+  it('should roll chunk hits up to one fused result per message', () => {
+    const hit = (id: string, highlight: string, index?: number): SearchResult => ({
+      id,
+      type: 'message',
+      score: 1,
+      source: 'vector',
+      highlight,
+      chunk: index === undefined ? undefined : { index, start: 0, end: 1 },
+      data: {},
+    });
+
+    const fused = reciprocalRankFusion([
+      [hit('m1', 'best chunk', 2), hit('m1', 'other chunk', 0), hit('m2', 'm2 chunk', 0)],
+      [hit('m2', 'fts snippet')],
+    ]);
+
+    expect(fused.map(r => r.id)).toEqual(['m2', 'm1']);
+    expect(fused.find(r => r.id === 'm1')!.highlight).toBe('best chunk');
+    expect(fused.find(r => r.id === 'm2')!.highlight).toBe('m2 chunk');
+    // m1 counts once at rank 1; m2 gets rank 2 from the first list, not rank 3
+    expect(fused.find(r => r.id === 'm1')!.score).toBeCloseTo(1 / 61);
+    expect(fused.find(r => r.id === 'm2')!.score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  it('should highlight the best-matching chunk of a long message', async () => {
+    initDb(':memory:');
+    const provider = createLocalProvider({ dimensions: 256 });
+    const filler = Array.from({ length: 12 }, (_, i) =>
+      `Paragraph ${i} talks about shipping schedules, vendor invoices and warehouse staffing.`
+    ).join('\n\n');
+    const longBody = `${filler}\n\nThe office WiFi password changed to BlueElephant2024 last week.\n\n${filler}`;
+
+    getDb().prepare(`
+      INSERT INTO messages (id, source_type, source_id, subject, body_text, timestamp)
+      VALUES ('m-long', 'gmail', 'long-1', 'Weekly update', ?, datetime('now'))
+    `).run(longBody);
+
+    await embedUnprocessedMessages(provider, 50, { maxChars: 300, overlapChars: 60 });
+    expect(getVectorStoreStats().byType['message']).toBeGreaterThan(3);
+
+    const results = await hybridSearch('wifi password', { searchTypes: ['message'] }, provider);
+    expect(results).toHaveLength(1);
+    expect(results[0]!.chunk).toBeDefined();
+    expect(results[0]!.highlight).toContain('BlueElephant2024');
+
+    closeDb();
+  });
+});
+
+describe('Query Language', () => {
+  beforeAll(() => {
+    initDb(':memory:');
+    const db = getDb();
+    db.prepare(`INSERT INTO entities (id, canonical_name, entity_type) VALUES ('e-sarah', 'Sarah Chen', 'person')`).run();
+    db.prepare(`INSERT INTO entities (id, canonical_name, entity_type) VALUES ('e-tom', 'Tom Baker', 'person')`).run();
+    db.prepare(`
+      INSERT INTO entity_attributes (id, entity_id, attribute_type, attribute_value)
+      VALUES ('attr-s', 'e-sarah', 'email', 'sarah@acme.com')
+    `).run();
+
+    const insert = db.prepare(`
+      INSERT INTO messages (id, source_type, source_id, thread_id, sender_entity_id, subject, body_text, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    insert.run('q1', 'gmail', 'q1', 't1', 'e-sarah', 'Invoice for March', 'Please pay the attached invoice', '2024-03-05T10:00:00.000Z');
+    insert.run('q2', 'gmail', 'q2', 't2', 'e-sarah', 'Weekly newsletter', 'Invoice tips and the newsletter roundup', '2024-03-06T10:00:00.000Z');
+    insert.run('q3', 'gmail', 'q3', 't3', 'e-tom', 'Invoice question', 'Is the invoice overdue?', '2023-11-01T10:00:00.000Z');
+    insert.run('q4', 'imessage', 'q4', 't4', 'e-tom', null, 'dinner at the new place tonight', '2024-03-07T10:00:00.000Z');
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  const ids = (query: string) => simpleSearch(query, { searchTypes: ['message'] }).map(r => r.id).sort();
+
+  it('should parse fields, phrases, negation and grouping', () => {
+    const result = parseSearchQuery('from:sarah subject:invoice -newsletter ("pay now" OR overdue)');
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.query.ast).toEqual({
+      type: 'and',
+      implicit: true,
+      children: [
+        { type: 'filter', field: 'from', value: 'sarah' },
+        { type: 'term', value: 'invoice', field: 'subject' },
+        { type: 'not', child: { type: 'term', value: 'newsletter' } },
+        { type: 'or', children: [{ type: 'phrase', value: 'pay now' }, { type: 'term', value: 'overdue' }] },
+      ],
+    });
+    expect(result.query.text).toBe('invoice pay now overdue');
+  });
+
+  it('should report syntax errors with a position', () => {
+    const cases: Array<[string, string, number]> = [
+      ['invoice "unclosed', 'unclosed_quote', 8],
+      ['(invoice OR tax', 'unbalanced_paren', 0],
+      ['invoice)', 'unbalanced_paren', 7],
+      ['invoice OR', 'missing_operand', 8],
+      ['from: sarah', 'missing_value', 0],
+      ['after:2024-13-01', 'invalid_date', 0],
+    ];
+
+    for (const [query, code, position] of cases) {
+      const result = parseSearchQuery(query);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe(code);
+        expect(result.error.position).toBe(position);
+      }
+    }
+
+    expect(() => simpleSearch('invoice OR')).toThrow(QuerySyntaxError);
+  });
+
+  it('should OR bare words so natural questions still match', () => {
+    const result = parseSearchQuery('where is the invoice?');
+    expect(result.ok && compileMessageQuery(result.query).match)
+      .toBe('("where" OR "is" OR "the" OR "invoice?")');
+    expect(ids('any dinner plans?')).toEqual(['q4']);
+  });
+
+  it('should apply field filters as SQL conditions', () => {
+    expect(ids('invoice from:sarah')).toEqual(['q1', 'q2']);
+    expect(ids('invoice from:sarah@acme.com -newsletter')).toEqual(['q1']);
+    expect(ids('invoice before:2024-01-01')).toEqual(['q3']);
+    expect(ids('source:imessage')).toEqual(['q4']);
+    expect(ids('thread:t2')).toEqual(['q2']);
+    expect(ids('subject:invoice after:2024-03')).toEqual(['q1']);
+  });
+
+  it('should support phrases and boolean grouping', () => {
+    expect(ids('"attached invoice"')).toEqual(['q1']);
+    expect(ids('(from:tom OR from:sarah) AND overdue')).toEqual(['q3']);
+    expect(ids('-invoice')).toEqual(['q4']);
+  });
+
+  it('should filter or boost by community', () => {
+    const db = getDb();
+    db.prepare(`INSERT INTO entity_communities (id, community_name, member_count) VALUES ('c-tom', 'Tom', 1)`).run();
+    db.prepare(`INSERT INTO entity_community_members (entity_id, community_id, centrality) VALUES ('e-tom', 'c-tom', 1)`).run();
+
+    const search = (options: SearchOptions) => simpleSearch('invoice', { searchTypes: ['message'], ...options });
+    expect(search({ communityId: 'c-tom' }).map(r => r.id)).toEqual(['q3']);
+
+    const boosted = search({ communityId: 'c-tom', communityMode: 'boost' }).map(r => r.id);
+    expect(boosted[0]).toBe('q3');
+    expect(boosted).toHaveLength(3);
+  });
+
+  it('should boost results involving important entities', () => {
+    getDb().prepare(`INSERT INTO entity_importance (entity_id, score) VALUES ('e-tom', 1)`).run();
+
+    const search = (options: SearchOptions) => simpleSearch('invoice', { searchTypes: ['message'], ...options });
+    const plain = search({ importanceBoost: 0 });
+    const boosted = search({});
+    expect(boosted[0]!.id).toBe('q3');
+    expect(boosted.find(r => r.id === 'q3')!.score).toBeCloseTo(plain.find(r => r.id === 'q3')!.score * 1.3);
+
+    // Explained scores still add up: leg contributions times every boost
+    const explained = search({ explain: true, communityId: 'c-tom', communityMode: 'boost' });
+    const tom = explained.find(r => r.id === 'q3')!;
+    expect(tom.explanation!.boosts.map(b => b.kind)).toEqual(['importance', 'community']);
+    for (const result of explained) {
+      const { legs, boosts } = result.explanation!;
+      const total = legs.reduce((sum, l) => sum + l.contribution, 0) * boosts.reduce((product, b) => product * b.factor, 1);
+      expect(result.score).toBeCloseTo(total, 10);
+    }
+  });
+});
+
+describe('Temporal Expressions', () => {
+  // Wednesday 13 March 2024, local time
+  const now = new Date(2024, 2, 13, 12, 0, 0);
+  const resolve = (text: string) => extractTemporalExpression(text, { now, resolveEvents: false });
+  const day = (y: number, m: number, d: number) => new Date(y, m - 1, d);
+  const endOf = (y: number, m: number, d: number) => new Date(new Date(y, m - 1, d + 1).getTime() - 1);
+
+  beforeAll(() => {
+    initDb(':memory:');
+    const db = getDb();
+    db.prepare(`
+      INSERT INTO events (id, event_type, timestamp, payload)
+      VALUES ('ev1', 'CALENDAR_EVENT', ?, ?)
+    `).run(day(2024, 3, 4).toISOString(), JSON.stringify({
+      title: 'Team Offsite',
+      startTime: day(2024, 3, 4).toISOString(),
+      endTime: day(2024, 3, 5).toISOString(),
+    }));
+
+    const insert = db.prepare(`
+      INSERT INTO messages (id, source_type, source_id, subject, body_text, timestamp)
+      VALUES (?, 'gmail', ?, ?, ?, ?)
+    `);
+    insert.run('t1', 't1', 'Budget draft', 'budget numbers attached', day(2024, 3, 12).toISOString());
+    insert.run('t2', 't2', 'Budget final', 'final budget numbers', day(2024, 2, 20).toISOString());
+    insert.run('t3', 't3', 'Budget 2023', 'old budget', day(2023, 8, 15).toISOString());
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  it('should resolve relative days and weekdays', () => {
+    expect(resolve('notes from yesterday')).toMatchObject({
+      dateFrom: day(2024, 3, 12), dateTo: endOf(2024, 3, 12), phrase: 'from yesterday',
+    });
+    expect(resolve('what did Jake say last Tuesday')).toMatchObject({
+      dateFrom: day(2024, 3, 12), dateTo: endOf(2024, 3, 12), phrase: 'last Tuesday',
+    });
+    expect(resolve('on Wednesday')?.dateFrom).toEqual(day(2024, 3, 6));
+    expect(resolve('next Friday')?.dateFrom).toEqual(day(2024, 3, 15));
+    // Without a modifier a weekday is just a word
+    expect(resolve('Friday meeting notes')).toBeNull();
+  });
+
+  it('should resolve periods, quarters and months', () => {
+    expect(resolve('two weeks ago')).toMatchObject({ dateFrom: day(2024, 2, 26), dateTo: endOf(2024, 3, 3) });
+    expect(resolve('last week')).toMatchObject({ dateFrom: day(2024, 3, 4), dateTo: endOf(2024, 3, 10) });
+    expect(resolve('revenue Q3 2024')).toMatchObject({ dateFrom: day(2024, 7, 1), dateTo: endOf(2024, 9, 30) });
+    expect(resolve('emails from June')).toMatchObject({ dateFrom: day(2023, 6, 1), dateTo: endOf(2023, 6, 30) });
+    expect(resolve('since last month')).toEqual(expect.objectContaining({ dateFrom: day(2024, 2, 1) }));
+    expect(resolve('since last month')?.dateTo).toBeUndefined();
+    expect(resolve('before 2024')).toMatchObject({ dateTo: endOf(2023, 12, 31) });
+  });
+
+  it('should ignore non-temporal words and quoted text', () => {
+    expect(resolve('may I ask about the budget')).toBeNull();
+    expect(resolve('"last week" recap')).toBeNull();
+    expect(resolve('invoice 2024')).toBeNull();
+    expect(resolve('before:2024-01-01 budget')).toBeNull();
+  });
+
+  it('should resolve named calendar events', () => {
+    const range = extractTemporalExpression('decisions since the offsite', { now });
+    expect(range).toMatchObject({ dateFrom: day(2024, 3, 4), phrase: 'since the offsite' });
+  });
+
+  it('should strip the phrase from keywords and the parsed query', () => {
+    expect(parseQuery('budget notes from last week', now).keywords).toEqual(['budget', 'notes']);
+
+    const parsed = parseSearchQuery('budget last week', { now });
+    expect(parsed.ok && parsed.query.text).toBe('budget');
+  });
+
+  it('should apply resolved dates to search', () => {
+    const ids = (query: string) =>
+      simpleSearch(query, { searchTypes: ['message'], referenceDate: now }).map(r => r.id).sort();
+
+    expect(ids('budget')).toEqual(['t1', 't2', 't3']);
+    expect(ids('budget yesterday')).toEqual(['t1']);
+    expect(ids('budget in 2023')).toEqual(['t3']);
+    expect(ids('budget since the offsite')).toEqual(['t1']);
+    expect(ids('last month')).toEqual(['t2']);
+  });
+});
+
+describe('Multi-hop Graph Queries', () => {
+  beforeAll(() => {
+    initDb(':memory:');
+    const db = getDb();
+    const entity = db.prepare(`INSERT INTO entities (id, canonical_name, entity_type) VALUES (?, ?, 'person')`);
+    for (const [id, name] of [
+      ['me', 'Alex Morgan'], ['jake', 'Jake Smith'], ['ann', 'Ann Lee'], ['bob', 'Bob Stone'],
+      ['sarah', 'Sarah Chen'], ['tom', 'Tom Baker'], ['carol', 'Carol White'], ['priya', 'Priya Patel'],
+    ]) {
+      entity.run(id, name);
+    }
+
+    const edge = db.prepare(`
+      INSERT INTO graph_edges (id, from_entity_id, to_entity_id, edge_type, evidence_count)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    edge.run('g1', 'jake', 'ann', 'reports_to', 4);
+    edge.run('g2', 'bob', 'ann', 'assistant_to', 2);
+    edge.run('g3', 'carol', 'sarah', 'works_with', 3);
+    edge.run('g4', 'tom', 'carol', 'works_with', 1);
+    edge.run('g5', 'jake', 'sarah', 'works_with', 1);
+    edge.run('g6', 'me', 'sarah', 'communicates_with', 7);
+    edge.run('g7', 'sarah', 'priya', 'knows', 2);
+
+    db.prepare(`
+      INSERT INTO messages (id, source_type, source_id, sender_entity_id, body_text, timestamp, is_from_user)
+      VALUES ('mine', 'gmail', 'mine', 'me', 'hello', '2024-01-01T00:00:00.000Z', 1)
+    `).run();
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  const entityHits = (query: string) => graphSearch(query).filter(r => r.type === 'entity');
+
+  it('should parse chains, common-neighbour and path questions', () => {
+    expect(parseQuery("Jake's boss's assistant").chains).toEqual([{ entity: 'Jake', relations: ['boss', 'assistant'] }]);
+    expect(parseQuery('people who work with both Sarah and Tom').common)
+      .toEqual({ entities: ['Sarah', 'Tom'], relation: 'work' });
+    expect(parseQuery('how do I know Priya?').path).toEqual({ from: 'me', to: 'Priya' });
+  });
+
+  it('should follow typed, directed relation chains', () => {
+    expect(entityHits("Jake's boss").map(r => r.id)).toEqual(['ann']);
+
+    const [assistant] = entityHits("Jake's boss's assistant");
+    expect(assistant?.id).toBe('bob');
+    const path = (assistant?.data as { path: GraphPath }).path;
+    expect(path.nodes.map(n => n.id)).toEqual(['jake', 'ann', 'bob']);
+    expect(path.edges.map(e => [e.edgeType, e.evidenceCount])).toEqual([['reports_to', 4], ['assistant_to', 2]]);
+    expect(assistant?.highlight).toBe('Jake Smith -[reports_to]-> Ann Lee <-[assistant_to]- Bob Stone');
+  });
+
+  it('should find entities connected to both people', () => {
+    const hits = entityHits('people who work with both Sarah and Tom');
+    expect(hits.map(r => r.id)).toEqual(['carol']);
+    expect((hits[0]?.data as { paths: GraphPath[] }).paths).toHaveLength(2);
+  });
+
+  it('should explain how the user knows someone', () => {
+    const [hit] = entityHits('how do I know Priya?');
+    const path = (hit?.data as { path: GraphPath }).path;
+    expect(path.nodes.map(n => n.id)).toEqual(['me', 'sarah', 'priya']);
+    expect(path.edges.map(e => e.edgeType)).toEqual(['communicates_with', 'knows']);
+
+    expect(findShortestPath('bob', 'priya')?.nodes.map(n => n.id)).toEqual(['bob', 'ann', 'jake', 'sarah', 'priya']);
+    expect(findShortestPath('bob', 'priya', { maxDepth: 3 })).toBeNull();
+  });
+});
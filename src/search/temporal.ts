@@ -0,0 +1,398 @@
+// Natural-language date resolution for search queries
+//
+// Finds one temporal expression in a query ("yesterday", "last Tuesday",
+// "Q3 2024", "two weeks ago", "since the offsite", "emails from March")
+// and turns it into date bounds. Times are local, bounds are inclusive
+// (dateTo is the last millisecond of the range) to match SearchOptions.
+
+import { getDb } from '../db/connection';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface TemporalRange {
+  dateFrom?: Date;
+  dateTo?: Date;
+  phrase: string;  // Matched text, including any "since"/"before" modifier
+  start: number;   // Offset of the phrase in the query
+  end: number;     // Exclusive
+}
+
+export interface TemporalOptions {
+  now?: Date;
+  /** Look up named events ("since the offsite") in calendar events. Default true */
+  resolveEvents?: boolean;
+}
+
+interface Span {
+  start: Date;
+  end: Date;  // Exclusive
+}
+
+type Modifier = 'since' | 'after' | 'before' | 'until' | 'in';
+
+// ============================================================
+// VOCABULARY
+// ============================================================
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  couple: 2, 'a couple of': 2, 'a few': 3, few: 3,
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const MONTH_ABBREVIATIONS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const NUMBER = `(\\d+|${Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|')})`;
+const UNIT = '(day|week|month|quarter|year)s?';
+const WEEKDAY = `(${WEEKDAYS.join('|')}|tue|tues|wed|thu|thur|thurs|fri)`;
+const MONTH = `(${MONTHS.join('|')}|${MONTH_ABBREVIATIONS.join('|')}|sept)\\.?`;
+const MODIFIER = '(?:(since|after|before|until|from|in|during|on)\\s+)?';
+
+// ============================================================
+// DATE ARITHMETIC
+// ============================================================
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function startOfWeek(date: Date): Date {
+  // Weeks start on Monday
+  const day = (date.getDay() + 6) % 7;
+  return addDays(startOfDay(date), -day);
+}
+
+function unitSpan(unit: string, date: Date): Span {
+  switch (unit) {
+    case 'day': {
+      const start = startOfDay(date);
+      return { start, end: addDays(start, 1) };
+    }
+    case 'week': {
+      const start = startOfWeek(date);
+      return { start, end: addDays(start, 7) };
+    }
+    case 'month':
+      return {
+        start: new Date(date.getFullYear(), date.getMonth(), 1),
+        end: new Date(date.getFullYear(), date.getMonth() + 1, 1),
+      };
+    case 'quarter': {
+      const q = Math.floor(date.getMonth() / 3);
+      return {
+        start: new Date(date.getFullYear(), q * 3, 1),
+        end: new Date(date.getFullYear(), q * 3 + 3, 1),
+      };
+    }
+    default:
+      return {
+        start: new Date(date.getFullYear(), 0, 1),
+        end: new Date(date.getFullYear() + 1, 0, 1),
+      };
+  }
+}
+
+function shift(date: Date, unit: string, amount: number): Date {
+  switch (unit) {
+    case 'day':
+      return addDays(date, amount);
+    case 'week':
+      return addDays(date, amount * 7);
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth() + amount, date.getDate(), date.getHours(), date.getMinutes());
+    case 'quarter':
+      return new Date(date.getFullYear(), date.getMonth() + amount * 3, date.getDate(), date.getHours(), date.getMinutes());
+    default:
+      return new Date(date.getFullYear() + amount, date.getMonth(), date.getDate(), date.getHours(), date.getMinutes());
+  }
+}
+
+function parseNumber(value: string): number {
+  return /^\d+$/.test(value) ? Number(value) : NUMBER_WORDS[value.toLowerCase()] ?? 1;
+}
+
+function monthIndex(value: string): number {
+  const name = value.toLowerCase().replace('.', '').slice(0, 3);
+  return MONTH_ABBREVIATIONS.indexOf(name);
+}
+
+function weekdayIndex(value: string): number {
+  return WEEKDAYS.findIndex(d => d.startsWith(value.toLowerCase().slice(0, 3)));
+}
+
+// ============================================================
+// PATTERNS
+// ============================================================
+
+interface TemporalPattern {
+  regex: RegExp;
+  /** Whether the expression needs a modifier to count (avoids "may", "2024", ...) */
+  requiresModifier?: (match: RegExpExecArray) => boolean;
+  resolve(match: RegExpExecArray, now: Date): Span | null;
+}
+
+const PATTERNS: TemporalPattern[] = [
+  {
+    regex: /\b(today|yesterday)\b/gi,
+    resolve: (m, now) => {
+      const day = m[1]!.toLowerCase() === 'today' ? startOfDay(now) : addDays(startOfDay(now), -1);
+      return { start: day, end: addDays(day, 1) };
+    },
+  },
+  {
+    // "last 3 days", "past two weeks" - rolling window up to now
+    regex: new RegExp(`\\b(?:last|past|previous)\\s+${NUMBER}\\s+${UNIT}\\b`, 'gi'),
+    resolve: (m, now) => ({ start: shift(now, m[2]!.toLowerCase(), -parseNumber(m[1]!)), end: now }),
+  },
+  {
+    // "past week" - rolling; "last week", "this month" - calendar periods
+    regex: /\b(this|last|past|previous)\s+(day|week|month|quarter|year)\b/gi,
+    resolve: (m, now) => {
+      const which = m[1]!.toLowerCase();
+      const unit = m[2]!.toLowerCase();
+      if (which === 'past') return { start: shift(now, unit, -1), end: now };
+      return unitSpan(unit, which === 'this' ? now : shift(now, unit, -1));
+    },
+  },
+  {
+    // "two weeks ago" - the period containing that moment
+    regex: new RegExp(`\\b${NUMBER}\\s+${UNIT}\\s+ago\\b`, 'gi'),
+    resolve: (m, now) => {
+      const unit = m[2]!.toLowerCase();
+      return unitSpan(unit, shift(now, unit, -parseNumber(m[1]!)));
+    },
+  },
+  {
+    // "last Tuesday", "on Friday" - the most recent such day before today;
+    // "next Friday" - the coming one. A bare weekday ("Friday meeting notes")
+    // is usually a topic, not a date.
+    regex: new RegExp(`\\b(?:(last|this|past|next)\\s+)?${WEEKDAY}\\b`, 'gi'),
+    requiresModifier: m => !m[1],
+    resolve: (m, now) => {
+      const target = weekdayIndex(m[2]!);
+      if (target === -1) return null;
+      const today = startOfDay(now);
+      const which = m[1]?.toLowerCase();
+      if (which === 'next') {
+        const ahead = (target - today.getDay() + 7) % 7 || 7;
+        const day = addDays(today, ahead);
+        return { start: day, end: addDays(day, 1) };
+      }
+      let diff = (today.getDay() - target + 7) % 7;
+      if (diff === 0 && which !== 'this') diff = 7;
+      const day = addDays(today, -diff);
+      return { start: day, end: addDays(day, 1) };
+    },
+  },
+  {
+    // "Q3 2024", "Q1" (most recent Q1 not in the future)
+    regex: /\bq([1-4])(?:\s+(\d{4}))?\b/gi,
+    resolve: (m, now) => {
+      const quarter = Number(m[1]) - 1;
+      let year = m[2] ? Number(m[2]) : now.getFullYear();
+      if (!m[2] && new Date(year, quarter * 3, 1) > now) year--;
+      return { start: new Date(year, quarter * 3, 1), end: new Date(year, quarter * 3 + 3, 1) };
+    },
+  },
+  {
+    // "March 2024", "last March", "from March"
+    regex: new RegExp(`\\b(?:(last|this)\\s+)?${MONTH}(?:\\s+(\\d{4}))?\\b`, 'gi'),
+    requiresModifier: m => !m[1] && !m[3],
+    resolve: (m, now) => {
+      const month = monthIndex(m[2]!);
+      if (month === -1) return null;
+      let year = m[3] ? Number(m[3]) : now.getFullYear();
+      if (!m[3]) {
+        if (m[1]?.toLowerCase() === 'last' || new Date(year, month, 1) > now) year--;
+      }
+      return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+    },
+  },
+  {
+    // "in 2023"
+    regex: /\b((?:19|20)\d{2})\b/g,
+    requiresModifier: () => true,
+    resolve: m => ({ start: new Date(Number(m[1]), 0, 1), end: new Date(Number(m[1]) + 1, 0, 1) }),
+  },
+];
+
+/**
+ * Modifier immediately before a match, e.g. "since" in "since last week"
+ */
+function precedingModifier(text: string, index: number): { word: string; start: number } | null {
+  const before = text.slice(0, index);
+  const match = new RegExp(`${MODIFIER}$`, 'i').exec(before);
+  if (!match || !match[1]) return null;
+  return { word: match[1].toLowerCase(), start: match.index };
+}
+
+function normalizeModifier(word: string | undefined): Modifier {
+  switch (word) {
+    case 'since':
+    case 'after':
+    case 'before':
+    case 'until':
+      return word;
+    default:
+      return 'in';
+  }
+}
+
+function isInsideQuotes(text: string, index: number): boolean {
+  return (text.slice(0, index).match(/"/g)?.length ?? 0) % 2 === 1;
+}
+
+function applyModifier(span: Span, modifier: Modifier): { dateFrom?: Date; dateTo?: Date } {
+  const last = new Date(span.end.getTime() - 1);
+  switch (modifier) {
+    case 'since':
+      return { dateFrom: span.start };
+    case 'after':
+      return { dateFrom: span.end };
+    case 'before':
+      return { dateTo: new Date(span.start.getTime() - 1) };
+    case 'until':
+      return { dateTo: last };
+    default:
+      return { dateFrom: span.start, dateTo: last };
+  }
+}
+
+// ============================================================
+// NAMED EVENTS
+// ============================================================
+
+/**
+ * "since the offsite" - find the most recent past calendar event whose title
+ * matches the words after the modifier (longest match first)
+ */
+function resolveNamedEvent(text: string, now: Date): TemporalRange | null {
+  const pattern = /\b(since|after|before|until)\s+(?:the\s+|our\s+|my\s+)?((?:[\p{L}\p{N}'-]+\s*){1,3})/giu;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (isInsideQuotes(text, match.index)) continue;
+    const words = match[2]!.trim().split(/\s+/);
+
+    for (let count = words.length; count > 0; count--) {
+      const name = words.slice(0, count).join(' ');
+      if (name.length < 3) continue;
+
+      const event = getDb().prepare(`
+        SELECT timestamp, json_extract(payload, '$.endTime') as end_time
+        FROM events
+        WHERE event_type = 'CALENDAR_EVENT'
+          AND json_extract(payload, '$.title') LIKE ?
+          AND timestamp <= ?
+        ORDER BY timestamp DESC
+        LIMIT 1
+      `).get(`%${name}%`, now.toISOString()) as { timestamp: string; end_time: string | null } | undefined;
+
+      if (event) {
+        const start = new Date(event.timestamp);
+        const end = event.end_time ? new Date(event.end_time) : start;
+        const phraseEnd = text.indexOf(words[count - 1]!, match.index + match[1]!.length) + words[count - 1]!.length;
+
+        return {
+          ...applyModifier({ start, end }, normalizeModifier(match[1]!.toLowerCase())),
+          phrase: text.slice(match.index, phraseEnd),
+          start: match.index,
+          end: phraseEnd,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Find the first temporal expression in a query and resolve it to date bounds
+ */
+export function extractTemporalExpression(
+  text: string,
+  options: TemporalOptions = {}
+): TemporalRange | null {
+  const now = options.now ?? new Date();
+  let best: TemporalRange | null = null;
+
+  for (const pattern of PATTERNS) {
+    pattern.regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.regex.exec(text)) !== null) {
+      if (isInsideQuotes(text, match.index)) continue;
+
+      // Skip field filters like thread:2024 or before:2024-01-01
+      if (match.index > 0 && /[:\w-]/.test(text[match.index - 1]!)) continue;
+
+      const modifier = precedingModifier(text, match.index);
+      if (!modifier && pattern.requiresModifier?.(match)) continue;
+
+      const span = pattern.resolve(match, now);
+      if (!span) continue;
+
+      const start = modifier?.start ?? match.index;
+      const end = match.index + match[0].length;
+
+      // Leftmost wins, then longest
+      if (!best || start < best.start || (start === best.start && end > best.end)) {
+        best = {
+          ...applyModifier(span, normalizeModifier(modifier?.word)),
+          phrase: text.slice(start, end),
+          start,
+          end,
+        };
+      }
+    }
+  }
+
+  if (!best && options.resolveEvents !== false) {
+    try {
+      best = resolveNamedEvent(text, now);
+    } catch {
+      // No database (or no events table) - named events just don't resolve
+      best = null;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Remove a resolved temporal phrase from a query
+ */
+export function stripTemporalExpression(text: string, range: TemporalRange): string {
+  return (text.slice(0, range.start) + text.slice(range.end)).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fill missing dateFrom/dateTo from a resolved phrase. Explicit bounds win.
+ */
+export function applyTemporalRange<T extends { dateFrom?: Date; dateTo?: Date }>(
+  options: T,
+  range: TemporalRange | null | undefined
+): T {
+  if (!range) return options;
+  return {
+    ...options,
+    dateFrom: options.dateFrom ?? range.dateFrom,
+    dateTo: options.dateTo ?? range.dateTo,
+  };
+}
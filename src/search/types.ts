@@ -1,31 +1,153 @@
 // Search types
 
+import type { SearchQuery } from './query';
+
 export interface SearchResult {
   id: string;
-  type: 'message' | 'assertion' | 'entity';
+  type: 'message' | 'assertion' | 'entity' | 'attachment';
   score: number;
+  rawScore?: number;   // A leg's own score when `score` is normalised from it, e.g. BM25 (lower is better)
   source: 'vector' | 'fts' | 'graph' | 'fused';
   highlight?: string;  // Relevant snippet
+  chunk?: EmbeddingChunk;  // Matching passage when the hit came from a chunk vector
+  explanation?: SearchExplanation;  // Present when searched with `explain: true`
   data: unknown;
 }
 
+/**
+ * How one search leg (e.g. FTS over messages) ranked a fused result
+ */
+export interface LegContribution {
+  leg: string;                         // e.g. 'fts:message', 'vector:entity', 'graph'
+  source: 'fts' | 'vector' | 'graph';
+  rank: number;                        // 1-based, among distinct results in that leg
+  rawScore: number;                    // The leg's own score (BM25, similarity, graph weight; else its rank score)
+  contribution: number;                // RRF term, 1 / (k + rank)
+}
+
+export interface LegTiming {
+  leg: string;                         // A leg name, or 'embedding' for the query embedding
+  ms: number;
+  resultCount: number;
+}
+
+/**
+ * A multiplier applied to a result's fused score after RRF
+ */
+export interface ScoreBoost {
+  kind: 'importance' | 'community';
+  factor: number;
+}
+
+/**
+ * Why a result ranked where it did. The query and timings are shared by
+ * every result of one search. The score is the sum of the legs'
+ * contributions times every boost factor.
+ */
+export interface SearchExplanation {
+  query: SearchQuery;
+  k: number;                           // RRF constant
+  legs: LegContribution[];             // Only the legs that returned this result
+  boosts: ScoreBoost[];                // In the order they were applied
+  timings: LegTiming[];
+}
+
+/**
+ * One hop of a graph path, in the stored edge's own direction
+ */
+export interface PathEdge {
+  fromId: string;
+  toId: string;
+  edgeType: string;
+  evidenceCount: number;
+  strength: number;
+}
+
+/**
+ * A walk through graph_edges; nodes[i] and nodes[i + 1] are joined by edges[i]
+ */
+export interface GraphPath {
+  nodes: Array<{ id: string; name: string }>;
+  edges: PathEdge[];
+}
+
 export interface SearchOptions {
   limit?: number;
   offset?: number;
-  sourceTypes?: Array<'gmail' | 'imessage' | 'slack'>;
+  sourceTypes?: Array<'gmail' | 'imessage' | 'slack' | 'email' | 'whatsapp' | 'telegram' | 'signal'>;
   dateFrom?: Date;
   dateTo?: Date;
   entityIds?: string[];  // Filter to messages involving these entities
-  searchTypes?: Array<'message' | 'assertion' | 'entity'>;
+  searchTypes?: Array<'message' | 'assertion' | 'entity' | 'attachment'>;
+  resolveDates?: boolean;  // Turn "last week", "Q3 2024", ... into dateFrom/dateTo (default true)
+  referenceDate?: Date;    // "Now" for relative dates (default: current time)
+  explain?: boolean;       // Attach per-leg ranks, scores and timings to each result
+  communityId?: string;    // Restrict to (or boost) results involving members of this community
+  communityMode?: 'filter' | 'boost';  // Default 'filter'
+  communityBoost?: number; // Score multiplier is 1 + this in 'boost' mode (default 0.5)
+  importanceBoost?: number; // Score multiplier is 1 + this × entity importance (default 0.3, 0 disables)
 }
 
 export interface EmbeddingConfig {
-  endpoint: string;     // e.g., "http://localhost:11434/api/embeddings"
+  endpoint: string;     // e.g., "http://localhost:11434/api/embeddings", or "local" for the offline provider
   model: string;        // e.g., "nomic-embed-text"
+  provider?: 'ollama' | 'openai' | 'local';  // Auto-detected from endpoint if omitted
+  apiKey?: string;      // OpenAI-compatible endpoints
+  dimensions?: number;  // Requested output size (OpenAI text-embedding-3, local provider)
+}
+
+/**
+ * Anything that can turn text into a vector
+ */
+export interface EmbeddingProvider {
+  readonly name: string;        // e.g., 'ollama', 'openai', 'local'
+  readonly model: string;       // Recorded with stored vectors; changing it triggers re-embedding
+  readonly dimensions?: number;
+  embed(text: string): Promise<number[]>;
+  embedBatch?(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Location of a chunk vector within its source text
+ */
+export interface EmbeddingChunk {
+  index: number;
+  start: number;  // Character offset into the source text
+  end: number;    // Exclusive
 }
 
 export interface VectorSearchResult {
   id: string;
+  sourceId: string;
+  sourceType: string;
   score: number;  // Cosine similarity
+  chunk?: EmbeddingChunk;
   embedding?: number[];
 }
+
+export interface VectorStoreStats {
+  backend: string;
+  count: number;
+  byType: Record<string, number>;
+}
+
+/**
+ * Common interface over the vector backends (SQLite, LanceDB)
+ */
+export interface VectorStore {
+  readonly backend: string;
+  add(
+    sourceId: string,
+    sourceType: string,
+    embedding: number[],
+    options?: { model?: string; chunk?: EmbeddingChunk }
+  ): Promise<string>;
+  search(
+    queryEmbedding: number[],
+    limit: number,
+    filters?: { sourceType?: string }
+  ): Promise<VectorSearchResult[]>;
+  deleteBySource(sourceId: string, sourceType?: string): Promise<void>;
+  stats(): Promise<VectorStoreStats>;
+  clear(): Promise<void>;
+}
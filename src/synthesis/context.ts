@@ -10,6 +10,7 @@
 import { query } from '../db/connection';
 import type { Entity, Assertion, Commitment, Goal } from '../types';
 import { getGoalProgress } from '../goals/tracker';
+import { getCommunityMemberIds } from '../entity/communities';
 
 // ============================================================
 // TYPES
@@ -32,6 +33,8 @@ export interface ContextBundle {
   calendarContext?: CalendarContext;
   /** Conversation context */
   conversationContext?: ConversationContext;
+  /** Community the bundle was scoped to */
+  community?: { id: string; name: string; memberCount: number };
   /** Assembled at */
   assembledAt: Date;
   /** Time to assemble (ms) */
@@ -108,9 +111,15 @@ export function assembleContext(options: {
   includeScreen?: boolean;
   includeCalendar?: boolean;
   limit?: number;
+  /** Keep only (or, in 'boost' mode, rank first) entities and facts from this community */
+  communityId?: string;
+  communityMode?: 'filter' | 'boost';
 }): ContextBundle {
   const startTime = Date.now();
   const limit = options.limit || 10;
+  const members = options.communityId ? getCommunityMemberIds(options.communityId) : undefined;
+  // Over-fetch facts when scoping so filtering still leaves enough
+  const factLimit = members ? limit * 3 : limit;
 
   const bundle: ContextBundle = {
     relatedEntities: [],
@@ -137,9 +146,24 @@ export function assembleContext(options: {
 
   // Get relevant facts
   if (options.entityIds) {
-    bundle.relevantFacts = getRelevantFacts(options.entityIds, limit);
+    bundle.relevantFacts = getRelevantFacts(options.entityIds, factLimit);
   } else if (options.query) {
-    bundle.relevantFacts = searchFacts(options.query, limit);
+    bundle.relevantFacts = searchFacts(options.query, factLimit);
+  }
+
+  if (members && options.communityId) {
+    const mode = options.communityMode ?? 'filter';
+    bundle.relatedEntities = scopeToCommunity(bundle.relatedEntities, mode, e => members.has(e.entity.id));
+    bundle.relevantFacts = scopeToCommunity(bundle.relevantFacts, mode, f =>
+      [f.assertion.subjectEntityId, f.assertion.objectEntityId].some(id => id !== undefined && members.has(id))
+    ).slice(0, limit);
+
+    const community = query<{ id: string; community_name: string | null; member_count: number }>(`
+      SELECT id, community_name, member_count FROM entity_communities WHERE id = ?
+    `, [options.communityId])[0];
+    if (community) {
+      bundle.community = { id: community.id, name: community.community_name ?? '', memberCount: community.member_count };
+    }
   }
 
   // Get commitments
@@ -161,6 +185,14 @@ export function assembleContext(options: {
   return bundle;
 }
 
+/**
+ * Drop items outside a community ('filter') or move community items first ('boost')
+ */
+function scopeToCommunity<T>(items: T[], mode: 'filter' | 'boost', inCommunity: (item: T) => boolean): T[] {
+  if (mode === 'filter') return items.filter(inCommunity);
+  return [...items.filter(inCommunity), ...items.filter(item => !inCommunity(item))];
+}
+
 /**
  * Get context for an entity
  */
@@ -457,7 +489,7 @@ function getConversationContext(threadId: string): ConversationContext {
     subject: string | null;
     body_text: string;
   }>(`
-    SELECT id, timestamp, subject, body_text
+    SELECT id, timestamp, subject, COALESCE(body_clean, body_text) AS body_text
     FROM messages
     WHERE thread_id = ?
     ORDER BY timestamp DESC
@@ -18,7 +18,7 @@ export interface Entity {
 export interface EntityAttribute {
   id: string;
   entityId: string;
-  attributeType: string;  // 'email', 'phone', 'title', 'alias', 'company'
+  attributeType: string;  // 'email', 'phone', 'title', 'company' (aliases are in EntityAlias)
   attributeValue: string;
   confidence: number;
   sourceAssertionId?: string;
@@ -27,6 +27,19 @@ export interface EntityAttribute {
 
 export interface EntityWithAttributes extends Entity {
   attributes: EntityAttribute[];
+  importance?: EntityImportance;  // Present once importance has been computed
+}
+
+export type AliasType = 'alias' | 'handle';
+
+export interface EntityAlias {
+  id: string;
+  entityId: string;
+  aliasType: AliasType;   // 'alias' is a name ("Dad", "J. Doe"), 'handle' an account ("@jdoe")
+  value: string;
+  source?: string;        // Source it applies to ('slack', 'imessage', ...); undefined for all
+  confidence: number;
+  createdAt: Date;
 }
 
 // ============================================================
@@ -59,9 +72,16 @@ export interface GraphEdge {
   strength: number;
   evidenceCount: number;
   lastEvidenceAt?: Date;
+  currentStrength?: number;  // strength decayed since lastEvidenceAt by the edge type's half-life
   createdAt: Date;
 }
 
+export interface RelationshipStrengthPoint {
+  at: Date;
+  strength: number;          // Decayed strength at this time; 0 before any evidence
+  evidenceCount: number;     // Evidence seen up to this time
+}
+
 export interface GraphNode {
   entity: Entity;
   edges: Array<{
@@ -74,7 +94,7 @@ export interface GraphNode {
 // MESSAGE TYPES
 // ============================================================
 
-export type SourceType = 'gmail' | 'imessage' | 'slack';
+export type SourceType = 'gmail' | 'imessage' | 'slack' | 'email' | 'whatsapp' | 'telegram' | 'signal';  // 'email': mbox/.eml imports
 
 export interface NormalizedMessage {
   id: string;
@@ -85,12 +105,14 @@ export interface NormalizedMessage {
   sender: {
     email?: string;
     phone?: string;
+    handle?: string;  // Account id on the source (Slack user id, ...)
     name?: string;
   };
 
   recipients: Array<{
     email?: string;
     phone?: string;
+    handle?: string;
     name?: string;
     type: 'to' | 'cc' | 'bcc';
   }>;
@@ -98,11 +120,33 @@ export interface NormalizedMessage {
   subject?: string;
   bodyText: string;
   bodyHtml?: string;
+  attachments?: NormalizedAttachment[];
 
   timestamp: Date;
   isFromUser: boolean;
 }
 
+export interface NormalizedAttachment {
+  filename: string;
+  mimeType: string;
+  size?: number;          // Bytes (default: the content's length)
+  contentHash?: string;   // SHA-256 hex (default: computed from the content)
+  content?: Buffer;       // When the source includes the file itself
+  text?: string;          // Text already extracted by the source
+}
+
+export interface StoredAttachment {
+  id: string;
+  messageId: string;
+  filename: string;
+  mimeType: string;
+  size?: number;
+  contentHash?: string;
+  text?: string;
+  extractionStatus: 'extracted' | 'unsupported' | 'too_large' | 'no_content' | 'failed';
+  createdAt: Date;
+}
+
 export interface StoredMessage {
   id: string;
   sourceType: SourceType;
@@ -137,6 +181,13 @@ export interface SearchOptions {
   dateFrom?: Date;
   dateTo?: Date;
   entityIds?: string[];
+  resolveDates?: boolean;  // Turn "last week", "Q3 2024", ... into dateFrom/dateTo (default true)
+  referenceDate?: Date;    // "Now" for relative dates
+  explain?: boolean;       // Attach per-leg ranks, scores and timings to each result
+  communityId?: string;    // Restrict to (or boost) results involving members of this community
+  communityMode?: 'filter' | 'boost';  // Default 'filter'
+  communityBoost?: number; // Score multiplier is 1 + this in 'boost' mode (default 0.5)
+  importanceBoost?: number; // Score multiplier is 1 + this × entity importance (default 0.3, 0 disables)
 }
 
 // ============================================================
@@ -208,11 +259,39 @@ export interface IngestResult {
 export interface PeanutConfig {
   dbPath: string;
   vectorDbPath?: string;
+  vectorBackend?: 'sqlite' | 'lancedb';  // Default 'sqlite' (embeddings table in dbPath)
+  vectorIndex?: {                        // HNSW index over the sqlite backend
+    enabled?: boolean;                   // Default true
+    dir?: string;                        // Default <dbPath dir>/vector-index
+    m?: number;                          // Graph degree (default 16)
+    efConstruction?: number;             // Build-time beam width (default 100)
+    efSearch?: number;                   // Query-time beam width (default 64)
+    exactSearchThreshold?: number;       // Exact scan below this many vectors (default 5000)
+  };
   embeddingModel?: string;
   embeddingDimensions?: number;  // Default 768 for nomic-embed-text
   llmEndpoint?: string;
   userEmail?: string;  // To identify user's own messages
   userPhone?: string;
+  phoneRegion?: string;  // ISO 3166 region for numbers without a country code (default 'US')
+  orgInference?: {                       // Org entities from email domains and signatures
+    enabled?: boolean;                   // Default true
+    personalDomains?: string[];          // Replaces the default freemail list
+    extraPersonalDomains?: string[];     // Added to the default freemail list
+  };
+  nameMatching?: {
+    nicknameLocales?: string[];          // Locales to match nicknames in (default all)
+    nicknames?: Record<string, Record<string, string[]>>;  // locale -> full name -> nicknames
+    transliterations?: Record<string, string>;             // Extra Chinese character readings
+  };
+  edgeDecay?: {                          // Relationship strength decay
+    halfLifeDays?: Record<string, number | null>;  // edge_type -> half-life in days (null: never decays)
+    defaultHalfLifeDays?: number;        // For other edge types (default 180)
+  };
+  attachments?: {                        // Text extraction from attachments
+    maxBytes?: number;                   // Larger files keep only their metadata (default 20 MB)
+    maxTextLength?: number;              // Extracted text is cut to this many characters (default 200000)
+  };
 }
 
 // ============================================================
@@ -532,15 +611,152 @@ export interface ScreenCapture {
 // QUARANTINE TYPES (Strategy Part 12)
 // ============================================================
 
+export type QuarantineReason = 'low_confidence' | 'ambiguous' | 'conflicting_attributes';
+export type QuarantineDecision = 'merge' | 'keep_separate' | 'needs_more_info';
+
 export interface QuarantinedEntity {
   id: string;
   potentialEntityId1: string;
   potentialEntityId2: string;
   similarityScore: number;
-  quarantineReason: 'low_confidence' | 'ambiguous' | 'conflicting_attributes';
+  quarantineReason: QuarantineReason;
   sourceMessageId?: string;
   createdAt: Date;
   reviewed: boolean;
-  reviewDecision?: 'merge' | 'keep_separate' | 'needs_more_info';
+  reviewDecision?: QuarantineDecision;
   reviewedAt?: Date;
 }
+
+/**
+ * What we know about one side of a quarantined pair, for side-by-side review
+ */
+export interface QuarantineEvidence {
+  entityId: string;
+  canonicalName: string;
+  entityType: EntityType;
+  attributes: Array<{ type: string; value: string }>;
+  messageCount: number;
+  lastSeen?: Date;
+  recentMessages: Array<{ id: string; subject?: string; snippet: string; timestamp: Date }>;
+  connections: Array<{ entityId: string; name: string; edgeType: string }>;
+  facts: string[];
+}
+
+export interface QuarantinePair extends QuarantinedEntity {
+  entity1: QuarantineEvidence;
+  entity2: QuarantineEvidence;
+  sharedConnections: string[];  // Names connected to both
+}
+
+// ============================================================
+// MERGE JOURNAL TYPES
+// ============================================================
+
+export interface MergeCounts {
+  attributes: number;
+  edges: number;
+  messages: number;
+  assertions: number;
+}
+
+/**
+ * One journaled merge or split. For a split, keepEntityId is the entity
+ * that was split and mergedEntityId the entity created from it.
+ */
+export interface MergeJournalEntry {
+  id: string;
+  operation: 'merge' | 'split';
+  keepEntityId: string;
+  mergedEntityId: string;
+  createdAt: Date;
+  revertedAt?: Date;
+  counts: MergeCounts;
+}
+
+export interface UnmergeResult {
+  restored: boolean;
+  reason?: string;
+  counts?: MergeCounts;
+}
+
+export interface SplitResult {
+  entityId: string | null;      // The new entity, null if nothing was split
+  reason?: string;
+  counts?: MergeCounts;
+}
+
+// ============================================================
+// DUPLICATE DETECTION TYPES
+// ============================================================
+
+/**
+ * Per-feature similarity for a candidate pair, each in [0, 1]
+ */
+export interface DuplicateFeatures {
+  name: number;
+  email: number;        // 1 = shared address, 0.3 = shared (non-freemail) domain
+  phone: number;        // 1 = same number (last 7 digits)
+  company: number;      // 1 = same company attribute or works_at target
+  neighbours: number;   // Jaccard overlap of graph neighbours
+}
+
+export interface DuplicateCandidate {
+  entity1: { id: string; name: string };
+  entity2: { id: string; name: string };
+  score: number;
+  features: DuplicateFeatures;
+  blocks: string[];     // Blocking keys the pair shared, e.g. 'sx:R163:S350', 'dom:acme.com'
+}
+
+// ============================================================
+// COMMUNITY TYPES
+// ============================================================
+
+export interface EntityCommunity {
+  id: string;
+  name: string;               // Dominant org or context, else "<central member>'s circle"
+  memberCount: number;
+  cohesionScore: number;      // Share of members' edge weight that stays inside the community
+  centralEntityId?: string;
+  detectedAt: Date;
+  lastUpdated?: Date;
+}
+
+export interface CommunityMember {
+  entityId: string;
+  name: string;
+  entityType: EntityType;
+  centrality: number;         // Weighted degree inside the community, 1 = most central
+}
+
+export interface CommunityDetectionResult {
+  communities: number;
+  entitiesAssigned: number;
+  modularity: number;
+}
+
+// ============================================================
+// IMPORTANCE TYPES
+// ============================================================
+
+export interface ImportanceWeights {
+  frequency: number;
+  recency: number;
+  reciprocity: number;
+  centrality: number;
+}
+
+/**
+ * How much an entity matters to the user; every component is in [0, 1]
+ */
+export interface EntityImportance {
+  entityId: string;
+  score: number;
+  frequency: number;
+  recency: number;
+  reciprocity: number;
+  centrality: number;
+  messageCount: number;
+  lastInteractionAt?: Date;
+  computedAt: Date;
+}
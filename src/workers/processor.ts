@@ -6,12 +6,17 @@
 // - Updates behavioral patterns
 // - Updates daily rhythms
 // - Generates predictions
+// - Re-detects entity communities and re-scores entity importance (hourly by default)
+// - Decays relationship edge strength (hourly by default)
 
 import { v4 as uuid } from 'uuid';
 import { execute, query } from '../db/connection';
 import { detectPatterns, savePattern, recordPatternObservation, getPatterns } from '../behavioral/patterns';
 import { buildRhythmMatrix, saveRhythms } from '../behavioral/rhythms';
 import { generatePredictions, getPendingPredictions, savePrediction } from '../behavioral/predictions';
+import { detectCommunities } from '../entity/communities';
+import { computeEntityImportance } from '../entity/importance';
+import { recomputeEdgeStrengths } from '../entity/decay';
 
 // ============================================================
 // TYPES
@@ -28,6 +33,18 @@ export interface WorkerConfig {
   enableRhythmUpdates: boolean;
   /** Enable prediction generation (default: true) */
   enablePredictions: boolean;
+  /** Enable entity community detection (default: true) */
+  enableCommunityDetection: boolean;
+  /** Minimum time between community detection runs in milliseconds (default: 3600000 = 1 hour) */
+  communityDetectionIntervalMs: number;
+  /** Enable entity importance scoring (default: true) */
+  enableImportanceRanking: boolean;
+  /** Minimum time between importance runs in milliseconds (default: 3600000 = 1 hour) */
+  importanceIntervalMs: number;
+  /** Enable relationship strength decay (default: true) */
+  enableEdgeDecay: boolean;
+  /** Minimum time between edge decay runs in milliseconds (default: 3600000 = 1 hour) */
+  edgeDecayIntervalMs: number;
 }
 
 export interface WorkerStatus {
@@ -46,6 +63,9 @@ export interface ProcessingResult {
   patternsDetected: number;
   rhythmsUpdated: boolean;
   predictionsGenerated: number;
+  communitiesDetected: number;
+  entitiesRanked: number;
+  edgesDecayed: number;
   errors: string[];
 }
 
@@ -59,10 +79,19 @@ const DEFAULT_CONFIG: WorkerConfig = {
   enablePatternDetection: true,
   enableRhythmUpdates: true,
   enablePredictions: true,
+  enableCommunityDetection: true,
+  communityDetectionIntervalMs: 3600000,
+  enableImportanceRanking: true,
+  importanceIntervalMs: 3600000,
+  enableEdgeDecay: true,
+  edgeDecayIntervalMs: 3600000,
 };
 
 let workerConfig: WorkerConfig = { ...DEFAULT_CONFIG };
 let workerInterval: ReturnType<typeof setInterval> | null = null;
+let lastCommunityDetectionAt = 0;
+let lastImportanceAt = 0;
+let lastEdgeDecayAt = 0;
 let workerStatus: WorkerStatus = {
   running: false,
   lastCycleAt: null,
@@ -133,6 +162,9 @@ export async function triggerProcessingCycle(): Promise<ProcessingResult> {
     patternsDetected: 0,
     rhythmsUpdated: false,
     predictionsGenerated: 0,
+    communitiesDetected: 0,
+    entitiesRanked: 0,
+    edgesDecayed: 0,
     errors: [],
   };
 
@@ -163,6 +195,33 @@ export async function triggerProcessingCycle(): Promise<ProcessingResult> {
       result.predictionsGenerated = predResult.generated;
     }
 
+    // 5. Re-detect entity communities
+    if (
+      workerConfig.enableCommunityDetection &&
+      Date.now() - lastCommunityDetectionAt >= workerConfig.communityDetectionIntervalMs
+    ) {
+      result.communitiesDetected = detectCommunities().communities;
+      lastCommunityDetectionAt = Date.now();
+    }
+
+    // 6. Re-score entity importance
+    if (
+      workerConfig.enableImportanceRanking &&
+      Date.now() - lastImportanceAt >= workerConfig.importanceIntervalMs
+    ) {
+      result.entitiesRanked = computeEntityImportance().entitiesScored;
+      lastImportanceAt = Date.now();
+    }
+
+    // 7. Decay relationship strength
+    if (
+      workerConfig.enableEdgeDecay &&
+      Date.now() - lastEdgeDecayAt >= workerConfig.edgeDecayIntervalMs
+    ) {
+      result.edgesDecayed = recomputeEdgeStrengths().edgesUpdated;
+      lastEdgeDecayAt = Date.now();
+    }
+
     // Update status
     workerStatus.lastCycleAt = new Date();
     workerStatus.cycleCount++;